@@ -1,121 +1,168 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { AccidentData, TraumaAnalysis } from './types';
-import { analyzeTraumaData } from './services/geminiService';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { AccidentData, AnatomicalRegion, AnalysisSource, CaseChatMessage, CaseOutcome, CaseRecord, FamilyBriefing, TraumaAnalysis, VitalSigns } from './types';
+import { ProviderPreference, isOnline, runAnalysis } from './services/analysisService';
+import { AnalysisValidationError } from './services/validation';
+import { CancelledError } from './services/retry';
 import InjuryChart from './components/InjuryChart';
-import { GoogleGenAI, Modality, LiveServerMessage } from '@google/genai';
-
-// Helper functions for Gemini Live API as per documentation
-function encode(bytes: Uint8Array) {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return btoa(binary);
-}
-
-function createBlob(data: Float32Array): { data: string; mimeType: string } {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
-  }
-  return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
-  };
-}
+import CrashParametersForm from './components/CrashParametersForm';
+import CrashFactsPanel from './components/CrashFactsPanel';
+import { getSeverityColor } from './components/SeverityBadge';
+import BodyMap from './components/BodyMap';
+import InjuryScoresPanel from './components/InjuryScoresPanel';
+import VitalSignsForm from './components/VitalSignsForm';
+import PhysiologyPanel from './components/PhysiologyPanel';
+import { hasVitals } from './services/physiology';
+import HistoryPanel from './components/HistoryPanel';
+import CaseComparison from './components/CaseComparison';
+import OutcomeRecorder from './components/OutcomeRecorder';
+import CalibrationDashboard from './components/CalibrationDashboard';
+import ClinicalReport from './components/ClinicalReport';
+import StreamingPreview from './components/StreamingPreview';
+import { buildFhirBundle } from './services/fhirExport';
+import { downloadFile, fileTimestamp } from './services/download';
+import { createCaseRecord, deleteCase, listCases, saveCase, updateCase } from './services/caseStore';
+import { AIS_LABELS, scoreAnalysis } from './services/injuryScoring';
+import { VoiceCapture, VoiceCaptureStatus, startVoiceCapture } from './services/voiceCapture';
+import { generateFamilyBriefing } from './services/geminiService';
+import { UI_LANGUAGES, UI_STRINGS, UiLanguage, containsUrduScript, loadUiLanguage, saveUiLanguage } from './services/i18n';
+import FamilyBriefingPanel from './components/FamilyBriefingPanel';
+import CaseChatPanel from './components/CaseChatPanel';
+import RedactionPreview from './components/RedactionPreview';
+import AccessCodeControl from './components/AccessCodeControl';
+import BatchPanel from './components/BatchPanel';
+import EpidemiologyDashboard from './components/EpidemiologyDashboard';
+import IncidentPanel from './components/IncidentPanel';
+import DecisionRulesPanel from './components/DecisionRulesPanel';
+import EnsemblePanel, { ConsensusNote } from './components/EnsemblePanel';
+import PhotoAttachments from './components/PhotoAttachments';
+import PhotoFindingsPanel, { PhotoSourceNote } from './components/PhotoFindingsPanel';
+import PatientProfileForm from './components/PatientProfileForm';
+import PopulationPanel, { PopulationRuleNote } from './components/PopulationPanel';
+
+type View = 'analyze' | 'incident' | 'history' | 'compare' | 'calibration' | 'epidemiology' | 'batch';
 
 const App: React.FC = () => {
+  const [view, setView] = useState<View>('analyze');
+  const [language, setLanguage] = useState<UiLanguage>(loadUiLanguage);
+  const t = UI_STRINGS[language];
   const [loading, setLoading] = useState(false);
   const [analysis, setAnalysis] = useState<TraumaAnalysis | null>(null);
+  const [submittedData, setSubmittedData] = useState<AccidentData | null>(null);
+  const [source, setSource] = useState<AnalysisSource | null>(null);
+  const [providerPreference, setProviderPreference] = useState<ProviderPreference>('auto');
+  const [online, setOnline] = useState(isOnline());
+  const [selectedRegion, setSelectedRegion] = useState<AnatomicalRegion | null>(null);
+  const [error, setError] = useState<{ message: string; issues: string[] } | null>(null);
+  const [streamResults, setStreamResults] = useState(true);
+  const [partial, setPartial] = useState<Partial<TraumaAnalysis> | null>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+
+  // Urdu family briefing; the English analysis stays the record
+  const [wantFamilyBriefing, setWantFamilyBriefing] = useState(false);
+  const [familyBriefing, setFamilyBriefing] = useState<FamilyBriefing | null>(null);
+  const [briefingLoading, setBriefingLoading] = useState(false);
+  const [briefingError, setBriefingError] = useState<string | null>(null);
+  const briefingRequestRef = useRef(0);
+
+  // Follow-up Q&A on the current case
+  const [chat, setChat] = useState<CaseChatMessage[]>([]);
   const [formData, setFormData] = useState<AccidentData>({
     accidentDescription: ''
   });
 
+  // Case log (IndexedDB)
+  const [caseLabel, setCaseLabel] = useState('');
+  const [cases, setCases] = useState<CaseRecord[]>([]);
+  const [currentCaseId, setCurrentCaseId] = useState<string | null>(null);
+  const [comparePair, setComparePair] = useState<[CaseRecord, CaseRecord] | null>(null);
+
   // Voice Interaction State
-  const [isListening, setIsListening] = useState(false);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
-  const sessionRef = useRef<any>(null);
+  const [voiceStatus, setVoiceStatus] = useState<VoiceCaptureStatus>('stopped');
+  const [inputLevel, setInputLevel] = useState(0);
+  const captureRef = useRef<VoiceCapture | null>(null);
+  const voicePhiAcknowledgedRef = useRef(false);
+  const isListening = voiceStatus !== 'stopped';
+  const voiceStatusLabels: Record<VoiceCaptureStatus, string> = {
+    connecting: t.voiceConnecting,
+    listening: t.voiceListening,
+    speaking: t.voiceSpeaking,
+    reconnecting: t.voiceReconnecting,
+    stopped: '',
+  };
+
+  const narrativeIsUrdu = containsUrduScript(formData.accidentDescription);
+  const scores = useMemo(() => (analysis ? scoreAnalysis(analysis) : null), [analysis]);
+
+  const refreshCases = () => {
+    listCases()
+      .then(setCases)
+      .catch(err => console.error('Failed to load case log', err));
+  };
+
+  useEffect(refreshCases, []);
+
+  useEffect(() => {
+    saveUiLanguage(language);
+    document.documentElement.lang = language;
+  }, [language]);
+
+  useEffect(() => {
+    const update = () => setOnline(isOnline());
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    setFormData({ accidentDescription: e.target.value });
+    setFormData(prev => ({ ...prev, accidentDescription: e.target.value }));
+  };
+
+  const handleParametersChange = (patch: Partial<AccidentData>) => {
+    setFormData(prev => ({ ...prev, ...patch }));
+  };
+
+  const handleVitalsChange = (vitals: VitalSigns) => {
+    setFormData(prev => ({ ...prev, vitals }));
   };
 
   const stopListening = () => {
-    if (sessionRef.current) {
-      sessionRef.current = null; // Promise will be replaced
-    }
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
-    }
-    if (audioContextRef.current) {
-      audioContextRef.current.close();
-      audioContextRef.current = null;
-    }
-    setIsListening(false);
+    captureRef.current?.stop();
+    captureRef.current = null;
+    setVoiceStatus('stopped');
   };
 
   const startListening = async () => {
+    // Audio can't be redacted before upload, so the user is warned once per session.
+    if (!voicePhiAcknowledgedRef.current) {
+      if (!window.confirm(t.voicePhiWarning)) return;
+      voicePhiAcknowledgedRef.current = true;
+    }
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      audioContextRef.current = inputAudioContext;
-      
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      streamRef.current = stream;
-
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        callbacks: {
-          onopen: () => {
-            const source = inputAudioContext.createMediaStreamSource(stream);
-            const scriptProcessor = inputAudioContext.createScriptProcessor(4096, 1, 1);
-            scriptProcessor.onaudioprocess = (audioProcessingEvent) => {
-              const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-              const pcmBlob = createBlob(inputData);
-              sessionPromise.then((session) => {
-                session.sendRealtimeInput({ media: pcmBlob });
-              });
-            };
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(inputAudioContext.destination);
-            setIsListening(true);
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            if (message.serverContent?.inputTranscription) {
-              const text = message.serverContent.inputTranscription.text;
-              setFormData(prev => ({
-                ...prev,
-                accidentDescription: prev.accidentDescription + (prev.accidentDescription ? ' ' : '') + text
-              }));
-            }
-          },
-          onerror: (e) => {
-            console.error('Live API Error:', e);
-            stopListening();
-          },
-          onclose: () => {
-            setIsListening(false);
-          },
-        },
-        config: {
-          responseModalities: [Modality.AUDIO],
-          inputAudioTranscription: {},
-          systemInstruction: 'You are a silent transcriber for a medical trauma app. Just transcribe what the user says exactly. Do not respond verbally.',
+      captureRef.current = await startVoiceCapture({
+        onTranscript: text => setFormData(prev => ({
+          ...prev,
+          accidentDescription: prev.accidentDescription + (prev.accidentDescription ? ' ' : '') + text
+        })),
+        onStatus: setVoiceStatus,
+        onLevel: setInputLevel,
+        onError: err => {
+          captureRef.current = null;
+          alert(`${t.voiceStopped}: ${err.message}`);
         },
       });
-
-      sessionRef.current = sessionPromise;
     } catch (err) {
       console.error("Failed to start voice session:", err);
-      alert("Microphone access is required for voice input.");
+      setVoiceStatus('stopped');
+      alert(t.microphoneRequired);
     }
   };
 
+  useEffect(() => () => captureRef.current?.stop(), []);
+
   const toggleListening = () => {
     if (isListening) {
       stopListening();
@@ -124,37 +171,148 @@ const App: React.FC = () => {
     }
   };
 
+  const resetFamilyBriefing = (briefing: FamilyBriefing | null = null) => {
+    briefingRequestRef.current++;
+    setFamilyBriefing(briefing);
+    setBriefingLoading(false);
+    setBriefingError(null);
+  };
+
+  const prepareFamilyBriefing = async (target: TraumaAnalysis, caseId: string | null) => {
+    const request = ++briefingRequestRef.current;
+    setBriefingLoading(true);
+    setBriefingError(null);
+    try {
+      const briefing = await generateFamilyBriefing(target);
+      if (request !== briefingRequestRef.current) return;
+      setFamilyBriefing(briefing);
+      if (caseId) {
+        updateCase(caseId, { familyBriefing: briefing })
+          .then(refreshCases)
+          .catch(err => console.error('Failed to save family briefing', err));
+      }
+    } catch (err) {
+      if (request !== briefingRequestRef.current) return;
+      setBriefingError(err instanceof Error ? err.message : 'Family briefing failed.');
+    } finally {
+      if (request === briefingRequestRef.current) setBriefingLoading(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (isListening) stopListening();
     
     if (!formData.accidentDescription.trim()) {
-      alert("Please provide an accident description.");
+      alert(t.descriptionRequired);
       return;
     }
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
     setLoading(true);
+    setError(null);
+    setPartial(null);
+    setSelectedRegion(null);
     try {
-      const result = await analyzeTraumaData(formData);
-      setAnalysis(result);
+      const result = await runAnalysis(formData, providerPreference, {
+        signal: controller.signal,
+        onPartial: streamResults ? setPartial : undefined,
+      });
+      setAnalysis(result.analysis);
+      setSource(result.source);
+      setSubmittedData(formData);
+      // Cleared only once the new result is in, so a cancelled run keeps the previous case's briefing and chat.
+      resetFamilyBriefing();
+      setChat([]);
+
+      const record = createCaseRecord(formData, result, caseLabel);
+      setCurrentCaseId(record.id);
+      saveCase(record)
+        .then(refreshCases)
+        .catch(err => console.error('Failed to save case', err));
+      if (wantFamilyBriefing && isOnline()) prepareFamilyBriefing(result.analysis, record.id);
     } catch (err) {
-      alert("Analysis failed. Please try again.");
+      // A cancelled run leaves the previous result on screen.
+      if (err instanceof CancelledError) return;
+      setAnalysis(null);
+      resetFamilyBriefing();
+      setChat([]);
+      setError({
+        message: err instanceof Error ? err.message : 'Analysis failed for an unknown reason.',
+        issues: err instanceof AnalysisValidationError ? err.issues : [],
+      });
     } finally {
+      if (analysisAbortRef.current === controller) analysisAbortRef.current = null;
       setLoading(false);
+      setPartial(null);
     }
   };
 
-  const getSeverityColor = (score: string) => {
-    switch (score) {
-      case 'Critical': return 'text-red-600 bg-red-100 border-red-200';
-      case 'High': return 'text-orange-600 bg-orange-100 border-orange-200';
-      case 'Moderate': return 'text-yellow-600 bg-yellow-100 border-yellow-200';
-      default: return 'text-green-600 bg-green-100 border-green-200';
-    }
+  const cancelAnalysis = () => {
+    analysisAbortRef.current?.abort();
+  };
+
+  const openCase = (record: CaseRecord) => {
+    if (isListening) stopListening();
+    setAnalysis(record.analysis);
+    setSource(record.source);
+    setSubmittedData(record.data);
+    setFormData(record.data);
+    setCaseLabel(record.label ?? '');
+    setCurrentCaseId(record.id);
+    setError(null);
+    setSelectedRegion(null);
+    resetFamilyBriefing(record.familyBriefing ?? null);
+    setChat(record.chat ?? []);
+    setView('analyze');
+  };
+
+  const removeCase = (id: string) => {
+    deleteCase(id)
+      .then(refreshCases)
+      .catch(err => console.error('Failed to delete case', err));
+    if (id === currentCaseId) setCurrentCaseId(null);
+  };
+
+  const currentCase = cases.find(c => c.id === currentCaseId) ?? null;
+
+  const saveOutcome = (outcome: CaseOutcome) => {
+    if (!currentCase) return;
+    updateCase(currentCase.id, { outcome })
+      .then(refreshCases)
+      .catch(err => console.error('Failed to save outcome', err));
+  };
+
+  const updateChat = (messages: CaseChatMessage[]) => {
+    setChat(messages);
+    if (!currentCaseId) return;
+    updateCase(currentCaseId, { chat: messages })
+      .then(refreshCases)
+      .catch(err => console.error('Failed to save case chat', err));
   };
 
+  const exportFhir = () => {
+    if (!currentCase) return;
+    const bundle = buildFhirBundle(currentCase);
+    downloadFile(`traumapredict-${fileTimestamp(new Date(currentCase.createdAt))}.fhir.json`, JSON.stringify(bundle, null, 2), 'application/fhir+json');
+  };
+
+  const navButton = (target: View, icon: string, label: string) => (
+    <button
+      type="button"
+      onClick={() => setView(target)}
+      className={`px-4 py-2 rounded-lg text-sm font-semibold transition-colors ${
+        view === target ? 'bg-slate-800 text-white' : 'text-slate-600 hover:bg-slate-100'
+      }`}
+    >
+      <i className={`fas ${icon} mr-2`}></i>
+      {label}
+    </button>
+  );
+
   return (
     <div className="max-w-7xl mx-auto px-4 py-8 md:py-12">
-      <header className="mb-10 flex flex-col md:flex-row md:items-center justify-between gap-4">
+      <header className="print:hidden mb-10 flex flex-col md:flex-row md:items-center justify-between gap-4">
         <div>
           <div className="flex items-center gap-2 mb-2">
             <span className="bg-red-600 p-2 rounded-lg text-white">
@@ -162,37 +320,121 @@ const App: React.FC = () => {
             </span>
             <h1 className="text-3xl font-bold text-slate-800">TraumaPredict AI</h1>
           </div>
-          <p className="text-slate-500 font-medium">Dera Ismail Khan Hospital • Emergency Department</p>
+          <p className="text-slate-500 font-medium">{t.appSubtitle}</p>
+        </div>
+        <nav className="flex gap-1 bg-white border border-slate-200 rounded-xl p-1 shadow-sm">
+          {navButton('analyze', 'fa-bolt', t.navAnalyze)}
+          {navButton('incident', 'fa-ambulance', t.navIncident)}
+          {navButton('history', 'fa-history', `${t.navCaseLog} (${cases.length})`)}
+          {navButton('calibration', 'fa-bullseye', t.navCalibration)}
+          {navButton('epidemiology', 'fa-chart-bar', t.navEpidemiology)}
+          {navButton('batch', 'fa-layer-group', t.navBatch)}
+        </nav>
+        <div className="flex gap-1 bg-white border border-slate-200 rounded-xl p-1 shadow-sm" role="group" aria-label="Language">
+          {UI_LANGUAGES.map(option => (
+            <button
+              key={option.id}
+              type="button"
+              lang={option.id}
+              onClick={() => setLanguage(option.id)}
+              className={`px-3 py-1 rounded-lg text-sm font-semibold ${
+                language === option.id ? 'bg-slate-800 text-white' : 'text-slate-600 hover:bg-slate-100'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
         </div>
         <div className="bg-white border border-slate-200 rounded-xl px-4 py-2 shadow-sm">
-          <span className="text-xs font-bold text-slate-400 uppercase block mb-1">Status</span>
-          <div className="flex items-center gap-2">
-            <span className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse"></span>
-            <span className="text-sm font-semibold text-emerald-600">AI Core Active</span>
-          </div>
+          <span className="text-xs font-bold text-slate-400 uppercase block mb-1">{t.staffAccess}</span>
+          <AccessCodeControl t={t} />
+        </div>
+        <div className="bg-white border border-slate-200 rounded-xl px-4 py-2 shadow-sm">
+          <span className="text-xs font-bold text-slate-400 uppercase block mb-1">{t.status}</span>
+          {online ? (
+            <div className="flex items-center gap-2">
+              <span className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse"></span>
+              <span className="text-sm font-semibold text-emerald-600">{t.statusOnline}</span>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2">
+              <span className="w-2 h-2 rounded-full bg-amber-500"></span>
+              <span className="text-sm font-semibold text-amber-600">{t.statusOffline}</span>
+            </div>
+          )}
         </div>
       </header>
 
-      <main className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+      {view === 'history' && (
+        <HistoryPanel
+          cases={cases}
+          currentCaseId={currentCaseId}
+          onOpen={openCase}
+          onDelete={removeCase}
+          onCompare={(left, right) => {
+            setComparePair([left, right]);
+            setView('compare');
+          }}
+        />
+      )}
+
+      {view === 'compare' && comparePair && (
+        <CaseComparison left={comparePair[0]} right={comparePair[1]} onClose={() => setView('history')} />
+      )}
+
+      {view === 'calibration' && <CalibrationDashboard cases={cases} />}
+
+      {view === 'epidemiology' && <EpidemiologyDashboard cases={cases} />}
+
+      {/* Kept mounted so analyses carry on while a patient's breakdown is open */}
+      <div className={`print:hidden ${view === 'incident' ? '' : 'hidden'}`}>
+        <IncidentPanel
+          online={online}
+          preference={providerPreference}
+          cases={cases}
+          onOpenCase={openCase}
+          onCasesChanged={refreshCases}
+          t={t}
+        />
+      </div>
+
+      {/* Kept mounted so a running batch carries on while other views are open */}
+      <div className={`print:hidden ${view === 'batch' ? '' : 'hidden'}`}>
+        <BatchPanel online={online} t={t} />
+      </div>
+
+      {/* Kept mounted while other views are open so an unfinished narrative isn't lost */}
+      <main className={`print:hidden grid grid-cols-1 lg:grid-cols-12 gap-8 ${view === 'analyze' ? '' : 'hidden'}`}>
         {/* Input Form Column */}
         <section className="lg:col-span-4">
           <div className="bg-white rounded-2xl shadow-xl shadow-slate-200/50 border border-slate-200 p-6 sticky top-8">
             <div className="flex items-center justify-between mb-6 pb-4 border-b border-slate-100">
               <div className="flex items-center gap-2">
                 <i className="fas fa-pen-nib text-blue-600"></i>
-                <h2 className="text-xl font-bold text-slate-800">Case Narrative</h2>
+                <h2 className="text-xl font-bold text-slate-800">{t.caseNarrative}</h2>
               </div>
               <div className="flex gap-1">
                 <span className="text-[10px] bg-blue-100 text-blue-700 font-bold px-2 py-1 rounded-full uppercase tracking-tighter">
-                  Eng + Roman Urdu
+                  {t.inputLanguages}
                 </span>
               </div>
             </div>
             
             <form onSubmit={handleSubmit} className="space-y-6">
+              <label className="block">
+                <span className="block text-[10px] font-bold text-slate-500 uppercase mb-1">{t.caseLabel}</span>
+                <input
+                  type="text"
+                  value={caseLabel}
+                  onChange={e => setCaseLabel(e.target.value)}
+                  placeholder={t.caseLabelPlaceholder}
+                  className="w-full rounded-lg border-slate-300 focus:ring-blue-500 focus:border-blue-500 bg-slate-50 text-sm px-3 py-2"
+                />
+              </label>
+
               <div className="relative">
                 <label className="block text-sm font-semibold text-slate-700 mb-2 italic">
-                  Describe the accident:
+                  {t.describeAccident}
                 </label>
                 <div className="relative group">
                   <textarea 
@@ -201,20 +443,25 @@ const App: React.FC = () => {
                     autoFocus
                     value={formData.accidentDescription}
                     onChange={handleInputChange}
-                    placeholder="e.g., 'Motorcycle wala tezi se ja raha tha...' or 'Car hit a pole...'"
-                    className="w-full rounded-lg border-slate-300 focus:ring-blue-500 focus:border-blue-500 bg-slate-50 min-h-[250px] text-sm p-4 pr-12 leading-relaxed resize-none shadow-inner transition-all focus:bg-white"
+                    placeholder={t.narrativePlaceholder}
+                    dir="auto"
+                    lang={narrativeIsUrdu ? 'ur' : undefined}
+                    className={`w-full rounded-lg border-slate-300 focus:ring-blue-500 focus:border-blue-500 bg-slate-50 min-h-[250px] p-4 pr-12 resize-none shadow-inner transition-all focus:bg-white ${
+                      narrativeIsUrdu ? 'text-base' : 'text-sm leading-relaxed'
+                    }`}
                   />
                   
                   {/* Talk to Message Button */}
                   <button
                     type="button"
                     onClick={toggleListening}
+                    disabled={voiceStatus === 'connecting'}
                     className={`absolute bottom-4 right-4 w-10 h-10 rounded-full flex items-center justify-center transition-all shadow-md ${
                       isListening 
                         ? 'bg-red-500 text-white animate-pulse' 
                         : 'bg-white text-blue-600 hover:bg-blue-50 border border-slate-200'
                     }`}
-                    title={isListening ? "Stop Listening" : "Talk to Message"}
+                    title={isListening ? t.micStop : t.micStart}
                   >
                     <i className={`fas ${isListening ? 'fa-stop' : 'fa-microphone'}`}></i>
                   </button>
@@ -222,21 +469,60 @@ const App: React.FC = () => {
                 
                 {isListening && (
                   <div className="absolute top-1 right-1 flex items-center gap-2">
-                    <span className="text-[10px] font-bold text-red-500 animate-pulse">RECORDING LIVE</span>
-                    <div className="flex gap-0.5 items-end h-3">
-                      <div className="w-0.5 h-1 bg-red-500 animate-[bounce_0.6s_infinite]"></div>
-                      <div className="w-0.5 h-2 bg-red-500 animate-[bounce_0.8s_infinite]"></div>
-                      <div className="w-0.5 h-1.5 bg-red-500 animate-[bounce_0.5s_infinite]"></div>
+                    <span className={`text-[10px] font-bold uppercase ${voiceStatus === 'reconnecting' ? 'text-amber-600' : 'text-red-500'} animate-pulse`}>
+                      {voiceStatusLabels[voiceStatus]}
+                    </span>
+                    <div className="w-16 h-1.5 bg-slate-200 rounded-full overflow-hidden" title="Input level">
+                      <div
+                        className={`h-full transition-[width] duration-75 ${voiceStatus === 'speaking' ? 'bg-red-500' : 'bg-slate-400'}`}
+                        style={{ width: `${Math.round(inputLevel * 100)}%` }}
+                      ></div>
                     </div>
                   </div>
                 )}
 
                 <p className="mt-2 text-[10px] text-slate-400">
                   <i className="fas fa-info-circle mr-1"></i>
-                  Click the mic to speak in English or Roman Urdu.
+                  {t.micHint}
                 </p>
+
+                <div className="mt-3">
+                  <RedactionPreview data={formData} onTermsChange={phiTerms => setFormData(prev => ({ ...prev, phiTerms }))} t={t} />
+                </div>
               </div>
 
+              <CrashParametersForm data={formData} onChange={handleParametersChange} />
+
+              <PatientProfileForm patient={formData.patient ?? {}} onChange={patient => handleParametersChange({ patient })} />
+
+              <VitalSignsForm vitals={formData.vitals ?? {}} onChange={handleVitalsChange} />
+
+              <PhotoAttachments photos={formData.photos ?? []} onChange={photos => handleParametersChange({ photos })} />
+
+              <label className="block">
+                <span className="block text-[10px] font-bold text-slate-500 uppercase mb-1">{t.analysisEngine}</span>
+                <select
+                  value={providerPreference}
+                  onChange={e => setProviderPreference(e.target.value as ProviderPreference)}
+                  className="w-full rounded-lg border-slate-300 focus:ring-blue-500 focus:border-blue-500 bg-slate-50 text-sm px-3 py-2"
+                >
+                  <option value="auto">{t.engineAuto}</option>
+                  <option value="gemini">{t.engineGemini}</option>
+                  <option value="rule-engine">{t.engineRules}</option>
+                  <option value="ensemble">{t.engineEnsemble}</option>
+                </select>
+              </label>
+
+              <label className="flex items-center gap-2 text-xs text-slate-600">
+                <input type="checkbox" checked={streamResults} onChange={e => setStreamResults(e.target.checked)} />
+                {t.streamResults}
+              </label>
+
+              <label className="flex items-center gap-2 text-xs text-slate-600">
+                <input type="checkbox" checked={wantFamilyBriefing} onChange={e => setWantFamilyBriefing(e.target.checked)} />
+                {t.familyBriefingOption}
+              </label>
+
               <button 
                 type="submit" 
                 disabled={loading}
@@ -245,12 +531,12 @@ const App: React.FC = () => {
                 {loading ? (
                   <>
                     <i className="fas fa-circle-notch animate-spin"></i>
-                    Processing Narrative...
+                    {t.processing}
                   </>
                 ) : (
                   <>
                     <i className="fas fa-bolt"></i>
-                    Run Injury Prediction
+                    {t.runPrediction}
                   </>
                 )}
               </button>
@@ -260,22 +546,54 @@ const App: React.FC = () => {
 
         {/* Results Column */}
         <section className="lg:col-span-8">
-          {!analysis && !loading && (
+          {error && !loading && (
+            <div className="bg-white border border-red-200 rounded-3xl p-8 shadow-sm">
+              <div className="flex items-start gap-4">
+                <span className="bg-red-100 text-red-600 w-12 h-12 rounded-full flex items-center justify-center flex-shrink-0">
+                  <i className="fas fa-exclamation-circle text-xl"></i>
+                </span>
+                <div className="flex-1">
+                  <h3 className="text-xl font-bold text-slate-800 mb-1">{t.analysisFailed}</h3>
+                  <p className="text-slate-600 mb-3">{error.message}</p>
+                  {error.issues.length > 0 && (
+                    <ul className="text-xs text-red-700 bg-red-50 border border-red-100 rounded-lg p-3 space-y-1 mb-3 font-mono">
+                      {error.issues.map((issue, idx) => <li key={idx}>{issue}</li>)}
+                    </ul>
+                  )}
+                  <p className="text-xs text-slate-400">
+                    {t.analysisFailedHint}
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {!analysis && !loading && !error && (
             <div className="h-full flex flex-col items-center justify-center bg-white border-2 border-dashed border-slate-200 rounded-3xl p-12 text-center text-slate-400">
               <div className="bg-slate-50 p-6 rounded-full mb-6">
                 <i className="fas fa-file-medical-alt text-5xl"></i>
               </div>
-              <h3 className="text-xl font-bold text-slate-600 mb-2">Awaiting Case Details</h3>
-              <p className="max-w-xs">Type or speak the accident description to start the biomechanical prediction engine.</p>
+              <h3 className="text-xl font-bold text-slate-600 mb-2">{t.awaitingTitle}</h3>
+              <p className="max-w-xs">{t.awaitingBody}</p>
             </div>
           )}
 
-          {loading && (
-            <div className="animate-pulse space-y-6">
-              <div className="h-40 bg-slate-200 rounded-2xl"></div>
-              <div className="grid grid-cols-2 gap-4">
-                <div className="h-64 bg-slate-200 rounded-2xl"></div>
-                <div className="h-64 bg-slate-200 rounded-2xl"></div>
+          {loading && partial && <StreamingPreview partial={partial} onCancel={cancelAnalysis} t={t} />}
+
+          {loading && !partial && (
+            <div className="space-y-6">
+              <div className="animate-pulse space-y-6">
+                <div className="h-40 bg-slate-200 rounded-2xl"></div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="h-64 bg-slate-200 rounded-2xl"></div>
+                  <div className="h-64 bg-slate-200 rounded-2xl"></div>
+                </div>
+              </div>
+              <div className="text-center">
+                <button type="button" onClick={cancelAnalysis} className="text-sm font-semibold text-red-600 border border-red-200 px-4 py-2 rounded-lg hover:bg-red-50">
+                  <i className="fas fa-times mr-1"></i>
+                  {t.cancelAnalysis}
+                </button>
               </div>
             </div>
           )}
@@ -285,16 +603,59 @@ const App: React.FC = () => {
               {/* Summary Header */}
               <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
                 <div className="flex items-center justify-between mb-4">
-                  <h2 className="text-2xl font-bold text-slate-800">Clinical Prediction</h2>
+                  <h2 className="text-2xl font-bold text-slate-800">{t.clinicalPrediction}</h2>
                   <span className={`px-4 py-1 rounded-full text-sm font-bold border ${getSeverityColor(analysis.severityScore)}`}>
-                    Severity: {analysis.severityScore}
+                    {t.severity}: {analysis.severityScore}
                   </span>
                 </div>
                 <p className="text-slate-600 leading-relaxed text-lg italic border-l-4 border-slate-200 pl-4 py-2">
                   "{analysis.summary}"
                 </p>
+                {scores && <InjuryScoresPanel scores={scores} />}
+                {scores && submittedData && hasVitals(submittedData.vitals) && (
+                  <PhysiologyPanel vitals={submittedData.vitals} iss={scores.expectedIss} ageYears={submittedData.patient?.ageYears} />
+                )}
+                {source && (
+                  <div className="mt-4 flex flex-wrap items-center gap-2 text-xs">
+                    <span className={`font-bold px-2 py-1 rounded-full border ${
+                      source.providerId === 'rule-engine'
+                        ? 'text-amber-700 bg-amber-50 border-amber-200'
+                        : 'text-blue-700 bg-blue-50 border-blue-200'
+                    }`}>
+                      <i className={`fas ${source.providerId === 'rule-engine' ? 'fa-cogs' : 'fa-brain'} mr-1`}></i>
+                      {source.providerLabel} • {source.model}
+                    </span>
+                    {source.fallbackReason && (
+                      <span className="text-slate-500">
+                        <i className="fas fa-exchange-alt mr-1"></i>
+                        {t.fallbackUsed} — {source.fallbackReason}
+                      </span>
+                    )}
+                    <span className="ml-auto flex gap-2">
+                      <button type="button" onClick={() => window.print()} className="font-semibold text-slate-600 border border-slate-200 px-3 py-1 rounded-lg hover:bg-slate-50">
+                        <i className="fas fa-print mr-1"></i>
+                        {t.printReport}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={exportFhir}
+                        disabled={!currentCase}
+                        className="font-semibold text-slate-600 border border-slate-200 px-3 py-1 rounded-lg hover:bg-slate-50 disabled:opacity-40"
+                      >
+                        <i className="fas fa-file-export mr-1"></i>
+                        {t.exportFhir}
+                      </button>
+                    </span>
+                  </div>
+                )}
               </div>
 
+              {submittedData && (
+                <CrashFactsPanel data={submittedData} inferred={analysis.inferredParameters ?? []} />
+              )}
+
+              {submittedData?.photos && <PhotoFindingsPanel photos={submittedData.photos} analysis={analysis} />}
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <InjuryChart injuries={analysis.predictedInjuries} />
                 
@@ -302,7 +663,7 @@ const App: React.FC = () => {
                 <div className="bg-slate-900 rounded-2xl p-6 shadow-lg">
                   <div className="flex items-center gap-2 mb-4 text-white">
                     <i className="fas fa-exclamation-triangle text-amber-400"></i>
-                    <h3 className="text-lg font-bold">Priority Interventions</h3>
+                    <h3 className="text-lg font-bold">{t.priorityInterventions}</h3>
                   </div>
                   <ul className="space-y-3">
                     {analysis.immediateActions.map((action, idx) => (
@@ -317,14 +678,39 @@ const App: React.FC = () => {
                 </div>
               </div>
 
+              <PopulationPanel analysis={analysis} />
+
+              {analysis.ensemble && <EnsemblePanel analysis={analysis} t={t} />}
+
+              {submittedData && (
+                <DecisionRulesPanel key={currentCaseId ?? 'unsaved'} data={submittedData} analysis={analysis} />
+              )}
+
+              <BodyMap
+                injuries={analysis.predictedInjuries}
+                selectedRegion={selectedRegion}
+                onSelectRegion={setSelectedRegion}
+              />
+
               {/* Detailed Findings */}
               <div className="space-y-4">
                 <h3 className="text-lg font-bold text-slate-800 px-1 flex items-center gap-2">
                   <i className="fas fa-microscope text-blue-500"></i>
-                  Biomechanical Breakdown
+                  {t.biomechanicalBreakdown}
+                  {selectedRegion && (
+                    <button
+                      type="button"
+                      onClick={() => setSelectedRegion(null)}
+                      className="ml-2 text-xs font-semibold text-blue-700 bg-blue-50 border border-blue-200 px-2 py-1 rounded-full"
+                    >
+                      {selectedRegion} <i className="fas fa-times ml-1"></i>
+                    </button>
+                  )}
                 </h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {analysis.predictedInjuries.map((injury, idx) => (
+                  {analysis.predictedInjuries
+                    .filter(injury => !selectedRegion || injury.anatomicalRegion === selectedRegion)
+                    .map((injury, idx) => (
                     <div key={idx} className="bg-white rounded-xl p-5 border border-slate-200 hover:border-blue-200 transition-colors shadow-sm">
                       <div className="flex justify-between items-start mb-3">
                         <span className="text-xs font-bold uppercase tracking-wider text-blue-600 bg-blue-50 px-2 py-1 rounded">
@@ -340,15 +726,21 @@ const App: React.FC = () => {
                           <span className="text-sm font-bold text-slate-800">{Math.round(injury.probability * 100)}%</span>
                         </div>
                       </div>
-                      <h4 className="text-lg font-bold text-slate-900 mb-2">{injury.injuryName}</h4>
+                      <h4 className="text-lg font-bold text-slate-900 mb-1">{injury.injuryName}</h4>
+                      <p className="text-[10px] font-bold uppercase text-slate-400 mb-2">
+                        AIS {injury.aisSeverity} ({AIS_LABELS[injury.aisSeverity]}) • {t.issRegion}: {injury.issRegion}
+                      </p>
+                      <ConsensusNote injury={injury} t={t} />
+                      <PhotoSourceNote injury={injury} />
+                      <PopulationRuleNote injury={injury} analysis={analysis} />
                       
                       <div className="space-y-3 text-sm">
                         <div className="p-3 rounded-lg bg-slate-50 border border-slate-100">
-                          <p className="text-slate-500 font-bold text-[10px] uppercase mb-1">Physics Logic</p>
+                          <p className="text-slate-500 font-bold text-[10px] uppercase mb-1">{t.physicsLogic}</p>
                           <p className="text-slate-700 leading-tight italic">{injury.physicsExplanation}</p>
                         </div>
                         <div className="p-3 rounded-lg bg-red-50/50 border border-red-100/50">
-                          <p className="text-red-500 font-bold text-[10px] uppercase mb-1">Biological Vulnerability</p>
+                          <p className="text-red-500 font-bold text-[10px] uppercase mb-1">{t.biologicalVulnerability}</p>
                           <p className="text-slate-700 leading-tight">{injury.anatomyVulnerability}</p>
                         </div>
                       </div>
@@ -357,10 +749,34 @@ const App: React.FC = () => {
                 </div>
               </div>
 
+              {submittedData && source && (
+                <CaseChatPanel
+                  key={currentCaseId ?? 'unsaved'}
+                  data={submittedData}
+                  analysis={analysis}
+                  providerId={source.providerId}
+                  messages={chat}
+                  online={online}
+                  onMessagesChange={updateChat}
+                  t={t}
+                />
+              )}
+
+              <FamilyBriefingPanel
+                briefing={familyBriefing}
+                loading={briefingLoading}
+                error={briefingError}
+                online={online}
+                onGenerate={() => prepareFamilyBriefing(analysis, currentCaseId)}
+                t={t}
+              />
+
+              {currentCase && <OutcomeRecorder record={currentCase} onSave={saveOutcome} />}
+
               <div className="bg-slate-100 p-4 rounded-xl border border-slate-200 flex gap-4 items-start">
                 <i className="fas fa-info-circle text-slate-400 mt-1"></i>
                 <p className="text-xs text-slate-500 leading-relaxed">
-                  <strong>DI KHAN ED PROTOCOL:</strong> This AI tool assists in identifying potential "occult" injuries based on crash biomechanics. Please correlate with physical exams and trauma imaging.
+                  <strong>{t.protocolTitle}</strong> {t.protocolBody}
                 </p>
               </div>
             </div>
@@ -368,9 +784,19 @@ const App: React.FC = () => {
         </section>
       </main>
 
-      <footer className="mt-20 pt-8 border-t border-slate-200 text-center text-slate-400 text-sm">
-        <p>&copy; {new Date().getFullYear()} TraumaPredict AI System - Dera Ismail Khan Emergency Medicine Research Division</p>
+      <footer className="print:hidden mt-20 pt-8 border-t border-slate-200 text-center text-slate-400 text-sm">
+        <p>&copy; {new Date().getFullYear()} {t.footer}</p>
       </footer>
+
+      {view === 'analyze' && analysis && source && submittedData && (
+        <ClinicalReport
+          data={submittedData}
+          analysis={analysis}
+          source={source}
+          issuedAt={currentCase?.createdAt ?? new Date().toISOString()}
+          label={currentCase?.label}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { UiStrings } from '../services/i18n';
+import { loadAccessCode, saveAccessCode, verifyAccessCode } from '../services/geminiClient';
+
+interface Props {
+  t: UiStrings;
+}
+
+/** Staff sign-in for the Gemini proxy. The offline rule engine works without it. */
+const AccessCodeControl: React.FC<Props> = ({ t }) => {
+  const [code, setCode] = useState('');
+  const [userId, setUserId] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const saved = loadAccessCode();
+    if (!saved) return;
+    verifyAccessCode(saved)
+      .then(setUserId)
+      .catch(err => setError(err instanceof Error ? err.message : t.accessCodeFailed));
+  }, []);
+
+  const signIn = async () => {
+    const trimmed = code.trim();
+    if (!trimmed) return;
+    setChecking(true);
+    setError(null);
+    try {
+      setUserId(await verifyAccessCode(trimmed));
+      saveAccessCode(trimmed);
+      setCode('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t.accessCodeFailed);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const signOut = () => {
+    saveAccessCode('');
+    setUserId(null);
+    setError(null);
+  };
+
+  if (userId) {
+    return (
+      <div className="flex items-center gap-2 text-sm">
+        <i className="fas fa-user-md text-slate-400"></i>
+        <span className="font-semibold text-slate-700">{userId}</span>
+        <button type="button" onClick={signOut} className="text-xs text-slate-500 hover:text-red-600 hover:underline">
+          {t.signOut}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={e => {
+        e.preventDefault();
+        signIn();
+      }}
+      className="flex flex-col gap-1"
+    >
+      <div className="flex gap-1">
+        <input
+          type="password"
+          autoComplete="off"
+          value={code}
+          onChange={e => setCode(e.target.value)}
+          placeholder={t.accessCodePlaceholder}
+          className="w-32 rounded-lg border-slate-300 bg-slate-50 text-xs px-2 py-1"
+        />
+        <button type="submit" disabled={checking || !code.trim()} className="text-xs font-semibold text-white bg-slate-800 px-2 py-1 rounded-lg disabled:opacity-40">
+          {checking ? <i className="fas fa-circle-notch animate-spin"></i> : t.signIn}
+        </button>
+      </div>
+      {error && <span className="text-[10px] text-red-600 max-w-[12rem]">{error}</span>}
+    </form>
+  );
+};
+
+export default AccessCodeControl;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { AnalysisDiff } from '../services/analysisDiff';
+import SeverityBadge from './SeverityBadge';
+
+interface Props {
+  diff: AnalysisDiff;
+  beforeLabel: string;
+  afterLabel: string;
+  hideUnchanged?: boolean;
+}
+
+const formatPercent = (p?: number) => (p === undefined ? '—' : `${Math.round(p * 100)}%`);
+
+/**
+ * Injury-by-injury comparison of two analyses: added rows are green, removed rows red,
+ * and the Δ column shows the probability change in percentage points.
+ */
+const AnalysisDiffView: React.FC<Props> = ({ diff, beforeLabel, afterLabel, hideUnchanged = false }) => {
+  const rows = [...diff.changed, ...(hideUnchanged ? [] : diff.unchanged), ...diff.removed, ...diff.added];
+  const severityChanged = diff.severityBefore !== diff.severityAfter;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+        <span className="font-bold uppercase">Severity</span>
+        <SeverityBadge severity={diff.severityBefore} />
+        {severityChanged ? (
+          <>
+            <i className="fas fa-arrow-right text-slate-400"></i>
+            <SeverityBadge severity={diff.severityAfter} />
+          </>
+        ) : (
+          <span>unchanged</span>
+        )}
+        <span className="ml-auto">
+          <span className="text-emerald-700 font-semibold">+{diff.added.length} added</span> •{' '}
+          <span className="text-red-700 font-semibold">−{diff.removed.length} removed</span> •{' '}
+          {diff.changed.length} changed
+        </span>
+      </div>
+      {rows.length === 0 ? (
+        <p className="text-sm text-slate-400">No injury changed by 5 points or more.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-[10px] uppercase text-slate-400">
+              <th className="py-2">Injury</th>
+              <th className="py-2">Region</th>
+              <th className="py-2 text-right">{beforeLabel}</th>
+              <th className="py-2 text-right">{afterLabel}</th>
+              <th className="py-2 text-right">Δ</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {rows.map(row => (
+              <tr key={row.key} className={row.before === undefined ? 'bg-emerald-50/50' : row.after === undefined ? 'bg-red-50/50' : ''}>
+                <td className="py-2 font-medium text-slate-800">{row.injuryName}</td>
+                <td className="py-2 text-slate-500">{row.anatomicalRegion}</td>
+                <td className="py-2 text-right">{formatPercent(row.before)}</td>
+                <td className="py-2 text-right">{formatPercent(row.after)}</td>
+                <td className={`py-2 text-right font-bold ${row.delta > 0 ? 'text-red-600' : row.delta < 0 ? 'text-emerald-600' : 'text-slate-400'}`}>
+                  {row.delta > 0 ? '+' : ''}{Math.round(row.delta * 100)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisDiffView;
@@ -0,0 +1,326 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AnalysisProviderId, BatchJob, BatchRowResult } from '../types';
+import { BatchImport, parseBatchFile } from '../services/batchImport';
+import { createBatchJob, deleteBatchJob, listBatchJobs, listBatchResults } from '../services/batchStore';
+import { MAX_BATCH_CONCURRENCY, runBatch } from '../services/batchRunner';
+import { flattenBatchResults, toCsv, toJsonl } from '../services/batchExport';
+import { PROVIDERS } from '../services/analysisService';
+import { downloadFile, fileTimestamp } from '../services/download';
+import { UiStrings } from '../services/i18n';
+
+interface Props {
+  online: boolean;
+  t: UiStrings;
+}
+
+const BatchPanel: React.FC<Props> = ({ online, t }) => {
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [job, setJob] = useState<BatchJob | null>(null);
+  const [results, setResults] = useState<Map<string, BatchRowResult>>(new Map());
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; imported: BatchImport } | null>(null);
+  const [providerId, setProviderId] = useState<AnalysisProviderId>('gemini');
+  const [concurrency, setConcurrency] = useState(2);
+  const [running, setRunning] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const errorText = (err: unknown) => (err instanceof Error ? err.message : t.unknownError);
+
+  useEffect(() => {
+    listBatchJobs().then(setJobs).catch(err => console.error('Failed to load batch jobs', err));
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const counts = useMemo(() => {
+    let done = 0;
+    let failed = 0;
+    results.forEach(result => (result.status === 'done' ? done++ : failed++));
+    return { done, failed, total: job?.rows.length ?? 0 };
+  }, [results, job]);
+
+  const failures = job ? job.rows.filter(row => results.get(row.rowId)?.status === 'failed') : [];
+  const remaining = job ? job.rows.filter(row => !results.has(row.rowId)) : [];
+
+  const readFile = async (file: File) => {
+    setMessage(null);
+    try {
+      const imported = parseBatchFile(file.name, await file.text());
+      setPendingImport({ fileName: file.name, imported });
+    } catch (err) {
+      console.error('Failed to read batch file', err);
+      setMessage(t.batchReadFailed(file.name, errorText(err)));
+    }
+    if (fileRef.current) fileRef.current.value = '';
+  };
+
+  const openJob = async (selected: BatchJob) => {
+    if (running) return;
+    setPendingImport(null);
+    setMessage(null);
+    setJob(selected);
+    try {
+      const saved = await listBatchResults(selected.id);
+      setResults(new Map(saved.map(result => [result.rowId, result])));
+    } catch (err) {
+      console.error('Failed to load batch results', err);
+      setResults(new Map());
+      setMessage(t.batchLoadFailed(errorText(err)));
+    }
+  };
+
+  const start = async (target: BatchJob, rows: BatchJob['rows']) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    setMessage(null);
+    try {
+      const outcome = await runBatch(target, rows, {
+        concurrency,
+        signal: controller.signal,
+        onResult: result => setResults(prev => new Map(prev).set(result.rowId, result)),
+      });
+      setMessage(t.batchOutcomes[outcome]);
+    } catch (err) {
+      console.error('Batch run failed', err);
+      setMessage(t.batchRunStopped(errorText(err)));
+    } finally {
+      abortRef.current = null;
+      setRunning(false);
+    }
+  };
+
+  const createAndStart = async () => {
+    if (!pendingImport) return;
+    let created: BatchJob;
+    try {
+      created = await createBatchJob(pendingImport.fileName, pendingImport.imported, providerId);
+    } catch (err) {
+      console.error('Failed to save batch job', err);
+      setMessage(t.batchSaveFailed(errorText(err)));
+      return;
+    }
+    setJobs(prev => [created, ...prev]);
+    setPendingImport(null);
+    setJob(created);
+    setResults(new Map());
+    start(created, created.rows);
+  };
+
+  const removeJob = async (target: BatchJob) => {
+    if (!window.confirm(t.batchDeleteConfirm(target.fileName))) return;
+    try {
+      await deleteBatchJob(target.id);
+    } catch (err) {
+      console.error('Failed to delete batch job', err);
+      setMessage(t.batchDeleteFailed(errorText(err)));
+      return;
+    }
+    setJobs(prev => prev.filter(j => j.id !== target.id));
+    if (job?.id === target.id) {
+      setJob(null);
+      setResults(new Map());
+    }
+  };
+
+  const exportResults = (format: 'csv' | 'jsonl') => {
+    if (!job) return;
+    const rows = flattenBatchResults(job, [...results.values()]);
+    const base = `batch-${job.fileName.replace(/\.[^.]+$/, '')}-${fileTimestamp()}`;
+    if (format === 'csv') downloadFile(`${base}.csv`, toCsv(rows), 'text/csv');
+    else downloadFile(`${base}.jsonl`, toJsonl(rows), 'application/x-ndjson');
+  };
+
+  const needsNetwork = (id: AnalysisProviderId) => PROVIDERS[id].requiresNetwork && !online;
+  const progress = counts.total ? Math.round(((counts.done + counts.failed) / counts.total) * 100) : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <i className="fas fa-layer-group text-blue-600"></i>
+        <h2 className="text-xl font-bold text-slate-800">{t.batchTitle}</h2>
+      </div>
+      <p className="text-sm text-slate-500 -mt-4">
+        {t.batchIntro}
+      </p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-4">
+          <div className="bg-white rounded-xl p-4 shadow-sm border border-slate-200 space-y-3">
+            <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider">{t.batchNewJob}</h3>
+            <input
+              ref={fileRef}
+              type="file"
+              accept=".csv,.tsv,.txt,.jsonl,.ndjson"
+              disabled={running}
+              onChange={e => e.target.files?.[0] && readFile(e.target.files[0])}
+              className="block w-full text-xs text-slate-600"
+            />
+            {!job && message && <p className="text-xs text-red-600">{message}</p>}
+            {pendingImport && (
+              <div className="space-y-3">
+                <p className="text-sm text-slate-700">
+                  {t.batchRowsReady(pendingImport.imported.rows.length, pendingImport.fileName)}
+                </p>
+                {pendingImport.imported.issues.length > 0 && (
+                  <details className="text-xs">
+                    <summary className="cursor-pointer text-amber-700 font-semibold">
+                      {t.batchImportIssues(pendingImport.imported.issues.length, pendingImport.imported.issues.filter(issue => issue.skipped).length)}
+                    </summary>
+                    <ul className="mt-2 max-h-40 overflow-y-auto space-y-1">
+                      {pendingImport.imported.issues.map((issue, idx) => (
+                        <li key={idx} className={issue.skipped ? 'text-red-600' : 'text-slate-500'}>{t.batchLine(issue.line)}: {issue.message}</li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+                <label className="block text-xs text-slate-500">
+                  {t.batchEngine}
+                  <select
+                    value={providerId}
+                    onChange={e => setProviderId(e.target.value as AnalysisProviderId)}
+                    className="mt-1 block w-full rounded-lg border-slate-300 bg-slate-50 text-sm"
+                  >
+                    {Object.values(PROVIDERS).map(provider => (
+                      <option key={provider.id} value={provider.id}>{provider.label}</option>
+                    ))}
+                  </select>
+                </label>
+                <button
+                  type="button"
+                  onClick={createAndStart}
+                  disabled={running || pendingImport.imported.rows.length === 0 || needsNetwork(providerId)}
+                  className="w-full bg-blue-600 hover:bg-blue-700 text-white text-sm font-semibold py-2 rounded-lg disabled:opacity-40"
+                >
+                  <i className="fas fa-play mr-2"></i>{t.batchStart}
+                </button>
+              </div>
+            )}
+            <label className="flex items-center justify-between text-xs text-slate-500">
+              {t.batchConcurrency}
+              <input
+                type="number"
+                min={1}
+                max={MAX_BATCH_CONCURRENCY}
+                value={concurrency}
+                disabled={running}
+                onChange={e => setConcurrency(Math.min(Math.max(1, Number(e.target.value) || 1), MAX_BATCH_CONCURRENCY))}
+                className="w-16 rounded-lg border-slate-300 bg-slate-50 text-sm px-2 py-1"
+              />
+            </label>
+          </div>
+
+          <div className="bg-white rounded-xl p-4 shadow-sm border border-slate-200">
+            <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-3">{t.batchPreviousJobs}</h3>
+            {jobs.length === 0 ? (
+              <p className="text-xs text-slate-400">{t.batchNoJobs}</p>
+            ) : (
+              <ul className="space-y-2">
+                {jobs.map(item => (
+                  <li key={item.id} className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => openJob(item)}
+                      disabled={running}
+                      className={`flex-1 text-left text-xs px-2 py-1 rounded-lg border ${
+                        job?.id === item.id ? 'border-blue-300 bg-blue-50' : 'border-slate-100 hover:bg-slate-50'
+                      }`}
+                    >
+                      <span className="font-semibold text-slate-700 block truncate">{item.fileName}</span>
+                      <span className="text-slate-400">
+                        {new Date(item.createdAt).toLocaleString()} • {t.batchRows(item.rows.length)} • {PROVIDERS[item.providerId].label}
+                      </span>
+                    </button>
+                    <button type="button" title={t.batchDeleteJob} disabled={running} onClick={() => removeJob(item)} className="text-slate-300 hover:text-red-600 disabled:opacity-40">
+                      <i className="fas fa-trash"></i>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="lg:col-span-2">
+          {!job ? (
+            <div className="bg-white border-2 border-dashed border-slate-200 rounded-3xl p-12 text-center text-slate-400">
+              <i className="fas fa-file-csv text-4xl mb-4"></i>
+              <p>{t.batchEmpty}</p>
+            </div>
+          ) : (
+            <div className="bg-white rounded-xl p-6 shadow-sm border border-slate-200 space-y-4">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <h3 className="text-lg font-bold text-slate-800">{job.fileName}</h3>
+                  <p className="text-xs text-slate-400">{PROVIDERS[job.providerId].label} • {PROVIDERS[job.providerId].model}</p>
+                </div>
+                <div className="flex gap-2">
+                  <button type="button" onClick={() => exportResults('csv')} disabled={results.size === 0} className="text-xs font-semibold text-slate-700 border border-slate-200 px-3 py-1 rounded-lg hover:bg-slate-50 disabled:opacity-40">
+                    <i className="fas fa-file-csv mr-1"></i>CSV
+                  </button>
+                  <button type="button" onClick={() => exportResults('jsonl')} disabled={results.size === 0} className="text-xs font-semibold text-slate-700 border border-slate-200 px-3 py-1 rounded-lg hover:bg-slate-50 disabled:opacity-40">
+                    <i className="fas fa-file-code mr-1"></i>JSONL
+                  </button>
+                </div>
+              </div>
+
+              <div>
+                <div className="flex justify-between text-xs text-slate-500 mb-1">
+                  <span>{t.batchProgress(counts.done, counts.failed, remaining.length)}</span>
+                  <span>{progress}%</span>
+                </div>
+                <div className="h-2 bg-slate-100 rounded-full overflow-hidden flex">
+                  <div className="bg-emerald-500" style={{ width: `${counts.total ? (counts.done / counts.total) * 100 : 0}%` }}></div>
+                  <div className="bg-red-400" style={{ width: `${counts.total ? (counts.failed / counts.total) * 100 : 0}%` }}></div>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                {running ? (
+                  <button type="button" onClick={() => abortRef.current?.abort()} className="text-sm font-semibold text-red-600 border border-red-200 px-4 py-2 rounded-lg hover:bg-red-50">
+                    <i className="fas fa-pause mr-2"></i>{t.batchPause}
+                  </button>
+                ) : (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => start(job, remaining)}
+                      disabled={remaining.length === 0 || needsNetwork(job.providerId)}
+                      className="text-sm font-semibold text-white bg-blue-600 hover:bg-blue-700 px-4 py-2 rounded-lg disabled:opacity-40"
+                    >
+                      <i className="fas fa-play mr-2"></i>{t.batchResume(remaining.length)}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => start(job, failures)}
+                      disabled={failures.length === 0 || needsNetwork(job.providerId)}
+                      className="text-sm font-semibold text-slate-700 border border-slate-200 px-4 py-2 rounded-lg hover:bg-slate-50 disabled:opacity-40"
+                    >
+                      <i className="fas fa-redo mr-2"></i>{t.batchRetryFailed(failures.length)}
+                    </button>
+                  </>
+                )}
+                {running && <span className="self-center text-xs text-slate-500"><i className="fas fa-circle-notch animate-spin mr-1"></i>{t.batchAnalysing}</span>}
+              </div>
+              {message && <p className="text-xs text-slate-600">{message}</p>}
+
+              {failures.length > 0 && (
+                <div>
+                  <h4 className="text-xs font-bold text-red-600 uppercase mb-2">{t.batchFailedRows}</h4>
+                  <ul className="max-h-64 overflow-y-auto text-xs space-y-1">
+                    {failures.map(row => (
+                      <li key={row.rowId} className="text-slate-600">
+                        <span className="font-semibold">{row.rowId}</span> ({t.batchLine(row.line)}): {results.get(row.rowId)?.error}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchPanel;
@@ -0,0 +1,135 @@
+import React from 'react';
+import { AnatomicalRegion, PredictedInjury } from '../types';
+
+interface Props {
+  injuries: PredictedInjury[];
+  selectedRegion: AnatomicalRegion | null;
+  onSelectRegion: (region: AnatomicalRegion | null) => void;
+}
+
+type ShapeProps = React.SVGProps<SVGRectElement> & React.SVGProps<SVGEllipseElement>;
+
+interface RegionShape {
+  region: AnatomicalRegion;
+  kind: 'rect' | 'ellipse';
+  props: ShapeProps;
+}
+
+// Both views share a 120 x 260 viewBox so the silhouettes line up side by side.
+const LIMB_SHAPES: RegionShape[] = [
+  { region: 'Upper Limb', kind: 'rect', props: { x: 18, y: 50, width: 14, height: 88, rx: 7 } },
+  { region: 'Upper Limb', kind: 'rect', props: { x: 88, y: 50, width: 14, height: 88, rx: 7 } },
+  { region: 'Lower Limb', kind: 'rect', props: { x: 38, y: 150, width: 20, height: 102, rx: 8 } },
+  { region: 'Lower Limb', kind: 'rect', props: { x: 62, y: 150, width: 20, height: 102, rx: 8 } },
+];
+
+const FRONT_SHAPES: RegionShape[] = [
+  { region: 'Head', kind: 'ellipse', props: { cx: 60, cy: 20, rx: 15, ry: 17 } },
+  { region: 'Face', kind: 'ellipse', props: { cx: 60, cy: 26, rx: 9, ry: 9 } },
+  { region: 'Neck', kind: 'rect', props: { x: 53, y: 37, width: 14, height: 11, rx: 3 } },
+  { region: 'Chest', kind: 'rect', props: { x: 35, y: 48, width: 50, height: 44, rx: 8 } },
+  { region: 'Abdomen', kind: 'rect', props: { x: 37, y: 93, width: 46, height: 32, rx: 4 } },
+  { region: 'Pelvis', kind: 'rect', props: { x: 36, y: 126, width: 48, height: 23, rx: 8 } },
+  ...LIMB_SHAPES,
+];
+
+const BACK_SHAPES: RegionShape[] = [
+  { region: 'Head', kind: 'ellipse', props: { cx: 60, cy: 20, rx: 15, ry: 17 } },
+  { region: 'Neck', kind: 'rect', props: { x: 53, y: 37, width: 14, height: 11, rx: 3 } },
+  { region: 'Chest', kind: 'rect', props: { x: 35, y: 48, width: 50, height: 44, rx: 8 } },
+  { region: 'Abdomen', kind: 'rect', props: { x: 37, y: 93, width: 46, height: 32, rx: 4 } },
+  { region: 'Spine', kind: 'rect', props: { x: 55, y: 48, width: 10, height: 80, rx: 4 } },
+  { region: 'Pelvis', kind: 'rect', props: { x: 36, y: 126, width: 48, height: 23, rx: 8 } },
+  ...LIMB_SHAPES,
+];
+
+// Regions with no place on the silhouette are offered as chips below it.
+const OFF_MAP_REGIONS: AnatomicalRegion[] = ['Skin/Soft Tissue', 'Unspecified'];
+
+const getRegionColor = (prob: number | undefined) => {
+  if (prob === undefined) return '#e2e8f0'; // slate-200
+  if (prob > 0.75) return '#ef4444'; // red-500
+  if (prob > 0.4) return '#f59e0b'; // amber-500
+  return '#10b981'; // emerald-500
+};
+
+const BodyMap: React.FC<Props> = ({ injuries, selectedRegion, onSelectRegion }) => {
+  // Colour each region by its most likely injury.
+  const maxByRegion = new Map<AnatomicalRegion, number>();
+  for (const injury of injuries) {
+    const current = maxByRegion.get(injury.anatomicalRegion) ?? 0;
+    maxByRegion.set(injury.anatomicalRegion, Math.max(current, injury.probability));
+  }
+
+  const toggle = (region: AnatomicalRegion) => {
+    onSelectRegion(selectedRegion === region ? null : region);
+  };
+
+  const renderView = (title: string, shapes: RegionShape[]) => (
+    <div className="flex flex-col items-center">
+      <svg viewBox="0 0 120 260" className="h-64 w-auto" role="img" aria-label={`${title} body map`}>
+        {shapes.map((shape, idx) => {
+          const prob = maxByRegion.get(shape.region);
+          const selected = selectedRegion === shape.region;
+          const common = {
+            fill: getRegionColor(prob),
+            fillOpacity: prob === undefined ? 1 : 0.35 + prob * 0.65,
+            stroke: selected ? '#1d4ed8' : '#ffffff',
+            strokeWidth: selected ? 2.5 : 1.5,
+            className: 'cursor-pointer transition-all hover:opacity-80',
+            onClick: () => toggle(shape.region),
+          };
+          const label = `${shape.region}${prob === undefined ? '' : `: ${Math.round(prob * 100)}%`}`;
+          return shape.kind === 'ellipse' ? (
+            <ellipse key={idx} {...shape.props} {...common}><title>{label}</title></ellipse>
+          ) : (
+            <rect key={idx} {...shape.props} {...common}><title>{label}</title></rect>
+          );
+        })}
+      </svg>
+      <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mt-1">{title}</span>
+    </div>
+  );
+
+  const offMap = OFF_MAP_REGIONS.filter(region => maxByRegion.has(region));
+
+  return (
+    <div className="bg-white rounded-xl p-4 shadow-sm border border-slate-200">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider">Anatomical Injury Map</h3>
+        {selectedRegion && (
+          <button type="button" onClick={() => onSelectRegion(null)} className="text-xs font-semibold text-blue-600 hover:underline">
+            Clear filter
+          </button>
+        )}
+      </div>
+      <div className="flex justify-center gap-8">
+        {renderView('Front', FRONT_SHAPES)}
+        {renderView('Back', BACK_SHAPES)}
+      </div>
+      {offMap.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-2 mt-3">
+          {offMap.map(region => (
+            <button
+              key={region}
+              type="button"
+              onClick={() => toggle(region)}
+              className={`text-xs font-semibold px-3 py-1 rounded-full border transition-colors ${
+                selectedRegion === region ? 'border-blue-600 text-blue-700 bg-blue-50' : 'border-slate-200 text-slate-600 bg-slate-50'
+              }`}
+            >
+              {region}: {Math.round((maxByRegion.get(region) ?? 0) * 100)}%
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex justify-center gap-4 mt-4 text-[10px] text-slate-500">
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-emerald-500"></span>≤ 40%</span>
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-amber-500"></span>41–75%</span>
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-red-500"></span>&gt; 75%</span>
+      </div>
+    </div>
+  );
+};
+
+export default BodyMap;
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { CaseRecord } from '../types';
+import { buildCalibrationReport } from '../services/calibration';
+
+interface Props {
+  cases: CaseRecord[];
+}
+
+const formatRate = (value?: number) => (value === undefined ? '—' : `${Math.round(value * 100)}%`);
+
+const CalibrationDashboard: React.FC<Props> = ({ cases }) => {
+  const [threshold, setThreshold] = useState(0.5);
+  const report = buildCalibrationReport(cases, threshold);
+  const curve = report.bins
+    .filter(bin => bin.count > 0)
+    .map(bin => ({
+      predicted: Math.round(bin.meanPredicted * 100),
+      observed: Math.round(bin.observedRate * 100),
+      count: bin.count,
+    }));
+
+  const stats = [
+    { label: 'Cases with outcome', value: `${report.casesWithOutcome} / ${cases.length}` },
+    { label: 'Assessed predictions', value: report.assessedPredictions },
+    { label: 'Missed injuries', value: report.missedInjuries },
+    { label: 'Brier score', value: report.brierScore === undefined ? '—' : report.brierScore.toFixed(3), hint: '0 is perfect; 0.25 is a constant 50% guess' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <i className="fas fa-bullseye text-blue-600"></i>
+        <h2 className="text-xl font-bold text-slate-800">Prediction Calibration</h2>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {stats.map(stat => (
+          <div key={stat.label} title={stat.hint} className="bg-white rounded-xl p-4 border border-slate-200 shadow-sm">
+            <p className="text-[10px] font-bold text-slate-500 uppercase">{stat.label}</p>
+            <p className="text-2xl font-bold text-slate-800">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {report.assessedPredictions === 0 ? (
+        <div className="bg-white border-2 border-dashed border-slate-200 rounded-3xl p-12 text-center text-slate-400">
+          <i className="fas fa-clipboard-check text-4xl mb-4"></i>
+          <p>No outcomes recorded yet. Open a case from the case log and mark each predicted injury as confirmed or ruled out.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="h-80 bg-white rounded-xl p-4 shadow-sm border border-slate-200">
+            <h3 className="text-sm font-semibold text-slate-500 mb-4 uppercase tracking-wider">Reliability Curve (%)</h3>
+            <ResponsiveContainer width="100%" height="85%">
+              <LineChart data={curve} margin={{ left: 0, right: 20, bottom: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis type="number" dataKey="predicted" domain={[0, 100]} stroke="#64748b" fontSize={12} label={{ value: 'Predicted', position: 'insideBottom', offset: -5, fontSize: 11 }} />
+                <YAxis type="number" domain={[0, 100]} stroke="#64748b" fontSize={12} />
+                <ReferenceLine segment={[{ x: 0, y: 0 }, { x: 100, y: 100 }]} stroke="#94a3b8" strokeDasharray="4 4" />
+                <Tooltip
+                  formatter={(value, name) => [name === 'observed' ? `${value}%` : value, name === 'observed' ? 'Observed rate' : name]}
+                  labelFormatter={label => `Predicted ${label}%`}
+                  contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+                />
+                <Line type="monotone" dataKey="observed" stroke="#2563eb" strokeWidth={2} dot={{ r: 4 }} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="bg-white rounded-xl p-4 shadow-sm border border-slate-200 overflow-x-auto">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider">Per-Region Performance</h3>
+              <label className="text-xs text-slate-500 flex items-center gap-2">
+                Positive at ≥ {Math.round(threshold * 100)}%
+                <input type="range" min={0.1} max={0.9} step={0.05} value={threshold} onChange={e => setThreshold(Number(e.target.value))} />
+              </label>
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-[10px] uppercase text-slate-400">
+                  <th className="py-2">Region</th>
+                  <th className="py-2 text-right">TP</th>
+                  <th className="py-2 text-right">FP</th>
+                  <th className="py-2 text-right">FN</th>
+                  <th className="py-2 text-right">Sensitivity</th>
+                  <th className="py-2 text-right">Precision</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {report.regions.map(r => (
+                  <tr key={r.region}>
+                    <td className="py-2 font-medium text-slate-800">{r.region}</td>
+                    <td className="py-2 text-right">{r.truePositives}</td>
+                    <td className="py-2 text-right">{r.falsePositives}</td>
+                    <td className="py-2 text-right">{r.falseNegatives}</td>
+                    <td className="py-2 text-right font-bold">{formatRate(r.sensitivity)}</td>
+                    <td className="py-2 text-right font-bold">{formatRate(r.precision)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalibrationDashboard;
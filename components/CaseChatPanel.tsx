@@ -0,0 +1,174 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AccidentData, AnalysisProviderId, CaseChatMessage, TraumaAnalysis } from '../types';
+import { askCaseQuestion } from '../services/geminiService';
+import { runWhatIf } from '../services/whatIf';
+import { diffAnalyses } from '../services/analysisDiff';
+import { getReportedParameters } from '../services/crashParameters';
+import { UiStrings } from '../services/i18n';
+import AnalysisDiffView from './AnalysisDiffView';
+
+interface Props {
+  data: AccidentData;
+  analysis: TraumaAnalysis;
+  providerId: AnalysisProviderId; // what-ifs are re-analysed on the provider of the original result
+  messages: CaseChatMessage[];
+  online: boolean;
+  onMessagesChange: (messages: CaseChatMessage[]) => void;
+  t: UiStrings;
+}
+
+const newMessage = (role: CaseChatMessage['role'], text: string): CaseChatMessage => ({
+  id: crypto.randomUUID(),
+  role,
+  text,
+  createdAt: new Date().toISOString(),
+});
+
+const CaseChatPanel: React.FC<Props> = ({ data, analysis, providerId, messages, online, onMessagesChange, t }) => {
+  const [question, setQuestion] = useState('');
+  const [status, setStatus] = useState<'idle' | 'answering' | 'reanalysing'>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [messages.length, status]);
+
+  const ask = async (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || status !== 'idle') return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const asked = [...messages, newMessage('user', trimmed)];
+    onMessagesChange(asked);
+    setQuestion('');
+    setError(null);
+    setStatus('answering');
+
+    try {
+      const reply = await askCaseQuestion(data, analysis, messages, trimmed, controller.signal);
+      let answer = newMessage('assistant', reply.answer);
+      if (reply.whatIf) {
+        onMessagesChange([...asked, answer]);
+        setStatus('reanalysing');
+        try {
+          answer = { ...answer, whatIf: await runWhatIf(data, reply.whatIf, providerId, controller.signal) };
+        } catch (err) {
+          if (controller.signal.aborted) throw err;
+          answer = { ...answer, whatIfError: err instanceof Error ? err.message : t.reanalysisFailed };
+        }
+      }
+      onMessagesChange([...asked, answer]);
+    } catch (err) {
+      if (!controller.signal.aborted) setError(err instanceof Error ? err.message : t.chatFailed);
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setStatus('idle');
+    }
+  };
+
+  const renderWhatIf = (message: CaseChatMessage) => {
+    if (message.whatIfError) {
+      return <p className="mt-2 text-xs text-red-600"><i className="fas fa-exclamation-circle mr-1"></i>{t.whatIfFailed}: {message.whatIfError}</p>;
+    }
+    if (!message.whatIf) return null;
+    const { scenario } = message.whatIf;
+    const changes = getReportedParameters({ accidentDescription: '', ...scenario.overrides });
+    return (
+      <div className="mt-3 bg-white rounded-lg border border-indigo-100 p-3 overflow-x-auto">
+        <p className="text-[10px] font-bold text-indigo-600 uppercase mb-1">{t.whatIf} • {scenario.description}</p>
+        <div className="flex flex-wrap gap-1 mb-3">
+          {changes.map(change => (
+            <span key={change.key} className="text-[10px] bg-indigo-50 text-indigo-700 px-2 py-0.5 rounded-full">{change.label}: {change.value}</span>
+          ))}
+          {scenario.narrativeAddendum && (
+            <span className="text-[10px] bg-indigo-50 text-indigo-700 px-2 py-0.5 rounded-full">{scenario.narrativeAddendum}</span>
+          )}
+        </div>
+        <AnalysisDiffView diff={diffAnalyses(analysis, message.whatIf.analysis)} beforeLabel={t.whatIfOriginal} afterLabel={t.whatIf} hideUnchanged />
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 shadow-sm flex flex-col">
+      <div className="p-5 pb-3 flex items-center gap-2 border-b border-slate-100">
+        <i className="fas fa-comments text-indigo-600"></i>
+        <h3 className="text-lg font-bold text-slate-800">{t.chatTitle}</h3>
+        {!online && <span className="ml-auto text-xs text-amber-600">{t.needsGemini}</span>}
+      </div>
+
+      <div ref={listRef} className="p-5 space-y-3 max-h-[32rem] overflow-y-auto">
+        {messages.length === 0 && (
+          <p className="text-sm text-slate-400">
+            {t.chatEmpty}
+          </p>
+        )}
+        {messages.map(message => (
+          <div key={message.id} className={message.role === 'user' ? 'flex justify-end' : ''}>
+            <div className={`rounded-xl px-4 py-2 text-sm max-w-[90%] ${
+              message.role === 'user' ? 'bg-indigo-600 text-white' : 'bg-slate-50 border border-slate-100 text-slate-700'
+            }`}>
+              <p className="whitespace-pre-wrap" dir="auto">{message.text}</p>
+              {renderWhatIf(message)}
+            </div>
+          </div>
+        ))}
+        {status !== 'idle' && (
+          <p className="text-xs text-slate-500">
+            <i className="fas fa-circle-notch animate-spin mr-1"></i>
+            {status === 'answering' ? t.chatThinking : t.chatReanalysing}
+          </p>
+        )}
+        {error && <p className="text-xs text-red-600"><i className="fas fa-exclamation-circle mr-1"></i>{error}</p>}
+      </div>
+
+      <div className="p-5 pt-0 space-y-2">
+        <div className="flex flex-wrap gap-1">
+          {t.chatSuggestions.map(suggestion => (
+            <button
+              key={suggestion}
+              type="button"
+              disabled={!online || status !== 'idle'}
+              onClick={() => ask(suggestion)}
+              className="text-[11px] text-indigo-700 border border-indigo-100 bg-indigo-50 px-2 py-1 rounded-full hover:bg-indigo-100 disabled:opacity-40"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+        <form
+          onSubmit={e => {
+            e.preventDefault();
+            ask(question);
+          }}
+          className="flex gap-2"
+        >
+          <input
+            type="text"
+            dir="auto"
+            value={question}
+            onChange={e => setQuestion(e.target.value)}
+            placeholder={t.chatPlaceholder}
+            disabled={!online}
+            className="flex-1 rounded-lg border-slate-300 bg-slate-50 text-sm px-3 py-2"
+          />
+          {status === 'idle' ? (
+            <button type="submit" disabled={!online || !question.trim()} className="bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-semibold px-4 rounded-lg disabled:opacity-40">
+              <i className="fas fa-paper-plane"></i>
+            </button>
+          ) : (
+            <button type="button" onClick={() => abortRef.current?.abort()} className="text-sm font-semibold text-red-600 border border-red-200 px-3 rounded-lg hover:bg-red-50">
+              <i className="fas fa-times"></i>
+            </button>
+          )}
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CaseChatPanel;
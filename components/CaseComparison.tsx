@@ -0,0 +1,77 @@
+import React from 'react';
+import { CaseRecord } from '../types';
+import { diffAnalyses } from '../services/analysisDiff';
+import { scoreAnalysis } from '../services/injuryScoring';
+import { getReportedParameters } from '../services/crashParameters';
+import SeverityBadge from './SeverityBadge';
+import AnalysisDiffView from './AnalysisDiffView';
+
+interface Props {
+  left: CaseRecord;
+  right: CaseRecord;
+  onClose: () => void;
+}
+
+const CaseComparison: React.FC<Props> = ({ left, right, onClose }) => {
+  const diff = diffAnalyses(left.analysis, right.analysis);
+
+  const renderCase = (record: CaseRecord, side: 'A' | 'B') => {
+    const scores = scoreAnalysis(record.analysis);
+    const reported = getReportedParameters(record.data);
+    return (
+      <div className="bg-white rounded-2xl p-5 border border-slate-200 shadow-sm space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <span className="text-[10px] font-bold text-slate-400 uppercase">Case {side}</span>
+            <h3 className="text-lg font-bold text-slate-800">{record.label ?? 'Unlabelled case'}</h3>
+            <p className="text-xs text-slate-400">{new Date(record.createdAt).toLocaleString()} • {record.source.providerLabel} ({record.source.model})</p>
+          </div>
+          <SeverityBadge severity={record.analysis.severityScore} className="px-3 py-1 text-sm" />
+        </div>
+        <p className="text-sm text-slate-600 italic border-l-4 border-slate-200 pl-3">{record.data.accidentDescription}</p>
+        {reported.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {reported.map(p => (
+              <span key={p.key} className="text-[10px] bg-slate-100 text-slate-600 px-2 py-0.5 rounded-full">{p.label}: {p.value}</span>
+            ))}
+          </div>
+        )}
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <div className="bg-slate-50 rounded-lg py-2"><p className="text-[10px] text-slate-500 uppercase font-bold">Exp. ISS</p><p className="font-bold">{scores.expectedIss}</p></div>
+          <div className="bg-slate-50 rounded-lg py-2"><p className="text-[10px] text-slate-500 uppercase font-bold">Exp. NISS</p><p className="font-bold">{scores.expectedNiss}</p></div>
+          <div className="bg-slate-50 rounded-lg py-2"><p className="text-[10px] text-slate-500 uppercase font-bold">Likely ISS</p><p className="font-bold">{scores.mostLikelyIss}</p></div>
+        </div>
+        <ol className="text-sm text-slate-700 list-decimal list-inside space-y-1">
+          {record.analysis.immediateActions.map((action, idx) => <li key={idx}>{action}</li>)}
+        </ol>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+          <i className="fas fa-columns text-blue-600"></i>
+          Case Comparison
+        </h2>
+        <button type="button" onClick={onClose} className="text-sm font-semibold text-blue-600 hover:underline">
+          <i className="fas fa-arrow-left mr-1"></i>
+          Back to case log
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {renderCase(left, 'A')}
+        {renderCase(right, 'B')}
+      </div>
+
+      <div className="bg-white rounded-2xl p-5 border border-slate-200 shadow-sm overflow-x-auto">
+        <h3 className="text-sm font-semibold text-slate-500 mb-3 uppercase tracking-wider">Predicted Injuries</h3>
+        <AnalysisDiffView diff={diff} beforeLabel="Case A" afterLabel="Case B" />
+      </div>
+    </div>
+  );
+};
+
+export default CaseComparison;
@@ -0,0 +1,138 @@
+import React from 'react';
+import { AccidentData, AnalysisSource, TraumaAnalysis } from '../types';
+import { getReportedParameters } from '../services/crashParameters';
+import { AIS_LABELS, scoreAnalysis } from '../services/injuryScoring';
+import { describeVitals, hasVitals } from '../services/physiology';
+import { describePatient } from '../services/specialPopulations';
+import InjuryChart from './InjuryChart';
+
+interface Props {
+  data: AccidentData;
+  analysis: TraumaAnalysis;
+  source: AnalysisSource;
+  issuedAt: string;
+  label?: string;
+}
+
+/**
+ * Print-only layout of a case. Hidden on screen; App switches to it through the print media query.
+ */
+const ClinicalReport: React.FC<Props> = ({ data, analysis, source, issuedAt, label }) => {
+  const scores = scoreAnalysis(analysis);
+  const reported = getReportedParameters(data);
+  const inferred = analysis.inferredParameters.filter(p => !reported.some(r => r.key === p.parameter));
+  const vitals = hasVitals(data.vitals) ? describeVitals(data.vitals) : [];
+  const patient = describePatient(data.patient);
+  const ruleTitle = (ruleId: string) => analysis.populationWarnings?.find(w => w.ruleId === ruleId)?.title ?? ruleId;
+
+  const section = (title: string, children: React.ReactNode) => (
+    <section className="mb-5 break-inside-avoid">
+      <h2 className="text-xs font-bold uppercase tracking-wider text-slate-500 border-b border-slate-300 mb-2 pb-1">{title}</h2>
+      {children}
+    </section>
+  );
+
+  return (
+    <div className="hidden print:block text-slate-900 text-sm">
+      <header className="flex justify-between items-start border-b-2 border-slate-800 pb-3 mb-5">
+        <div>
+          <h1 className="text-2xl font-bold">TraumaPredict AI — Injury Prediction Report</h1>
+          <p className="text-slate-600">Dera Ismail Khan Hospital • Emergency Department</p>
+        </div>
+        <div className="text-right text-xs">
+          {label && <p className="font-bold text-base">{label}</p>}
+          <p>Analysed: {new Date(issuedAt).toLocaleString()}</p>
+          <p>Printed: {new Date().toLocaleString()}</p>
+          <p>Engine: {source.providerLabel} ({source.model})</p>
+          {source.fallbackReason && <p>Fallback: {source.fallbackReason}</p>}
+        </div>
+      </header>
+
+      {section('Accident Narrative', <p className="italic">"{data.accidentDescription}"</p>)}
+
+      {section('Structured Inputs', (
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <p className="font-bold text-xs mb-1">Crash parameters</p>
+            {reported.length === 0 && inferred.length === 0 && <p className="text-slate-500">None recorded.</p>}
+            <ul>
+              {reported.map(p => <li key={p.key}>{p.label}: <strong>{p.value}</strong> (reported)</li>)}
+              {inferred.map(p => <li key={p.parameter}>{p.parameter}: <strong>{p.value}</strong> (inferred)</li>)}
+            </ul>
+          </div>
+          <div>
+            <p className="font-bold text-xs mb-1">Vital signs</p>
+            {vitals.length === 0 ? <p className="text-slate-500">Not recorded.</p> : <ul>{vitals.map(line => <li key={line}>{line}</li>)}</ul>}
+          </div>
+          <div>
+            <p className="font-bold text-xs mb-1">Patient</p>
+            {patient.length === 0 ? <p className="text-slate-500">Not recorded.</p> : <ul>{patient.map(line => <li key={line}>{line}</li>)}</ul>}
+          </div>
+        </div>
+      ))}
+
+      {section('Severity', (
+        <div>
+          <p>
+            Model severity: <strong>{analysis.severityScore}</strong> • Expected ISS <strong>{scores.expectedIss}</strong> ({scores.issSeverity})
+            • Expected NISS <strong>{scores.expectedNiss}</strong> • Most-likely ISS <strong>{scores.mostLikelyIss}</strong>
+          </p>
+          {scores.disagreement !== 'none' && <p className="font-bold">Note: model severity and ISS band disagree.</p>}
+          <p className="mt-2">{analysis.summary}</p>
+        </div>
+      ))}
+
+      {section('Injury Probability', <InjuryChart injuries={analysis.predictedInjuries} fixedWidth={640} />)}
+
+      {analysis.populationWarnings?.length ? section('Special-Population Rules', (
+        <ul className="space-y-1">
+          {analysis.populationWarnings.map(warning => (
+            <li key={warning.ruleId}>
+              <strong>{warning.title}</strong> ({warning.population}): {warning.detail} <span className="text-slate-500">[{warning.reference}]</span>
+            </li>
+          ))}
+        </ul>
+      )) : null}
+
+      {section('Priority Interventions', (
+        <ol className="list-decimal list-inside space-y-1">
+          {analysis.immediateActions.map((action, idx) => <li key={idx}>{action}</li>)}
+        </ol>
+      ))}
+
+      {section('Biomechanical Breakdown', (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left border-b border-slate-300">
+              <th className="py-1 pr-2">Injury</th>
+              <th className="py-1 pr-2">Region</th>
+              <th className="py-1 pr-2">Prob.</th>
+              <th className="py-1 pr-2">AIS</th>
+              <th className="py-1">Mechanism / vulnerability</th>
+            </tr>
+          </thead>
+          <tbody>
+            {analysis.predictedInjuries.map((injury, idx) => (
+              <tr key={idx} className="border-b border-slate-200 align-top break-inside-avoid">
+                <td className="py-1 pr-2 font-bold">
+                  {injury.injuryName}
+                  {injury.populationRule && <span className="block font-normal text-slate-500">Rule: {ruleTitle(injury.populationRule)}</span>}
+                </td>
+                <td className="py-1 pr-2">{injury.anatomicalRegion}</td>
+                <td className="py-1 pr-2">{Math.round(injury.probability * 100)}%</td>
+                <td className="py-1 pr-2">{injury.aisSeverity} ({AIS_LABELS[injury.aisSeverity]})</td>
+                <td className="py-1">{injury.physicsExplanation} {injury.anatomyVulnerability}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ))}
+
+      <footer className="text-[10px] text-slate-500 border-t border-slate-300 pt-2">
+        Decision support only. Predictions are based on crash biomechanics and must be correlated with physical examination and trauma imaging.
+      </footer>
+    </div>
+  );
+};
+
+export default ClinicalReport;
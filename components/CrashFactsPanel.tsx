@@ -0,0 +1,47 @@
+import React from 'react';
+import { AccidentData, InferredParameter } from '../types';
+import { CRASH_PARAMETER_LABELS, getReportedParameters } from '../services/crashParameters';
+
+interface Props {
+  data: AccidentData;
+  inferred: InferredParameter[];
+}
+
+const CrashFactsPanel: React.FC<Props> = ({ data, inferred }) => {
+  const reported = getReportedParameters(data);
+  const reportedKeys = new Set(reported.map(p => p.key));
+  // A reported value always wins over whatever the model claims to have inferred for the same field.
+  const inferredOnly = inferred.filter(p => !reportedKeys.has(p.parameter));
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+      <h3 className="text-sm font-semibold text-slate-500 mb-4 uppercase tracking-wider">Crash Parameters</h3>
+      {reported.length === 0 && inferredOnly.length === 0 ? (
+        <p className="text-sm text-slate-400">No crash parameters were reported or could be inferred.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {reported.map(p => (
+            <div key={p.key} className="flex items-center justify-between rounded-lg bg-emerald-50 border border-emerald-100 px-3 py-2 text-sm">
+              <span className="text-slate-600">{p.label}</span>
+              <span className="flex items-center gap-2">
+                <span className="font-bold text-slate-800">{p.value}</span>
+                <span className="text-[10px] font-bold uppercase text-emerald-700 bg-emerald-100 px-2 py-0.5 rounded-full">Reported</span>
+              </span>
+            </div>
+          ))}
+          {inferredOnly.map(p => (
+            <div key={p.parameter} title={p.rationale} className="flex items-center justify-between rounded-lg bg-amber-50 border border-amber-100 px-3 py-2 text-sm">
+              <span className="text-slate-600">{CRASH_PARAMETER_LABELS[p.parameter] ?? p.parameter}</span>
+              <span className="flex items-center gap-2">
+                <span className="font-bold text-slate-800">{p.value}</span>
+                <span className="text-[10px] font-bold uppercase text-amber-700 bg-amber-100 px-2 py-0.5 rounded-full">Inferred</span>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CrashFactsPanel;
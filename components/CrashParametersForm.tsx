@@ -0,0 +1,84 @@
+import React from 'react';
+import { AccidentData, CrashParameterKey } from '../types';
+import {
+  COLLISION_PARTNERS,
+  CRASH_PARAMETER_LABELS,
+  IMPACT_TYPES,
+  PATIENT_POSITIONS,
+  VEHICLE_TYPES,
+} from '../services/crashParameters';
+
+interface Props {
+  data: AccidentData;
+  onChange: (patch: Partial<AccidentData>) => void;
+}
+
+const inputClass = "w-full rounded-lg border-slate-300 focus:ring-blue-500 focus:border-blue-500 bg-slate-50 text-sm px-3 py-2";
+
+const CrashParametersForm: React.FC<Props> = ({ data, onChange }) => {
+  const renderSelect = (key: CrashParameterKey, options: readonly string[]) => (
+    <label className="block">
+      <span className="block text-[10px] font-bold text-slate-500 uppercase mb-1">{CRASH_PARAMETER_LABELS[key]}</span>
+      <select
+        value={(data[key] as string | undefined) ?? ''}
+        onChange={e => onChange({ [key]: e.target.value || undefined })}
+        className={inputClass}
+      >
+        <option value="">Not reported</option>
+        {options.map(o => <option key={o} value={o}>{o}</option>)}
+      </select>
+    </label>
+  );
+
+  const renderNumber = (key: 'estimatedSpeedKmh' | 'minutesSinceImpact', unit: string) => (
+    <label className="block">
+      <span className="block text-[10px] font-bold text-slate-500 uppercase mb-1">{CRASH_PARAMETER_LABELS[key]} ({unit})</span>
+      <input
+        type="number"
+        min={0}
+        value={data[key] ?? ''}
+        onChange={e => onChange({ [key]: e.target.value === '' ? undefined : Number(e.target.value) })}
+        placeholder="Not reported"
+        className={inputClass}
+      />
+    </label>
+  );
+
+  const renderYesNo = (key: 'helmetUsed' | 'seatbeltUsed' | 'ejected') => (
+    <label className="block">
+      <span className="block text-[10px] font-bold text-slate-500 uppercase mb-1">{CRASH_PARAMETER_LABELS[key]}</span>
+      <select
+        value={data[key] === undefined ? '' : data[key] ? 'yes' : 'no'}
+        onChange={e => onChange({ [key]: e.target.value === '' ? undefined : e.target.value === 'yes' })}
+        className={inputClass}
+      >
+        <option value="">Not reported</option>
+        <option value="yes">Yes</option>
+        <option value="no">No</option>
+      </select>
+    </label>
+  );
+
+  return (
+    <details className="rounded-lg border border-slate-200 bg-white" open>
+      <summary className="cursor-pointer select-none px-4 py-3 text-sm font-semibold text-slate-700 flex items-center gap-2">
+        <i className="fas fa-clipboard-list text-blue-600"></i>
+        Crash Parameters
+        <span className="text-[10px] font-normal text-slate-400">(optional)</span>
+      </summary>
+      <div className="grid grid-cols-2 gap-3 px-4 pb-4">
+        {renderSelect('patientVehicle', VEHICLE_TYPES)}
+        {renderSelect('collisionPartner', COLLISION_PARTNERS)}
+        {renderSelect('impactType', IMPACT_TYPES)}
+        {renderSelect('patientPosition', PATIENT_POSITIONS)}
+        {renderNumber('estimatedSpeedKmh', 'km/h')}
+        {renderNumber('minutesSinceImpact', 'min')}
+        {renderYesNo('helmetUsed')}
+        {renderYesNo('seatbeltUsed')}
+        {renderYesNo('ejected')}
+      </div>
+    </details>
+  );
+};
+
+export default CrashParametersForm;
@@ -0,0 +1,190 @@
+import React, { useMemo, useState } from 'react';
+import { AccidentData, TraumaAnalysis } from '../types';
+import {
+  CriterionAnswer,
+  CriterionAnswers,
+  DECISION_RULES,
+  DecisionRule,
+  EvidenceSource,
+  Prefill,
+  RuleStatus,
+  prefillCriteria,
+} from '../services/decisionRules';
+
+interface Props {
+  data: AccidentData;
+  analysis: TraumaAnalysis;
+}
+
+const STATUS_STYLES: Record<RuleStatus, { label: string; className: string; icon: string }> = {
+  indicated: { label: 'Indicated', className: 'text-red-700 bg-red-50 border-red-200', icon: 'fa-x-ray' },
+  consider: { label: 'Consider', className: 'text-amber-700 bg-amber-50 border-amber-200', icon: 'fa-balance-scale' },
+  'not-indicated': { label: 'Not indicated', className: 'text-emerald-700 bg-emerald-50 border-emerald-200', icon: 'fa-check' },
+  incomplete: { label: 'Incomplete', className: 'text-slate-600 bg-slate-100 border-slate-200', icon: 'fa-question' },
+  'not-applicable': { label: 'N/A', className: 'text-slate-400 bg-slate-50 border-slate-200', icon: 'fa-minus' },
+};
+
+const SOURCE_ICONS: Record<EvidenceSource, string> = {
+  form: 'fa-clipboard-list',
+  vitals: 'fa-heartbeat',
+  narrative: 'fa-align-left',
+  prediction: 'fa-brain',
+};
+
+const ANSWER_OPTIONS: { value: CriterionAnswer; label: string; active: string }[] = [
+  { value: true, label: 'Yes', active: 'bg-slate-800 text-white border-slate-800' },
+  { value: false, label: 'No', active: 'bg-slate-500 text-white border-slate-500' },
+  { value: undefined, label: '?', active: 'bg-slate-200 text-slate-700 border-slate-300' },
+];
+
+const RuleCard: React.FC<{
+  rule: DecisionRule;
+  answers: CriterionAnswers;
+  prefill: Record<string, Prefill>;
+  overridden: Set<string>;
+  onAnswer: (id: string, value: CriterionAnswer) => void;
+  onReset: (id: string) => void;
+}> = ({ rule, answers, prefill, overridden, onAnswer, onReset }) => {
+  const recommendation = rule.evaluate(answers);
+  const [open, setOpen] = useState(recommendation.status === 'indicated' || recommendation.status === 'incomplete');
+  const style = STATUS_STYLES[recommendation.status];
+  const groups = [...new Set(rule.criteria.map(c => c.group))];
+
+  return (
+    <div className="border border-slate-200 rounded-xl">
+      <button type="button" onClick={() => setOpen(!open)} className="w-full flex items-start gap-3 p-4 text-left">
+        <span className={`flex-shrink-0 text-[10px] font-bold uppercase px-2 py-1 rounded-full border ${style.className}`}>
+          <i className={`fas ${style.icon} mr-1`}></i>
+          {style.label}
+        </span>
+        <span className="flex-1">
+          <span className="block font-bold text-slate-800">{rule.name}</span>
+          <span className="block text-sm text-slate-600">{recommendation.headline}</span>
+        </span>
+        <i className={`fas fa-chevron-${open ? 'up' : 'down'} text-slate-400 mt-1`}></i>
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-4">
+          {recommendation.reasons.length > 0 && (
+            <ul className="text-xs text-slate-600 space-y-1 bg-slate-50 border border-slate-100 rounded-lg p-3">
+              {recommendation.reasons.map((reason, idx) => (
+                <li key={idx} className="flex gap-2">
+                  <i className="fas fa-angle-right text-slate-400 mt-0.5"></i>
+                  {reason}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {groups.map(group => (
+            <div key={group}>
+              <p className="text-[10px] font-bold uppercase text-slate-400 mb-1">{group}</p>
+              <ul className="divide-y divide-slate-100">
+                {rule.criteria.filter(c => c.group === group).map(criterion => {
+                  const evidence = prefill[criterion.id];
+                  const edited = overridden.has(criterion.id);
+                  return (
+                    <li key={criterion.id} className="py-2 flex items-start gap-3">
+                      <div className="flex-1 text-sm text-slate-700">
+                        {criterion.label}
+                        {evidence && (
+                          <p className={`text-[11px] mt-0.5 ${edited ? 'text-slate-300 line-through' : 'text-blue-600'}`}>
+                            <i className={`fas ${SOURCE_ICONS[evidence.source]} mr-1`}></i>
+                            {evidence.evidence}
+                            {evidence.source === 'prediction' && ' — AI prediction, confirm clinically'}
+                          </p>
+                        )}
+                        {edited && (
+                          <button type="button" onClick={() => onReset(criterion.id)} className="text-[11px] text-slate-400 hover:underline">
+                            <i className="fas fa-undo mr-1"></i>
+                            edited — {evidence ? 'restore prefilled answer' : 'clear'}
+                          </button>
+                        )}
+                      </div>
+                      <div className="flex flex-shrink-0 rounded-lg overflow-hidden border border-slate-200">
+                        {ANSWER_OPTIONS.map(option => (
+                          <button
+                            key={option.label}
+                            type="button"
+                            onClick={() => onAnswer(criterion.id, option.value)}
+                            className={`w-9 py-1 text-xs font-bold border-l first:border-l-0 ${
+                              answers[criterion.id] === option.value ? option.active : 'bg-white text-slate-400 border-slate-200'
+                            }`}
+                          >
+                            {option.label}
+                          </button>
+                        ))}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+
+          <p className="text-[10px] text-slate-400">{rule.imaging} • {rule.reference}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const DecisionRulesPanel: React.FC<Props> = ({ data, analysis }) => {
+  const prefill = useMemo(() => prefillCriteria(data, analysis), [data, analysis]);
+  // Only criteria the clinician has touched; everything else follows the prefill.
+  const [overrides, setOverrides] = useState<CriterionAnswers>({});
+
+  const answers = useMemo<CriterionAnswers>(() => {
+    const merged: CriterionAnswers = {};
+    Object.keys(prefill).forEach(id => (merged[id] = prefill[id].value));
+    return { ...merged, ...overrides };
+  }, [prefill, overrides]);
+  const overridden = useMemo(() => new Set(Object.keys(overrides)), [overrides]);
+
+  const answer = (id: string, value: CriterionAnswer) => {
+    if (value === prefill[id]?.value) reset(id);
+    else setOverrides(prev => ({ ...prev, [id]: value }));
+  };
+  const reset = (id: string) =>
+    setOverrides(prev => {
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <div className="flex items-center gap-2">
+          <i className="fas fa-clipboard-check text-blue-600"></i>
+          <h3 className="text-lg font-bold text-slate-800">Imaging Decision Rules</h3>
+        </div>
+        {overridden.size > 0 && (
+          <button type="button" onClick={() => setOverrides({})} className="text-xs text-slate-500 hover:underline">
+            <i className="fas fa-undo mr-1"></i>
+            Reset to prefilled
+          </button>
+        )}
+      </div>
+      <p className="text-[11px] text-slate-400 mb-4">
+        Deterministic checklists, independent of the AI output. Answers are prefilled from the form, vitals and narrative
+        where possible; confirm each one at the bedside.
+      </p>
+      <div className="space-y-3">
+        {DECISION_RULES.map(rule => (
+          <RuleCard
+            key={rule.id}
+            rule={rule}
+            answers={answers}
+            prefill={prefill}
+            overridden={overridden}
+            onAnswer={answer}
+            onReset={reset}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DecisionRulesPanel;
@@ -0,0 +1,113 @@
+import React from 'react';
+import { PredictedInjury, TraumaAnalysis } from '../types';
+import { HIGH_DISAGREEMENT_SD } from '../services/ensemble';
+import { UiStrings } from '../services/i18n';
+import SeverityBadge from './SeverityBadge';
+
+interface Props {
+  analysis: TraumaAnalysis;
+  t: UiStrings;
+}
+
+const percent = (p: number) => `${Math.round(p * 100)}%`;
+
+/**
+ * One-line agreement note for an injury card; nothing for injuries outside an ensemble.
+ */
+export const ConsensusNote: React.FC<{ injury: PredictedInjury; t: UiStrings }> = ({ injury, t }) => {
+  const consensus = injury.consensus;
+  if (!consensus) return null;
+  const single = consensus.votes === 1;
+  const spread = consensus.sd >= HIGH_DISAGREEMENT_SD;
+  return (
+    <p className={`text-[11px] mb-2 ${single || spread ? 'text-amber-700 font-semibold' : 'text-slate-500'}`}>
+      <i className={`fas ${single || spread ? 'fa-exclamation-triangle' : 'fa-users'} mr-1`}></i>
+      {t.consensusVotes(consensus.votes, consensus.members)} • {t.consensusRange(percent(consensus.min), percent(consensus.max))} • ± {percent(consensus.sd)}
+      {single && ` • ${t.consensusSingle}`}
+      {!single && spread && ` • ${t.consensusSpread}`}
+    </p>
+  );
+};
+
+const EnsemblePanel: React.FC<Props> = ({ analysis, t }) => {
+  const members = analysis.ensemble;
+  if (!members) return null;
+  const injuries = analysis.predictedInjuries.filter(i => i.consensus);
+  const singles = injuries.filter(i => i.consensus!.votes === 1);
+  const disputed = injuries.filter(i => i.consensus!.votes > 1 && i.consensus!.sd >= HIGH_DISAGREEMENT_SD);
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+      <div className="flex items-center gap-2 mb-1">
+        <i className="fas fa-users text-blue-600"></i>
+        <h3 className="text-lg font-bold text-slate-800">{t.ensembleTitle}</h3>
+      </div>
+      <p className="text-[11px] text-slate-400 mb-4">
+        {t.ensembleNote}
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-2 mb-4">
+        {members.map(member => (
+          <div key={member.id} className={`rounded-lg border p-3 text-xs ${member.status === 'failed' ? 'border-red-200 bg-red-50/50' : 'border-slate-200'}`}>
+            <p className="font-bold text-slate-700">{member.label}</p>
+            <p className="text-[10px] text-slate-400 mb-1">{member.model}</p>
+            {member.status === 'done' ? (
+              <p className="flex items-center gap-2">
+                {member.severityScore && <SeverityBadge severity={member.severityScore} />}
+                <span className="text-slate-500">{t.memberInjuries(member.injuryCount)}</span>
+              </p>
+            ) : (
+              <p className="text-red-600" title={member.error}>
+                <i className="fas fa-exclamation-circle mr-1"></i>
+                {t.memberFailed}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {singles.length + disputed.length === 0 ? (
+        <p className="text-sm text-emerald-700">
+          <i className="fas fa-check mr-1"></i>
+          {t.ensembleAgree}
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+          {disputed.length > 0 && (
+            <div>
+              <p className="text-[10px] font-bold uppercase text-amber-700 mb-1">{t.highDisagreement(percent(HIGH_DISAGREEMENT_SD))}</p>
+              <ul className="space-y-1">
+                {disputed.map((injury, idx) => (
+                  <li key={idx} className="text-slate-700">
+                    {injury.injuryName}
+                    <span className="text-slate-400"> — {t.probabilityRange(percent(injury.consensus!.min), percent(injury.consensus!.max))}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {singles.length > 0 && (
+            <div>
+              <p className="text-[10px] font-bold uppercase text-amber-700 mb-1">{t.singleModelOnly}</p>
+              <ul className="space-y-1">
+                {singles.map((injury, idx) => {
+                  const memberId = Object.keys(injury.consensus!.probabilities)[0];
+                  const probability = injury.consensus!.probabilities[memberId];
+                  const member = members.find(m => m.id === memberId);
+                  return (
+                    <li key={idx} className="text-slate-700">
+                      {injury.injuryName}
+                      <span className="text-slate-400"> — {member?.label ?? memberId}, {percent(probability)}</span>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EnsemblePanel;
@@ -0,0 +1,201 @@
+import React, { useMemo, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { CaseRecord, TraumaAnalysis, VehicleType } from '../types';
+import { CategoryCount, EpidemiologyFilters, buildEpidemiologyReport, filterCases } from '../services/epidemiology';
+import { VEHICLE_TYPES } from '../services/crashParameters';
+import { SEVERITY_LEVELS } from '../services/validation';
+import { getSeverityColor } from './SeverityBadge';
+
+interface Props {
+  cases: CaseRecord[];
+}
+
+type Severity = TraumaAnalysis['severityScore'];
+
+// Hex equivalents of the SeverityBadge colours, for chart fills.
+const SEVERITY_FILLS: Record<Severity, string> = {
+  Low: '#16a34a',
+  Moderate: '#ca8a04',
+  High: '#ea580c',
+  Critical: '#dc2626',
+};
+
+const TOOLTIP_STYLE = { borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' };
+
+const GRANULARITY_LABELS = { day: 'per day', week: 'per week (from Monday)', month: 'per month' };
+
+const ChartCard: React.FC<{ title: string; className?: string; children: React.ReactElement }> = ({ title, className = 'h-72', children }) => (
+  <div className={`${className} bg-white rounded-xl p-4 shadow-sm border border-slate-200`}>
+    <h3 className="text-sm font-semibold text-slate-500 mb-4 uppercase tracking-wider">{title}</h3>
+    <ResponsiveContainer width="100%" height="85%">
+      {children}
+    </ResponsiveContainer>
+  </div>
+);
+
+const categoryChart = (data: CategoryCount[], fill: string) => (
+  <BarChart data={data} layout="vertical" margin={{ left: 10, right: 30 }}>
+    <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+    <XAxis type="number" allowDecimals={false} stroke="#64748b" fontSize={12} />
+    <YAxis type="category" dataKey="name" stroke="#64748b" fontSize={12} width={110} />
+    <Tooltip cursor={{ fill: '#f1f5f9' }} contentStyle={TOOLTIP_STYLE} formatter={value => [value, 'Cases']} />
+    <Bar dataKey="count" fill={fill} radius={[0, 4, 4, 0]} />
+  </BarChart>
+);
+
+const EpidemiologyDashboard: React.FC<Props> = ({ cases }) => {
+  const [filters, setFilters] = useState<EpidemiologyFilters>({ severities: [] });
+  const filtered = useMemo(() => filterCases(cases, filters), [cases, filters]);
+  const report = useMemo(() => buildEpidemiologyReport(filtered), [filtered]);
+
+  const toggleSeverity = (severity: Severity) =>
+    setFilters(prev => ({
+      ...prev,
+      severities: prev.severities.includes(severity) ? prev.severities.filter(s => s !== severity) : [...prev.severities, severity],
+    }));
+
+  const topRegions = report.regions.slice(0, 8).map(region => ({ ...region, percent: Math.round(region.share * 100) }));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <i className="fas fa-chart-bar text-blue-600"></i>
+        <h2 className="text-xl font-bold text-slate-800">RTA Epidemiology</h2>
+      </div>
+
+      <div className="bg-white rounded-xl p-4 shadow-sm border border-slate-200 flex flex-wrap items-end gap-4">
+        <label className="text-xs text-slate-500">
+          From
+          <input
+            type="date"
+            value={filters.from ?? ''}
+            onChange={e => setFilters(prev => ({ ...prev, from: e.target.value || undefined }))}
+            className="block mt-1 rounded-lg border-slate-300 bg-slate-50 text-sm"
+          />
+        </label>
+        <label className="text-xs text-slate-500">
+          To
+          <input
+            type="date"
+            value={filters.to ?? ''}
+            onChange={e => setFilters(prev => ({ ...prev, to: e.target.value || undefined }))}
+            className="block mt-1 rounded-lg border-slate-300 bg-slate-50 text-sm"
+          />
+        </label>
+        <label className="text-xs text-slate-500">
+          Patient vehicle
+          <select
+            value={filters.vehicle ?? ''}
+            onChange={e => setFilters(prev => ({ ...prev, vehicle: (e.target.value || undefined) as VehicleType | undefined }))}
+            className="block mt-1 rounded-lg border-slate-300 bg-slate-50 text-sm"
+          >
+            <option value="">All</option>
+            {VEHICLE_TYPES.map(vehicle => <option key={vehicle} value={vehicle}>{vehicle}</option>)}
+          </select>
+        </label>
+        <div className="text-xs text-slate-500">
+          Severity
+          <div className="flex gap-1 mt-1">
+            {SEVERITY_LEVELS.map(severity => (
+              <button
+                key={severity}
+                type="button"
+                onClick={() => toggleSeverity(severity)}
+                className={`px-2 py-1 rounded-full text-[11px] font-bold border ${
+                  filters.severities.includes(severity) ? getSeverityColor(severity) : 'text-slate-400 border-slate-200'
+                }`}
+              >
+                {severity}
+              </button>
+            ))}
+          </div>
+        </div>
+        <button type="button" onClick={() => setFilters({ severities: [] })} className="text-xs text-slate-500 hover:underline ml-auto">
+          Clear filters
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <div className="bg-white rounded-xl p-4 border border-slate-200 shadow-sm">
+          <p className="text-[10px] font-bold text-slate-500 uppercase">Cases</p>
+          <p className="text-2xl font-bold text-slate-800">{report.totalCases}<span className="text-sm text-slate-400"> / {cases.length}</span></p>
+        </div>
+        {SEVERITY_LEVELS.map(severity => (
+          <div key={severity} className="bg-white rounded-xl p-4 border border-slate-200 shadow-sm">
+            <p className="text-[10px] font-bold text-slate-500 uppercase">{severity}</p>
+            <p className="text-2xl font-bold" style={{ color: SEVERITY_FILLS[severity] }}>{report.severityTotals[severity]}</p>
+          </div>
+        ))}
+      </div>
+
+      {report.totalCases === 0 ? (
+        <div className="bg-white border-2 border-dashed border-slate-200 rounded-3xl p-12 text-center text-slate-400">
+          <i className="fas fa-chart-line text-4xl mb-4"></i>
+          <p>{cases.length === 0 ? 'No stored cases yet. Analysed cases appear here automatically.' : 'No cases match these filters.'}</p>
+        </div>
+      ) : (
+        <>
+          <ChartCard title={`Severity over time (${GRANULARITY_LABELS[report.granularity]})`} className="h-80">
+            <BarChart data={report.severityOverTime} margin={{ left: 0, right: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="period" stroke="#64748b" fontSize={11} />
+              <YAxis allowDecimals={false} stroke="#64748b" fontSize={12} />
+              <Tooltip cursor={{ fill: '#f1f5f9' }} contentStyle={TOOLTIP_STYLE} />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              {SEVERITY_LEVELS.map(severity => (
+                <Bar key={severity} dataKey={severity} stackId="severity" fill={SEVERITY_FILLS[severity]} />
+              ))}
+            </BarChart>
+          </ChartCard>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <ChartCard title="Patient vehicle">{categoryChart(report.vehicles, '#2563eb')}</ChartCard>
+            <ChartCard title="Collided with">{categoryChart(report.collisionPartners, '#7c3aed')}</ChartCard>
+            <ChartCard title="Impact mechanism">{categoryChart(report.mechanisms, '#0891b2')}</ChartCard>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <ChartCard title="Most predicted regions (% of cases)">
+              <BarChart data={topRegions} layout="vertical" margin={{ left: 10, right: 30 }}>
+                <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                <XAxis type="number" domain={[0, 100]} stroke="#64748b" fontSize={12} />
+                <YAxis type="category" dataKey="name" stroke="#64748b" fontSize={12} width={110} />
+                <Tooltip
+                  cursor={{ fill: '#f1f5f9' }}
+                  contentStyle={TOOLTIP_STYLE}
+                  formatter={(value, _name, item) => [`${value}% (${item.payload.count} cases)`, 'Predicted in']}
+                />
+                <Bar dataKey="percent" fill="#ef4444" radius={[0, 4, 4, 0]} />
+              </BarChart>
+            </ChartCard>
+            <ChartCard title="Hour of day">
+              <BarChart data={report.hourOfDay} margin={{ left: 0, right: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="name" stroke="#64748b" fontSize={10} interval={2} />
+                <YAxis allowDecimals={false} stroke="#64748b" fontSize={12} />
+                <Tooltip cursor={{ fill: '#f1f5f9' }} contentStyle={TOOLTIP_STYLE} labelFormatter={hour => `${hour}:00–${hour}:59`} formatter={value => [value, 'Cases']} />
+                <Bar dataKey="count" fill="#f59e0b" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ChartCard>
+            <ChartCard title="Day of week">
+              <BarChart data={report.dayOfWeek} margin={{ left: 0, right: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="name" stroke="#64748b" fontSize={12} />
+                <YAxis allowDecimals={false} stroke="#64748b" fontSize={12} />
+                <Tooltip cursor={{ fill: '#f1f5f9' }} contentStyle={TOOLTIP_STYLE} formatter={value => [value, 'Cases']} />
+                <Bar dataKey="count" fill="#10b981" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ChartCard>
+          </div>
+
+          <p className="text-[11px] text-slate-400">
+            Times are the estimated crash time (analysis time minus the reported time since impact). Vehicle, collision partner and
+            mechanism use the intake form, or the value inferred from the narrative when the form left it blank.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default EpidemiologyDashboard;
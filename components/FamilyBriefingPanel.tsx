@@ -0,0 +1,63 @@
+import React from 'react';
+import { FamilyBriefing } from '../types';
+import { UiStrings } from '../services/i18n';
+
+interface Props {
+  briefing: FamilyBriefing | null;
+  loading: boolean;
+  error: string | null;
+  online: boolean;
+  onGenerate: () => void;
+  t: UiStrings;
+}
+
+const FamilyBriefingPanel: React.FC<Props> = ({ briefing, loading, error, online, onGenerate, t }) => (
+  <div className="bg-white rounded-2xl p-6 shadow-sm border border-emerald-200">
+    <div className="flex items-center justify-between gap-2 mb-1">
+      <div className="flex items-center gap-2">
+        <i className="fas fa-users text-emerald-600"></i>
+        <h3 className="text-lg font-bold text-slate-800">{t.familyBriefingTitle}</h3>
+      </div>
+      {!loading && (
+        <button
+          type="button"
+          onClick={onGenerate}
+          disabled={!online}
+          title={online ? undefined : t.needsGemini}
+          className="text-xs font-semibold text-emerald-700 border border-emerald-200 px-3 py-1 rounded-lg hover:bg-emerald-50 disabled:opacity-40"
+        >
+          <i className={`fas ${briefing ? 'fa-redo' : 'fa-language'} mr-1`}></i>
+          {briefing ? t.regenerateBriefing : t.prepareBriefing}
+        </button>
+      )}
+    </div>
+    <p className="text-[11px] text-slate-400 mb-4">
+      {t.familyBriefingNote}
+    </p>
+
+    {loading && (
+      <div className="flex items-center gap-2 text-sm text-slate-500">
+        <i className="fas fa-circle-notch animate-spin text-emerald-600"></i>
+        {t.preparingBriefing}
+      </div>
+    )}
+
+    {error && !loading && (
+      <p className="text-sm text-red-600">
+        <i className="fas fa-exclamation-circle mr-1"></i>
+        {error}
+      </p>
+    )}
+
+    {briefing && !loading && (
+      <div lang="ur" dir="rtl" className="text-slate-800 space-y-3">
+        <p className="text-lg">{briefing.summary}</p>
+        <ol className="list-decimal pr-6 space-y-1">
+          {briefing.immediateActions.map((action, idx) => <li key={idx}>{action}</li>)}
+        </ol>
+      </div>
+    )}
+  </div>
+);
+
+export default FamilyBriefingPanel;
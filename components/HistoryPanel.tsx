@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { CaseRecord } from '../types';
+import { matchesCaseQuery } from '../services/caseStore';
+import SeverityBadge from './SeverityBadge';
+
+interface Props {
+  cases: CaseRecord[];
+  currentCaseId: string | null;
+  onOpen: (record: CaseRecord) => void;
+  onDelete: (id: string) => void;
+  onCompare: (left: CaseRecord, right: CaseRecord) => void;
+}
+
+const HistoryPanel: React.FC<Props> = ({ cases, currentCaseId, onOpen, onDelete, onCompare }) => {
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const visible = cases.filter(record => matchesCaseQuery(record, query));
+
+  // Keep at most two selections; a third click replaces the oldest.
+  const toggleSelected = (id: string) => {
+    setSelected(prev => (prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id].slice(-2)));
+  };
+
+  const handleDelete = (record: CaseRecord) => {
+    if (window.confirm(`Delete case ${record.label ?? new Date(record.createdAt).toLocaleString()}? This cannot be undone.`)) {
+      setSelected(prev => prev.filter(id => id !== record.id));
+      onDelete(record.id);
+    }
+  };
+
+  const compare = () => {
+    const [left, right] = selected.map(id => cases.find(c => c.id === id)).filter((c): c is CaseRecord => !!c);
+    if (left && right) onCompare(left, right);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <div className="flex items-center gap-2">
+          <i className="fas fa-history text-blue-600"></i>
+          <h2 className="text-xl font-bold text-slate-800">Case Log</h2>
+          <span className="text-xs text-slate-400">{cases.length} stored on this device</span>
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="search"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Search label, narrative, injury..."
+            className="rounded-lg border-slate-300 bg-slate-50 text-sm px-3 py-2 w-64"
+          />
+          <button
+            type="button"
+            onClick={compare}
+            disabled={selected.length !== 2}
+            className="bg-blue-600 text-white text-sm font-bold px-4 py-2 rounded-lg disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <i className="fas fa-columns mr-1"></i>
+            Compare ({selected.length}/2)
+          </button>
+        </div>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-slate-400 text-center py-12">
+          {cases.length === 0 ? 'No cases yet. Every analysis is saved here automatically.' : 'No cases match your search.'}
+        </p>
+      ) : (
+        <ul className="divide-y divide-slate-100">
+          {visible.map(record => (
+            <li key={record.id} className={`flex items-start gap-3 py-3 ${record.id === currentCaseId ? 'bg-blue-50/50 -mx-2 px-2 rounded-lg' : ''}`}>
+              <input
+                type="checkbox"
+                checked={selected.includes(record.id)}
+                onChange={() => toggleSelected(record.id)}
+                className="mt-1"
+                aria-label="Select for comparison"
+              />
+              <div className="flex-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-2 mb-1">
+                  <span className="font-bold text-slate-800">{record.label ?? 'Unlabelled case'}</span>
+                  <SeverityBadge severity={record.analysis.severityScore} />
+                  <span className="text-[10px] text-slate-500 bg-slate-100 px-2 py-0.5 rounded-full">
+                    {record.source.providerLabel} • {record.source.model}
+                  </span>
+                  {record.outcome && (
+                    <span className="text-[10px] font-bold text-emerald-700 bg-emerald-50 px-2 py-0.5 rounded-full">
+                      <i className="fas fa-check mr-1"></i>Outcome
+                    </span>
+                  )}
+                  <span className="text-xs text-slate-400">{new Date(record.createdAt).toLocaleString()}</span>
+                </div>
+                <p className="text-sm text-slate-600 truncate">{record.data.accidentDescription}</p>
+              </div>
+              <div className="flex gap-1 flex-shrink-0">
+                <button type="button" onClick={() => onOpen(record)} className="text-sm font-semibold text-blue-600 hover:bg-blue-50 px-3 py-1 rounded-lg">
+                  Open
+                </button>
+                <button type="button" onClick={() => handleDelete(record)} className="text-sm text-slate-400 hover:text-red-600 hover:bg-red-50 px-2 py-1 rounded-lg" title="Delete case">
+                  <i className="fas fa-trash-alt"></i>
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
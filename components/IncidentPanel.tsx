@@ -0,0 +1,449 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AccidentData, CaseRecord, Incident, IncidentPatient, TriageCategory, TriageMethod, TriageObservations } from '../types';
+import { ProviderPreference, PROVIDERS } from '../services/analysisService';
+import { createIncident, createIncidentPatient, deleteIncident, listIncidents, modifyIncident, updateIncidentPatient } from '../services/incidentStore';
+import { runIncidentAnalyses } from '../services/incidentRunner';
+import { TRIAGE_CATEGORIES, assessTriage } from '../services/triage';
+import { UiStrings } from '../services/i18n';
+import CrashParametersForm from './CrashParametersForm';
+import VitalSignsForm from './VitalSignsForm';
+import PatientProfileForm from './PatientProfileForm';
+import TriageBoard from './TriageBoard';
+
+interface Props {
+  online: boolean;
+  preference: ProviderPreference;
+  cases: CaseRecord[];
+  onOpenCase: (record: CaseRecord) => void;
+  onCasesChanged: () => void;
+  t: UiStrings;
+}
+
+const inputClass = "w-full rounded-lg border-slate-300 focus:ring-blue-500 focus:border-blue-500 bg-slate-50 text-sm px-3 py-2";
+
+type ObservationKey = Exclude<keyof TriageObservations, 'capillaryRefillSec'>;
+
+// Labels come from UiStrings.triageObservations, keyed the same way.
+const OBSERVATIONS: { key: ObservationKey; methods: TriageMethod[] }[] = [
+  { key: 'walking', methods: ['START'] },
+  { key: 'breathesAfterAirway', methods: ['START', 'SALT'] },
+  { key: 'radialPulse', methods: ['START', 'SALT'] },
+  { key: 'followsCommands', methods: ['START', 'SALT'] },
+  { key: 'uncontrolledHaemorrhage', methods: ['SALT'] },
+  { key: 'minorInjuriesOnly', methods: ['SALT'] },
+  { key: 'likelyToSurvive', methods: ['SALT'] },
+];
+
+const SceneEditor: React.FC<{ incident: Incident; disabled: boolean; onSave: (patch: Partial<Incident>) => void; t: UiStrings }> = ({
+  incident,
+  disabled,
+  onSave,
+  t,
+}) => {
+  const [name, setName] = useState(incident.name);
+  const [method, setMethod] = useState(incident.method);
+  const [description, setDescription] = useState(incident.sceneDescription);
+  const [scene, setScene] = useState<AccidentData>({ ...incident.scene, accidentDescription: '' });
+  const changed =
+    name !== incident.name ||
+    method !== incident.method ||
+    description !== incident.sceneDescription ||
+    JSON.stringify({ ...scene, accidentDescription: undefined }) !== JSON.stringify(incident.scene);
+
+  const save = () => {
+    const { accidentDescription: _unused, ...parameters } = scene;
+    onSave({ name: name.trim() || incident.name, method, sceneDescription: description, scene: parameters });
+  };
+
+  return (
+    <details className="bg-white rounded-xl p-4 shadow-sm border border-slate-200" open={!incident.sceneDescription}>
+      <summary className="cursor-pointer select-none text-sm font-semibold text-slate-500 uppercase tracking-wider">
+        {t.scene}
+        {incident.sceneDescription && <span className="ml-2 normal-case font-normal text-slate-400">{incident.sceneDescription.slice(0, 80)}</span>}
+      </summary>
+      <div className="space-y-3 mt-3">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <label className="block md:col-span-2">
+            <span className="block text-[10px] font-bold text-slate-500 uppercase mb-1">{t.sceneIncidentName}</span>
+            <input type="text" value={name} onChange={e => setName(e.target.value)} className={inputClass} />
+          </label>
+          <label className="block">
+            <span className="block text-[10px] font-bold text-slate-500 uppercase mb-1">{t.triageMethod}</span>
+            <select value={method} onChange={e => setMethod(e.target.value as TriageMethod)} className={inputClass}>
+              <option value="START">START</option>
+              <option value="SALT">SALT</option>
+            </select>
+          </label>
+        </div>
+        <p className="text-[11px] text-slate-400">{t.triageMethodNotes[method]}</p>
+        <label className="block">
+          <span className="block text-[10px] font-bold text-slate-500 uppercase mb-1">{t.sceneSharedDescription}</span>
+          <textarea
+            rows={3}
+            value={description}
+            onChange={e => setDescription(e.target.value)}
+            placeholder={t.scenePlaceholder}
+            className={inputClass}
+          />
+        </label>
+        <CrashParametersForm data={scene} onChange={patch => setScene(prev => ({ ...prev, ...patch }))} />
+        <button
+          type="button"
+          onClick={save}
+          disabled={!changed || disabled}
+          className="text-xs font-semibold text-white bg-slate-800 px-4 py-2 rounded-lg disabled:opacity-40"
+        >
+          {t.sceneSave}
+        </button>
+      </div>
+    </details>
+  );
+};
+
+type PatientDraft = Pick<IncidentPatient, 'label' | 'data' | 'triage' | 'triageOverride'>;
+
+const PatientEditor: React.FC<{
+  incident: Incident;
+  patient: IncidentPatient;
+  busy: boolean;
+  canAnalyse: boolean;
+  onSave: (draft: PatientDraft, analyse: boolean) => void;
+  onRemove: () => void;
+  onClose: () => void;
+  t: UiStrings;
+}> = ({ incident, patient, busy, canAnalyse, onSave, onRemove, onClose, t }) => {
+  const [draft, setDraft] = useState<PatientDraft>({
+    label: patient.label,
+    data: patient.data,
+    triage: patient.triage,
+    triageOverride: patient.triageOverride,
+  });
+  const computed = assessTriage(incident.method, draft.triage, draft.data.vitals);
+  const update = (patch: Partial<PatientDraft>) => setDraft(prev => ({ ...prev, ...patch }));
+  const observe = (patch: Partial<TriageObservations>) => update({ triage: { ...draft.triage, ...patch } });
+
+  return (
+    <div className="bg-white rounded-xl p-4 shadow-sm border border-blue-200 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider">{t.patientHeading(patient.label)}</h3>
+        <button type="button" onClick={onClose} className="text-slate-400 hover:text-slate-600" title={t.patientClose}>
+          <i className="fas fa-times"></i>
+        </button>
+      </div>
+      <label className="block">
+        <span className="block text-[10px] font-bold text-slate-500 uppercase mb-1">{t.patientTag}</span>
+        <input type="text" value={draft.label} onChange={e => update({ label: e.target.value })} className={inputClass} />
+      </label>
+      <label className="block">
+        <span className="block text-[10px] font-bold text-slate-500 uppercase mb-1">{t.patientThis}</span>
+        <textarea
+          rows={4}
+          value={draft.data.accidentDescription}
+          onChange={e => update({ data: { ...draft.data, accidentDescription: e.target.value } })}
+          placeholder={t.patientPlaceholder}
+          className={inputClass}
+        />
+      </label>
+      <p className="text-[11px] text-slate-400">{t.patientSceneDefaults}</p>
+      <CrashParametersForm data={draft.data} onChange={patch => update({ data: { ...draft.data, ...patch } })} />
+      <PatientProfileForm patient={draft.data.patient ?? {}} onChange={profile => update({ data: { ...draft.data, patient: profile } })} />
+      <VitalSignsForm vitals={draft.data.vitals ?? {}} onChange={vitals => update({ data: { ...draft.data, vitals } })} />
+
+      <div className="rounded-lg border border-slate-200 p-3 space-y-2">
+        <p className="text-[10px] font-bold text-slate-500 uppercase">{t.triageWithMethod(incident.method)}</p>
+        <div className="grid grid-cols-2 gap-2">
+          {OBSERVATIONS.filter(o => o.methods.includes(incident.method)).map(({ key }) => (
+            <label key={key} className="block">
+              <span className="block text-[10px] text-slate-500 mb-1">{t.triageObservations[key]}</span>
+              <select
+                value={draft.triage[key] === undefined ? '' : draft.triage[key] ? 'yes' : 'no'}
+                onChange={e => observe({ [key]: e.target.value === '' ? undefined : e.target.value === 'yes' })}
+                className={inputClass}
+              >
+                <option value="">{t.triageNotAssessed}</option>
+                <option value="yes">{t.triageYes}</option>
+                <option value="no">{t.triageNo}</option>
+              </select>
+            </label>
+          ))}
+          <label className="block">
+            <span className="block text-[10px] text-slate-500 mb-1">{t.triageCapillaryRefill}</span>
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={draft.triage.capillaryRefillSec ?? ''}
+              onChange={e => observe({ capillaryRefillSec: e.target.value === '' ? undefined : Number(e.target.value) })}
+              className={inputClass}
+            />
+          </label>
+        </div>
+        <p className="text-xs text-slate-600">
+          <span className="font-bold">{computed.category ?? t.triageNoCategory}</span>
+          {computed.category ? ` — ${computed.reasons.join('; ')}` : ` — ${t.triageNeeds(computed.missing.join(', '))}`}
+        </p>
+        <label className="block">
+          <span className="block text-[10px] text-slate-500 mb-1">{t.triageOverride}</span>
+          <select
+            value={draft.triageOverride ?? ''}
+            onChange={e => update({ triageOverride: (e.target.value || undefined) as TriageCategory | undefined })}
+            className={inputClass}
+          >
+            <option value="">{t.triageUseMethod(incident.method)}</option>
+            {TRIAGE_CATEGORIES.map(category => <option key={category} value={category}>{category}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button type="button" onClick={() => onSave(draft, false)} className="text-xs font-semibold text-white bg-slate-800 px-4 py-2 rounded-lg">
+          {t.patientSave}
+        </button>
+        <button
+          type="button"
+          onClick={() => onSave(draft, true)}
+          disabled={busy || !canAnalyse || !(draft.data.accidentDescription.trim() || incident.sceneDescription.trim())}
+          className="text-xs font-semibold text-blue-700 border border-blue-200 px-4 py-2 rounded-lg hover:bg-blue-50 disabled:opacity-40"
+        >
+          <i className="fas fa-bolt mr-1"></i>
+          {t.patientSaveAndAnalyse}
+        </button>
+        <button type="button" onClick={onRemove} disabled={patient.status === 'queued'} className="ml-auto text-xs text-red-600 hover:underline disabled:opacity-40">
+          {t.patientRemove}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const IncidentPanel: React.FC<Props> = ({ online, preference, cases, onOpenCase, onCasesChanged, t }) => {
+  const [incidents, setIncidents] = useState<Incident[]>([]);
+  const [incidentId, setIncidentId] = useState<string | null>(null);
+  const [selectedPatientId, setSelectedPatientId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [newMethod, setNewMethod] = useState<TriageMethod>('START');
+  const [running, setRunning] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  // Cases saved by this panel, so a result shows on the board before the case log reloads.
+  const [savedCases, setSavedCases] = useState<Map<string, CaseRecord>>(new Map());
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    listIncidents().then(setIncidents).catch(err => console.error('Failed to load incidents', err));
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const incident = incidents.find(i => i.id === incidentId) ?? null;
+  const selectedPatient = incident?.patients.find(p => p.id === selectedPatientId) ?? null;
+  const caseById = useMemo(() => new Map(cases.map(record => [record.id, record])), [cases]);
+  const findCase = (id: string) => caseById.get(id) ?? savedCases.get(id);
+
+  const canAnalyse = preference === 'auto' || !PROVIDERS[preference].requiresNetwork || online;
+  const pending = incident
+    ? incident.patients.filter(p => (p.status === 'draft' || p.status === 'failed') && (p.data.accidentDescription.trim() || incident.sceneDescription.trim()))
+    : [];
+
+  const replace = (updated: Incident) => setIncidents(prev => prev.map(i => (i.id === updated.id ? updated : i)));
+
+  const persist = (change: Promise<Incident>) =>
+    change.then(replace).catch(err => {
+      console.error('Failed to save incident', err);
+      setMessage(t.incidentSaveFailed(err instanceof Error ? err.message : t.unknownError));
+    });
+
+  const create = async () => {
+    const created = await createIncident(newName || t.incidentDefaultName(new Date().toLocaleString()), newMethod);
+    setIncidents(prev => [created, ...prev]);
+    setIncidentId(created.id);
+    setSelectedPatientId(null);
+    setNewName('');
+  };
+
+  const remove = async (target: Incident) => {
+    if (!window.confirm(t.incidentDeleteConfirm(target.name))) return;
+    await deleteIncident(target.id);
+    setIncidents(prev => prev.filter(i => i.id !== target.id));
+    if (incidentId === target.id) setIncidentId(null);
+  };
+
+  const addPatient = () => {
+    if (!incident) return;
+    const patient = createIncidentPatient(`P${incident.patients.length + 1}`);
+    persist(modifyIncident(incident.id, current => ({ ...current, patients: [...current.patients, patient] })));
+    setSelectedPatientId(patient.id);
+  };
+
+  const removePatient = (patient: IncidentPatient) => {
+    if (!incident || !window.confirm(t.patientRemoveConfirm(patient.label))) return;
+    persist(modifyIncident(incident.id, current => ({ ...current, patients: current.patients.filter(p => p.id !== patient.id) })));
+    setSelectedPatientId(null);
+  };
+
+  const analyse = async (target: Incident, patientIds: string[]) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    setMessage(null);
+    try {
+      await runIncidentAnalyses(target, patientIds, {
+        preference,
+        signal: controller.signal,
+        onUpdate: (updated, record) => {
+          replace(updated);
+          if (record) {
+            setSavedCases(prev => new Map(prev).set(record.id, record));
+            onCasesChanged();
+          }
+        },
+      });
+    } catch (err) {
+      console.error('Incident analysis failed', err);
+      setMessage(t.incidentAnalysisStopped(err instanceof Error ? err.message : t.unknownError));
+    } finally {
+      abortRef.current = null;
+      setRunning(false);
+    }
+  };
+
+  const savePatient = async (patient: IncidentPatient, draft: PatientDraft, analyseAfter: boolean) => {
+    if (!incident) return;
+    const dataChanged = JSON.stringify(draft.data) !== JSON.stringify(patient.data);
+    const status = dataChanged && patient.status !== 'queued' ? 'draft' : patient.status;
+    const updated = await updateIncidentPatient(incident.id, patient.id, { ...draft, label: draft.label.trim() || patient.label, status });
+    replace(updated);
+    if (analyseAfter) analyse(updated, [patient.id]);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <i className="fas fa-ambulance text-red-600"></i>
+        <h2 className="text-xl font-bold text-slate-800">{t.incidentTitle}</h2>
+      </div>
+      <p className="text-sm text-slate-500 -mt-4">
+        {t.incidentIntro}
+      </p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <div className="space-y-4">
+          <div className="bg-white rounded-xl p-4 shadow-sm border border-slate-200 space-y-3">
+            <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider">{t.incidentNew}</h3>
+            <input type="text" value={newName} onChange={e => setNewName(e.target.value)} placeholder={t.incidentNamePlaceholder} className={inputClass} />
+            <select value={newMethod} onChange={e => setNewMethod(e.target.value as TriageMethod)} className={inputClass}>
+              <option value="START">{t.triageWithMethod('START')}</option>
+              <option value="SALT">{t.triageWithMethod('SALT')}</option>
+            </select>
+            <button type="button" onClick={create} disabled={running} className="w-full text-xs font-semibold text-white bg-red-600 px-4 py-2 rounded-lg disabled:opacity-40">
+              <i className="fas fa-plus mr-1"></i>
+              {t.incidentDeclare}
+            </button>
+          </div>
+
+          <div className="bg-white rounded-xl p-4 shadow-sm border border-slate-200">
+            <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-3">{t.incidentList}</h3>
+            {incidents.length === 0 && <p className="text-xs text-slate-400">{t.incidentNone}</p>}
+            <ul className="space-y-1">
+              {incidents.map(item => (
+                <li key={item.id} className={`flex items-center gap-2 rounded-lg px-2 py-1 ${item.id === incidentId ? 'bg-slate-100' : ''}`}>
+                  <button
+                    type="button"
+                    disabled={running}
+                    onClick={() => {
+                      setIncidentId(item.id);
+                      setSelectedPatientId(null);
+                      setMessage(null);
+                    }}
+                    className="flex-1 text-left text-sm text-slate-700 disabled:opacity-60"
+                  >
+                    <span className="block font-semibold">{item.name}</span>
+                    <span className="block text-[10px] text-slate-400">
+                      {new Date(item.createdAt).toLocaleString()} • {t.incidentPatients(item.patients.length)} • {item.method}
+                    </span>
+                  </button>
+                  <button type="button" onClick={() => remove(item)} disabled={running} className="text-slate-300 hover:text-red-600 disabled:opacity-40" title={t.incidentDelete}>
+                    <i className="fas fa-trash"></i>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+
+        <div className="lg:col-span-3 space-y-4">
+          {!incident && (
+            <div className="bg-white border-2 border-dashed border-slate-200 rounded-3xl p-12 text-center text-slate-400">
+              <i className="fas fa-ambulance text-4xl mb-4"></i>
+              <p>{t.incidentEmpty}</p>
+            </div>
+          )}
+
+          {incident && (
+            <>
+              <SceneEditor
+                key={incident.id}
+                incident={incident}
+                disabled={running}
+                onSave={patch => persist(modifyIncident(incident.id, current => ({ ...current, ...patch })))}
+                t={t}
+              />
+
+              <div className="flex flex-wrap items-center gap-2">
+                <button type="button" onClick={addPatient} className="text-xs font-semibold text-slate-700 border border-slate-200 bg-white px-4 py-2 rounded-lg hover:bg-slate-50">
+                  <i className="fas fa-user-plus mr-1"></i>
+                  {t.incidentAddPatient}
+                </button>
+                {running ? (
+                  <button type="button" onClick={() => abortRef.current?.abort()} className="text-xs font-semibold text-red-600 border border-red-200 bg-white px-4 py-2 rounded-lg">
+                    <i className="fas fa-stop mr-1"></i>
+                    {t.incidentStop}
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => analyse(incident, pending.map(p => p.id))}
+                    disabled={pending.length === 0 || !canAnalyse}
+                    title={canAnalyse ? undefined : t.incidentNeedsConnection}
+                    className="text-xs font-semibold text-white bg-blue-600 px-4 py-2 rounded-lg disabled:opacity-40"
+                  >
+                    <i className="fas fa-bolt mr-1"></i>
+                    {t.incidentAnalysePending(pending.length)}
+                  </button>
+                )}
+                {message && <span className="text-xs text-red-600">{message}</span>}
+              </div>
+
+              <div className={`grid grid-cols-1 gap-4 ${selectedPatient ? 'xl:grid-cols-5' : ''}`}>
+                <div className={selectedPatient ? 'xl:col-span-3' : ''}>
+                  <TriageBoard
+                    incident={incident}
+                    findCase={findCase}
+                    selectedPatientId={selectedPatientId}
+                    onSelect={setSelectedPatientId}
+                    onOpenCase={onOpenCase}
+                  />
+                </div>
+                {selectedPatient && (
+                  <div className="xl:col-span-2">
+                    <PatientEditor
+                      key={selectedPatient.id}
+                      incident={incident}
+                      patient={selectedPatient}
+                      busy={running}
+                      canAnalyse={canAnalyse}
+                      onSave={(draft, analyseAfter) => savePatient(selectedPatient, draft, analyseAfter)}
+                      onRemove={() => removePatient(selectedPatient)}
+                      onClose={() => setSelectedPatientId(null)}
+                      t={t}
+                    />
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IncidentPanel;
@@ -1,17 +1,27 @@
-
 import React from 'react';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, ErrorBar } from 'recharts';
 import { PredictedInjury } from '../types';
 
 interface Props {
   injuries: PredictedInjury[];
+  fixedWidth?: number; // render at a fixed size (print), since ResponsiveContainer cannot measure hidden elements
 }
 
-const InjuryChart: React.FC<Props> = ({ injuries }) => {
-  const data = injuries.map(i => ({
-    name: i.bodyRegion,
-    prob: Math.round(i.probability * 100)
-  })).sort((a, b) => b.prob - a.prob);
+const InjuryChart: React.FC<Props> = ({ injuries, fixedWidth }) => {
+  const data = (injuries ?? []).map(i => {
+    const prob = Math.round(i.probability * 100);
+    const sd = i.consensus ? Math.round(i.consensus.sd * 100) : undefined;
+    return {
+      name: i.bodyRegion,
+      injury: i.injuryName,
+      prob,
+      sd,
+      votes: i.consensus && `${i.consensus.votes}/${i.consensus.members}`,
+      // ± one standard deviation across ensemble members, clipped to 0–100
+      spread: sd === undefined ? undefined : [prob - Math.max(0, prob - sd), Math.min(100, prob + sd) - prob],
+    };
+  }).sort((a, b) => b.prob - a.prob);
+  const hasSpread = data.some(d => d.spread);
 
   const getBarColor = (prob: number) => {
     if (prob > 75) return '#ef4444'; // red-500
@@ -19,31 +29,45 @@ const InjuryChart: React.FC<Props> = ({ injuries }) => {
     return '#10b981'; // emerald-500
   };
 
+  const chart = (
+    <BarChart data={data} width={fixedWidth} height={fixedWidth ? 224 : undefined} layout="vertical" margin={{ left: 10, right: 30 }}>
+      <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+      <XAxis type="number" domain={[0, 100]} hide />
+      <YAxis 
+        type="category" 
+        dataKey="name" 
+        stroke="#64748b" 
+        fontSize={12} 
+        width={80}
+      />
+      <Tooltip 
+        cursor={{ fill: '#f1f5f9' }}
+        contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+        formatter={(value, _name, item) => [
+          item.payload.sd === undefined ? `${value}%` : `${value}% ± ${item.payload.sd} (${item.payload.votes} models)`,
+          item.payload.injury,
+        ]}
+      />
+      <Bar dataKey="prob" radius={[0, 4, 4, 0]}>
+        {data.map((entry, index) => (
+          <Cell key={`cell-${index}`} fill={getBarColor(entry.prob)} />
+        ))}
+        {hasSpread && <ErrorBar dataKey="spread" direction="x" width={4} strokeWidth={1.5} stroke="#334155" />}
+      </Bar>
+    </BarChart>
+  );
+
   return (
     <div className="h-64 w-full bg-white rounded-xl p-4 shadow-sm border border-slate-200">
-      <h3 className="text-sm font-semibold text-slate-500 mb-4 uppercase tracking-wider">Injury Probability by Region (%)</h3>
-      <ResponsiveContainer width="100%" height="100%">
-        <BarChart data={data} layout="vertical" margin={{ left: 10, right: 30 }}>
-          <CartesianGrid strokeDasharray="3 3" horizontal={false} />
-          <XAxis type="number" domain={[0, 100]} hide />
-          <YAxis 
-            type="category" 
-            dataKey="name" 
-            stroke="#64748b" 
-            fontSize={12} 
-            width={80}
-          />
-          <Tooltip 
-            cursor={{ fill: '#f1f5f9' }}
-            contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
-          />
-          <Bar dataKey="prob" radius={[0, 4, 4, 0]}>
-            {data.map((entry, index) => (
-              <Cell key={`cell-${index}`} fill={getBarColor(entry.prob)} />
-            ))}
-          </Bar>
-        </BarChart>
-      </ResponsiveContainer>
+      <h3 className="text-sm font-semibold text-slate-500 mb-4 uppercase tracking-wider">
+        Injury Probability by Region (%)
+        {hasSpread && <span className="ml-2 normal-case font-normal text-slate-400">bars: ± 1 SD across models</span>}
+      </h3>
+      {fixedWidth ? chart : (
+        <ResponsiveContainer width="100%" height="100%">
+          {chart}
+        </ResponsiveContainer>
+      )}
     </div>
   );
 };
@@ -0,0 +1,41 @@
+import React from 'react';
+import { InjuryScores } from '../services/injuryScoring';
+
+interface Props {
+  scores: InjuryScores;
+}
+
+const InjuryScoresPanel: React.FC<Props> = ({ scores }) => {
+  const stats = [
+    { label: 'Expected ISS', value: scores.expectedIss, hint: 'Probability-weighted over all injury combinations' },
+    { label: 'Expected NISS', value: scores.expectedNiss, hint: 'Three highest AIS grades regardless of region' },
+    { label: 'Most-likely ISS', value: scores.mostLikelyIss, hint: 'Injuries with probability ≥ 50% assumed present' },
+  ];
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div className="grid grid-cols-3 gap-3">
+        {stats.map(stat => (
+          <div key={stat.label} title={stat.hint} className="rounded-lg bg-slate-50 border border-slate-100 px-3 py-2">
+            <p className="text-[10px] font-bold text-slate-500 uppercase">{stat.label}</p>
+            <p className="text-xl font-bold text-slate-800">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+      {scores.disagreement === 'none' ? (
+        <p className="text-xs text-emerald-700">
+          <i className="fas fa-check-circle mr-1"></i>
+          Model severity ({scores.modelSeverity}) agrees with the ISS band ({scores.issSeverity}).
+        </p>
+      ) : (
+        <p className="text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">
+          <i className="fas fa-balance-scale mr-1"></i>
+          <strong>Severity disagreement:</strong> the model labelled this case {scores.modelSeverity}, but the expected ISS
+          of {scores.expectedIss} falls in the {scores.issSeverity} band. The model rates it {scores.disagreement === 'model-higher' ? 'higher' : 'lower'} than its own predicted injuries support.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default InjuryScoresPanel;
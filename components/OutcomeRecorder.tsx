@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { AnatomicalRegion, CaseOutcome, CaseRecord, InjuryOutcomeStatus, MissedInjury } from '../types';
+import { injuryKey } from '../services/analysisDiff';
+import { ANATOMICAL_REGIONS } from '../services/anatomy';
+
+interface Props {
+  record: CaseRecord;
+  onSave: (outcome: CaseOutcome) => void;
+}
+
+const STATUS_OPTIONS: { status: InjuryOutcomeStatus; label: string; active: string }[] = [
+  { status: 'confirmed', label: 'Confirmed', active: 'bg-emerald-600 text-white border-emerald-600' },
+  { status: 'ruled-out', label: 'Ruled out', active: 'bg-red-600 text-white border-red-600' },
+  { status: 'not-assessed', label: 'Not assessed', active: 'bg-slate-600 text-white border-slate-600' },
+];
+
+const OutcomeRecorder: React.FC<Props> = ({ record, onSave }) => {
+  const [status, setStatus] = useState<Record<string, InjuryOutcomeStatus>>({});
+  const [missed, setMissed] = useState<MissedInjury[]>([]);
+  const [newName, setNewName] = useState('');
+  const [newRegion, setNewRegion] = useState<AnatomicalRegion>('Head');
+
+  useEffect(() => {
+    setStatus(record.outcome?.injuryStatus ?? {});
+    setMissed(record.outcome?.missedInjuries ?? []);
+  }, [record.id, record.outcome]);
+
+  const addMissed = () => {
+    if (!newName.trim()) return;
+    setMissed(prev => [...prev, { injuryName: newName.trim(), anatomicalRegion: newRegion }]);
+    setNewName('');
+  };
+
+  const save = () => {
+    onSave({ recordedAt: new Date().toISOString(), injuryStatus: status, missedInjuries: missed });
+  };
+
+  return (
+    <details className="bg-white rounded-2xl border border-slate-200 shadow-sm" open={!!record.outcome}>
+      <summary className="cursor-pointer select-none p-5 flex items-center gap-2">
+        <i className="fas fa-clipboard-check text-emerald-600"></i>
+        <span className="text-lg font-bold text-slate-800">Clinical Outcome</span>
+        {record.outcome ? (
+          <span className="text-xs text-slate-400">recorded {new Date(record.outcome.recordedAt).toLocaleString()}</span>
+        ) : (
+          <span className="text-xs text-slate-400">record after work-up to measure prediction accuracy</span>
+        )}
+      </summary>
+      <div className="px-5 pb-5 space-y-4">
+        <ul className="divide-y divide-slate-100">
+          {record.analysis.predictedInjuries.map(injury => {
+            const key = injuryKey(injury);
+            const current = status[key] ?? 'not-assessed';
+            return (
+              <li key={key} className="flex flex-col md:flex-row md:items-center justify-between gap-2 py-2">
+                <span className="text-sm text-slate-700">
+                  <strong>{injury.injuryName}</strong>
+                  <span className="text-slate-400"> • {injury.anatomicalRegion} • {Math.round(injury.probability * 100)}%</span>
+                </span>
+                <div className="flex gap-1">
+                  {STATUS_OPTIONS.map(option => (
+                    <button
+                      key={option.status}
+                      type="button"
+                      onClick={() => setStatus(prev => ({ ...prev, [key]: option.status }))}
+                      className={`text-xs font-semibold px-2 py-1 rounded-lg border ${
+                        current === option.status ? option.active : 'border-slate-200 text-slate-500 hover:bg-slate-50'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div>
+          <p className="text-[10px] font-bold text-slate-500 uppercase mb-2">Missed injuries (confirmed but not predicted)</p>
+          {missed.length > 0 && (
+            <ul className="mb-2 space-y-1">
+              {missed.map((m, idx) => (
+                <li key={idx} className="flex items-center justify-between text-sm bg-amber-50 border border-amber-100 rounded-lg px-3 py-1">
+                  <span>{m.injuryName} <span className="text-slate-400">• {m.anatomicalRegion}</span></span>
+                  <button type="button" onClick={() => setMissed(prev => prev.filter((_, i) => i !== idx))} className="text-slate-400 hover:text-red-600">
+                    <i className="fas fa-times"></i>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+              placeholder="e.g. Scaphoid fracture"
+              className="flex-1 rounded-lg border-slate-300 bg-slate-50 text-sm px-3 py-2"
+            />
+            <select value={newRegion} onChange={e => setNewRegion(e.target.value as AnatomicalRegion)} className="rounded-lg border-slate-300 bg-slate-50 text-sm px-2 py-2">
+              {ANATOMICAL_REGIONS.map(r => <option key={r} value={r}>{r}</option>)}
+            </select>
+            <button type="button" onClick={addMissed} className="text-sm font-semibold text-blue-600 border border-blue-200 px-3 py-2 rounded-lg hover:bg-blue-50">
+              Add
+            </button>
+          </div>
+        </div>
+
+        <button type="button" onClick={save} className="w-full bg-emerald-600 hover:bg-emerald-700 text-white font-bold py-2 rounded-lg">
+          <i className="fas fa-save mr-2"></i>
+          Save Outcome
+        </button>
+      </div>
+    </details>
+  );
+};
+
+export default OutcomeRecorder;
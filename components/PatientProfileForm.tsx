@@ -0,0 +1,147 @@
+import React from 'react';
+import { Anticoagulation, Comorbidity, PatientProfile, PatientSex } from '../types';
+import { ANTICOAGULATION_OPTIONS, COMORBIDITIES, PATIENT_SEXES, applicablePopulationRules } from '../services/specialPopulations';
+
+interface Props {
+  patient: PatientProfile;
+  onChange: (patient: PatientProfile) => void;
+}
+
+const inputClass = "w-full rounded-lg border-slate-300 focus:ring-blue-500 focus:border-blue-500 bg-slate-50 text-sm px-3 py-2";
+
+const PatientProfileForm: React.FC<Props> = ({ patient, onChange }) => {
+  const update = (patch: Partial<PatientProfile>) => onChange({ ...patient, ...patch });
+  const toNumber = (raw: string) => (raw === '' ? undefined : Number(raw));
+
+  const setSex = (sex?: PatientSex) =>
+    // Pregnancy is only asked for patients who are not recorded as male.
+    update(sex === 'Male' ? { sex, pregnant: undefined, gestationWeeks: undefined } : { sex });
+
+  const toggleComorbidity = (condition: Comorbidity, checked: boolean) => {
+    const current = patient.comorbidities ?? [];
+    const next = checked ? [...current, condition] : current.filter(c => c !== condition);
+    update({ comorbidities: next.length ? COMORBIDITIES.filter(c => next.includes(c)) : undefined });
+  };
+
+  const rules = applicablePopulationRules(patient);
+
+  return (
+    <details className="rounded-lg border border-slate-200 bg-white">
+      <summary className="cursor-pointer select-none px-4 py-3 text-sm font-semibold text-slate-700 flex items-center gap-2">
+        <i className="fas fa-user text-blue-600"></i>
+        Patient
+        <span className="text-[10px] font-normal text-slate-400">(optional)</span>
+        {rules.length > 0 && (
+          <span className="ml-auto text-[10px] font-bold text-purple-700 bg-purple-50 px-2 py-0.5 rounded-full">
+            {rules.length} population rule{rules.length > 1 ? 's' : ''}
+          </span>
+        )}
+      </summary>
+      <div className="px-4 pb-4 space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block">
+            <span className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Age (years)</span>
+            <input
+              type="number"
+              min={0}
+              max={120}
+              step="any"
+              value={patient.ageYears ?? ''}
+              onChange={e => update({ ageYears: toNumber(e.target.value) })}
+              placeholder="Not recorded"
+              className={inputClass}
+            />
+          </label>
+          <label className="block">
+            <span className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Sex</span>
+            <select value={patient.sex ?? ''} onChange={e => setSex((e.target.value || undefined) as PatientSex | undefined)} className={inputClass}>
+              <option value="">Not recorded</option>
+              {PATIENT_SEXES.map(o => <option key={o} value={o}>{o}</option>)}
+            </select>
+          </label>
+          {patient.sex !== 'Male' && (
+            <>
+              <label className="block">
+                <span className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Pregnant</span>
+                <select
+                  value={patient.pregnant === undefined ? '' : patient.pregnant ? 'yes' : 'no'}
+                  onChange={e => update({
+                    pregnant: e.target.value === '' ? undefined : e.target.value === 'yes',
+                    ...(e.target.value !== 'yes' ? { gestationWeeks: undefined } : {}),
+                  })}
+                  className={inputClass}
+                >
+                  <option value="">Not recorded</option>
+                  <option value="yes">Yes</option>
+                  <option value="no">No</option>
+                </select>
+              </label>
+              {patient.pregnant && (
+                <label className="block">
+                  <span className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Gestation (weeks)</span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={42}
+                    value={patient.gestationWeeks ?? ''}
+                    onChange={e => update({ gestationWeeks: toNumber(e.target.value) })}
+                    placeholder="Unknown"
+                    className={inputClass}
+                  />
+                </label>
+              )}
+            </>
+          )}
+          <label className="block">
+            <span className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Anticoagulant / antiplatelet</span>
+            <select
+              value={patient.anticoagulation ?? ''}
+              onChange={e => update({ anticoagulation: (e.target.value || undefined) as Anticoagulation | undefined })}
+              className={inputClass}
+            >
+              <option value="">Not recorded</option>
+              {ANTICOAGULATION_OPTIONS.map(o => <option key={o} value={o}>{o}</option>)}
+            </select>
+          </label>
+          <label className="block">
+            <span className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Beta blocker</span>
+            <select
+              value={patient.betaBlocker === undefined ? '' : patient.betaBlocker ? 'yes' : 'no'}
+              onChange={e => update({ betaBlocker: e.target.value === '' ? undefined : e.target.value === 'yes' })}
+              className={inputClass}
+            >
+              <option value="">Not recorded</option>
+              <option value="yes">Yes</option>
+              <option value="no">No</option>
+            </select>
+          </label>
+        </div>
+
+        <fieldset>
+          <legend className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Comorbidities</legend>
+          <div className="grid grid-cols-2 gap-1">
+            {COMORBIDITIES.map(condition => (
+              <label key={condition} className="flex items-center gap-2 text-xs text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={patient.comorbidities?.includes(condition) ?? false}
+                  onChange={e => toggleComorbidity(condition, e.target.checked)}
+                />
+                {condition}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        {rules.length > 0 && (
+          <p className="text-[10px] text-purple-700">
+            <i className="fas fa-user-shield mr-1"></i>
+            Will apply: {rules.map(rule => rule.title).join('; ')}
+          </p>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default PatientProfileForm;
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { ScenePhoto } from '../types';
+import { MAX_PHOTOS, photoDataUrl, preparePhoto } from '../services/photos';
+
+interface Props {
+  photos: ScenePhoto[];
+  onChange: (photos: ScenePhoto[]) => void;
+}
+
+const PhotoAttachments: React.FC<Props> = ({ photos, onChange }) => {
+  const [processing, setProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = ''; // so picking the same file again still fires
+    if (files.length === 0) return;
+
+    const room = MAX_PHOTOS - photos.length;
+    const accepted = files.slice(0, room);
+    const problems: string[] = [];
+    if (files.length > room) problems.push(`Only ${MAX_PHOTOS} photos per case; ${files.length - room} not added.`);
+
+    setProcessing(true);
+    const added: ScenePhoto[] = [];
+    for (const file of accepted) {
+      try {
+        added.push(await preparePhoto(file));
+      } catch (err) {
+        problems.push(err instanceof Error ? err.message : String(err));
+      }
+    }
+    setProcessing(false);
+    setError(problems.length ? problems.join(' ') : null);
+    if (added.length) onChange([...photos, ...added]);
+  };
+
+  const updateCaption = (id: string, caption: string) => {
+    onChange(photos.map(photo => (photo.id === id ? { ...photo, caption: caption || undefined } : photo)));
+  };
+
+  const remove = (id: string) => onChange(photos.filter(photo => photo.id !== id));
+
+  return (
+    <details className="rounded-lg border border-slate-200 bg-white">
+      <summary className="cursor-pointer select-none px-4 py-3 text-sm font-semibold text-slate-700 flex items-center gap-2">
+        <i className="fas fa-camera text-blue-600"></i>
+        Scene &amp; Vehicle Photos
+        <span className="text-[10px] font-normal text-slate-400">(optional)</span>
+        {photos.length > 0 && (
+          <span className="ml-auto text-[10px] font-bold text-slate-600 bg-slate-100 px-2 py-0.5 rounded-full">{photos.length} / {MAX_PHOTOS}</span>
+        )}
+      </summary>
+      <div className="px-4 pb-4 space-y-3">
+        <p className="text-[10px] text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">
+          <i className="fas fa-exclamation-triangle mr-1"></i>
+          Photos are downscaled and their location and camera metadata removed, but faces and number plates are sent to the model as they are.
+          Photograph the vehicles, not the casualties.
+        </p>
+
+        {photos.length > 0 && (
+          <ul className="grid grid-cols-2 gap-3">
+            {photos.map((photo, idx) => (
+              <li key={photo.id} className="rounded-lg border border-slate-200 overflow-hidden">
+                <div className="relative">
+                  <img src={photoDataUrl(photo)} alt={photo.caption ?? photo.fileName} className="w-full h-24 object-cover" />
+                  <span className="absolute top-1 left-1 bg-slate-900/70 text-white text-[10px] font-bold px-1.5 py-0.5 rounded">Photo {idx + 1}</span>
+                  <button
+                    type="button"
+                    onClick={() => remove(photo.id)}
+                    className="absolute top-1 right-1 bg-white/90 text-red-600 w-6 h-6 rounded-full text-xs hover:bg-white"
+                    title="Remove photo"
+                  >
+                    <i className="fas fa-times"></i>
+                  </button>
+                </div>
+                <input
+                  type="text"
+                  value={photo.caption ?? ''}
+                  onChange={e => updateCaption(photo.id, e.target.value)}
+                  placeholder="Caption, e.g. car front, driver side"
+                  className="w-full border-0 border-t border-slate-200 text-xs px-2 py-1.5 focus:ring-blue-500"
+                />
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {photos.length < MAX_PHOTOS && (
+          <label className={`flex items-center justify-center gap-2 border-2 border-dashed border-slate-300 rounded-lg py-3 text-xs font-semibold text-slate-600 ${processing ? 'opacity-50' : 'cursor-pointer hover:bg-slate-50'}`}>
+            <i className={`fas ${processing ? 'fa-circle-notch animate-spin' : 'fa-plus'}`}></i>
+            {processing ? 'Preparing photos…' : 'Add photos'}
+            <input type="file" accept="image/*" multiple disabled={processing} onChange={handleFiles} className="hidden" />
+          </label>
+        )}
+
+        {error && <p className="text-[11px] text-red-600">{error}</p>}
+      </div>
+    </details>
+  );
+};
+
+export default PhotoAttachments;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { PredictedInjury, ScenePhoto, TraumaAnalysis } from '../types';
+import { photoDataUrl } from '../services/photos';
+
+interface Props {
+  photos: ScenePhoto[];
+  analysis: TraumaAnalysis;
+}
+
+/**
+ * Which photos an injury card's prediction rests on; nothing for injuries inferred from the text alone.
+ */
+export const PhotoSourceNote: React.FC<{ injury: PredictedInjury }> = ({ injury }) => {
+  if (!injury.sourcePhotos?.length) return null;
+  return (
+    <p className="text-[11px] text-slate-500 mb-2 flex flex-wrap items-center gap-1">
+      <i className="fas fa-camera mr-1"></i>
+      Supported by
+      {injury.sourcePhotos.map(n => (
+        <span key={n} className="font-bold text-slate-700 bg-slate-100 px-1.5 py-0.5 rounded">Photo {n}</span>
+      ))}
+    </p>
+  );
+};
+
+const PhotoFindingsPanel: React.FC<Props> = ({ photos, analysis }) => {
+  if (photos.length === 0) return null;
+  const findings = analysis.photoFindings ?? [];
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+      <div className="flex items-center gap-2 mb-1">
+        <i className="fas fa-camera text-blue-600"></i>
+        <h3 className="text-lg font-bold text-slate-800">Photo Findings</h3>
+      </div>
+      <p className="text-[11px] text-slate-400 mb-4">
+        What the model read from each photo. The reported crash parameters and vital signs take precedence over anything seen here.
+      </p>
+      <div className="space-y-4">
+        {photos.map((photo, idx) => {
+          const number = idx + 1;
+          const own = findings.filter(f => f.photo === number);
+          const injuries = analysis.predictedInjuries.filter(i => i.sourcePhotos?.includes(number));
+          return (
+            <div key={photo.id} className="flex gap-4">
+              <img src={photoDataUrl(photo)} alt={photo.caption ?? photo.fileName} className="w-32 h-24 object-cover rounded-lg border border-slate-200 flex-shrink-0" />
+              <div className="text-sm min-w-0">
+                <p className="font-bold text-slate-700">
+                  Photo {number}
+                  {photo.caption && <span className="font-normal text-slate-500"> — {photo.caption}</span>}
+                </p>
+                {own.length === 0 ? (
+                  <p className="text-slate-400 text-xs">No findings reported for this photo.</p>
+                ) : (
+                  <ul className="mt-1 space-y-1">
+                    {own.map((finding, i) => (
+                      <li key={i} className="text-slate-700">
+                        {finding.finding}
+                        <span className="text-slate-500"> → {finding.implication}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {injuries.length > 0 && (
+                  <p className="text-[11px] text-slate-500 mt-1">
+                    Supports: {injuries.map(i => i.injuryName).join(', ')}
+                  </p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PhotoFindingsPanel;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { VitalSigns } from '../types';
+import { assessPhysiology, calculateTriss } from '../services/physiology';
+
+interface Props {
+  vitals: VitalSigns;
+  iss: number; // computed ISS used for TRISS
+  ageYears?: number;
+}
+
+const PhysiologyPanel: React.FC<Props> = ({ vitals, iss, ageYears }) => {
+  const a = assessPhysiology(vitals);
+  const triss = a.rts !== undefined ? calculateTriss(a.rts, Math.round(iss), ageYears) : null;
+
+  const stats = [
+    {
+      label: 'GCS',
+      value: a.gcs !== undefined ? `${a.gcs}` : '–',
+      detail: a.gcsCategory ? `${a.gcsCategory} head injury range` : 'E, V and M all needed',
+      alert: a.gcsCategory === 'Severe',
+    },
+    {
+      label: 'RTS',
+      value: a.rts !== undefined ? a.rts.toFixed(2) : '–',
+      detail: a.rts !== undefined ? 'of 7.84' : 'GCS, SBP and RR needed',
+      alert: a.rts !== undefined && a.rts < 4,
+    },
+    {
+      label: 'Shock Index',
+      value: a.shockIndex !== undefined ? a.shockIndex.toFixed(2) : '–',
+      detail: a.shockIndexCategory ?? 'HR and SBP needed',
+      alert: a.shockIndexCategory === 'Severe',
+    },
+    {
+      label: 'TRISS Ps',
+      value: triss ? `${Math.round(triss.probabilityOfSurvival * 100)}%` : '–',
+      detail: triss ? `with ISS ${triss.iss}${triss.ageAssumed ? ', age assumed < 55' : ''}` : 'needs RTS',
+      alert: triss !== null && triss.probabilityOfSurvival < 0.5,
+    },
+  ];
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center gap-2 mb-2">
+        <p className="text-[10px] font-bold text-slate-500 uppercase">Physiology</p>
+        {a.unstable && (
+          <span className="text-[10px] font-bold uppercase text-white bg-red-600 px-2 py-0.5 rounded-full animate-pulse">
+            Unstable
+          </span>
+        )}
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {stats.map(stat => (
+          <div
+            key={stat.label}
+            className={`rounded-lg px-3 py-2 border ${stat.alert ? 'bg-red-50 border-red-200' : 'bg-slate-50 border-slate-100'}`}
+          >
+            <p className="text-[10px] font-bold text-slate-500 uppercase">{stat.label}</p>
+            <p className={`text-xl font-bold ${stat.alert ? 'text-red-700' : 'text-slate-800'}`}>{stat.value}</p>
+            <p className="text-[10px] text-slate-400">{stat.detail}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PhysiologyPanel;
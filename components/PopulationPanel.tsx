@@ -0,0 +1,72 @@
+import React from 'react';
+import { PredictedInjury, SpecialPopulation, TraumaAnalysis } from '../types';
+
+interface Props {
+  analysis: TraumaAnalysis;
+}
+
+const POPULATION_ICONS: Record<SpecialPopulation, string> = {
+  Paediatric: 'fa-child',
+  Geriatric: 'fa-user-clock',
+  Pregnancy: 'fa-person-pregnant',
+  Anticoagulated: 'fa-droplet',
+  Medication: 'fa-pills',
+};
+
+/**
+ * Names the special-population rule behind an injury card; nothing for injuries the rules left alone.
+ */
+export const PopulationRuleNote: React.FC<{ injury: PredictedInjury; analysis: TraumaAnalysis }> = ({ injury, analysis }) => {
+  if (!injury.populationRule) return null;
+  const warning = analysis.populationWarnings?.find(w => w.ruleId === injury.populationRule);
+  return (
+    <p className="text-[11px] text-purple-700 font-semibold mb-2" title={warning?.detail}>
+      <i className={`fas ${warning ? POPULATION_ICONS[warning.population] : 'fa-user-shield'} mr-1`}></i>
+      Population rule: {warning?.title ?? injury.populationRule}
+    </p>
+  );
+};
+
+const PopulationPanel: React.FC<Props> = ({ analysis }) => {
+  const warnings = analysis.populationWarnings;
+  if (!warnings?.length) return null;
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-sm border border-purple-200">
+      <div className="flex items-center gap-2 mb-1">
+        <i className="fas fa-user-shield text-purple-600"></i>
+        <h3 className="text-lg font-bold text-slate-800">Special-Population Rules</h3>
+      </div>
+      <p className="text-[11px] text-slate-400 mb-4">
+        Applied from the recorded age, pregnancy, medications and comorbidities. Injuries a rule added or made more likely are marked on their cards.
+      </p>
+      <ul className="space-y-3">
+        {warnings.map(warning => {
+          const injuries = analysis.predictedInjuries.filter(i => i.populationRule === warning.ruleId);
+          return (
+            <li key={warning.ruleId} className="flex gap-3 text-sm">
+              <span className="w-8 h-8 flex-shrink-0 rounded-lg bg-purple-50 text-purple-700 flex items-center justify-center">
+                <i className={`fas ${POPULATION_ICONS[warning.population]}`}></i>
+              </span>
+              <div>
+                <p className="font-bold text-slate-800">
+                  {warning.title}
+                  <span className="ml-2 text-[10px] font-bold uppercase text-purple-700 bg-purple-50 px-2 py-0.5 rounded-full">{warning.population}</span>
+                </p>
+                <p className="text-slate-600">{warning.detail}</p>
+                {injuries.length > 0 && (
+                  <p className="text-xs text-slate-500 mt-1">
+                    Added or raised: {injuries.map(i => `${i.injuryName} (${Math.round(i.probability * 100)}%)`).join(', ')}
+                  </p>
+                )}
+                <p className="text-[10px] text-slate-400 mt-1">{warning.reference}</p>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default PopulationPanel;
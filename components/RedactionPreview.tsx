@@ -0,0 +1,97 @@
+import React, { useMemo, useState } from 'react';
+import { AccidentData } from '../types';
+import { PHI_CATEGORY_LABELS, deidentifyAccidentData } from '../services/redaction';
+import { UiStrings } from '../services/i18n';
+
+interface Props {
+  data: AccidentData;
+  onTermsChange: (terms: string[]) => void;
+  t: UiStrings;
+}
+
+/**
+ * Shows what de-identification will replace before the narrative is sent, and lets the user
+ * mark anything the detectors missed. The originals stay in this browser.
+ */
+const RedactionPreview: React.FC<Props> = ({ data, onTermsChange, t }) => {
+  const [showSent, setShowSent] = useState(false);
+  const [term, setTerm] = useState('');
+  const { data: outgoing, redactions } = useMemo(() => deidentifyAccidentData(data), [data]);
+  const terms = data.phiTerms ?? [];
+
+  const addTerm = () => {
+    const trimmed = term.trim();
+    if (!trimmed || terms.includes(trimmed)) return;
+    onTermsChange([...terms, trimmed]);
+    setTerm('');
+  };
+
+  if (!data.accidentDescription.trim()) return null;
+
+  return (
+    <details className="rounded-lg border border-emerald-200 bg-emerald-50/40">
+      <summary className="cursor-pointer select-none px-3 py-2 text-xs font-semibold text-emerald-800 flex items-center gap-2">
+        <i className="fas fa-user-shield"></i>
+        {redactions.length === 0 ? t.redactionNone : t.redactionCount(redactions.length)}
+      </summary>
+      <div className="px-3 pb-3 space-y-3">
+        {redactions.length > 0 && (
+          <ul className="space-y-1">
+            {redactions.map(r => (
+              <li key={r.token} className="flex items-center gap-2 text-xs">
+                <code className="bg-white border border-emerald-200 text-emerald-800 px-1.5 py-0.5 rounded">{r.token}</code>
+                <span className="text-slate-400">←</span>
+                <span className="text-slate-700 truncate" dir="auto">{r.original}</span>
+                <span className="ml-auto text-[10px] text-slate-400 uppercase">{PHI_CATEGORY_LABELS[r.category]}</span>
+                {r.category === 'other' && (
+                  <button
+                    type="button"
+                    title={t.redactionStop}
+                    onClick={() => onTermsChange(terms.filter(existing => existing.toLowerCase() !== r.original.toLowerCase()))}
+                    className="text-slate-400 hover:text-red-600"
+                  >
+                    <i className="fas fa-times"></i>
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex gap-2">
+          <input
+            type="text"
+            dir="auto"
+            value={term}
+            onChange={e => setTerm(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                addTerm();
+              }
+            }}
+            placeholder={t.redactionMissedPlaceholder}
+            className="flex-1 rounded-lg border-slate-300 bg-white text-xs px-2 py-1"
+          />
+          <button type="button" onClick={addTerm} className="text-xs font-semibold text-emerald-700 border border-emerald-200 px-2 py-1 rounded-lg hover:bg-emerald-50">
+            {t.redact}
+          </button>
+        </div>
+
+        <button type="button" onClick={() => setShowSent(prev => !prev)} className="text-xs font-semibold text-emerald-700 hover:underline">
+          {showSent ? t.redactionHideSent : t.redactionShowSent}
+        </button>
+        {showSent && (
+          <p className="text-xs text-slate-600 bg-white border border-slate-200 rounded-lg p-2 whitespace-pre-wrap" dir="auto">
+            {outgoing.accidentDescription}
+          </p>
+        )}
+        <p className="text-[10px] text-slate-400">
+          {t.redactionNote}
+        </p>
+      </div>
+    </details>
+  );
+};
+
+export default RedactionPreview;
@@ -0,0 +1,25 @@
+import React from 'react';
+import { TraumaAnalysis } from '../types';
+
+export const getSeverityColor = (score: string) => {
+  switch (score) {
+    case 'Critical': return 'text-red-600 bg-red-100 border-red-200';
+    case 'High': return 'text-orange-600 bg-orange-100 border-orange-200';
+    case 'Moderate': return 'text-yellow-600 bg-yellow-100 border-yellow-200';
+    case 'Low': return 'text-green-600 bg-green-100 border-green-200';
+    default: return 'text-slate-600 bg-slate-100 border-slate-200';
+  }
+};
+
+interface Props {
+  severity: TraumaAnalysis['severityScore'];
+  className?: string;
+}
+
+const SeverityBadge: React.FC<Props> = ({ severity, className = 'px-2 py-0.5 text-[10px]' }) => (
+  <span className={`rounded-full font-bold border ${getSeverityColor(severity)} ${className}`}>
+    {severity}
+  </span>
+);
+
+export default SeverityBadge;
@@ -0,0 +1,114 @@
+import React from 'react';
+import { TraumaAnalysis } from '../types';
+import { getSeverityColor } from './SeverityBadge';
+import { AIS_LABELS } from '../services/injuryScoring';
+import { UiStrings } from '../services/i18n';
+
+interface Props {
+  partial: Partial<TraumaAnalysis>;
+  onCancel: () => void;
+  t: UiStrings;
+}
+
+const Placeholder: React.FC<{ className: string }> = ({ className }) => (
+  <div className={`animate-pulse bg-slate-200 rounded-lg ${className}`}></div>
+);
+
+/**
+ * Renders an analysis while it is still streaming in. Each section appears as soon as its
+ * fields are complete; the full results view replaces this once the response has been validated.
+ */
+const StreamingPreview: React.FC<Props> = ({ partial, onCancel, t }) => {
+  const injuries = partial.predictedInjuries ?? [];
+  const actions = partial.immediateActions ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-slate-800">{t.clinicalPrediction}</h2>
+          {partial.severityScore ? (
+            <span className={`px-4 py-1 rounded-full text-sm font-bold border ${getSeverityColor(partial.severityScore)}`}>
+              {t.severity}: {partial.severityScore}
+            </span>
+          ) : (
+            <Placeholder className="h-7 w-32 rounded-full" />
+          )}
+        </div>
+        {partial.summary ? (
+          <p className="text-slate-600 leading-relaxed text-lg italic border-l-4 border-slate-200 pl-4 py-2">
+            "{partial.summary}"
+          </p>
+        ) : (
+          <div className="space-y-2">
+            <Placeholder className="h-4 w-full" />
+            <Placeholder className="h-4 w-5/6" />
+          </div>
+        )}
+        <div className="mt-4 flex items-center gap-3 text-xs text-slate-500">
+          <i className="fas fa-circle-notch animate-spin text-blue-600"></i>
+          <span>{t.receivingAnalysis} {t.injuriesSoFar}: {injuries.length}</span>
+          <button type="button" onClick={onCancel} className="ml-auto font-semibold text-red-600 border border-red-200 px-3 py-1 rounded-lg hover:bg-red-50">
+            <i className="fas fa-times mr-1"></i>
+            {t.cancelAnalysis}
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-slate-900 rounded-2xl p-6 shadow-lg">
+        <div className="flex items-center gap-2 mb-4 text-white">
+          <i className="fas fa-exclamation-triangle text-amber-400"></i>
+          <h3 className="text-lg font-bold">{t.priorityInterventions}</h3>
+        </div>
+        {actions.length > 0 ? (
+          <ul className="space-y-3">
+            {actions.map((action, idx) => (
+              <li key={idx} className="flex gap-3 text-slate-300 text-sm animate-in fade-in duration-500">
+                <span className="w-6 h-6 flex-shrink-0 bg-slate-800 rounded flex items-center justify-center font-bold text-slate-400">
+                  {idx + 1}
+                </span>
+                {action}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="space-y-3">
+            <div className="animate-pulse bg-slate-800 rounded h-6"></div>
+            <div className="animate-pulse bg-slate-800 rounded h-6"></div>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+          <i className="fas fa-microscope text-blue-600"></i>
+          {t.biomechanicalBreakdown}
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {injuries.map((injury, idx) => (
+            <div key={idx} className="bg-white rounded-xl p-5 border border-slate-200 shadow-sm animate-in fade-in duration-500">
+              <div className="flex justify-between items-start mb-2">
+                <div>
+                  <span className="text-[10px] font-bold text-blue-600 uppercase tracking-widest">{injury.anatomicalRegion}</span>
+                  <h4 className="font-bold text-slate-800">{injury.injuryName}</h4>
+                  <p className="text-[11px] text-slate-500">
+                    AIS {injury.aisSeverity} ({AIS_LABELS[injury.aisSeverity]}) • {t.issRegion}: {injury.issRegion}
+                  </p>
+                </div>
+                <span className="text-sm font-bold text-slate-700">{Math.round(injury.probability * 100)}%</span>
+              </div>
+              <p className="text-sm text-slate-600 leading-relaxed">{injury.physicsExplanation}</p>
+            </div>
+          ))}
+          <div className="bg-white rounded-xl p-5 border border-dashed border-slate-200 space-y-2">
+            <Placeholder className="h-3 w-20" />
+            <Placeholder className="h-4 w-2/3" />
+            <Placeholder className="h-3 w-full" />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StreamingPreview;
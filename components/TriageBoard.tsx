@@ -0,0 +1,169 @@
+import React from 'react';
+import { CaseRecord, Incident, IncidentPatient, TriageCategory } from '../types';
+import { TRIAGE_CATEGORIES, TRIAGE_COLOURS, TriageAssessment, assessTriage, compareBoardEntries } from '../services/triage';
+import { scoreAnalysis } from '../services/injuryScoring';
+import { applicablePopulationRules } from '../services/specialPopulations';
+import SeverityBadge from './SeverityBadge';
+
+interface Props {
+  incident: Incident;
+  findCase: (caseId: string) => CaseRecord | undefined;
+  selectedPatientId: string | null;
+  onSelect: (patientId: string) => void;
+  onOpenCase: (record: CaseRecord) => void;
+}
+
+const TRIAGE_STYLES: Record<TriageCategory, string> = {
+  Immediate: 'bg-red-600 text-white border-red-700',
+  Delayed: 'bg-yellow-400 text-slate-900 border-yellow-500',
+  Minimal: 'bg-green-600 text-white border-green-700',
+  Expectant: 'bg-slate-400 text-white border-slate-500',
+  Dead: 'bg-black text-white border-black',
+};
+
+const TRIAGE_BORDERS: Record<TriageCategory, string> = {
+  Immediate: 'border-l-red-600',
+  Delayed: 'border-l-yellow-400',
+  Minimal: 'border-l-green-600',
+  Expectant: 'border-l-slate-400',
+  Dead: 'border-l-black',
+};
+
+const STATUS_LABELS: Record<IncidentPatient['status'], { label: string; icon: string }> = {
+  draft: { label: 'Not analysed', icon: 'fa-pen' },
+  queued: { label: 'Analysing…', icon: 'fa-circle-notch animate-spin' },
+  done: { label: 'Analysed', icon: 'fa-check' },
+  failed: { label: 'Analysis failed', icon: 'fa-exclamation-circle' },
+};
+
+interface BoardRow {
+  patient: IncidentPatient;
+  triage: TriageAssessment;
+  category?: TriageCategory;
+  record?: CaseRecord;
+  expectedIss?: number;
+}
+
+const TriageBoard: React.FC<Props> = ({ incident, findCase, selectedPatientId, onSelect, onOpenCase }) => {
+  const rows: BoardRow[] = incident.patients
+    .map(patient => {
+      const triage = assessTriage(incident.method, patient.triage, patient.data.vitals);
+      const record = patient.caseId ? findCase(patient.caseId) : undefined;
+      return {
+        patient,
+        triage,
+        category: patient.triageOverride ?? triage.category,
+        record,
+        expectedIss: record ? scoreAnalysis(record.analysis).expectedIss : undefined,
+      };
+    })
+    .sort((a, b) =>
+      compareBoardEntries(
+        { category: a.category, severity: a.record?.analysis.severityScore, expectedIss: a.expectedIss },
+        { category: b.category, severity: b.record?.analysis.severityScore, expectedIss: b.expectedIss }
+      )
+    );
+
+  const counts = new Map<TriageCategory | undefined, number>();
+  rows.forEach(row => counts.set(row.category, (counts.get(row.category) ?? 0) + 1));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2 text-xs font-bold">
+        {TRIAGE_CATEGORIES.filter(category => incident.method === 'SALT' || category !== 'Expectant').map(category => (
+          <span key={category} className={`px-3 py-1 rounded-full border ${TRIAGE_STYLES[category]}`}>
+            {category} ({TRIAGE_COLOURS[category]}): {counts.get(category) ?? 0}
+          </span>
+        ))}
+        <span className="px-3 py-1 rounded-full border border-dashed border-slate-300 text-slate-500">
+          Untriaged: {counts.get(undefined) ?? 0}
+        </span>
+      </div>
+
+      {rows.length === 0 && (
+        <div className="bg-white border-2 border-dashed border-slate-200 rounded-2xl p-8 text-center text-slate-400 text-sm">
+          No patients yet. Add one for each casualty at the scene.
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {rows.map(({ patient, triage, category, record, expectedIss }) => {
+          const status = STATUS_LABELS[patient.status];
+          const topInjuries = record ? [...record.analysis.predictedInjuries].sort((a, b) => b.probability - a.probability).slice(0, 3) : [];
+          const populations = [...new Set(applicablePopulationRules(patient.data.patient).map(rule => rule.population))];
+          return (
+            <div
+              key={patient.id}
+              className={`bg-white rounded-xl border border-slate-200 border-l-8 shadow-sm p-4 space-y-2 ${
+                category ? TRIAGE_BORDERS[category] : 'border-l-slate-200'
+              } ${patient.id === selectedPatientId ? 'ring-2 ring-blue-500' : ''}`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <p className="text-lg font-bold text-slate-800">{patient.label}</p>
+                  <p className="text-[11px] text-slate-500">
+                    {[patient.data.patientPosition, patient.data.accidentDescription.slice(0, 60)].filter(Boolean).join(' • ') || 'No details yet'}
+                  </p>
+                </div>
+                <span className={`flex-shrink-0 px-2 py-1 rounded-lg text-xs font-bold border ${category ? TRIAGE_STYLES[category] : 'border-dashed border-slate-300 text-slate-500'}`}>
+                  {category ?? 'Untriaged'}
+                  {patient.triageOverride && <i className="fas fa-user-md ml-1" title="Set by the triage officer"></i>}
+                </span>
+              </div>
+
+              <p className="text-[11px] text-slate-600">
+                {patient.triageOverride
+                  ? `Override (${incident.method} gives ${triage.category ?? 'no category yet'})`
+                  : triage.category
+                    ? triage.reasons.join('; ')
+                    : `Needs: ${triage.missing.join(', ')}`}
+              </p>
+
+              {populations.length > 0 && (
+                <p className="flex flex-wrap gap-1">
+                  {populations.map(population => (
+                    <span key={population} className="text-[10px] font-bold uppercase text-purple-700 bg-purple-50 px-2 py-0.5 rounded-full">{population}</span>
+                  ))}
+                </p>
+              )}
+
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                {record && <SeverityBadge severity={record.analysis.severityScore} />}
+                {expectedIss !== undefined && <span className="font-bold text-slate-600">ISS ≈ {expectedIss}</span>}
+                <span className={`ml-auto ${patient.status === 'failed' ? 'text-red-600' : 'text-slate-400'}`} title={patient.error}>
+                  <i className={`fas ${status.icon} mr-1`}></i>
+                  {patient.status === 'done' && !record
+                    ? 'Case deleted from the log'
+                    : patient.status === 'draft' && record ? 'Edited since analysis' : status.label}
+                </span>
+              </div>
+
+              {topInjuries.length > 0 && (
+                <ul className="text-xs text-slate-600 list-disc pl-4">
+                  {topInjuries.map((injury, idx) => (
+                    <li key={idx}>{injury.injuryName} ({Math.round(injury.probability * 100)}%)</li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="flex gap-2 pt-1">
+                <button type="button" onClick={() => onSelect(patient.id)} className="text-xs font-semibold text-slate-600 border border-slate-200 px-3 py-1 rounded-lg hover:bg-slate-50">
+                  <i className="fas fa-pen mr-1"></i>
+                  Details
+                </button>
+                {record && (
+                  <button type="button" onClick={() => onOpenCase(record)} className="text-xs font-semibold text-blue-700 border border-blue-200 px-3 py-1 rounded-lg hover:bg-blue-50">
+                    <i className="fas fa-microscope mr-1"></i>
+                    Full breakdown
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TriageBoard;
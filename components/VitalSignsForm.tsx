@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { VitalSigns } from '../types';
+import { GCS_RANGES, NumericVital, VITAL_RANGES, calculateGcs, clampVital } from '../services/physiology';
+
+interface Props {
+  vitals: VitalSigns;
+  onChange: (vitals: VitalSigns) => void;
+}
+
+const inputClass = "w-full rounded-lg border-slate-300 focus:ring-blue-500 focus:border-blue-500 bg-slate-50 text-sm px-3 py-2";
+
+const VitalSignsForm: React.FC<Props> = ({ vitals, onChange }) => {
+  const [errors, setErrors] = useState<Partial<Record<NumericVital, string>>>({});
+
+  const update = (key: keyof VitalSigns, raw: string) => {
+    onChange({ ...vitals, [key]: raw === '' ? undefined : Number(raw) });
+  };
+
+  // Out-of-range readings are pulled to the nearest bound and flagged, so they never reach the scores.
+  const updateNumber = (key: NumericVital, raw: string, unit: string) => {
+    const n = Number(raw);
+    if (raw === '' || !Number.isFinite(n)) {
+      setErrors(prev => ({ ...prev, [key]: undefined }));
+      onChange({ ...vitals, [key]: undefined });
+      return;
+    }
+    const { value, clamped } = clampVital(key, n);
+    const [min, max] = VITAL_RANGES[key];
+    setErrors(prev => ({ ...prev, [key]: clamped ? `${n} is outside ${min}–${max} ${unit}; set to ${value}` : undefined }));
+    onChange({ ...vitals, [key]: value });
+  };
+
+  const renderGcs = (key: keyof typeof GCS_RANGES, label: string) => {
+    const [min, max] = GCS_RANGES[key];
+    return (
+      <label className="block">
+        <span className="block text-[10px] font-bold text-slate-500 uppercase mb-1">{label}</span>
+        <select value={vitals[key] ?? ''} onChange={e => update(key, e.target.value)} className={inputClass}>
+          <option value="">–</option>
+          {Array.from({ length: max - min + 1 }, (_, i) => max - i).map(n => (
+            <option key={n} value={n}>{n}</option>
+          ))}
+        </select>
+      </label>
+    );
+  };
+
+  const renderNumber = (key: NumericVital, label: string, unit: string) => {
+    const [min, max] = VITAL_RANGES[key];
+    const error = errors[key];
+    return (
+      <label className="block">
+        <span className="block text-[10px] font-bold text-slate-500 uppercase mb-1">{label} ({unit})</span>
+        <input
+          type="number"
+          min={min}
+          max={max}
+          value={vitals[key] ?? ''}
+          onChange={e => updateNumber(key, e.target.value, unit)}
+          placeholder="Not recorded"
+          aria-invalid={!!error}
+          className={`${inputClass} ${error ? 'border-red-400' : ''}`}
+        />
+        {error && <span className="block text-[10px] text-red-600 mt-1">{error}</span>}
+      </label>
+    );
+  };
+
+  const gcs = calculateGcs(vitals);
+
+  return (
+    <details className="rounded-lg border border-slate-200 bg-white">
+      <summary className="cursor-pointer select-none px-4 py-3 text-sm font-semibold text-slate-700 flex items-center gap-2">
+        <i className="fas fa-heart-pulse text-red-500"></i>
+        Vital Signs
+        <span className="text-[10px] font-normal text-slate-400">(optional)</span>
+        {gcs !== undefined && (
+          <span className="ml-auto text-[10px] font-bold text-slate-600 bg-slate-100 px-2 py-0.5 rounded-full">GCS {gcs}</span>
+        )}
+      </summary>
+      <div className="px-4 pb-4 space-y-3">
+        <div className="grid grid-cols-3 gap-3">
+          {renderGcs('gcsEye', 'GCS Eye')}
+          {renderGcs('gcsVerbal', 'GCS Verbal')}
+          {renderGcs('gcsMotor', 'GCS Motor')}
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          {renderNumber('systolicBp', 'Systolic BP', 'mmHg')}
+          {renderNumber('heartRate', 'Heart Rate', '/min')}
+          {renderNumber('respiratoryRate', 'Resp. Rate', '/min')}
+          {renderNumber('spo2', 'SpO2', '%')}
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default VitalSignsForm;
@@ -0,0 +1,41 @@
+import { createWriteStream, mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+
+export type AuditKind = 'generate' | 'stream' | 'live' | 'session';
+
+// Metadata only: prompts, narratives and transcripts are never written to the log.
+export interface AuditEntry {
+  time: string; // when the request started
+  requestId: string;
+  userId: string | null; // null when the access code was missing or unknown
+  ip: string | undefined;
+  kind: AuditKind;
+  model: string | null;
+  status: number; // HTTP status, or the WebSocket close code for live sessions
+  durationMs: number;
+  bytesIn: number;
+  bytesOut: number;
+  error?: string;
+}
+
+export interface AuditLog {
+  record(entry: AuditEntry): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Appends one JSON line per request. The file is only ever opened for appending, so existing
+ * entries are never rewritten by the proxy.
+ */
+export const createFileAuditLog = (path: string): AuditLog => {
+  mkdirSync(dirname(path), { recursive: true });
+  const stream = createWriteStream(path, { flags: 'a' });
+  stream.on('error', error => console.error('Audit log write failed', error));
+
+  return {
+    record(entry) {
+      stream.write(`${JSON.stringify(entry)}\n`);
+    },
+    close: () => new Promise(resolve => stream.end(resolve)),
+  };
+};
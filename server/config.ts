@@ -0,0 +1,65 @@
+// Runtime configuration for the Gemini proxy, read from the environment so the key never reaches the bundle.
+
+export interface StaffMember {
+  userId: string;
+  token: string; // the access code staff enter in the browser
+}
+
+export interface ProxyConfig {
+  port: number;
+  apiKey: string; // the real Gemini key; only ever sent upstream
+  upstreamUrl: string; // REST base; the live WebSocket base is derived from it
+  staff: StaffMember[];
+  allowedModels: string[];
+  rateLimit: { limit: number; windowMs: number };
+  auditLogPath: string;
+}
+
+export const DEFAULT_UPSTREAM_URL = 'https://generativelanguage.googleapis.com';
+
+// Models the frontend uses (services/geminiService.ts and services/voiceCapture.ts).
+export const DEFAULT_ALLOWED_MODELS = ['gemini-3-pro-preview', 'gemini-2.5-flash', 'gemini-2.5-flash-native-audio-preview-09-2025'];
+
+const list = (value: string | undefined): string[] =>
+  (value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+
+const positiveInt = (value: string | undefined, fallback: number, name: string): number => {
+  if (value === undefined || value === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) throw new Error(`${name} must be a positive integer`);
+  return parsed;
+};
+
+/**
+ * Parses STAFF_TOKENS, a comma-separated list of `user:token` pairs. Tokens are per person so
+ * rate limits and the audit log can be attributed.
+ */
+export const parseStaffTokens = (value: string | undefined): StaffMember[] =>
+  list(value).map(pair => {
+    const separator = pair.indexOf(':');
+    const userId = pair.slice(0, separator).trim();
+    const token = pair.slice(separator + 1).trim();
+    if (separator <= 0 || !userId || !token) throw new Error(`STAFF_TOKENS entry "${pair}" must be user:token`);
+    return { userId, token };
+  });
+
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): ProxyConfig => {
+  const apiKey = env.GEMINI_API_KEY?.trim();
+  if (!apiKey) throw new Error('GEMINI_API_KEY is not set');
+  const staff = parseStaffTokens(env.STAFF_TOKENS);
+  if (staff.length === 0) throw new Error('STAFF_TOKENS is not set; add at least one user:token pair');
+  const allowedModels = list(env.ALLOWED_MODELS);
+
+  return {
+    port: positiveInt(env.PROXY_PORT, 8787, 'PROXY_PORT'),
+    apiKey,
+    upstreamUrl: env.GEMINI_UPSTREAM_URL?.trim() || DEFAULT_UPSTREAM_URL,
+    staff,
+    allowedModels: allowedModels.length > 0 ? allowedModels : DEFAULT_ALLOWED_MODELS,
+    rateLimit: {
+      limit: positiveInt(env.RATE_LIMIT_REQUESTS, 30, 'RATE_LIMIT_REQUESTS'),
+      windowMs: positiveInt(env.RATE_LIMIT_WINDOW_SECONDS, 60, 'RATE_LIMIT_WINDOW_SECONDS') * 1000,
+    },
+    auditLogPath: env.AUDIT_LOG_PATH?.trim() || 'logs/gemini-audit.jsonl',
+  };
+};
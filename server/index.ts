@@ -0,0 +1,29 @@
+import { loadConfig } from './config.js';
+import { createFileAuditLog } from './auditLog.js';
+import { createRateLimiter } from './rateLimiter.js';
+import { createProxyServer } from './proxy.js';
+
+const config = loadConfig();
+const auditLog = createFileAuditLog(config.auditLogPath);
+const proxy = createProxyServer({
+  apiKey: config.apiKey,
+  upstreamUrl: config.upstreamUrl,
+  staff: config.staff,
+  allowedModels: config.allowedModels,
+  rateLimiter: createRateLimiter(config.rateLimit),
+  auditLog,
+});
+
+proxy.server.listen(config.port, () => {
+  console.log(`Gemini proxy listening on http://localhost:${config.port} for ${config.staff.length} staff member(s)`);
+  console.log(`Audit log: ${config.auditLogPath}`);
+});
+
+const shutdown = async () => {
+  await proxy.close();
+  await auditLog.close();
+  process.exit(0);
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
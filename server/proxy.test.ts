@@ -0,0 +1,234 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { WebSocket, WebSocketServer } from 'ws';
+import { ProxyServer, STAFF_RATE_LIMIT_REASON, createProxyServer } from './proxy.js';
+import { createRateLimiter } from './rateLimiter.js';
+import { AuditLog, createFileAuditLog } from './auditLog.js';
+
+const API_KEY = 'real-gemini-key';
+const STAFF = [{ userId: 'dr-khan', token: 'code-khan' }, { userId: 'dr-ali', token: 'code-ali' }];
+const MODEL = 'gemini-3-pro-preview';
+const NARRATIVE = 'Patient Imran Khan, pillion, struck by a bus';
+
+interface UpstreamCall {
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+// Stands in for the Gemini API: records what the proxy sent and answers with a fixed response.
+const mockUpstream = (calls: UpstreamCall[]): typeof fetch =>
+  (async (input: string | URL | Request, init?: RequestInit) => {
+    calls.push({
+      url: String(input),
+      headers: init?.headers as Record<string, string>,
+      body: Buffer.from(init?.body as Uint8Array).toString('utf8'),
+    });
+    return new Response(JSON.stringify({ candidates: [{ content: { parts: [{ text: '{"ok":true}' }] } }] }), {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+    });
+  }) as typeof fetch;
+
+const errorStatus = async (res: Response): Promise<string> => ((await res.json()) as { error: { status: string } }).error.status;
+
+describe('Gemini proxy', () => {
+  let proxy: ProxyServer;
+  let auditLog: AuditLog;
+  let baseUrl: string;
+  let logDir: string;
+  const calls: UpstreamCall[] = [];
+
+  before(async () => {
+    logDir = mkdtempSync(join(tmpdir(), 'proxy-audit-'));
+    auditLog = createFileAuditLog(join(logDir, 'audit.jsonl'));
+    proxy = createProxyServer({
+      apiKey: API_KEY,
+      upstreamUrl: 'http://upstream.invalid',
+      staff: STAFF,
+      allowedModels: [MODEL],
+      rateLimiter: createRateLimiter({ limit: 2, windowMs: 60_000 }),
+      auditLog,
+      fetch: mockUpstream(calls),
+    });
+    await new Promise<void>(resolve => proxy.server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(proxy.server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await proxy.close();
+    await auditLog.close();
+    rmSync(logDir, { recursive: true, force: true });
+  });
+
+  const generate = (token: string | null, model = MODEL) =>
+    fetch(`${baseUrl}/api/gemini/v1beta/models/${model}:generateContent`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...(token ? { 'x-goog-api-key': token } : {}) },
+      body: JSON.stringify({ contents: [{ role: 'user', parts: [{ text: NARRATIVE }] }] }),
+    });
+
+  it('relays a successful upstream response with the real key swapped in', async () => {
+    const res = await generate('code-khan');
+    assert.equal(res.status, 200);
+    assert.deepEqual(await res.json(), { candidates: [{ content: { parts: [{ text: '{"ok":true}' }] } }] });
+    assert.equal(calls.length, 1);
+    assert.equal(calls[0].url, `http://upstream.invalid/v1beta/models/${MODEL}:generateContent`);
+    assert.equal(calls[0].headers['x-goog-api-key'], API_KEY);
+    assert.match(calls[0].body, /Imran Khan/);
+  });
+
+  it('rejects a missing or wrong access code without calling upstream', async () => {
+    const before = calls.length;
+    const missing = await generate(null);
+    assert.equal(missing.status, 401);
+    const wrong = await generate('not-a-code');
+    assert.equal(wrong.status, 401);
+    assert.equal(await errorStatus(wrong), 'UNAUTHENTICATED');
+    assert.equal(calls.length, before);
+  });
+
+  it('rejects a model outside the allowlist', async () => {
+    const before = calls.length;
+    const res = await generate('code-ali', 'gemini-ultra-unlisted');
+    assert.equal(res.status, 403);
+    assert.equal(await errorStatus(res), 'PERMISSION_DENIED');
+    assert.equal(calls.length, before);
+  });
+
+  it('returns 429 with retry-after once a user exceeds the rate limit', async () => {
+    // The disallowed model above was rejected before the limiter, so dr-ali still has both requests.
+    assert.equal((await generate('code-ali')).status, 200);
+    assert.equal((await generate('code-ali')).status, 200);
+    const limited = await generate('code-ali');
+    assert.equal(limited.status, 429);
+    assert.ok(Number(limited.headers.get('retry-after')) > 0);
+    const body = (await limited.json()) as { error: { status: string; details: { reason: string }[] } };
+    assert.equal(body.error.status, 'RESOURCE_EXHAUSTED');
+    // Marked as the proxy's own limit, so the app doesn't retry it the way it retries an upstream quota 429.
+    assert.equal(body.error.details[0].reason, STAFF_RATE_LIMIT_REASON);
+    // Other staff keep their own allowance.
+    assert.equal((await generate('code-khan')).status, 200);
+  });
+
+  it('audits metadata only, never the request body or the key', async () => {
+    await auditLog.close();
+    const text = readFileSync(join(logDir, 'audit.jsonl'), 'utf8');
+    auditLog = createFileAuditLog(join(logDir, 'audit.jsonl')); // so after() can close it again
+
+    const entries = text.trim().split('\n').map(line => JSON.parse(line));
+    assert.ok(entries.length >= 8);
+    assert.doesNotMatch(text, /Imran|pillion|parts/);
+    assert.doesNotMatch(text, new RegExp(API_KEY));
+    assert.doesNotMatch(text, /code-khan|code-ali|not-a-code/);
+    const allowed = new Set(['time', 'requestId', 'userId', 'ip', 'kind', 'model', 'status', 'durationMs', 'bytesIn', 'bytesOut', 'error']);
+    for (const entry of entries) {
+      for (const key of Object.keys(entry)) assert.ok(allowed.has(key), `unexpected audit field ${key}`);
+    }
+    assert.deepEqual(
+      entries.map(e => [e.userId, e.status]),
+      [['dr-khan', 200], [null, 401], [null, 401], ['dr-ali', 403], ['dr-ali', 200], ['dr-ali', 200], ['dr-ali', 429], ['dr-khan', 200]]
+    );
+    assert.ok(entries[0].bytesIn > 0 && entries[0].bytesOut > 0);
+  });
+});
+
+describe('live transcription relay', () => {
+  let proxy: ProxyServer;
+  let upstream: WebSocketServer;
+  let baseUrl: string;
+  const upstreamUrls: string[] = [];
+  const upstreamMessages: string[] = [];
+
+  before(async () => {
+    // Stands in for the Live API: echoes each message, and closes with a quota code when asked to.
+    upstream = new WebSocketServer({ host: '127.0.0.1', port: 0 });
+    await new Promise<void>(resolve => upstream.once('listening', resolve));
+    upstream.on('connection', (socket, req) => {
+      upstreamUrls.push(req.url ?? '');
+      socket.on('message', data => {
+        const text = data.toString();
+        upstreamMessages.push(text);
+        if (text.includes('close-me')) socket.close(4003, 'Quota exceeded');
+        else socket.send(JSON.stringify({ echo: JSON.parse(text) }));
+      });
+    });
+    proxy = createProxyServer({
+      apiKey: API_KEY,
+      upstreamUrl: `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`,
+      staff: STAFF,
+      allowedModels: [MODEL],
+      rateLimiter: createRateLimiter({ limit: 10, windowMs: 60_000 }),
+      auditLog: { record: () => {}, close: async () => {} },
+    });
+    await new Promise<void>(resolve => proxy.server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `ws://127.0.0.1:${(proxy.server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await proxy.close();
+    await new Promise<void>(resolve => upstream.close(() => resolve()));
+  });
+
+  const connect = async (accessCode: string) => {
+    const socket = new WebSocket(`${baseUrl}/api/gemini/ws/google.ai.generativelanguage.v1beta.GenerativeService.BidiGenerateContent?key=${accessCode}`);
+    await new Promise((resolve, reject) => {
+      socket.once('open', resolve);
+      socket.once('error', reject);
+    });
+    return socket;
+  };
+  const nextMessage = (socket: WebSocket) => new Promise<unknown>(resolve => socket.once('message', data => resolve(JSON.parse(data.toString()))));
+  const closed = (socket: WebSocket) =>
+    new Promise<{ code: number; reason: string }>(resolve => socket.once('close', (code, reason) => resolve({ code, reason: reason.toString() })));
+
+  it('relays an allowed session both ways with the real key swapped in', async () => {
+    const socket = await connect('code-khan');
+    socket.send(JSON.stringify({ setup: { model: `models/${MODEL}` } }));
+    assert.deepEqual(await nextMessage(socket), { echo: { setup: { model: `models/${MODEL}` } } });
+    socket.send(JSON.stringify({ realtimeInput: { audio: 'AAAA' } }));
+    assert.deepEqual(await nextMessage(socket), { echo: { realtimeInput: { audio: 'AAAA' } } });
+
+    const url = new URL(upstreamUrls[0], 'ws://upstream');
+    assert.equal(url.searchParams.get('key'), API_KEY);
+    socket.close();
+  });
+
+  it('closes a session whose setup names a model outside the allowlist before anything reaches upstream', async () => {
+    const sent = upstreamMessages.length;
+    const socket = await connect('code-ali');
+    const result = closed(socket);
+    socket.send(JSON.stringify({ setup: { model: 'models/gemini-ultra-unlisted' } }));
+    assert.equal((await result).code, 1008);
+    assert.equal(upstreamMessages.length, sent);
+  });
+
+  it('forwards the upstream close code and reason to the client', async () => {
+    const socket = await connect('code-khan');
+    const result = closed(socket);
+    socket.send(JSON.stringify({ setup: { model: `models/${MODEL}` }, note: 'close-me' }));
+    assert.deepEqual(await result, { code: 4003, reason: 'Quota exceeded' });
+  });
+
+  it('refuses the upgrade for an unknown access code', async () => {
+    await assert.rejects(connect('not-a-code'), /401/);
+  });
+});
+
+describe('rate limiter', () => {
+  it('frees a slot once the oldest request leaves the window', () => {
+    let time = 0;
+    const limiter = createRateLimiter({ limit: 2, windowMs: 1000, now: () => time });
+    assert.equal(limiter.take('a').allowed, true);
+    time = 400;
+    assert.equal(limiter.take('a').allowed, true);
+    time = 900;
+    assert.deepEqual(limiter.take('a'), { allowed: false, remaining: 0, retryAfterMs: 100 });
+    time = 1000;
+    assert.equal(limiter.take('a').allowed, true);
+  });
+});
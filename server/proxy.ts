@@ -0,0 +1,336 @@
+import { IncomingMessage, STATUS_CODES, Server, ServerResponse, createServer } from 'node:http';
+import { createHash, randomUUID, timingSafeEqual } from 'node:crypto';
+import { Duplex } from 'node:stream';
+import { RawData, WebSocket, WebSocketServer } from 'ws';
+import { StaffMember } from './config.js';
+import { RateLimiter } from './rateLimiter.js';
+import { AuditEntry, AuditKind, AuditLog } from './auditLog.js';
+
+// The browser SDK is pointed at `${origin}${PROXY_PREFIX}` and keeps its own URL layout below it.
+export const PROXY_PREFIX = '/api/gemini';
+export const SESSION_PATH = '/api/session';
+
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+const REST_ROUTE = /^\/(v1alpha|v1beta|v1)\/models\/([\w.-]+):(generateContent|streamGenerateContent)$/;
+const LIVE_ROUTE = /^\/ws\/google\.ai\.generativelanguage\.(v1alpha|v1beta)\.GenerativeService\.BidiGenerateContent$/;
+
+export interface ProxyServerOptions {
+  apiKey: string;
+  upstreamUrl: string; // e.g. https://generativelanguage.googleapis.com, or a mock upstream in tests
+  staff: StaffMember[];
+  allowedModels: string[];
+  rateLimiter: RateLimiter;
+  auditLog: AuditLog;
+  fetch?: typeof fetch; // defaults to the global fetch
+}
+
+export interface ProxyServer {
+  server: Server;
+  close(): Promise<void>;
+}
+
+// Marks the proxy's own per-person limit, so the app can tell it from an upstream quota 429 (which
+// is passed through unchanged and is worth retrying). services/retry.ts checks for the same string.
+export const STAFF_RATE_LIMIT_REASON = 'STAFF_RATE_LIMIT';
+
+interface ErrorInfo {
+  reason: string;
+  metadata?: Record<string, string>;
+}
+
+class ProxyError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public statusText: string,
+    public headers: Record<string, string> = {},
+    public info?: ErrorInfo
+  ) {
+    super(message);
+    this.name = 'ProxyError';
+  }
+}
+
+// Errors use the upstream's JSON shape (google.rpc.Status) so the SDK surfaces the message unchanged.
+const sendError = (res: ServerResponse, error: ProxyError) => {
+  if (res.headersSent) {
+    res.destroy();
+    return;
+  }
+  const details = error.info ? [{ '@type': 'type.googleapis.com/google.rpc.ErrorInfo', domain: 'traumapredict-proxy', ...error.info }] : undefined;
+  res.writeHead(error.status, { 'content-type': 'application/json', ...error.headers });
+  res.end(JSON.stringify({ error: { code: error.status, message: error.message, status: error.statusText, ...(details ? { details } : {}) } }));
+};
+
+const rejectUpgrade = (socket: Duplex, error: ProxyError) => {
+  socket.end(`HTTP/1.1 ${error.status} ${STATUS_CODES[error.status]}\r\nConnection: close\r\nContent-Type: text/plain\r\n\r\n${error.message}`);
+};
+
+const rawSize = (data: RawData): number =>
+  Array.isArray(data) ? data.reduce((sum, part) => sum + part.length, 0) : data.byteLength;
+
+const rawText = (data: RawData): string =>
+  (Array.isArray(data) ? Buffer.concat(data) : Buffer.from(data as ArrayBuffer)).toString('utf8');
+
+// Only close codes a peer may send; 1005/1006 are reported locally and can't be forwarded.
+const closeSafely = (socket: WebSocket, code: number, reason: Buffer | string = '') => {
+  if (socket.readyState === WebSocket.CLOSING || socket.readyState === WebSocket.CLOSED) return;
+  if (socket.readyState === WebSocket.CONNECTING) {
+    socket.terminate();
+    return;
+  }
+  const sendable = (code >= 1000 && code <= 1014 && ![1004, 1005, 1006].includes(code)) || (code >= 3000 && code <= 4999);
+  socket.close(sendable ? code : code === 1005 ? 1000 : 1011, reason);
+};
+
+const normalisePath = (url: URL): string => url.pathname.replace(/\/{2,}/g, '/');
+
+const hashToken = (token: string): Buffer => createHash('sha256').update(token).digest();
+
+/**
+ * Creates the proxy that holds the Gemini key. Staff authenticate with a personal access code
+ * in place of the key (the `x-goog-api-key` header for REST, the `key` query parameter for the
+ * live socket); the proxy checks it, applies that person's rate limit, swaps in the real key and
+ * records the request in the audit log. Only analysis and live-transcription routes on allowed
+ * models are forwarded.
+ */
+export const createProxyServer = (options: ProxyServerOptions): ProxyServer => {
+  const fetchUpstream = options.fetch ?? fetch;
+  const upstreamBase = options.upstreamUrl.replace(/\/+$/, '');
+  const liveBase = upstreamBase.replace(/^http/, 'ws');
+  const staff = options.staff.map(member => ({ userId: member.userId, hash: hashToken(member.token) }));
+  const liveServer = new WebSocketServer({ noServer: true });
+
+  const authenticate = (token: string | null | undefined): string => {
+    if (!token) throw new ProxyError(401, 'Staff access code required', 'UNAUTHENTICATED');
+    const hash = hashToken(token);
+    const member = staff.find(candidate => timingSafeEqual(candidate.hash, hash));
+    if (!member) throw new ProxyError(401, 'Unknown staff access code', 'UNAUTHENTICATED');
+    return member.userId;
+  };
+
+  const checkModel = (model: string | null) => {
+    if (!model || !options.allowedModels.includes(model)) {
+      throw new ProxyError(403, `Model ${model ?? '(none)'} is not available through this proxy`, 'PERMISSION_DENIED');
+    }
+  };
+
+  const checkRateLimit = (userId: string) => {
+    const decision = options.rateLimiter.take(userId);
+    if (!decision.allowed) {
+      const seconds = Math.ceil(decision.retryAfterMs / 1000);
+      throw new ProxyError(429, `Rate limit reached; try again in ${seconds}s`, 'RESOURCE_EXHAUSTED', { 'retry-after': String(seconds) }, {
+        reason: STAFF_RATE_LIMIT_REASON,
+        metadata: { retryAfterSeconds: String(seconds) },
+      });
+    }
+  };
+
+  // Each request is recorded exactly once, whichever way it ends.
+  const beginAudit = (req: IncomingMessage, kind: AuditKind) => {
+    const started = Date.now();
+    const entry: AuditEntry = {
+      time: new Date(started).toISOString(),
+      requestId: randomUUID(),
+      userId: null,
+      ip: req.socket.remoteAddress,
+      kind,
+      model: null,
+      status: 0,
+      durationMs: 0,
+      bytesIn: 0,
+      bytesOut: 0,
+    };
+    let recorded = false;
+    const finish = (status: number, error?: string) => {
+      if (recorded) return;
+      recorded = true;
+      options.auditLog.record({ ...entry, status, durationMs: Date.now() - started, ...(error ? { error } : {}) });
+    };
+    return { entry, finish };
+  };
+
+  const readBody = async (req: IncomingMessage): Promise<Buffer> => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) throw new ProxyError(413, 'Request body too large', 'INVALID_ARGUMENT');
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+  };
+
+  const handleSession = (req: IncomingMessage, res: ServerResponse) => {
+    const { entry, finish } = beginAudit(req, 'session');
+    try {
+      entry.userId = authenticate(req.headers['x-goog-api-key'] as string | undefined);
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ userId: entry.userId }));
+      finish(200);
+    } catch (error) {
+      const proxyError = error as ProxyError;
+      sendError(res, proxyError);
+      finish(proxyError.status, proxyError.message);
+    }
+  };
+
+  const handleGenerate = async (req: IncomingMessage, res: ServerResponse, url: URL, match: RegExpMatchArray) => {
+    const [, version, model, method] = match;
+    const { entry, finish } = beginAudit(req, method === 'streamGenerateContent' ? 'stream' : 'generate');
+    entry.model = model;
+    const upstreamAbort = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        upstreamAbort.abort();
+        finish(499, 'Client closed the request');
+      }
+    });
+
+    try {
+      if (req.method !== 'POST') throw new ProxyError(405, 'Use POST', 'INVALID_ARGUMENT');
+      entry.userId = authenticate(req.headers['x-goog-api-key'] as string | undefined);
+      checkModel(model);
+      checkRateLimit(entry.userId);
+      const body = await readBody(req);
+      entry.bytesIn = body.length;
+
+      const query = new URLSearchParams(url.search);
+      query.delete('key');
+      const search = query.toString();
+      let upstream: Response;
+      try {
+        upstream = await fetchUpstream(`${upstreamBase}/${version}/models/${model}:${method}${search ? `?${search}` : ''}`, {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', 'x-goog-api-key': options.apiKey },
+          body,
+          signal: upstreamAbort.signal,
+        });
+      } catch (error) {
+        if (upstreamAbort.signal.aborted) return;
+        throw new ProxyError(502, `Upstream request failed: ${error instanceof Error ? error.message : String(error)}`, 'UNAVAILABLE');
+      }
+
+      res.writeHead(upstream.status, { 'content-type': upstream.headers.get('content-type') ?? 'application/json' });
+      if (upstream.body) {
+        for await (const chunk of upstream.body) {
+          entry.bytesOut += chunk.byteLength;
+          res.write(chunk);
+        }
+      }
+      res.end();
+      finish(upstream.status);
+    } catch (error) {
+      if (upstreamAbort.signal.aborted) return;
+      const proxyError = error instanceof ProxyError
+        ? error
+        : new ProxyError(502, `Upstream response failed: ${error instanceof Error ? error.message : String(error)}`, 'UNAVAILABLE');
+      sendError(res, proxyError);
+      finish(proxyError.status, proxyError.message);
+    }
+  };
+
+  const relayLive = (client: WebSocket, version: string, audit: ReturnType<typeof beginAudit>) => {
+    const { entry, finish } = audit;
+    const upstream = new WebSocket(
+      `${liveBase}/ws/google.ai.generativelanguage.${version}.GenerativeService.BidiGenerateContent?key=${encodeURIComponent(options.apiKey)}`
+    );
+    const pending: { data: RawData; isBinary: boolean }[] = [];
+    let setupChecked = false;
+
+    client.on('message', (data, isBinary) => {
+      entry.bytesIn += rawSize(data);
+      // The first client message is the session setup, which names the model.
+      if (!setupChecked) {
+        setupChecked = true;
+        try {
+          const setup = JSON.parse(rawText(data))?.setup;
+          entry.model = typeof setup?.model === 'string' ? setup.model.replace(/^models\//, '') : null;
+          checkModel(entry.model);
+        } catch (error) {
+          const message = error instanceof ProxyError ? error.message : 'The first message must be the session setup';
+          finish(1008, message);
+          upstream.terminate();
+          closeSafely(client, 1008, message);
+          return;
+        }
+      }
+      if (upstream.readyState === WebSocket.OPEN) upstream.send(data, { binary: isBinary });
+      else pending.push({ data, isBinary });
+    });
+
+    upstream.on('open', () => {
+      for (const message of pending) upstream.send(message.data, { binary: message.isBinary });
+      pending.length = 0;
+    });
+    upstream.on('message', (data, isBinary) => {
+      entry.bytesOut += rawSize(data);
+      if (client.readyState === WebSocket.OPEN) client.send(data, { binary: isBinary });
+    });
+    upstream.on('close', (code, reason) => {
+      finish(code);
+      closeSafely(client, code, reason);
+    });
+    upstream.on('error', error => {
+      finish(1011, `Upstream connection failed: ${error.message}`);
+      closeSafely(client, 1011, 'Upstream connection failed');
+    });
+    client.on('close', (code, reason) => {
+      finish(code);
+      closeSafely(upstream, code, reason);
+    });
+    client.on('error', error => {
+      finish(1011, error.message);
+      upstream.terminate();
+    });
+  };
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://proxy');
+    const path = normalisePath(url);
+    const match = path.startsWith(`${PROXY_PREFIX}/`) ? path.slice(PROXY_PREFIX.length).match(REST_ROUTE) : null;
+
+    if (path === SESSION_PATH && req.method === 'GET') {
+      handleSession(req, res);
+    } else if (match) {
+      handleGenerate(req, res, url, match).catch(error => {
+        console.error('Proxy request failed', error);
+        sendError(res, new ProxyError(500, 'Proxy error', 'INTERNAL'));
+      });
+    } else {
+      sendError(res, new ProxyError(404, 'Not found', 'NOT_FOUND'));
+    }
+  });
+
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url ?? '/', 'http://proxy');
+    const path = normalisePath(url);
+    const match = path.startsWith(`${PROXY_PREFIX}/`) ? path.slice(PROXY_PREFIX.length).match(LIVE_ROUTE) : null;
+    if (!match) {
+      rejectUpgrade(socket, new ProxyError(404, 'Not found', 'NOT_FOUND'));
+      return;
+    }
+
+    const audit = beginAudit(req, 'live');
+    try {
+      audit.entry.userId = authenticate(url.searchParams.get('key'));
+      checkRateLimit(audit.entry.userId);
+    } catch (error) {
+      const proxyError = error as ProxyError;
+      rejectUpgrade(socket, proxyError);
+      audit.finish(proxyError.status, proxyError.message);
+      return;
+    }
+    liveServer.handleUpgrade(req, socket, head, client => relayLive(client, match[1], audit));
+  });
+
+  return {
+    server,
+    close: () => new Promise<void>((resolve, reject) => {
+      for (const client of liveServer.clients) client.terminate();
+      server.close(error => (error ? reject(error) : resolve()));
+      server.closeAllConnections();
+    }),
+  };
+};
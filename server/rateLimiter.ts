@@ -0,0 +1,37 @@
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number; // 0 when allowed
+}
+
+export interface RateLimiter {
+  take(userId: string): RateLimitDecision;
+}
+
+export interface RateLimiterOptions {
+  limit: number; // requests per window, per user
+  windowMs: number;
+  now?: () => number; // injectable clock
+}
+
+/**
+ * Sliding-window limiter kept in memory: each user may start `limit` requests in any `windowMs`.
+ * Rejected requests don't count against the window.
+ */
+export const createRateLimiter = ({ limit, windowMs, now = Date.now }: RateLimiterOptions): RateLimiter => {
+  const history = new Map<string, number[]>();
+
+  return {
+    take(userId) {
+      const time = now();
+      const recent = (history.get(userId) ?? []).filter(started => time - started < windowMs);
+      if (recent.length >= limit) {
+        history.set(userId, recent);
+        return { allowed: false, remaining: 0, retryAfterMs: recent[0] + windowMs - time };
+      }
+      recent.push(time);
+      history.set(userId, recent);
+      return { allowed: true, remaining: limit - recent.length, retryAfterMs: 0 };
+    },
+  };
+};
@@ -0,0 +1,23 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffAnalyses } from './analysisDiff';
+import { analysis, injury } from './testing';
+
+describe('diffAnalyses', () => {
+  it('matches an injury reworded between runs instead of reporting it removed and added', () => {
+    const diff = diffAnalyses(
+      analysis([injury('Femoral shaft fracture', 'Lower Limb', 0.6), injury('Splenic laceration', 'Abdomen', 0.3)]),
+      analysis([injury('Fracture of femur (dashboard)', 'Lower Limb', 0.8), injury('Spleen injury', 'Abdomen', 0.32)])
+    );
+    assert.deepEqual(diff.added, []);
+    assert.deepEqual(diff.removed, []);
+    assert.deepEqual(diff.changed.map(c => [c.injuryName, c.before, c.after]), [['Femoral shaft fracture', 0.6, 0.8]]);
+    assert.deepEqual(diff.unchanged.map(c => c.injuryName), ['Splenic laceration']);
+  });
+
+  it('does not match similar names in different regions', () => {
+    const diff = diffAnalyses(analysis([injury('Open fracture', 'Lower Limb', 0.6)]), analysis([injury('Open fracture', 'Upper Limb', 0.6)]));
+    assert.deepEqual(diff.removed.map(c => c.anatomicalRegion), ['Lower Limb']);
+    assert.deepEqual(diff.added.map(c => c.anatomicalRegion), ['Upper Limb']);
+  });
+});
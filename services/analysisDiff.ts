@@ -0,0 +1,66 @@
+import { PredictedInjury, TraumaAnalysis } from "../types";
+import { pairInjuries } from "./injuryMatching";
+
+export interface InjuryChange {
+  key: string;
+  injuryName: string;
+  anatomicalRegion: PredictedInjury['anatomicalRegion'];
+  before?: number; // probability in the first analysis, absent when added
+  after?: number; // probability in the second analysis, absent when removed
+  delta: number;
+}
+
+export interface AnalysisDiff {
+  added: InjuryChange[];
+  removed: InjuryChange[];
+  changed: InjuryChange[]; // present in both with a probability change of at least the threshold
+  unchanged: InjuryChange[];
+  severityBefore: TraumaAnalysis['severityScore'];
+  severityAfter: TraumaAnalysis['severityScore'];
+}
+
+// Stable identity of one predicted injury: its region and a case- and punctuation-insensitive name.
+// Recorded outcomes are keyed by it, so it stays exact; comparing analyses uses fuzzy matching.
+export const injuryKey = (injury: Pick<PredictedInjury, 'anatomicalRegion' | 'injuryName'>): string =>
+  `${injury.anatomicalRegion}:${injury.injuryName.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()}`;
+
+/**
+ * Compares two analyses injury by injury. Injuries are matched by region and name similarity, as
+ * in the ensemble, so a rewording between runs is not reported as one injury removed and another
+ * added. Probability moves smaller than `threshold` count as unchanged.
+ */
+export const diffAnalyses = (before: TraumaAnalysis, after: TraumaAnalysis, threshold = 0.05): AnalysisDiff => {
+  const matched = new Map(pairInjuries(before.predictedInjuries, after.predictedInjuries));
+  const matchedAfter = new Set(matched.values());
+  const diff: AnalysisDiff = {
+    added: [],
+    removed: [],
+    changed: [],
+    unchanged: [],
+    severityBefore: before.severityScore,
+    severityAfter: after.severityScore,
+  };
+
+  for (const b of before.predictedInjuries) {
+    const a = matched.get(b);
+    const change: InjuryChange = {
+      key: injuryKey(b),
+      injuryName: b.injuryName,
+      anatomicalRegion: b.anatomicalRegion,
+      before: b.probability,
+      after: a?.probability,
+      delta: (a?.probability ?? 0) - b.probability,
+    };
+    if (!a) diff.removed.push(change);
+    else if (Math.abs(change.delta) >= threshold) diff.changed.push(change);
+    else diff.unchanged.push(change);
+  }
+  for (const a of after.predictedInjuries) {
+    if (!matchedAfter.has(a)) {
+      diff.added.push({ key: injuryKey(a), injuryName: a.injuryName, anatomicalRegion: a.anatomicalRegion, after: a.probability, delta: a.probability });
+    }
+  }
+
+  diff.changed.sort((x, y) => Math.abs(y.delta) - Math.abs(x.delta));
+  return diff;
+};
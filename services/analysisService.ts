@@ -0,0 +1,71 @@
+import { AccidentData, AnalysisProvider, AnalysisProviderId, AnalysisResult, TraumaAnalysis } from "../types";
+import { geminiProvider } from "./geminiService";
+import { ruleEngineProvider } from "./ruleEngine";
+import { ensembleProvider } from "./ensemble";
+import { CancelledError } from "./retry";
+import { applyPopulationRules } from "./specialPopulations";
+
+export type ProviderPreference = 'auto' | AnalysisProviderId;
+
+export const PROVIDERS: Record<AnalysisProviderId, AnalysisProvider> = {
+  'gemini': geminiProvider,
+  'rule-engine': ruleEngineProvider,
+  'ensemble': ensembleProvider,
+};
+
+// Tried in order under 'auto'. The offline engine is last because it can always answer.
+// The ensemble is opt-in: it costs several model calls per case.
+const FALLBACK_CHAIN: AnalysisProviderId[] = ['gemini', 'rule-engine'];
+
+export const isOnline = (): boolean =>
+  typeof navigator === 'undefined' || navigator.onLine !== false;
+
+export interface RunAnalysisOptions {
+  // When set, providers that support streaming report partial results as they arrive.
+  onPartial?: (partial: Partial<TraumaAnalysis>) => void;
+  signal?: AbortSignal;
+}
+
+const describeError = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Runs the analysis on the preferred provider. Under 'auto', network providers are skipped while offline
+ * and any failure falls through to the next provider, with the reason recorded on the result.
+ * Cancellation through `options.signal` is never treated as a failure to fall back from.
+ * Special-population rules are applied to every provider's answer.
+ */
+export const runAnalysis = async (
+  data: AccidentData,
+  preference: ProviderPreference = 'auto',
+  options: RunAnalysisOptions = {}
+): Promise<AnalysisResult> => {
+  const { onPartial, signal } = options;
+  const chain = preference === 'auto' ? FALLBACK_CHAIN : [preference];
+  let fallbackReason: string | undefined;
+
+  for (const id of chain) {
+    const provider = PROVIDERS[id];
+    if (provider.requiresNetwork && !isOnline() && preference === 'auto') {
+      fallbackReason = `${provider.label} skipped: device is offline`;
+      continue;
+    }
+    if (signal?.aborted) throw new CancelledError();
+    try {
+      const analysis = onPartial && provider.analyzeStream
+        ? await provider.analyzeStream(data, onPartial, signal)
+        : await provider.analyze(data, signal);
+      return {
+        analysis: applyPopulationRules(analysis, data),
+        source: { providerId: provider.id, providerLabel: provider.label, model: provider.model, fallbackReason },
+      };
+    } catch (error) {
+      if (error instanceof CancelledError || signal?.aborted) throw new CancelledError();
+      console.error(`${provider.label} analysis failed`, error);
+      if (id === chain[chain.length - 1]) throw error;
+      fallbackReason = `${provider.label} failed: ${describeError(error)}`;
+    }
+  }
+
+  throw new Error("No analysis provider available");
+};
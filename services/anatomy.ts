@@ -0,0 +1,63 @@
+import { AnatomicalRegion, IssBodyRegion } from "../types";
+
+export const ANATOMICAL_REGIONS: AnatomicalRegion[] = [
+  'Head', 'Face', 'Neck', 'Spine', 'Chest', 'Abdomen', 'Pelvis', 'Upper Limb', 'Lower Limb', 'Skin/Soft Tissue', 'Unspecified',
+];
+
+// Checked in order, so more specific regions come first: "cervical spine" is Neck, "thoracolumbar" is Spine not Chest.
+const REGION_PATTERNS: [AnatomicalRegion, RegExp][] = [
+  ['Head', /\b(head|brain|skull|cranial|intracranial|scalp|tbi|subdural|extradural|epidural|concussion|cerebr)/i],
+  ['Face', /\b(face|facial|maxill|mandib|orbit|zygom|nasal|nose|jaw|dental|teeth)/i],
+  ['Neck', /\b(neck|cervical|c-?spine|whiplash|laryn|trache)/i],
+  ['Spine', /\b(spine|spinal|vertebra|thoracolumbar|lumbar|chance|back)\b/i],
+  ['Chest', /\b(chest|thora|rib|lung|pulmonary|pneumo|ha?emothorax|sternum|sternal|cardiac|heart|myocard|aort|flail)/i],
+  ['Abdomen', /\b(abdom|liver|hepatic|spleen|splenic|bowel|mesenter|kidney|renal|viscus|retroperiton|pancrea)/i],
+  ['Pelvis', /\b(pelvi|acetabul|sacr|pubic|symphys)/i],
+  ['Upper Limb', /\b(upper (limb|extremit)|arm|humer|radius|radial|ulna|wrist|hand|elbow|shoulder|clavic|scapul|forearm|foosh)/i],
+  ['Lower Limb', /\b(lower (limb|extremit)|leg|femur|femoral|tibia|fibula|knee|ankle|foot|hip|patella)/i],
+  ['Skin/Soft Tissue', /\b(skin|soft tissue|abrasion|laceration|degloving|road[- ]rash|burn|contusion)/i],
+];
+
+const matchRegion = (text: string): AnatomicalRegion | null =>
+  REGION_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ?? null;
+
+export const isAnatomicalRegion = (value: unknown): value is AnatomicalRegion =>
+  ANATOMICAL_REGIONS.includes(value as AnatomicalRegion);
+
+/**
+ * Maps a free-text body region onto the shared vocabulary, falling back to the injury name
+ * when the region text alone is not recognised.
+ */
+export const normaliseRegion = (bodyRegion: string, injuryName = ''): AnatomicalRegion =>
+  matchRegion(bodyRegion) ?? matchRegion(injuryName) ?? 'Unspecified';
+
+export const ISS_BODY_REGIONS: IssBodyRegion[] = ['Head/Neck', 'Face', 'Chest', 'Abdomen', 'Extremities', 'External'];
+
+export const isIssBodyRegion = (value: unknown): value is IssBodyRegion =>
+  ISS_BODY_REGIONS.includes(value as IssBodyRegion);
+
+/**
+ * ISS region for an anatomical region. The pelvic girdle counts as Extremities in ISS;
+ * the thoracic spine belongs to Chest and the lumbar spine to Abdomen.
+ */
+export const issRegionFor = (region: AnatomicalRegion, text = ''): IssBodyRegion => {
+  switch (region) {
+    case 'Head':
+    case 'Neck':
+      return 'Head/Neck';
+    case 'Face':
+      return 'Face';
+    case 'Chest':
+      return 'Chest';
+    case 'Abdomen':
+      return 'Abdomen';
+    case 'Spine':
+      return /lumbar|sacral|chance/i.test(text) && !/thoracolumbar/i.test(text) ? 'Abdomen' : 'Chest';
+    case 'Pelvis':
+    case 'Upper Limb':
+    case 'Lower Limb':
+      return 'Extremities';
+    default:
+      return 'External';
+  }
+};
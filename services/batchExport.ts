@@ -0,0 +1,87 @@
+import { BatchJob, BatchRowResult } from "../types";
+import { CRASH_PARAMETER_KEYS } from "./crashParameters";
+import { scoreAnalysis } from "./injuryScoring";
+
+type FlatValue = string | number | boolean | null;
+export type FlatRow = Record<string, FlatValue>;
+
+const snakeCase = (key: string) => key.replace(/[A-Z]/g, char => `_${char.toLowerCase()}`);
+
+const CRASH_COLUMNS = CRASH_PARAMETER_KEYS.map(snakeCase);
+
+export const BATCH_EXPORT_COLUMNS = [
+  'row_id',
+  'status',
+  'error',
+  'provider',
+  'model',
+  'completed_at',
+  'known_diagnoses',
+  ...CRASH_COLUMNS,
+  'severity',
+  'expected_iss',
+  'injury_count',
+  'injury_rank',
+  'injury_name',
+  'body_region',
+  'anatomical_region',
+  'iss_region',
+  'ais',
+  'probability',
+];
+
+/**
+ * One row per predicted injury, with the case-level columns repeated on each. Rows that failed,
+ * haven't run yet or predicted nothing still get one row with empty injury columns, so every
+ * imported case appears in the export. Narratives are left out; join on row_id to the source file.
+ */
+export const flattenBatchResults = (job: BatchJob, results: BatchRowResult[]): FlatRow[] => {
+  const byRow = new Map(results.map(result => [result.rowId, result]));
+
+  return job.rows.flatMap(row => {
+    const result = byRow.get(row.rowId);
+    const analysis = result?.analysis;
+    const caseColumns: FlatRow = {
+      row_id: row.rowId,
+      status: result?.status ?? 'pending',
+      error: result?.error ?? null,
+      provider: result?.source?.providerLabel ?? null,
+      model: result?.source?.model ?? null,
+      completed_at: result?.completedAt ?? null,
+      known_diagnoses: row.knownDiagnoses.join('; ') || null,
+      ...Object.fromEntries(CRASH_PARAMETER_KEYS.map((key, idx) => [CRASH_COLUMNS[idx], row.data[key] ?? null])),
+      severity: analysis?.severityScore ?? null,
+      expected_iss: analysis ? scoreAnalysis(analysis).expectedIss : null,
+      injury_count: analysis?.predictedInjuries.length ?? null,
+    };
+    const emptyInjury: FlatRow = {
+      injury_rank: null, injury_name: null, body_region: null, anatomical_region: null, iss_region: null, ais: null, probability: null,
+    };
+
+    if (!analysis || analysis.predictedInjuries.length === 0) return [{ ...caseColumns, ...emptyInjury }];
+    return [...analysis.predictedInjuries]
+      .sort((a, b) => b.probability - a.probability)
+      .map((injury, idx) => ({
+        ...caseColumns,
+        injury_rank: idx + 1,
+        injury_name: injury.injuryName,
+        body_region: injury.bodyRegion,
+        anatomical_region: injury.anatomicalRegion,
+        iss_region: injury.issRegion,
+        ais: injury.aisSeverity,
+        probability: injury.probability,
+      }));
+  });
+};
+
+const csvCell = (value: FlatValue): string => {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: FlatRow[], columns = BATCH_EXPORT_COLUMNS): string =>
+  [columns.join(','), ...rows.map(row => columns.map(column => csvCell(row[column] ?? null)).join(','))].join('\r\n') + '\r\n';
+
+export const toJsonl = (rows: FlatRow[]): string =>
+  rows.map(row => JSON.stringify(row)).join('\n') + (rows.length ? '\n' : '');
@@ -0,0 +1,185 @@
+import { AccidentData, BatchImportIssue, BatchRow, CrashParameterKey, VitalSigns } from "../types";
+import { CRASH_PARAMETER_KEYS, parseCrashParameter } from "./crashParameters";
+import { isPlausibleVital } from "./physiology";
+
+export interface BatchImport {
+  rows: BatchRow[];
+  issues: BatchImportIssue[];
+}
+
+const VITAL_KEYS: (keyof VitalSigns)[] = ['gcsEye', 'gcsVerbal', 'gcsMotor', 'systolicBp', 'respiratoryRate', 'heartRate', 'spo2'];
+
+type Field =
+  | { kind: 'id' }
+  | { kind: 'narrative' }
+  | { kind: 'diagnoses' }
+  | { kind: 'crash'; key: CrashParameterKey }
+  | { kind: 'vital'; key: keyof VitalSigns };
+
+// Column names are matched case- and punctuation-insensitively, so "patient_vehicle",
+// "Patient Vehicle" and "patientVehicle" are the same column.
+const normaliseColumn = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const FIELDS = new Map<string, Field>([
+  ...['id', 'caseid', 'rowid', 'registryid'].map(name => [name, { kind: 'id' }] as const),
+  ...['narrative', 'description', 'accidentdescription'].map(name => [name, { kind: 'narrative' }] as const),
+  ...['knowndiagnoses', 'diagnoses', 'diagnosis'].map(name => [name, { kind: 'diagnoses' }] as const),
+  ...CRASH_PARAMETER_KEYS.map(key => [normaliseColumn(key), { kind: 'crash', key }] as const),
+  ...VITAL_KEYS.map(key => [normaliseColumn(key), { kind: 'vital', key }] as const),
+  ['sbp', { kind: 'vital', key: 'systolicBp' }],
+  ['hr', { kind: 'vital', key: 'heartRate' }],
+  ['rr', { kind: 'vital', key: 'respiratoryRate' }],
+]);
+
+interface RawRecord {
+  line: number;
+  values: [string, unknown][];
+}
+
+/**
+ * RFC 4180 CSV: quoted fields may contain the delimiter, doubled quotes and line breaks.
+ * Semicolon- and tab-separated exports are recognised from the header line.
+ */
+export const parseCsv = (text: string): { line: number; cells: string[] }[] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const header = source.slice(0, source.search(/\r?\n|$/));
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    header.split(candidate).length > header.split(best).length ? candidate : best
+  );
+
+  const records: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.some(value => value.trim() !== '')) records.push({ line: recordLine, cells });
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || cells.length > 0) endRecord();
+  return records;
+};
+
+const csvRecords = (text: string): RawRecord[] => {
+  const [header, ...records] = parseCsv(text);
+  if (!header) return [];
+  return records.map(record => ({
+    line: record.line,
+    values: header.cells.map((column, idx) => [column, record.cells[idx] ?? ''] as [string, unknown]),
+  }));
+};
+
+const jsonlRecords = (text: string, issues: BatchImportIssue[]): RawRecord[] =>
+  text.split(/\r?\n/).flatMap((content, idx) => {
+    const line = idx + 1;
+    if (!content.trim()) return [];
+    try {
+      const parsed = JSON.parse(content);
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error('not an object');
+      // Vitals may be nested under "vitals" or given as top-level columns.
+      const { vitals, ...rest } = parsed as Record<string, unknown>;
+      const nested = vitals && typeof vitals === 'object' ? Object.entries(vitals as Record<string, unknown>) : [];
+      return [{ line, values: [...Object.entries(rest), ...nested] }];
+    } catch (error) {
+      issues.push({ line, message: `Not a JSON object: ${error instanceof Error ? error.message : String(error)}`, skipped: true });
+      return [];
+    }
+  });
+
+const splitDiagnoses = (value: unknown): string[] =>
+  (Array.isArray(value) ? value.map(String) : String(value).split(/[;|]/))
+    .map(diagnosis => diagnosis.trim())
+    .filter(Boolean);
+
+/**
+ * Reads a CSV or JSONL export of past cases. Each row needs a narrative; structured crash
+ * parameters, vitals, an id and known diagnoses are optional. Values that don't fit a column
+ * are dropped with a warning, and rows that can't be analysed are skipped and reported.
+ */
+export const parseBatchFile = (fileName: string, text: string): BatchImport => {
+  const issues: BatchImportIssue[] = [];
+  const isJsonl = /\.(jsonl|ndjson)$/i.test(fileName) || text.trimStart().startsWith('{');
+  const records = isJsonl ? jsonlRecords(text, issues) : csvRecords(text);
+  const unknownColumns = new Set<string>();
+  const seenIds = new Set<string>();
+  const rows: BatchRow[] = [];
+
+  for (const { line, values } of records) {
+    const data: AccidentData = { accidentDescription: '' };
+    const vitals: VitalSigns = {};
+    let rowId = String(line);
+    let knownDiagnoses: string[] = [];
+
+    for (const [column, value] of values) {
+      if (value === null || value === undefined || String(value).trim() === '') continue;
+      const field = FIELDS.get(normaliseColumn(column));
+      const text = String(value).trim();
+      if (!field) {
+        if (!unknownColumns.has(column)) {
+          unknownColumns.add(column);
+          issues.push({ line, message: `Column "${column}" is not recognised and was ignored`, skipped: false });
+        }
+      } else if (field.kind === 'id') {
+        rowId = text;
+      } else if (field.kind === 'narrative') {
+        data.accidentDescription = text;
+      } else if (field.kind === 'diagnoses') {
+        knownDiagnoses = splitDiagnoses(value);
+      } else if (field.kind === 'crash') {
+        const parsed = parseCrashParameter(field.key, text);
+        if (parsed === undefined) issues.push({ line, message: `${column}: "${text}" is not a valid value and was ignored`, skipped: false });
+        else (data as Record<CrashParameterKey, unknown>)[field.key] = parsed;
+      } else {
+        const n = Number(text);
+        if (!Number.isFinite(n)) issues.push({ line, message: `${column}: "${text}" is not a number and was ignored`, skipped: false });
+        else if (!isPlausibleVital(field.key, n)) issues.push({ line, message: `${column}: ${n} is outside the possible range and was ignored`, skipped: false });
+        else vitals[field.key] = n;
+      }
+    }
+
+    if (!data.accidentDescription) {
+      issues.push({ line, message: 'No narrative; row skipped', skipped: true });
+      continue;
+    }
+    if (seenIds.has(rowId)) {
+      issues.push({ line, message: `Duplicate id "${rowId}"; row skipped`, skipped: true });
+      continue;
+    }
+    seenIds.add(rowId);
+    if (Object.keys(vitals).length > 0) data.vitals = vitals;
+    rows.push({ rowId, line, data, knownDiagnoses });
+  }
+
+  return { rows, issues };
+};
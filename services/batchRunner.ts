@@ -0,0 +1,67 @@
+import { BatchJob, BatchRow, BatchRowResult } from "../types";
+import { PROVIDERS, isOnline, runAnalysis } from "./analysisService";
+import { saveBatchResult } from "./batchStore";
+import { AnalysisValidationError } from "./validation";
+import { CancelledError } from "./retry";
+
+export const MAX_BATCH_CONCURRENCY = 4;
+
+// 'offline' means the run paused itself because a network provider lost its connection.
+export type BatchRunOutcome = 'completed' | 'cancelled' | 'offline';
+
+export interface BatchRunOptions {
+  concurrency: number;
+  signal?: AbortSignal;
+  onResult: (result: BatchRowResult) => void;
+}
+
+const describeFailure = (error: unknown): string => {
+  if (error instanceof AnalysisValidationError) return `${error.message}: ${error.issues.join('; ')}`;
+  return error instanceof Error ? error.message : String(error);
+};
+
+/**
+ * Analyses `rows` of a job with at most `concurrency` requests in flight, saving each result as
+ * soon as it is known. A failing row is recorded and the run carries on. The job's provider is
+ * used for every row with no fallback, so a study never mixes models. Resume by calling again
+ * with the rows that have no saved result yet.
+ */
+export const runBatch = async (job: BatchJob, rows: BatchRow[], options: BatchRunOptions): Promise<BatchRunOutcome> => {
+  const { signal, onResult } = options;
+  const provider = PROVIDERS[job.providerId];
+  const concurrency = Math.min(Math.max(1, Math.round(options.concurrency)), MAX_BATCH_CONCURRENCY);
+  let next = 0;
+  let wentOffline = false;
+
+  const analyseRow = async (row: BatchRow): Promise<BatchRowResult | null> => {
+    const base = { jobId: job.id, rowId: row.rowId };
+    try {
+      const { analysis, source } = await runAnalysis(row.data, job.providerId, { signal });
+      return { ...base, status: 'done', completedAt: new Date().toISOString(), analysis, source };
+    } catch (error) {
+      if (error instanceof CancelledError || signal?.aborted) return null;
+      if (provider.requiresNetwork && !isOnline()) {
+        wentOffline = true;
+        return null;
+      }
+      return { ...base, status: 'failed', completedAt: new Date().toISOString(), error: describeFailure(error) };
+    }
+  };
+
+  const worker = async () => {
+    while (next < rows.length && !signal?.aborted && !wentOffline) {
+      if (provider.requiresNetwork && !isOnline()) {
+        wentOffline = true;
+        return;
+      }
+      const result = await analyseRow(rows[next++]);
+      if (!result) return;
+      await saveBatchResult(result);
+      onResult(result);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, rows.length) }, worker));
+  if (signal?.aborted) return 'cancelled';
+  return wentOffline ? 'offline' : 'completed';
+};
@@ -0,0 +1,46 @@
+import { AnalysisProviderId, BatchJob, BatchRowResult } from "../types";
+import { BatchImport } from "./batchImport";
+import { BATCH_JOBS, BATCH_RESULTS, openDb, promisify, withStore } from "./db";
+
+// Jobs and per-row results are stored separately, so each finished row is saved on its own and
+// an interrupted run loses at most the rows that were in flight.
+
+export const createBatchJob = async (fileName: string, imported: BatchImport, providerId: AnalysisProviderId): Promise<BatchJob> => {
+  const job: BatchJob = {
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    fileName,
+    providerId,
+    rows: imported.rows,
+    issues: imported.issues,
+  };
+  await withStore(BATCH_JOBS, 'readwrite', store => store.put(job));
+  return job;
+};
+
+/**
+ * All batch jobs, newest first.
+ */
+export const listBatchJobs = async (): Promise<BatchJob[]> => {
+  const jobs = await withStore(BATCH_JOBS, 'readonly', store => store.getAll() as IDBRequest<BatchJob[]>);
+  return jobs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const listBatchResults = (jobId: string): Promise<BatchRowResult[]> =>
+  withStore(BATCH_RESULTS, 'readonly', store => store.index('jobId').getAll(jobId) as IDBRequest<BatchRowResult[]>);
+
+export const saveBatchResult = async (result: BatchRowResult): Promise<void> => {
+  await withStore(BATCH_RESULTS, 'readwrite', store => store.put(result));
+};
+
+/**
+ * Deletes a job together with its results, in one transaction.
+ */
+export const deleteBatchJob = async (jobId: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([BATCH_JOBS, BATCH_RESULTS], 'readwrite');
+  const results = tx.objectStore(BATCH_RESULTS);
+  const keys = await promisify(results.index('jobId').getAllKeys(jobId));
+  keys.forEach(key => results.delete(key));
+  await promisify(tx.objectStore(BATCH_JOBS).delete(jobId));
+};
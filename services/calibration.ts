@@ -0,0 +1,102 @@
+import { AnatomicalRegion, CaseRecord } from "../types";
+import { injuryKey } from "./analysisDiff";
+import { ANATOMICAL_REGIONS } from "./anatomy";
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  meanPredicted: number;
+  observedRate: number;
+  count: number;
+}
+
+export interface RegionPerformance {
+  region: AnatomicalRegion;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number; // confirmed below threshold, plus missed injuries
+  sensitivity?: number; // undefined when there were no confirmed injuries in the region
+  precision?: number; // undefined when nothing in the region was predicted positive
+}
+
+export interface CalibrationReport {
+  casesWithOutcome: number;
+  assessedPredictions: number;
+  missedInjuries: number;
+  brierScore?: number;
+  bins: ReliabilityBin[];
+  regions: RegionPerformance[];
+}
+
+interface AssessedPrediction {
+  region: AnatomicalRegion;
+  probability: number;
+  confirmed: boolean;
+}
+
+// Only confirmed and ruled-out predictions carry information; not-assessed ones are left out.
+const collectAssessed = (cases: CaseRecord[]): AssessedPrediction[] =>
+  cases.flatMap(record => {
+    const outcome = record.outcome;
+    if (!outcome) return [];
+    return record.analysis.predictedInjuries.flatMap(injury => {
+      const status = outcome.injuryStatus[injuryKey(injury)];
+      if (status !== 'confirmed' && status !== 'ruled-out') return [];
+      return [{ region: injury.anatomicalRegion, probability: injury.probability, confirmed: status === 'confirmed' }];
+    });
+  });
+
+const ratio = (numerator: number, denominator: number) => (denominator === 0 ? undefined : numerator / denominator);
+
+/**
+ * Brier score, reliability bins and per-region sensitivity/precision over every stored outcome.
+ * A prediction counts as positive when its probability is at least `threshold`.
+ */
+export const buildCalibrationReport = (cases: CaseRecord[], threshold = 0.5, binCount = 10): CalibrationReport => {
+  const withOutcome = cases.filter(c => c.outcome);
+  const assessed = collectAssessed(withOutcome);
+
+  const brierScore = assessed.length
+    ? assessed.reduce((sum, a) => sum + (a.probability - (a.confirmed ? 1 : 0)) ** 2, 0) / assessed.length
+    : undefined;
+
+  const bins: ReliabilityBin[] = Array.from({ length: binCount }, (_, i) => {
+    const lower = i / binCount;
+    const upper = (i + 1) / binCount;
+    // The last bin is closed so that p = 1 is counted.
+    const inBin = assessed.filter(a => a.probability >= lower && (a.probability < upper || (i === binCount - 1 && a.probability <= upper)));
+    return {
+      lower,
+      upper,
+      meanPredicted: inBin.length ? inBin.reduce((s, a) => s + a.probability, 0) / inBin.length : (lower + upper) / 2,
+      observedRate: inBin.length ? inBin.filter(a => a.confirmed).length / inBin.length : 0,
+      count: inBin.length,
+    };
+  });
+
+  const missed = withOutcome.flatMap(c => c.outcome!.missedInjuries);
+  const regions = ANATOMICAL_REGIONS.map((region): RegionPerformance => {
+    const inRegion = assessed.filter(a => a.region === region);
+    const truePositives = inRegion.filter(a => a.confirmed && a.probability >= threshold).length;
+    const falsePositives = inRegion.filter(a => !a.confirmed && a.probability >= threshold).length;
+    const falseNegatives = inRegion.filter(a => a.confirmed && a.probability < threshold).length
+      + missed.filter(m => m.anatomicalRegion === region).length;
+    return {
+      region,
+      truePositives,
+      falsePositives,
+      falseNegatives,
+      sensitivity: ratio(truePositives, truePositives + falseNegatives),
+      precision: ratio(truePositives, truePositives + falsePositives),
+    };
+  }).filter(r => r.truePositives + r.falsePositives + r.falseNegatives > 0);
+
+  return {
+    casesWithOutcome: withOutcome.length,
+    assessedPredictions: assessed.length,
+    missedInjuries: missed.length,
+    brierScore,
+    bins,
+    regions,
+  };
+};
@@ -0,0 +1,63 @@
+import { AccidentData, AnalysisResult, CaseRecord } from "../types";
+import { CASES, openDb, promisify, withStore } from "./db";
+
+export const createCaseRecord = (data: AccidentData, result: AnalysisResult, label?: string): CaseRecord => ({
+  id: crypto.randomUUID(),
+  createdAt: new Date().toISOString(),
+  label: label?.trim() || undefined,
+  data,
+  analysis: result.analysis,
+  source: result.source,
+});
+
+/**
+ * Inserts or replaces a case.
+ */
+export const saveCase = async (record: CaseRecord): Promise<void> => {
+  await withStore(CASES, 'readwrite', store => store.put(record));
+};
+
+/**
+ * Merges `patch` into a stored case inside one transaction, so concurrent updates to different
+ * fields (outcome, family briefing) don't overwrite each other with stale copies.
+ */
+export const updateCase = async (id: string, patch: Partial<Omit<CaseRecord, 'id'>>): Promise<CaseRecord> => {
+  const db = await openDb();
+  const store = db.transaction(CASES, 'readwrite').objectStore(CASES);
+  const existing = await promisify(store.get(id) as IDBRequest<CaseRecord | undefined>);
+  if (!existing) throw new Error(`Case ${id} not found`);
+  const updated = { ...existing, ...patch };
+  await promisify(store.put(updated));
+  return updated;
+};
+
+export const getCase = (id: string): Promise<CaseRecord | undefined> =>
+  withStore(CASES, 'readonly', store => store.get(id) as IDBRequest<CaseRecord | undefined>);
+
+export const deleteCase = async (id: string): Promise<void> => {
+  await withStore(CASES, 'readwrite', store => store.delete(id));
+};
+
+/**
+ * All stored cases, newest first.
+ */
+export const listCases = async (): Promise<CaseRecord[]> => {
+  const records = await withStore(CASES, 'readonly', store => store.getAll() as IDBRequest<CaseRecord[]>);
+  return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+/**
+ * Case-insensitive match against the label, narrative, severity, provider and injury names.
+ */
+export const matchesCaseQuery = (record: CaseRecord, query: string): boolean => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  const haystack = [
+    record.label ?? '',
+    record.data.accidentDescription,
+    record.analysis.severityScore,
+    record.source.providerLabel,
+    ...record.analysis.predictedInjuries.map(i => `${i.injuryName} ${i.anatomicalRegion}`),
+  ].join(' ').toLowerCase();
+  return haystack.includes(q);
+};
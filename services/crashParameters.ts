@@ -0,0 +1,69 @@
+import { AccidentData, CollisionPartner, CrashParameterKey, CrashParameters, ImpactType, PatientPosition, VehicleType } from "../types";
+
+export const VEHICLE_TYPES: VehicleType[] = ['Motorcycle', 'Car', 'Rickshaw', 'Bus/Wagon', 'Truck', 'Tractor/Trolley', 'Bicycle'];
+
+export const COLLISION_PARTNERS: CollisionPartner[] = [...VEHICLE_TYPES, 'Pedestrian', 'Fixed Object', 'None (Skid/Fall)'];
+
+export const IMPACT_TYPES: ImpactType[] = ['Frontal', 'Side (T-bone)', 'Rear', 'Rollover', 'Run-over', 'Fall from Vehicle'];
+
+export const PATIENT_POSITIONS: PatientPosition[] = ['Driver/Rider', 'Front Passenger', 'Rear Passenger', 'Pillion', 'Pedestrian', 'Cyclist'];
+
+export const CRASH_PARAMETER_LABELS: Record<CrashParameterKey, string> = {
+  patientVehicle: 'Patient Vehicle',
+  collisionPartner: 'Collided With',
+  impactType: 'Impact Type',
+  patientPosition: 'Patient Position',
+  estimatedSpeedKmh: 'Estimated Speed',
+  helmetUsed: 'Helmet',
+  seatbeltUsed: 'Seatbelt',
+  ejected: 'Ejected',
+  minutesSinceImpact: 'Time Since Impact',
+};
+
+export const CRASH_PARAMETER_KEYS = Object.keys(CRASH_PARAMETER_LABELS) as CrashParameterKey[];
+
+const ENUM_VALUES: Partial<Record<CrashParameterKey, readonly string[]>> = {
+  patientVehicle: VEHICLE_TYPES,
+  collisionPartner: COLLISION_PARTNERS,
+  impactType: IMPACT_TYPES,
+  patientPosition: PATIENT_POSITIONS,
+};
+
+const NUMERIC_KEYS: CrashParameterKey[] = ['estimatedSpeedKmh', 'minutesSinceImpact'];
+
+/**
+ * Converts a free-text value (as produced by a model) into a typed parameter value.
+ * Returns undefined when the value doesn't fit the parameter, so callers can drop it.
+ */
+export const parseCrashParameter = (key: CrashParameterKey, raw: string): CrashParameters[CrashParameterKey] | undefined => {
+  const text = raw.trim();
+  const options = ENUM_VALUES[key];
+  if (options) {
+    return options.find(option => option.toLowerCase() === text.toLowerCase()) as CrashParameters[CrashParameterKey] | undefined;
+  }
+  if (NUMERIC_KEYS.includes(key)) {
+    const n = parseFloat(text);
+    return Number.isFinite(n) && n >= 0 ? Math.round(n) : undefined;
+  }
+  if (/^(true|yes|worn)$/i.test(text)) return true;
+  if (/^(false|no|not worn)$/i.test(text)) return false;
+  return undefined;
+};
+
+const formatValue = (key: CrashParameterKey, value: string | number | boolean): string => {
+  if (typeof value === 'boolean') {
+    if (key === 'helmetUsed' || key === 'seatbeltUsed') return value ? 'Worn' : 'Not worn';
+    return value ? 'Yes' : 'No';
+  }
+  if (key === 'estimatedSpeedKmh') return `${value} km/h`;
+  if (key === 'minutesSinceImpact') return `${value} min`;
+  return String(value);
+};
+
+/**
+ * Lists the structured parameters actually reported on the intake form, in form order.
+ */
+export const getReportedParameters = (data: AccidentData): { key: CrashParameterKey; label: string; value: string }[] =>
+  CRASH_PARAMETER_KEYS
+    .filter(key => data[key] !== undefined)
+    .map(key => ({ key, label: CRASH_PARAMETER_LABELS[key], value: formatValue(key, data[key]!) }));
@@ -0,0 +1,54 @@
+// The app's single IndexedDB database. Everything stays in this browser.
+
+const DB_NAME = 'traumapredict';
+const DB_VERSION = 3;
+
+export const CASES = 'cases';
+export const BATCH_JOBS = 'batchJobs';
+export const BATCH_RESULTS = 'batchResults';
+export const INCIDENTS = 'incidents';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Stores are only ever added, so each upgrade creates whatever the previous version lacked.
+export const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CASES)) {
+          const store = db.createObjectStore(CASES, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+        if (!db.objectStoreNames.contains(BATCH_JOBS)) {
+          db.createObjectStore(BATCH_JOBS, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(BATCH_RESULTS)) {
+          const store = db.createObjectStore(BATCH_RESULTS, { keyPath: ['jobId', 'rowId'] });
+          store.createIndex('jobId', 'jobId');
+        }
+        if (!db.objectStoreNames.contains(INCIDENTS)) {
+          db.createObjectStore(INCIDENTS, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const withStore = async <T>(name: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return promisify(run(db.transaction(name, mode).objectStore(name)));
+};
@@ -0,0 +1,140 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AccidentData } from '../types';
+import { CriterionAnswers, DECISION_RULES, DecisionRule, prefillCriteria } from './decisionRules';
+import { analysis, injury } from './testing';
+
+const rule = (id: DecisionRule['id']) => DECISION_RULES.find(r => r.id === id)!;
+
+const narrativeValues = (accidentDescription: string, extra: Partial<AccidentData> = {}) => {
+  const prefill = prefillCriteria({ accidentDescription, ...extra }, analysis([]));
+  const values: Record<string, boolean> = {};
+  for (const id of Object.keys(prefill)) values[id] = prefill[id].value;
+  return values;
+};
+
+const answersFrom = (values: Record<string, boolean>): CriterionAnswers => ({ ...values });
+
+describe('prefillCriteria', () => {
+  it('does not let a negated LOC rule out a minor head injury shown by amnesia or confusion', () => {
+    const values = narrativeValues('No LOC, but confused and does not remember the crash. Vomited twice.');
+    assert.equal(values['pe-loc'], false);
+    assert.equal(values['ch-minor'], true);
+    assert.equal(values['pe-ams'], true);
+    assert.equal(values['ch-vomit'], true);
+    const headRule = rule('ct-head').evaluate({ ...answersFrom(values), 'ch-gcs-low': false, 'ch-child': false, 'ch-anticoag': false });
+    assert.equal(headRule.status, 'indicated');
+  });
+
+  it('rules out a minor head injury only when LOC, amnesia and disorientation are all denied', () => {
+    assert.equal(narrativeValues('No LOC. Not confused.')['ch-minor'], undefined);
+    assert.equal(narrativeValues('No LOC, no amnesia, not confused.')['ch-minor'], false);
+  });
+
+  it('reads negated findings as absent rather than present', () => {
+    const values = narrativeValues('Denies alcohol, no numbness, no chest pain, no vomiting');
+    assert.equal(values['cs-intox'], false);
+    assert.equal(values['cs-paresthesia'], false);
+    assert.equal(values['fa-ptx'], false);
+    assert.equal(values['pe-vomit'], false);
+  });
+
+  it('understands negation after the finding in Roman Urdu and Urdu script', () => {
+    const values = narrativeValues('Behosh nahi hua, ulti nahi hui. سینے میں درد نہیں');
+    assert.equal(values['pe-loc'], false);
+    assert.equal(values['pe-vomit'], false);
+    assert.equal(values['fa-ptx'], false);
+  });
+
+  it('lets an affirmed mention win over a denied one', () => {
+    assert.equal(narrativeValues('No vomiting at the scene, vomited in the ambulance')['pe-vomit'], true);
+  });
+
+  it('reads vitals, age and mechanism from the form before the narrative', () => {
+    const prefill = prefillCriteria(
+      {
+        accidentDescription: 'Conscious throughout',
+        vitals: { systolicBp: 80, respiratoryRate: 18, gcsEye: 4, gcsVerbal: 5, gcsMotor: 6 },
+        patient: { ageYears: 70 },
+        ejected: true,
+      },
+      analysis([injury('Open book pelvic fracture', 'Pelvis', 0.7)])
+    );
+    assert.equal(prefill['cs-unstable'].value, true);
+    assert.equal(prefill['cs-gcs'].value, false);
+    assert.equal(prefill['cs-age65'].value, true);
+    assert.equal(prefill['ch-dangerous'].source, 'form');
+    assert.equal(prefill['fa-pelvis'].source, 'prediction');
+    assert.equal(prefill['pe-loc'].value, false);
+  });
+});
+
+describe('Canadian C-Spine / NEXUS', () => {
+  const evaluate = rule('c-spine').evaluate;
+  const nexusClear = { 'cs-midline': false, 'cs-focal': false, 'cs-gcs': false, 'cs-intox': false, 'cs-distracting': false };
+  const applicable = { 'cs-unstable': false, 'cs-gcs': false, 'cs-child': false };
+
+  it('images on a high-risk factor', () => {
+    assert.equal(evaluate({ ...applicable, 'cs-age65': true }).status, 'indicated');
+  });
+
+  it('clears a low-risk patient who can rotate the neck and meets NEXUS', () => {
+    const result = evaluate({ ...applicable, ...nexusClear, 'cs-age65': false, 'cs-dangerous': false, 'cs-paresthesia': false, 'cs-rotate': true });
+    assert.equal(result.status, 'not-indicated');
+  });
+
+  it('waits for the missing answers', () => {
+    assert.equal(evaluate({}).status, 'incomplete');
+  });
+});
+
+describe('Canadian CT Head Rule', () => {
+  const evaluate = rule('ct-head').evaluate;
+  const minor = { 'ch-minor': true, 'ch-gcs-low': false, 'ch-child': false, 'ch-anticoag': false };
+  const noRisk = { 'ch-gcs-2h': false, 'ch-open': false, 'ch-basal': false, 'ch-vomit': false, 'ch-age65': false, 'ch-amnesia30': false, 'ch-dangerous': false };
+
+  it('images anticoagulated patients regardless of the rest', () => {
+    assert.equal(evaluate({ 'ch-anticoag': true }).status, 'indicated');
+  });
+
+  it('images on a medium-risk factor and not without any', () => {
+    assert.equal(evaluate({ ...minor, ...noRisk, 'ch-dangerous': true }).headline, 'CT head indicated (medium risk)');
+    assert.equal(evaluate({ ...minor, ...noRisk }).status, 'not-indicated');
+  });
+
+  it('does not apply without LOC, amnesia or disorientation', () => {
+    assert.equal(evaluate({ ...minor, 'ch-minor': false }).status, 'not-applicable');
+  });
+});
+
+describe('PECARN', () => {
+  const evaluate = rule('pecarn').evaluate;
+  const highestClear = { 'pe-gcs': false, 'pe-ams': false, 'pe-skull': false };
+
+  it('recommends CT on a highest-risk finding', () => {
+    assert.equal(evaluate({ 'pe-child': true, 'pe-under2': false, 'pe-ams': true }).status, 'indicated');
+  });
+
+  it('uses the age-specific intermediate predictors', () => {
+    const over2 = { 'pe-child': true, 'pe-under2': false, ...highestClear, 'pe-loc': false, 'pe-headache': false, 'pe-mechanism': false };
+    assert.equal(evaluate({ ...over2, 'pe-vomit': true }).status, 'consider');
+    assert.equal(evaluate({ ...over2, 'pe-vomit': false }).status, 'not-indicated');
+  });
+
+  it('points adults to the Canadian rule', () => {
+    assert.equal(evaluate({ 'pe-child': false }).status, 'not-applicable');
+  });
+});
+
+describe('FAST / eFAST', () => {
+  const evaluate = rule('efast').evaluate;
+
+  it('adds lung views for suspected pneumothorax', () => {
+    assert.equal(evaluate({ 'fa-ptx': true }).headline, 'eFAST indicated in the primary survey');
+  });
+
+  it('is not indicated when every indication is absent', () => {
+    const none = { 'fa-unstable': false, 'fa-torso': false, 'fa-penetrating': false, 'fa-abdo': false, 'fa-pelvis': false, 'fa-ptx': false };
+    assert.equal(evaluate(none).status, 'not-indicated');
+  });
+});
@@ -0,0 +1,458 @@
+import { AccidentData, PredictedInjury, TraumaAnalysis } from "../types";
+import { calculateGcs, calculateShockIndex, sanitiseVitals } from "./physiology";
+import { bleedingRisks } from "./specialPopulations";
+
+// Deterministic imaging decision rules. Nothing here calls a model: the same answers always
+// give the same recommendation, and every recommendation lists the criteria that produced it.
+
+export type CriterionAnswer = boolean | undefined; // undefined: not yet assessed
+export type CriterionAnswers = Record<string, CriterionAnswer>;
+
+export type EvidenceSource = 'form' | 'vitals' | 'narrative' | 'prediction';
+
+export interface Prefill {
+  value: boolean;
+  source: EvidenceSource;
+  evidence: string;
+}
+
+export interface Criterion {
+  id: string;
+  label: string; // phrased so that "yes" means the finding is present
+  group: string;
+}
+
+export type RuleStatus = 'indicated' | 'consider' | 'not-indicated' | 'incomplete' | 'not-applicable';
+
+export interface RuleRecommendation {
+  status: RuleStatus;
+  headline: string;
+  reasons: string[];
+}
+
+export interface DecisionRule {
+  id: 'c-spine' | 'ct-head' | 'pecarn' | 'efast';
+  name: string;
+  imaging: string;
+  reference: string;
+  criteria: Criterion[];
+  evaluate: (answers: CriterionAnswers) => RuleRecommendation;
+}
+
+// Predictions are only used as evidence at or above this probability, and are marked as such.
+const PREDICTION_THRESHOLD = 0.5;
+
+// --- Rule evaluation helpers ---
+
+type Tri = 'yes' | 'no' | 'unknown';
+
+const anyOf = (answers: CriterionAnswers, ids: string[]): Tri => {
+  if (ids.some(id => answers[id] === true)) return 'yes';
+  return ids.every(id => answers[id] === false) ? 'no' : 'unknown';
+};
+
+const labelsOf = (criteria: Criterion[], answers: CriterionAnswers, ids: string[]): string[] =>
+  ids.filter(id => answers[id] === true).map(id => criteria.find(c => c.id === id)!.label);
+
+const unanswered = (criteria: Criterion[], answers: CriterionAnswers, ids: string[]): string[] =>
+  ids.filter(id => answers[id] === undefined).map(id => criteria.find(c => c.id === id)!.label);
+
+const incomplete = (criteria: Criterion[], answers: CriterionAnswers, ids: string[], step: string): RuleRecommendation => ({
+  status: 'incomplete',
+  headline: `Answer the remaining ${step} to reach a recommendation`,
+  reasons: unanswered(criteria, answers, ids).map(label => `Not yet assessed: ${label}`),
+});
+
+// --- Canadian C-Spine Rule and NEXUS ---
+
+const CS_CRITERIA: Criterion[] = [
+  { id: 'cs-unstable', group: 'Applicability', label: 'Unstable vital signs (SBP < 90 mmHg, or RR < 10 or > 24)' },
+  { id: 'cs-gcs', group: 'Applicability', label: 'GCS < 15 / not alert' },
+  { id: 'cs-child', group: 'Applicability', label: 'Age < 16 years' },
+  { id: 'cs-age65', group: 'Canadian C-Spine: high risk', label: 'Age ≥ 65 years' },
+  { id: 'cs-dangerous', group: 'Canadian C-Spine: high risk', label: 'Dangerous mechanism (fall ≥ 1 m or 5 stairs, axial load to head, MVC > 100 km/h, rollover or ejection, motorised recreational vehicle, bicycle collision)' },
+  { id: 'cs-paresthesia', group: 'Canadian C-Spine: high risk', label: 'Paresthesias in the extremities' },
+  { id: 'cs-simple-rear', group: 'Canadian C-Spine: low risk', label: 'Simple rear-end MVC' },
+  { id: 'cs-sitting', group: 'Canadian C-Spine: low risk', label: 'Sitting position in the ED' },
+  { id: 'cs-ambulatory', group: 'Canadian C-Spine: low risk', label: 'Ambulatory at any time since the injury' },
+  { id: 'cs-delayed-pain', group: 'Canadian C-Spine: low risk', label: 'Delayed onset of neck pain' },
+  { id: 'cs-rotate', group: 'Canadian C-Spine: range of motion', label: 'Able to actively rotate neck 45° left and right' },
+  { id: 'cs-midline', group: 'NEXUS', label: 'Posterior midline cervical tenderness' },
+  { id: 'cs-focal', group: 'NEXUS', label: 'Focal neurological deficit' },
+  { id: 'cs-intox', group: 'NEXUS', label: 'Evidence of intoxication' },
+  { id: 'cs-distracting', group: 'NEXUS', label: 'Painful distracting injury' },
+];
+
+const CCR_HIGH_RISK = ['cs-age65', 'cs-dangerous', 'cs-paresthesia'];
+const CCR_LOW_RISK = ['cs-simple-rear', 'cs-sitting', 'cs-ambulatory', 'cs-delayed-pain'];
+const NEXUS_CRITERIA = ['cs-midline', 'cs-focal', 'cs-gcs', 'cs-intox', 'cs-distracting'];
+
+type PartialDecision = { result: 'image' | 'clear' | 'unknown' | 'n/a'; reasons: string[]; missing: string[] };
+
+const evaluateCcr = (a: CriterionAnswers): PartialDecision => {
+  const applicability = ['cs-unstable', 'cs-gcs', 'cs-child'];
+  const excluded = labelsOf(CS_CRITERIA, a, applicability);
+  if (excluded.length) return { result: 'n/a', reasons: excluded.map(l => `Canadian C-Spine does not apply: ${l}`), missing: [] };
+  if (anyOf(a, applicability) === 'unknown') return { result: 'unknown', reasons: [], missing: applicability };
+
+  const high = anyOf(a, CCR_HIGH_RISK);
+  if (high === 'yes') return { result: 'image', reasons: labelsOf(CS_CRITERIA, a, CCR_HIGH_RISK).map(l => `Canadian C-Spine high-risk factor: ${l}`), missing: [] };
+  if (high === 'unknown') return { result: 'unknown', reasons: [], missing: CCR_HIGH_RISK };
+
+  // Absence of midline tenderness is the fifth low-risk factor.
+  const lowRisk = [...labelsOf(CS_CRITERIA, a, CCR_LOW_RISK), ...(a['cs-midline'] === false ? ['No midline cervical tenderness'] : [])];
+  if (lowRisk.length === 0) {
+    if (anyOf(a, CCR_LOW_RISK) === 'no' && a['cs-midline'] === true) {
+      return { result: 'image', reasons: ['Canadian C-Spine: no low-risk factor, so range of motion cannot be safely assessed'], missing: [] };
+    }
+    return { result: 'unknown', reasons: [], missing: [...CCR_LOW_RISK, 'cs-midline'] };
+  }
+  if (a['cs-rotate'] === undefined) return { result: 'unknown', reasons: [], missing: ['cs-rotate'] };
+  return a['cs-rotate']
+    ? { result: 'clear', reasons: [`Canadian C-Spine: no high-risk factor, low-risk factor present (${lowRisk.join('; ')}), and able to rotate the neck`], missing: [] }
+    : { result: 'image', reasons: ['Canadian C-Spine: unable to actively rotate the neck 45° left and right'], missing: [] };
+};
+
+const evaluateNexus = (a: CriterionAnswers): PartialDecision => {
+  const state = anyOf(a, NEXUS_CRITERIA);
+  if (state === 'yes') return { result: 'image', reasons: labelsOf(CS_CRITERIA, a, NEXUS_CRITERIA).map(l => `NEXUS criterion present: ${l}`), missing: [] };
+  if (state === 'no') return { result: 'clear', reasons: ['NEXUS: all five low-risk criteria met'], missing: [] };
+  return { result: 'unknown', reasons: [], missing: NEXUS_CRITERIA };
+};
+
+const C_SPINE_RULE: DecisionRule = {
+  id: 'c-spine',
+  name: 'Canadian C-Spine Rule / NEXUS',
+  imaging: 'CT cervical spine',
+  reference: 'Stiell et al., JAMA 2001; Hoffman et al., NEJM 2000',
+  criteria: CS_CRITERIA,
+  evaluate: a => {
+    const ccr = evaluateCcr(a);
+    const nexus = evaluateNexus(a);
+    const imaging = a['cs-child'] === true ? 'Cervical spine imaging (per paediatric protocol)' : 'CT cervical spine';
+
+    // Conservative: imaging if either applicable rule calls for it.
+    if (ccr.result === 'image' || nexus.result === 'image') {
+      const reasons = [ccr, nexus].filter(decision => decision.result === 'image').flatMap(decision => decision.reasons);
+      return { status: 'indicated', headline: `${imaging} indicated`, reasons };
+    }
+    const ccrDone = ccr.result === 'clear' || ccr.result === 'n/a';
+    if (ccrDone && nexus.result === 'clear') {
+      return { status: 'not-indicated', headline: 'Cervical spine can be cleared clinically without imaging', reasons: [...ccr.reasons, ...nexus.reasons] };
+    }
+    const missing = [...new Set([...(ccrDone ? [] : ccr.missing), ...(nexus.result === 'clear' ? [] : nexus.missing)])];
+    const pending = incomplete(CS_CRITERIA, a, missing, 'C-spine criteria');
+    return { ...pending, reasons: [...ccr.reasons, ...nexus.reasons, ...pending.reasons] };
+  },
+};
+
+// --- Canadian CT Head Rule ---
+
+const CH_CRITERIA: Criterion[] = [
+  { id: 'ch-minor', group: 'Applicability', label: 'Witnessed loss of consciousness, definite amnesia or witnessed disorientation' },
+  { id: 'ch-gcs-low', group: 'Applicability', label: 'GCS < 13' },
+  { id: 'ch-child', group: 'Applicability', label: 'Age < 16 years' },
+  { id: 'ch-anticoag', group: 'Applicability', label: 'On anticoagulants or has a bleeding disorder' },
+  { id: 'ch-gcs-2h', group: 'High risk (neurosurgical intervention)', label: 'GCS < 15 at 2 hours after injury' },
+  { id: 'ch-open', group: 'High risk (neurosurgical intervention)', label: 'Suspected open or depressed skull fracture' },
+  { id: 'ch-basal', group: 'High risk (neurosurgical intervention)', label: "Any sign of basal skull fracture (haemotympanum, raccoon eyes, CSF oto-/rhinorrhoea, Battle's sign)" },
+  { id: 'ch-vomit', group: 'High risk (neurosurgical intervention)', label: 'Vomiting ≥ 2 episodes' },
+  { id: 'ch-age65', group: 'High risk (neurosurgical intervention)', label: 'Age ≥ 65 years' },
+  { id: 'ch-amnesia30', group: 'Medium risk (brain injury on CT)', label: 'Retrograde amnesia to the event ≥ 30 minutes' },
+  { id: 'ch-dangerous', group: 'Medium risk (brain injury on CT)', label: 'Dangerous mechanism (pedestrian struck by motor vehicle, occupant ejected, fall > 1 m or 5 stairs)' },
+];
+
+const CH_HIGH_RISK = ['ch-gcs-2h', 'ch-open', 'ch-basal', 'ch-vomit', 'ch-age65'];
+const CH_MEDIUM_RISK = ['ch-amnesia30', 'ch-dangerous'];
+
+const CT_HEAD_RULE: DecisionRule = {
+  id: 'ct-head',
+  name: 'Canadian CT Head Rule',
+  imaging: 'CT head',
+  reference: 'Stiell et al., Lancet 2001',
+  criteria: CH_CRITERIA,
+  evaluate: a => {
+    if (a['ch-gcs-low']) return { status: 'indicated', headline: 'CT head indicated', reasons: ['GCS < 13: outside the minor head injury rule; image'] };
+    if (a['ch-anticoag']) return { status: 'indicated', headline: 'CT head indicated', reasons: ['Anticoagulated or bleeding disorder: excluded from the rule; image'] };
+    if (a['ch-child']) return { status: 'not-applicable', headline: 'Use PECARN for children', reasons: ['Canadian CT Head Rule was derived in adults (≥ 16 years)'] };
+    if (a['ch-minor'] === false) {
+      return { status: 'not-applicable', headline: 'Rule does not apply', reasons: ['No loss of consciousness, amnesia or disorientation: not a minor head injury as defined by the rule; use clinical judgement'] };
+    }
+    const applicability = ['ch-minor', 'ch-gcs-low', 'ch-child', 'ch-anticoag'];
+    if (applicability.some(id => a[id] === undefined)) return incomplete(CH_CRITERIA, a, applicability, 'applicability questions');
+
+    const high = anyOf(a, CH_HIGH_RISK);
+    if (high === 'yes') {
+      return { status: 'indicated', headline: 'CT head indicated (high risk)', reasons: labelsOf(CH_CRITERIA, a, CH_HIGH_RISK).map(l => `High-risk factor: ${l}`) };
+    }
+    const medium = anyOf(a, CH_MEDIUM_RISK);
+    if (medium === 'yes') {
+      return { status: 'indicated', headline: 'CT head indicated (medium risk)', reasons: labelsOf(CH_CRITERIA, a, CH_MEDIUM_RISK).map(l => `Medium-risk factor: ${l}`) };
+    }
+    if (high === 'no' && medium === 'no') {
+      return { status: 'not-indicated', headline: 'CT head not required by the rule', reasons: ['Minor head injury with no high- or medium-risk factor'] };
+    }
+    return incomplete(CH_CRITERIA, a, [...CH_HIGH_RISK, ...CH_MEDIUM_RISK], 'risk factors');
+  },
+};
+
+// --- PECARN paediatric head injury ---
+
+const PE_CRITERIA: Criterion[] = [
+  { id: 'pe-child', group: 'Applicability', label: 'Age < 18 years' },
+  { id: 'pe-under2', group: 'Applicability', label: 'Age < 2 years' },
+  { id: 'pe-gcs', group: 'Highest risk', label: 'GCS < 15' },
+  { id: 'pe-ams', group: 'Highest risk', label: 'Other signs of altered mental status (agitation, somnolence, repetitive questioning, slow response)' },
+  { id: 'pe-skull', group: 'Highest risk', label: 'Palpable skull fracture (< 2 y) or signs of basilar skull fracture (≥ 2 y)' },
+  { id: 'pe-hematoma', group: 'Intermediate risk', label: 'Occipital, parietal or temporal scalp haematoma (< 2 y)' },
+  { id: 'pe-loc', group: 'Intermediate risk', label: 'History of loss of consciousness (≥ 5 s if < 2 y)' },
+  { id: 'pe-not-normal', group: 'Intermediate risk', label: 'Not acting normally per parent (< 2 y)' },
+  { id: 'pe-vomit', group: 'Intermediate risk', label: 'Vomiting (≥ 2 y)' },
+  { id: 'pe-headache', group: 'Intermediate risk', label: 'Severe headache (≥ 2 y)' },
+  { id: 'pe-mechanism', group: 'Intermediate risk', label: 'Severe mechanism (ejection, death of another passenger, rollover; pedestrian or unhelmeted cyclist struck by a motor vehicle; fall > 0.9 m (< 2 y) or > 1.5 m (≥ 2 y); head struck by a high-impact object)' },
+];
+
+const PE_HIGHEST = ['pe-gcs', 'pe-ams', 'pe-skull'];
+const PE_INTERMEDIATE_UNDER2 = ['pe-hematoma', 'pe-loc', 'pe-not-normal', 'pe-mechanism'];
+const PE_INTERMEDIATE_OVER2 = ['pe-loc', 'pe-vomit', 'pe-headache', 'pe-mechanism'];
+
+const PECARN_RULE: DecisionRule = {
+  id: 'pecarn',
+  name: 'PECARN Paediatric Head Injury',
+  imaging: 'CT head',
+  reference: 'Kuppermann et al., Lancet 2009',
+  criteria: PE_CRITERIA,
+  evaluate: a => {
+    if (a['pe-child'] === false) return { status: 'not-applicable', headline: 'Adult patient', reasons: ['PECARN applies to children under 18; use the Canadian CT Head Rule'] };
+    if (a['pe-child'] === undefined || a['pe-under2'] === undefined) return incomplete(PE_CRITERIA, a, ['pe-child', 'pe-under2'], 'age questions');
+
+    const under2 = a['pe-under2'];
+    const highest = anyOf(a, PE_HIGHEST);
+    if (highest === 'yes') {
+      return { status: 'indicated', headline: 'CT head recommended (≈ 4% risk of clinically important TBI)', reasons: labelsOf(PE_CRITERIA, a, PE_HIGHEST) };
+    }
+    if (highest === 'unknown') return incomplete(PE_CRITERIA, a, PE_HIGHEST, 'highest-risk findings');
+
+    const intermediateIds = under2 ? PE_INTERMEDIATE_UNDER2 : PE_INTERMEDIATE_OVER2;
+    const intermediate = anyOf(a, intermediateIds);
+    if (intermediate === 'yes') {
+      return {
+        status: 'consider',
+        headline: 'Observation versus CT (≈ 0.9% risk of clinically important TBI)',
+        reasons: [
+          ...labelsOf(PE_CRITERIA, a, intermediateIds),
+          'Favour CT with multiple findings, worsening symptoms, age < 3 months, or parental preference',
+        ],
+      };
+    }
+    if (intermediate === 'no') {
+      return { status: 'not-indicated', headline: `CT not recommended (< ${under2 ? '0.02' : '0.05'}% risk of clinically important TBI)`, reasons: ['No PECARN predictor present'] };
+    }
+    return incomplete(PE_CRITERIA, a, intermediateIds, 'intermediate-risk findings');
+  },
+};
+
+// --- FAST / eFAST ---
+
+const FA_CRITERIA: Criterion[] = [
+  { id: 'fa-unstable', group: 'Indications', label: 'Hypotension or shock (SBP < 90 mmHg or shock index ≥ 1)' },
+  { id: 'fa-torso', group: 'Indications', label: 'Blunt trauma to chest, abdomen or pelvis' },
+  { id: 'fa-penetrating', group: 'Indications', label: 'Penetrating torso trauma' },
+  { id: 'fa-abdo', group: 'Indications', label: 'Abdominal pain, tenderness, distension or seat-belt sign' },
+  { id: 'fa-pelvis', group: 'Indications', label: 'Suspected pelvic fracture' },
+  { id: 'fa-ptx', group: 'Extended (lung) views', label: 'Suspected pneumothorax or haemothorax (dyspnoea, chest pain, reduced breath sounds, rib fractures)' },
+];
+
+const FA_INDICATIONS = ['fa-unstable', 'fa-torso', 'fa-penetrating', 'fa-abdo', 'fa-pelvis'];
+
+const EFAST_RULE: DecisionRule = {
+  id: 'efast',
+  name: 'FAST / eFAST',
+  imaging: 'Bedside ultrasound',
+  reference: 'ATLS 10th edition',
+  criteria: FA_CRITERIA,
+  evaluate: a => {
+    const indications = anyOf(a, FA_INDICATIONS);
+    const lung = a['fa-ptx'] === true;
+    if (indications === 'yes' || lung) {
+      const reasons = labelsOf(FA_CRITERIA, a, [...FA_INDICATIONS, 'fa-ptx']);
+      if (a['fa-unstable']) reasons.push('Haemodynamically unstable: a positive FAST means haemorrhage control (theatre or IR), not CT');
+      if (lung) reasons.push('Include lung windows for pneumothorax and pleural fluid');
+      return { status: 'indicated', headline: `${lung ? 'eFAST' : 'FAST'} indicated in the primary survey`, reasons };
+    }
+    if (indications === 'no' && a['fa-ptx'] === false) {
+      return { status: 'not-indicated', headline: 'No FAST indication', reasons: ['No torso injury, shock or chest findings; image according to examination'] };
+    }
+    return incomplete(FA_CRITERIA, a, [...FA_INDICATIONS, 'fa-ptx'], 'indications');
+  },
+};
+
+export const DECISION_RULES: DecisionRule[] = [C_SPINE_RULE, CT_HEAD_RULE, PECARN_RULE, EFAST_RULE];
+
+// --- Prefilling from the case ---
+
+// English, Roman Urdu and Urdu-script phrases. A criterion fed by several findings is present when
+// any of them is mentioned, and absent only when every one of them is explicitly negated.
+const FINDINGS: { ids: string[]; pattern: RegExp; negated?: RegExp; label: string }[] = [
+  {
+    ids: ['ch-minor', 'pe-loc'],
+    pattern: /\b(unconscious|loss of consciousness|LOC|passed out|knocked out|blacked out|behosh|be hosh)\b|بے ?ہوش/i,
+    negated: /\b(did not (lose consciousness|pass out)|conscious throughout|hosh (mein|me) tha)\b|ہوش میں تھا/i,
+    label: 'loss of consciousness',
+  },
+  { ids: ['ch-minor'], pattern: /\b(amnesia|does ?n[o']t remember|can ?n[o']t recall|yaad nahi)|یاد نہیں/i, negated: /\b(remembers (the|everything)|sab yaad hai)\b/i, label: 'amnesia' },
+  { ids: ['ch-minor', 'pe-ams'], pattern: /\b(confused|disorient(at)?ed|drowsy|somnolent|agitated)\b|غنودگی/i, label: 'altered mental status' },
+  { ids: ['ch-vomit'], pattern: /\b(vomit(ed|ing)? (twice|2 times|two times|three times|repeatedly|multiple times)|repeated vomiting|(do|teen) (dafa|bar) ult[iy])|کئی بار الٹی|دو بار الٹی/i, label: 'repeated vomiting' },
+  { ids: ['pe-vomit'], pattern: /\b(vomit(ed|ing)?|ult[iy](yan)?|qay)\b|الٹی|قے/i, label: 'vomiting' },
+  { ids: ['ch-basal', 'pe-skull'], pattern: /\b(raccoon eyes|battle'?s sign|ha?emotympanum|csf (leak|rhinorrh?o?ea|otorrh?o?ea)|blood from (the )?(ear|nose)|bleeding from (the )?(ear|nose)|kaan se khoon|naak se khoon)|کان سے خون|ناک سے خون/i, label: 'signs of basal skull fracture' },
+  { ids: ['ch-open'], pattern: /\b(depressed (skull )?fracture|open (skull|head) (wound|fracture|injury)|brain matter|skull (is )?(open|depressed))/i, label: 'open or depressed skull injury' },
+  { ids: ['pe-headache'], pattern: /\b(severe headache|bad headache|sar (mein|me) (shadeed|bohat|bahut) dard)|شدید سر درد/i, label: 'severe headache' },
+  { ids: ['pe-hematoma'], pattern: /\b(scalp (ha?ematoma|swelling)|boggy (scalp|swelling)|goomar|gumar)\b|گومڑ/i, label: 'scalp haematoma' },
+  { ids: ['cs-midline'], pattern: /\b(midline (neck |cervical |c-?spine )?tenderness|tender(ness)? (over|of) the (cervical )?spin(e|ous))/i, label: 'midline cervical tenderness' },
+  { ids: ['cs-paresthesia'], pattern: /\b(numb(ness)?|tingling|pins and needles|pa?raesthesia|paresthesia|sunn? ho (gay[ae]|rah[ae]))\b|سن ہو/i, label: 'paresthesias' },
+  { ids: ['cs-focal'], pattern: /\b(can ?n[o']t move (his|her|their) (arms?|legs?|limbs?)|paralys(is|ed)|hemipar|paraple|quadripl|focal (neuro(logical)? )?deficit|limb weakness)|فالج/i, label: 'focal neurological deficit' },
+  { ids: ['cs-intox'], pattern: /\b(drunk|intoxicated|alcohol|under the influence|nash(a|e) (mein|me)|charas)\b|نشے میں|نشہ/i, label: 'intoxication' },
+  { ids: ['cs-ambulatory'], pattern: /\b(walked (in|into|to)|ambulat(ory|ing) (at|on) (the )?scene|khud chal (kar|ke)|chal kar aay?a)|خود چل کر/i, label: 'ambulatory since injury' },
+  { ids: ['cs-delayed-pain'], pattern: /\b(neck pain (started|began) later|delayed (onset of )?neck pain)/i, label: 'delayed neck pain' },
+  { ids: ['fa-penetrating'], pattern: /\b(stab(bed)?|gunshot|penetrating|impaled|sariy?a (ghus|laga))/i, label: 'penetrating injury' },
+  { ids: ['fa-abdo'], pattern: /\b(seat ?belt (sign|mark|bruis)|abdominal (pain|tenderness|distension)|pait (mein|me) dard)|پیٹ میں درد/i, label: 'abdominal findings' },
+  { ids: ['fa-ptx'], pattern: /\b(short(ness)? of breath|dyspno?ea|difficulty (in )?breathing|chest pain|saa?ns (lene )?(mein|me) (taklee?f|mushkil)|seene (mein|me) dard)|سانس لینے میں|سینے میں درد/i, label: 'chest symptoms' },
+];
+
+// A negation shortly before the finding in the same clause ("no LOC", "denies alcohol", "not
+// confused"), or after it in Urdu word order ("ulti nahi hui", "بے ہوش نہیں").
+const NEGATION_BEFORE = /\b(no|not|denies|denied|without|never|nil|negative for)\b(\s+[\p{L}'-]+){0,2}\s*$/iu;
+const NEGATION_AFTER = /^\s*([^\s.,;!?]+\s+){0,1}(nahi|nahin|nai|نہیں)(?![\p{L}])/iu;
+const CLAUSE_BREAK = /[.,;:!?\n]|\bbut\b/gi;
+
+// The negated phrase ("no LOC", "ulti nahi") when the mention at `index` is negated.
+const negation = (text: string, index: number, mention: string): string | undefined => {
+  const before = text.slice(0, index);
+  const clauseStart = Math.max(0, ...[...before.matchAll(CLAUSE_BREAK)].map(m => m.index! + m[0].length));
+  const cue = before.slice(clauseStart).match(NEGATION_BEFORE);
+  if (cue) return `${cue[0]}${mention}`;
+  const after = text.slice(index + mention.length);
+  const clauseEnd = after.search(CLAUSE_BREAK);
+  const postCue = (clauseEnd === -1 ? after : after.slice(0, clauseEnd)).match(NEGATION_AFTER);
+  return postCue ? `${mention}${postCue[0]}` : undefined;
+};
+
+/**
+ * The first affirmed mention of a finding, or failing that a negated one. An affirmed mention
+ * anywhere wins, so "no vomiting at scene, vomited twice since" counts as vomiting.
+ */
+const readFinding = (text: string, pattern: RegExp, negated?: RegExp): { text: string; negated: boolean } | undefined => {
+  let denial: string | undefined;
+  for (const match of text.matchAll(new RegExp(pattern.source, `${pattern.flags}g`))) {
+    const negatedAs = negation(text, match.index!, match[0]);
+    if (!negatedAs) return { text: match[0], negated: false };
+    denial ??= negatedAs;
+  }
+  denial ??= (negated && text.match(negated)?.[0]) || undefined;
+  return denial === undefined ? undefined : { text: denial.trim(), negated: true };
+};
+
+const percent = (p: number) => `${Math.round(p * 100)}%`;
+
+const likely = (injuries: PredictedInjury[], test: (injury: PredictedInjury) => boolean) =>
+  injuries.filter(injury => injury.probability >= PREDICTION_THRESHOLD && test(injury));
+
+/**
+ * Answers the case already supports, each with the evidence behind it. Structured data wins over
+ * narrative keywords, and predicted injuries are only used for criteria about suspected injuries.
+ */
+export const prefillCriteria = (data: AccidentData, analysis: TraumaAnalysis): Record<string, Prefill> => {
+  const prefill: Record<string, Prefill> = {};
+  const set = (ids: string[], value: boolean, source: EvidenceSource, evidence: string) => {
+    ids.forEach(id => {
+      if (!prefill[id]) prefill[id] = { value, source, evidence };
+    });
+  };
+
+  const vitals = sanitiseVitals(data.vitals ?? {});
+  const gcs = calculateGcs(vitals);
+  if (gcs !== undefined) {
+    const text = `GCS ${gcs} (E${vitals.gcsEye} V${vitals.gcsVerbal} M${vitals.gcsMotor})`;
+    set(['cs-gcs', 'pe-gcs'], gcs < 15, 'vitals', text);
+    set(['ch-gcs-low'], gcs < 13, 'vitals', text);
+    if (gcs === 15 || (data.minutesSinceImpact ?? 0) >= 120) {
+      set(['ch-gcs-2h'], gcs < 15, 'vitals', `${text}${data.minutesSinceImpact !== undefined ? `, ${data.minutesSinceImpact} min after impact` : ''}`);
+    }
+  }
+  const { systolicBp, respiratoryRate } = vitals;
+  if (systolicBp !== undefined && respiratoryRate !== undefined) {
+    set(['cs-unstable'], systolicBp < 90 || respiratoryRate < 10 || respiratoryRate > 24, 'vitals', `SBP ${systolicBp}, RR ${respiratoryRate}`);
+  } else if ((systolicBp ?? 90) < 90 || (respiratoryRate !== undefined && (respiratoryRate < 10 || respiratoryRate > 24))) {
+    set(['cs-unstable'], true, 'vitals', systolicBp !== undefined ? `SBP ${systolicBp}` : `RR ${respiratoryRate}`);
+  }
+  const shockIndex = calculateShockIndex(vitals);
+  if (systolicBp !== undefined) {
+    const shocked = systolicBp < 90 || (shockIndex ?? 0) >= 1;
+    set(['fa-unstable'], shocked, 'vitals', `SBP ${systolicBp}${shockIndex !== undefined ? `, shock index ${shockIndex.toFixed(2)}` : ''}`);
+  }
+
+  // Patient details from the intake form.
+  const patient = data.patient ?? {};
+  if (patient.ageYears !== undefined) {
+    const age = `Age ${patient.ageYears} years`;
+    set(['cs-child', 'ch-child'], patient.ageYears < 16, 'form', age);
+    set(['cs-age65', 'ch-age65'], patient.ageYears >= 65, 'form', age);
+    set(['pe-child'], patient.ageYears < 18, 'form', age);
+    set(['pe-under2'], patient.ageYears < 2, 'form', age);
+  }
+  const bleeding = bleedingRisks(patient);
+  if (bleeding.length) {
+    set(['ch-anticoag'], true, 'form', bleeding.join(', '));
+  } else if (patient.anticoagulation === 'None' || patient.anticoagulation === 'Aspirin only') {
+    set(['ch-anticoag'], false, 'form', patient.anticoagulation === 'None' ? 'No anticoagulant or antiplatelet' : 'Aspirin only');
+  }
+
+  // Mechanism from the intake form.
+  if (data.ejected) set(['cs-dangerous', 'ch-dangerous', 'pe-mechanism'], true, 'form', 'Ejected from the vehicle');
+  if (data.impactType === 'Rollover') set(['cs-dangerous', 'pe-mechanism'], true, 'form', 'Rollover');
+  if ((data.estimatedSpeedKmh ?? 0) > 100) set(['cs-dangerous'], true, 'form', `Speed ${data.estimatedSpeedKmh} km/h`);
+  if (data.patientVehicle === 'Bicycle' || data.patientPosition === 'Cyclist') set(['cs-dangerous'], true, 'form', 'Bicycle collision');
+  const struckByVehicle = data.collisionPartner !== undefined && !['Pedestrian', 'Fixed Object', 'None (Skid/Fall)'].includes(data.collisionPartner);
+  if (data.patientPosition === 'Pedestrian' && struckByVehicle) {
+    set(['ch-dangerous', 'pe-mechanism'], true, 'form', `Pedestrian struck by ${data.collisionPartner}`);
+  }
+  if (data.patientPosition === 'Cyclist' && struckByVehicle && data.helmetUsed === false) {
+    set(['pe-mechanism'], true, 'form', `Unhelmeted cyclist struck by ${data.collisionPartner}`);
+  }
+  if (data.impactType === 'Rear' && data.collisionPartner && ['Car', 'Rickshaw', 'Motorcycle', 'Bicycle'].includes(data.collisionPartner)) {
+    set(['cs-simple-rear'], true, 'form', `Rear impact by ${data.collisionPartner}; confirm it was a simple rear-end collision`);
+  }
+
+  // Findings described in the narrative.
+  const narrative = data.accidentDescription;
+  const present: Record<string, string> = {};
+  const absent: Record<string, string[]> = {};
+  const fedBy: Record<string, number> = {};
+  for (const finding of FINDINGS) {
+    finding.ids.forEach(id => (fedBy[id] = (fedBy[id] ?? 0) + 1));
+    const mention = readFinding(narrative, finding.pattern, finding.negated);
+    if (!mention) continue;
+    for (const id of finding.ids) {
+      if (mention.negated) (absent[id] ??= []).push(mention.text);
+      else present[id] ??= `Narrative mentions ${finding.label}: "${mention.text}"`;
+    }
+  }
+  for (const id of Object.keys(fedBy)) {
+    if (present[id]) set([id], true, 'narrative', present[id]);
+    else if (absent[id]?.length === fedBy[id]) set([id], false, 'narrative', `Narrative: ${absent[id].map(text => `"${text}"`).join(', ')}`);
+  }
+
+  // Suspected injuries from the analysis.
+  const injuries = analysis.predictedInjuries;
+  const describe = (found: PredictedInjury[]) => `Predicted ${found.map(i => `${i.injuryName} (${percent(i.probability)})`).join(', ')}`;
+  const torso = likely(injuries, i => ['Chest', 'Abdomen', 'Pelvis'].includes(i.anatomicalRegion));
+  if (torso.length) set(['fa-torso'], true, 'prediction', describe(torso));
+  const pelvis = likely(injuries, i => i.anatomicalRegion === 'Pelvis');
+  if (pelvis.length) set(['fa-pelvis'], true, 'prediction', describe(pelvis));
+  const chest = likely(injuries, i => /pneumo|ha?emo(thorax|pneumo)|rib|flail/i.test(i.injuryName));
+  if (chest.length) set(['fa-ptx'], true, 'prediction', describe(chest));
+  const distracting = likely(injuries, i => i.aisSeverity >= 2 && ['Upper Limb', 'Lower Limb', 'Chest', 'Pelvis', 'Abdomen'].includes(i.anatomicalRegion));
+  if (distracting.length) set(['cs-distracting'], true, 'prediction', describe(distracting));
+
+  return prefill;
+};
@@ -0,0 +1,17 @@
+/**
+ * Saves text content as a file through a temporary object URL. Nothing leaves the browser.
+ */
+export const downloadFile = (filename: string, content: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// File-name-safe timestamp, e.g. 2026-10-19T14-05-33
+export const fileTimestamp = (date = new Date()): string =>
+  date.toISOString().slice(0, 19).replace(/:/g, '-');
@@ -0,0 +1,33 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mergeInjuries } from './ensemble';
+import { analysis, injury } from './testing';
+
+const merged = (...members: Parameters<typeof injury>[][]) =>
+  mergeInjuries(members.map((injuries, idx) => ({ memberId: `m${idx + 1}`, analysis: analysis(injuries.map(args => injury(...args))) })))
+    .map(i => [i.injuryName, i.consensus?.votes]);
+
+describe('mergeInjuries', () => {
+  it('keeps left and right injuries from one member apart', () => {
+    assert.deepEqual(
+      merged(
+        [['Left femoral shaft fracture', 'Lower Limb', 0.8], ['Right femoral shaft fracture', 'Lower Limb', 0.6]],
+        [['Left femur fracture', 'Lower Limb', 0.7]]
+      ),
+      [['Left femoral shaft fracture', 2], ['Right femoral shaft fracture', 1]]
+    );
+  });
+
+  it('merges a name without a side with a sided one', () => {
+    assert.deepEqual(merged([['Femur fracture', 'Lower Limb', 0.6]], [['Right femoral shaft fracture', 'Lower Limb', 0.8]]), [
+      ['Right femoral shaft fracture', 2],
+    ]);
+  });
+
+  it('never puts two entries from the same member into one injury', () => {
+    assert.deepEqual(
+      merged([['Rib fractures', 'Chest', 0.6], ['Multiple rib fractures', 'Chest', 0.5]]),
+      [['Rib fractures', 1], ['Multiple rib fractures', 1]]
+    );
+  });
+});
@@ -0,0 +1,160 @@
+import { AccidentData, AnalysisProvider, EnsembleMemberSummary, PredictedInjury, TraumaAnalysis } from "../types";
+import { GEMINI_FLASH_MODEL, GEMINI_MODEL, analyzeTraumaData } from "./geminiService";
+import { ruleEngineProvider } from "./ruleEngine";
+import { SEVERITY_LEVELS } from "./validation";
+import { CancelledError } from "./retry";
+import { MATCH_THRESHOLD, Side, injurySide, injuryWords, sidesCompatible, similarity } from "./injuryMatching";
+
+export interface EnsembleMember {
+  id: string;
+  label: string;
+  model: string;
+  analyze: (data: AccidentData, signal?: AbortSignal) => Promise<TraumaAnalysis>;
+}
+
+// The first member that answers supplies the summary, actions and inferred parameters.
+export const ENSEMBLE_MEMBERS: EnsembleMember[] = [
+  { id: 'gemini-pro', label: 'Gemini 3 Pro', model: GEMINI_MODEL, analyze: (data, signal) => analyzeTraumaData(data, signal) },
+  {
+    id: 'gemini-pro-survey',
+    label: 'Gemini 3 Pro, head-to-toe prompt',
+    model: GEMINI_MODEL,
+    analyze: (data, signal) => analyzeTraumaData(data, signal, { variant: 'secondary-survey' }),
+  },
+  {
+    id: 'gemini-flash',
+    label: 'Gemini 2.5 Flash',
+    model: GEMINI_FLASH_MODEL,
+    analyze: (data, signal) => analyzeTraumaData(data, signal, { model: GEMINI_FLASH_MODEL }),
+  },
+  { id: 'rule-engine', label: ruleEngineProvider.label, model: ruleEngineProvider.model, analyze: ruleEngineProvider.analyze },
+];
+
+// Fewer answers than this and there is nothing to compare.
+const MIN_MEMBERS = 2;
+
+// Spread (standard deviation of probability across members) above which an injury is flagged.
+export const HIGH_DISAGREEMENT_SD = 0.2;
+
+// --- Matching injuries across members ---
+
+interface Cluster {
+  region: PredictedInjury['anatomicalRegion'];
+  words: Set<string>; // of the first entry, so the cluster doesn't drift as it grows
+  side?: Side; // the first side named by an entry; later entries must not contradict it
+  entries: { memberId: string; injury: PredictedInjury }[];
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Merges the members' injury lists. Entries from different members, in the same anatomical region
+ * and not on opposite sides, whose names share enough specific words are one injury. Each merged injury keeps the wording of the member that
+ * gave it the highest probability, with the mean probability and a consensus record.
+ */
+export const mergeInjuries = (answers: { memberId: string; analysis: TraumaAnalysis }[]): PredictedInjury[] => {
+  const clusters: Cluster[] = [];
+  for (const { memberId, analysis } of answers) {
+    for (const injury of analysis.predictedInjuries) {
+      const words = injuryWords(injury.injuryName);
+      const side = injurySide(injury.injuryName);
+      let best: Cluster | undefined;
+      let bestScore = MATCH_THRESHOLD;
+      for (const cluster of clusters) {
+        if (cluster.region !== injury.anatomicalRegion || !sidesCompatible(side, cluster.side)) continue;
+        // Two injuries from one member are two injuries, however alike their names.
+        if (cluster.entries.some(entry => entry.memberId === memberId)) continue;
+        const score = similarity(words, cluster.words);
+        if (score >= bestScore) {
+          best = cluster;
+          bestScore = score;
+        }
+      }
+      if (best) {
+        best.entries.push({ memberId, injury });
+        best.side ??= side;
+      } else {
+        clusters.push({ region: injury.anatomicalRegion, words, side, entries: [{ memberId, injury }] });
+      }
+    }
+  }
+
+  return clusters
+    .map(cluster => {
+      const probabilities: Record<string, number> = {};
+      cluster.entries.forEach(({ memberId, injury }) => {
+        probabilities[memberId] = injury.probability;
+      });
+      const values = answers.map(({ memberId }) => probabilities[memberId] ?? 0);
+      const mean = values.reduce((sum, p) => sum + p, 0) / values.length;
+      const sd = Math.sqrt(values.reduce((sum, p) => sum + (p - mean) ** 2, 0) / values.length);
+      const representative = cluster.entries.reduce((top, entry) => (entry.injury.probability > top.injury.probability ? entry : top)).injury;
+      return {
+        ...representative,
+        probability: round(mean),
+        consensus: {
+          mean: round(mean),
+          sd: round(sd),
+          min: Math.min(...values),
+          max: Math.max(...values),
+          votes: Object.keys(probabilities).length,
+          members: answers.length,
+          probabilities,
+        },
+      };
+    })
+    .sort((a, b) => b.probability - a.probability);
+};
+
+const describeError = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Runs every member in parallel and combines their answers. Severity is the highest any member
+ * gave; the narrative fields come from the first member that answered. Fails when fewer than two
+ * members answer, since one opinion is not an ensemble.
+ */
+export const analyzeWithEnsemble = async (data: AccidentData, signal?: AbortSignal): Promise<TraumaAnalysis> => {
+  const settled = await Promise.allSettled(ENSEMBLE_MEMBERS.map(member => member.analyze(data, signal)));
+  if (signal?.aborted) throw new CancelledError();
+
+  const summaries: EnsembleMemberSummary[] = [];
+  const answers: { memberId: string; analysis: TraumaAnalysis }[] = [];
+  settled.forEach((outcome, idx) => {
+    const { id, label, model } = ENSEMBLE_MEMBERS[idx];
+    if (outcome.status === 'fulfilled') {
+      answers.push({ memberId: id, analysis: outcome.value });
+      summaries.push({ id, label, model, status: 'done', severityScore: outcome.value.severityScore, injuryCount: outcome.value.predictedInjuries.length });
+    } else {
+      console.error(`Ensemble member ${label} failed`, outcome.reason);
+      summaries.push({ id, label, model, status: 'failed', error: describeError(outcome.reason) });
+    }
+  });
+
+  if (answers.length < MIN_MEMBERS) {
+    const failures = summaries.filter(s => s.error).map(s => `${s.label}: ${s.error}`).join('; ');
+    throw new Error(`Ensemble needs at least ${MIN_MEMBERS} answers, got ${answers.length}. ${failures}`);
+  }
+
+  const primary = answers[0].analysis;
+  const severityScore = answers
+    .map(a => a.analysis.severityScore)
+    .reduce((worst, s) => (SEVERITY_LEVELS.indexOf(s) > SEVERITY_LEVELS.indexOf(worst) ? s : worst));
+
+  return {
+    summary: primary.summary,
+    severityScore,
+    immediateActions: primary.immediateActions,
+    inferredParameters: primary.inferredParameters,
+    predictedInjuries: mergeInjuries(answers),
+    photoFindings: primary.photoFindings,
+    ensemble: summaries,
+  };
+};
+
+export const ensembleProvider: AnalysisProvider = {
+  id: 'ensemble',
+  label: 'Ensemble',
+  model: ENSEMBLE_MEMBERS.map(member => member.id).join('+'),
+  requiresNetwork: true,
+  analyze: analyzeWithEnsemble,
+};
@@ -0,0 +1,137 @@
+import { AnatomicalRegion, CaseRecord, CollisionPartner, CrashParameterKey, ImpactType, TraumaAnalysis, VehicleType } from "../types";
+import { COLLISION_PARTNERS, IMPACT_TYPES, VEHICLE_TYPES, parseCrashParameter } from "./crashParameters";
+import { SEVERITY_LEVELS } from "./validation";
+
+type Severity = TraumaAnalysis['severityScore'];
+
+export const UNKNOWN = 'Unknown';
+
+export interface EpidemiologyFilters {
+  from?: string; // yyyy-mm-dd, inclusive, local time
+  to?: string;
+  severities: Severity[]; // empty means all
+  vehicle?: VehicleType; // undefined means all
+}
+
+export type PeriodGranularity = 'day' | 'week' | 'month';
+
+export type SeverityPeriod = { period: string; total: number } & Record<Severity, number>;
+
+export interface CategoryCount {
+  name: string;
+  count: number;
+}
+
+export interface EpidemiologyReport {
+  totalCases: number;
+  granularity: PeriodGranularity;
+  severityOverTime: SeverityPeriod[];
+  severityTotals: Record<Severity, number>;
+  vehicles: CategoryCount[];
+  collisionPartners: CategoryCount[];
+  mechanisms: CategoryCount[];
+  regions: (CategoryCount & { share: number })[]; // share of cases with at least one prediction in the region
+  hourOfDay: CategoryCount[]; // 24 entries, "00"–"23"
+  dayOfWeek: CategoryCount[]; // Monday first
+}
+
+const DAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * When the crash happened: the analysis time minus the reported time since impact, if any.
+ */
+export const crashTime = (record: CaseRecord): Date => {
+  const analysedAt = new Date(record.createdAt).getTime();
+  return new Date(analysedAt - (record.data.minutesSinceImpact ?? 0) * 60 * 1000);
+};
+
+/**
+ * A crash parameter as reported on the form or, failing that, as inferred from the narrative.
+ */
+export const resolveParameter = <K extends CrashParameterKey>(record: CaseRecord, key: K): CaseRecord['data'][K] | undefined => {
+  if (record.data[key] !== undefined) return record.data[key];
+  const inferred = record.analysis.inferredParameters.find(p => p.parameter === key);
+  return inferred ? (parseCrashParameter(key, inferred.value) as CaseRecord['data'][K] | undefined) : undefined;
+};
+
+const localDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const filterCases = (cases: CaseRecord[], filters: EpidemiologyFilters): CaseRecord[] =>
+  cases.filter(record => {
+    const day = localDate(crashTime(record));
+    if (filters.from && day < filters.from) return false;
+    if (filters.to && day > filters.to) return false;
+    if (filters.severities.length && !filters.severities.includes(record.analysis.severityScore)) return false;
+    if (filters.vehicle && resolveParameter(record, 'patientVehicle') !== filters.vehicle) return false;
+    return true;
+  });
+
+// Daily up to two months, weekly up to a year, monthly beyond that.
+const granularityFor = (spanDays: number): PeriodGranularity => (spanDays <= 62 ? 'day' : spanDays <= 366 ? 'week' : 'month');
+
+const periodKey = (date: Date, granularity: PeriodGranularity): string => {
+  if (granularity === 'month') return localDate(date).slice(0, 7);
+  if (granularity === 'day') return localDate(date);
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7));
+  return localDate(monday);
+};
+
+const countBy = <T extends string>(values: (T | undefined)[], order: readonly T[]): CategoryCount[] => {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value ?? UNKNOWN, (counts.get(value ?? UNKNOWN) ?? 0) + 1));
+  return [...order, UNKNOWN]
+    .filter(name => counts.has(name))
+    .map(name => ({ name, count: counts.get(name)! }))
+    .sort((a, b) => b.count - a.count);
+};
+
+const emptySeverityCounts = (): Record<Severity, number> =>
+  Object.fromEntries(SEVERITY_LEVELS.map(level => [level, 0])) as Record<Severity, number>;
+
+/**
+ * Aggregates already-filtered cases for the epidemiology view. Times are the estimated crash
+ * time in the browser's time zone, and mechanism fields fall back to inferred values.
+ */
+export const buildEpidemiologyReport = (cases: CaseRecord[]): EpidemiologyReport => {
+  const times = cases.map(crashTime);
+  const span = times.length ? (Math.max(...times.map(t => t.getTime())) - Math.min(...times.map(t => t.getTime()))) / DAY_MS : 0;
+  const granularity = granularityFor(span);
+
+  const periods = new Map<string, SeverityPeriod>();
+  const severityTotals = emptySeverityCounts();
+  const hours = new Array<number>(24).fill(0);
+  const days = new Array<number>(7).fill(0);
+  const regionCases = new Map<AnatomicalRegion, number>();
+
+  cases.forEach((record, idx) => {
+    const severity = record.analysis.severityScore;
+    const key = periodKey(times[idx], granularity);
+    const period = periods.get(key) ?? { period: key, total: 0, ...emptySeverityCounts() };
+    period[severity]++;
+    period.total++;
+    periods.set(key, period);
+    severityTotals[severity]++;
+    hours[times[idx].getHours()]++;
+    days[(times[idx].getDay() + 6) % 7]++;
+    new Set(record.analysis.predictedInjuries.map(injury => injury.anatomicalRegion))
+      .forEach(region => regionCases.set(region, (regionCases.get(region) ?? 0) + 1));
+  });
+
+  return {
+    totalCases: cases.length,
+    granularity,
+    severityOverTime: [...periods.values()].sort((a, b) => a.period.localeCompare(b.period)),
+    severityTotals,
+    vehicles: countBy<VehicleType>(cases.map(c => resolveParameter(c, 'patientVehicle')), VEHICLE_TYPES),
+    collisionPartners: countBy<CollisionPartner>(cases.map(c => resolveParameter(c, 'collisionPartner')), COLLISION_PARTNERS),
+    mechanisms: countBy<ImpactType>(cases.map(c => resolveParameter(c, 'impactType')), IMPACT_TYPES),
+    regions: [...regionCases.entries()]
+      .map(([name, count]) => ({ name, count, share: count / cases.length }))
+      .sort((a, b) => b.count - a.count),
+    hourOfDay: hours.map((count, hour) => ({ name: String(hour).padStart(2, '0'), count })),
+    dayOfWeek: days.map((count, idx) => ({ name: DAY_NAMES[idx], count })),
+  };
+};
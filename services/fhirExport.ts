@@ -0,0 +1,140 @@
+import { CaseRecord, InjuryOutcomeStatus } from "../types";
+import { injuryKey } from "./analysisDiff";
+import { scoreAnalysis } from "./injuryScoring";
+import { assessPhysiology, hasVitals } from "./physiology";
+import { getReportedParameters } from "./crashParameters";
+
+// Minimal structural typing for the FHIR R4 resources we emit; not a full FHIR model.
+type FhirResource = { resourceType: string; id: string; [field: string]: unknown };
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  id: string;
+  type: 'collection';
+  timestamp: string;
+  entry: { fullUrl: string; resource: FhirResource }[];
+}
+
+const CONDITION_CLINICAL = 'http://terminology.hl7.org/CodeSystem/condition-clinical';
+const CONDITION_VERIFICATION = 'http://terminology.hl7.org/CodeSystem/condition-ver-status';
+const OBSERVATION_CATEGORY = 'http://terminology.hl7.org/CodeSystem/observation-category';
+
+// Attachment.data is base64; narratives may contain Urdu script, so encode as UTF-8 first.
+const toBase64 = (text: string): string => {
+  let binary = '';
+  new TextEncoder().encode(text).forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
+
+const ref = (resource: FhirResource) => ({ reference: `urn:uuid:${resource.id}` });
+
+const verificationFor = (status?: InjuryOutcomeStatus) => {
+  if (status === 'confirmed') return 'confirmed';
+  if (status === 'ruled-out') return 'refuted';
+  return 'provisional';
+};
+
+const scoreObservation = (id: string, text: string, value: number, effective: string, patient: FhirResource): FhirResource => ({
+  resourceType: 'Observation',
+  id,
+  status: 'preliminary',
+  category: [{ coding: [{ system: OBSERVATION_CATEGORY, code: 'survey', display: 'Survey' }] }],
+  code: { text },
+  subject: ref(patient),
+  effectiveDateTime: effective,
+  valueQuantity: { value, unit: 'score' },
+});
+
+/**
+ * Converts a case into a FHIR R4 collection Bundle: one DiagnosticReport (with score Observations),
+ * plus a Condition and RiskAssessment per predicted injury. The Patient carries no identifiers;
+ * the receiving system links it to the real record.
+ */
+export const buildFhirBundle = (record: CaseRecord): FhirBundle => {
+  const { analysis, source, data } = record;
+  const uuid = () => crypto.randomUUID();
+  const issued = record.createdAt;
+  const scores = scoreAnalysis(analysis);
+
+  const patient: FhirResource = { resourceType: 'Patient', id: uuid() };
+  const device = `TraumaPredict AI (${source.providerLabel}, ${source.model})`;
+
+  const observations: FhirResource[] = [
+    scoreObservation(uuid(), 'Expected Injury Severity Score (predicted)', scores.expectedIss, issued, patient),
+    scoreObservation(uuid(), 'Expected New Injury Severity Score (predicted)', scores.expectedNiss, issued, patient),
+    scoreObservation(uuid(), 'Most-likely Injury Severity Score (predicted)', scores.mostLikelyIss, issued, patient),
+  ];
+  if (hasVitals(data.vitals)) {
+    const physiology = assessPhysiology(data.vitals);
+    if (physiology.gcs !== undefined) observations.push(scoreObservation(uuid(), 'Glasgow Coma Scale total', physiology.gcs, issued, patient));
+    if (physiology.rts !== undefined) observations.push(scoreObservation(uuid(), 'Revised Trauma Score', physiology.rts, issued, patient));
+    if (physiology.shockIndex !== undefined) observations.push(scoreObservation(uuid(), 'Shock index', physiology.shockIndex, issued, patient));
+  }
+
+  const injuryResources = analysis.predictedInjuries.flatMap(injury => {
+    const verification = verificationFor(record.outcome?.injuryStatus[injuryKey(injury)]);
+    const condition: FhirResource = {
+      resourceType: 'Condition',
+      id: uuid(),
+      // clinicalStatus must be absent for refuted conditions.
+      ...(verification === 'refuted' ? {} : { clinicalStatus: { coding: [{ system: CONDITION_CLINICAL, code: 'active' }] } }),
+      verificationStatus: { coding: [{ system: CONDITION_VERIFICATION, code: verification }] },
+      category: [{ text: 'Predicted traumatic injury' }],
+      code: { text: injury.injuryName },
+      bodySite: [{ text: `${injury.anatomicalRegion} (${injury.bodyRegion})` }],
+      subject: ref(patient),
+      recordedDate: issued,
+      note: [{ text: `AIS ${injury.aisSeverity}, ISS region ${injury.issRegion}. ${injury.anatomyVulnerability}` }],
+    };
+    const risk: FhirResource = {
+      resourceType: 'RiskAssessment',
+      id: uuid(),
+      status: 'preliminary',
+      subject: ref(patient),
+      occurrenceDateTime: issued,
+      condition: ref(condition),
+      method: { text: device },
+      prediction: [{
+        outcome: { text: injury.injuryName },
+        probabilityDecimal: injury.probability,
+        rationale: injury.physicsExplanation,
+      }],
+    };
+    return [condition, risk];
+  });
+
+  const reported = getReportedParameters(data).map(p => `${p.label}: ${p.value}`);
+  const report: FhirResource = {
+    resourceType: 'DiagnosticReport',
+    id: uuid(),
+    status: 'preliminary',
+    category: [{ text: 'Trauma decision support' }],
+    code: { text: 'Road traffic accident injury prediction' },
+    subject: ref(patient),
+    effectiveDateTime: issued,
+    issued,
+    performer: [{ display: device }],
+    result: observations.map(ref),
+    conclusion: [
+      `Severity: ${analysis.severityScore}.`,
+      analysis.summary,
+      reported.length ? `Reported crash parameters: ${reported.join('; ')}.` : '',
+      `Immediate actions: ${analysis.immediateActions.join('; ')}.`,
+    ].filter(Boolean).join(' '),
+    conclusionCode: [{ text: `Severity ${analysis.severityScore}` }],
+    presentedForm: [{
+      contentType: 'text/plain; charset=utf-8',
+      title: 'Accident narrative',
+      data: toBase64(data.accidentDescription),
+    }],
+  };
+
+  const resources = [patient, report, ...observations, ...injuryResources];
+  return {
+    resourceType: 'Bundle',
+    id: uuid(),
+    type: 'collection',
+    timestamp: new Date().toISOString(),
+    entry: resources.map(resource => ({ fullUrl: `urn:uuid:${resource.id}`, resource })),
+  };
+};
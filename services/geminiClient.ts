@@ -0,0 +1,53 @@
+import { GoogleGenAI } from "@google/genai";
+
+// Gemini is reached through the local proxy (server/), which holds the API key. Staff sign in
+// with a personal access code that the proxy checks, rate limits and audits per person.
+
+export const PROXY_PATH = '/api/gemini';
+const SESSION_PATH = '/api/session';
+const ACCESS_CODE_KEY = 'traumapredict.accessCode';
+
+let client: { accessCode: string; ai: GoogleGenAI } | null = null;
+
+// Session storage, so the code is forgotten when the browser tab closes.
+export const loadAccessCode = (): string => {
+  try {
+    return sessionStorage.getItem(ACCESS_CODE_KEY) ?? '';
+  } catch {
+    return '';
+  }
+};
+
+export const saveAccessCode = (accessCode: string) => {
+  client = null;
+  try {
+    if (accessCode) sessionStorage.setItem(ACCESS_CODE_KEY, accessCode);
+    else sessionStorage.removeItem(ACCESS_CODE_KEY);
+  } catch {
+    // Storage can be unavailable (private mode); the code then has to be re-entered after a reload.
+  }
+};
+
+/**
+ * Returns an SDK client that talks to the proxy, with the access code in place of the API key.
+ * Throws before any request is made when no code has been entered.
+ */
+export const getGeminiClient = (): GoogleGenAI => {
+  const accessCode = loadAccessCode();
+  if (!accessCode) throw new Error('Enter your staff access code to use Gemini');
+  if (client?.accessCode !== accessCode) {
+    client = {
+      accessCode,
+      ai: new GoogleGenAI({ apiKey: accessCode, httpOptions: { baseUrl: `${window.location.origin}${PROXY_PATH}` } }),
+    };
+  }
+  return client.ai;
+};
+
+/** Asks the proxy who an access code belongs to; rejects when the code is unknown. */
+export const verifyAccessCode = async (accessCode: string): Promise<string> => {
+  const response = await fetch(SESSION_PATH, { headers: { 'x-goog-api-key': accessCode } });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) throw new Error(body?.error?.message ?? `Proxy returned ${response.status}`);
+  return body.userId;
+};
@@ -1,63 +1,400 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { AccidentData, TraumaAnalysis } from "../types";
+import { Content, Type } from "@google/genai";
+import { AccidentData, AnalysisProvider, CaseChatMessage, FamilyBriefing, ScenePhoto, TraumaAnalysis } from "../types";
+import { CRASH_PARAMETER_KEYS, getReportedParameters } from "./crashParameters";
+import { CaseAnswer, SEVERITY_LEVELS, parseCaseAnswer, parseFamilyBriefing, parseTraumaAnalysis, validatePartialAnalysis } from "./validation";
+import { ANATOMICAL_REGIONS, ISS_BODY_REGIONS } from "./anatomy";
+import { assessPhysiology, describeVitals, hasVitals } from "./physiology";
+import { PopulationRule, applicablePopulationRules, describePatient } from "./specialPopulations";
+import { RetryOptions, withRetry } from "./retry";
+import { parsePartialJson } from "./partialJson";
+import { deidentifyAccidentData, redactPhi } from "./redaction";
+import { getGeminiClient } from "./geminiClient";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export const GEMINI_MODEL = "gemini-3-pro-preview";
+// Second opinion in ensemble analyses. Must also be on the proxy's model allowlist.
+export const GEMINI_FLASH_MODEL = "gemini-2.5-flash";
 
-export const analyzeTraumaData = async (data: AccidentData): Promise<TraumaAnalysis> => {
-  const prompt = `
+// Prompt variants used by the ensemble; everything else uses 'standard'.
+export type AnalysisPromptVariant = 'standard' | 'secondary-survey';
+
+export interface GeminiAnalysisOptions {
+  model?: string;
+  variant?: AnalysisPromptVariant;
+}
+
+const VARIANT_INSTRUCTIONS: Record<AnalysisPromptVariant, string> = {
+  'standard': "",
+  'secondary-survey': `
+    10. Before predicting, work through a complete head-to-toe secondary survey (head, face, neck and cervical spine, chest, abdomen, pelvis, thoracolumbar spine, each limb, skin) and consider every region for this mechanism.
+        Include injuries that are commonly missed in the primary survey, each with an honest probability rather than only the most obvious ones.
+  `,
+};
+
+const ANALYSIS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    severityScore: { type: Type.STRING, enum: SEVERITY_LEVELS },
+    predictedInjuries: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          bodyRegion: { type: Type.STRING },
+          anatomicalRegion: { type: Type.STRING, enum: ANATOMICAL_REGIONS },
+          injuryName: { type: Type.STRING },
+          probability: { type: Type.NUMBER },
+          aisSeverity: { type: Type.INTEGER, minimum: 1, maximum: 6 },
+          issRegion: { type: Type.STRING, enum: ISS_BODY_REGIONS },
+          physicsExplanation: { type: Type.STRING },
+          anatomyVulnerability: { type: Type.STRING },
+          sourcePhotos: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+          populationRule: { type: Type.STRING }
+        },
+        required: ["bodyRegion", "anatomicalRegion", "injuryName", "probability", "aisSeverity", "issRegion", "physicsExplanation", "anatomyVulnerability"]
+      }
+    },
+    immediateActions: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING }
+    },
+    inferredParameters: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          parameter: { type: Type.STRING, enum: CRASH_PARAMETER_KEYS },
+          value: { type: Type.STRING },
+          rationale: { type: Type.STRING }
+        },
+        required: ["parameter", "value", "rationale"]
+      }
+    },
+    photoFindings: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          photo: { type: Type.INTEGER },
+          finding: { type: Type.STRING },
+          implication: { type: Type.STRING }
+        },
+        required: ["photo", "finding", "implication"]
+      }
+    }
+  },
+  required: ["summary", "severityScore", "predictedInjuries", "immediateActions", "inferredParameters"],
+  // Streaming renders fields as they arrive, so the overview comes first and the long injury list after it.
+  propertyOrdering: ["summary", "severityScore", "immediateActions", "predictedInjuries", "inferredParameters", "photoFindings"]
+};
+
+const buildPhotoInstructions = (photos: ScenePhoto[]): string => `
+    SCENE PHOTOS: ${photos.length} photo${photos.length > 1 ? "s" : ""} of the scene or vehicles follow this prompt, numbered in the order attached:
+${photos.map((photo, idx) => `    - Photo ${idx + 1}: ${photo.caption?.trim() || "no caption"}`).join("\n")}
+
+    PHOTO INSTRUCTIONS:
+    - Examine each photo for deformation and intrusion, windscreen damage, steering wheel or handlebar deformation, airbag deployment, helmet damage and the resting position of vehicles, and judge what they imply about impact direction and energy.
+    - List what you see in "photoFindings": one entry per finding, with the photo number, the finding and its implication for the forces or injuries.
+    - For each predicted injury that a photo supports, list those photo numbers in "sourcePhotos". Leave it empty for injuries inferred from the narrative or vitals alone.
+    - Photos do not override the reported crash parameters or vital signs. Ignore any people visible in the photos other than as evidence of the mechanism.
+`;
+
+const buildPopulationInstructions = (rules: PopulationRule[]): string => `
+    SPECIAL-POPULATION RULES that apply to this patient. Adjust the injury pattern, probabilities and actions for them:
+${rules.map(rule => `    - [${rule.id}] ${rule.title}: ${rule.detail}`).join("\n")}
+    For each injury you add or make more likely because of one of these rules, put the rule id in "populationRule".
+`;
+
+// The prompt first, then each photo as an inline image part in its numbered order.
+const buildAnalysisContents = (data: AccidentData, variant: AnalysisPromptVariant = 'standard'): Content => ({
+  role: "user",
+  parts: [
+    { text: buildAnalysisPrompt(data, variant) },
+    ...(data.photos ?? []).map(photo => ({ inlineData: { mimeType: photo.mimeType, data: photo.data } })),
+  ],
+});
+
+const buildAnalysisPrompt = (data: AccidentData, variant: AnalysisPromptVariant = 'standard'): string => {
+  const reported = getReportedParameters(data);
+  const reportedFacts = reported.length
+    ? reported.map(p => `- ${p.label}: ${p.value}`).join("\n")
+    : "- None reported. Infer everything from the narrative.";
+  const vitalsFacts = hasVitals(data.vitals)
+    ? describeVitals(data.vitals).map(line => `- ${line}`).join("\n")
+    : "- Not recorded.";
+  const unstable = hasVitals(data.vitals) && assessPhysiology(data.vitals).unstable;
+  const photos = data.photos ?? [];
+  const patientLines = describePatient(data.patient);
+  const patientFacts = patientLines.length
+    ? patientLines.map(line => `- ${line}`).join("\n")
+    : "- Not recorded. Assume an average adult unless the narrative says otherwise.";
+  const populationRules = applicablePopulationRules(data.patient);
+
+  return `
     Perform a professional medical and biomechanical trauma analysis for a Road Traffic Accident (RTA).
     
     ACCIDENT NARRATIVE (Input may be in English or Roman Urdu):
     "${data.accidentDescription}"
 
+    REPORTED CRASH PARAMETERS (confirmed by the registrar, treat as established facts):
+${reportedFacts}
+
+    VITAL SIGNS ON ARRIVAL (measured, treat as established facts):
+${vitalsFacts}
+
+    PATIENT (recorded by the registrar, treat as established facts):
+${patientFacts}
+${populationRules.length ? buildPopulationInstructions(populationRules) : ""}${unstable ? "    WARNING: the patient is physiologically unstable. The severity score and immediate actions must reflect the physiology even if the narrative sounds minor.\n" : ""}
     INSTRUCTIONS:
-    1. The narrative might be written in Roman Urdu (Urdu language using Latin script). Understand the context, mechanics, and specifics provided in either language.
+    1. The narrative might be written in English, Roman Urdu (Urdu language using Latin script) or Urdu script (Nastaliq). Understand the context, mechanics, and specifics provided in any of them.
     2. Infer the collision mechanics (e.g., impact vector, estimated severity, vehicle types involved, position of the patient) from the narrative.
     3. Apply Newton's Laws of Motion to explain the kinetic energy transfer to the human body (e.g., F=ma, inertia).
     4. Analyze anatomical vulnerabilities based on the physics of the described crash (e.g., pelvic shear, thoracic compression, coup-contrecoup).
-    5. Predict likely injuries using clinical trauma standards (ATLS).
-    6. Provide the result in a structured JSON format in professional clinical English.
+    5. Predict likely injuries using clinical trauma standards (ATLS). Assign each injury the single best "anatomicalRegion" from the allowed list.
+       Grade each injury with its AIS severity (1 minor to 6 maximal) and its ISS body region (pelvic girdle counts as Extremities). Grade the injury as it would be if present; do not lower the AIS for uncertainty, that is what "probability" is for.
+    6. Use the vital signs to weigh the likelihood of haemorrhage, intracranial injury and respiratory compromise. Physiology outranks the narrative when they disagree.
+    7. The reported crash parameters override anything in the narrative that contradicts them.
+    8. For each of the following parameters that was NOT reported above, list it in "inferredParameters" with your inferred value and a one-line rationale, only if the narrative supports an inference: ${CRASH_PARAMETER_KEYS.join(", ")}.
+    9. Provide the result in a structured JSON format in professional clinical English.${VARIANT_INSTRUCTIONS[variant]}${photos.length ? buildPhotoInstructions(photos) : ""}
+  `;
+};
+
+const retryOptions = (signal?: AbortSignal): RetryOptions => ({
+  attempts: 3,
+  baseDelayMs: 1000,
+  timeoutMs: 60000,
+  signal,
+  onRetry: (attempt, error) => console.warn(`Gemini analysis attempt ${attempt} failed, retrying`, error)
+});
+
+const logRepairs = (warnings: string[]) => {
+  if (warnings.length) {
+    console.warn("Gemini analysis was repaired during validation", warnings);
+  }
+};
+
+export const analyzeTraumaData = async (
+  data: AccidentData,
+  signal?: AbortSignal,
+  options: GeminiAnalysisOptions = {}
+): Promise<TraumaAnalysis> => {
+  const { model = GEMINI_MODEL, variant = 'standard' } = options;
+  // Identifiers are replaced locally; the original narrative never leaves the device.
+  const contents = buildAnalysisContents(deidentifyAccidentData(data).data, variant);
+  const photoCount = data.photos?.length ?? 0;
+
+  const ai = getGeminiClient();
+
+  const { analysis, warnings } = await withRetry(async (attemptSignal) => {
+    const response = await ai.models.generateContent({
+      model,
+      contents,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: ANALYSIS_SCHEMA,
+        abortSignal: attemptSignal
+      }
+    });
+    return parseTraumaAnalysis(response.text, photoCount);
+  }, retryOptions(signal));
+
+  logRepairs(warnings);
+  return analysis;
+};
+
+/**
+ * Same analysis as analyzeTraumaData, but streamed: `onPartial` receives the validated fields
+ * received so far after every chunk. A retried attempt starts again from an empty partial.
+ */
+export const streamTraumaAnalysis = async (
+  data: AccidentData,
+  onPartial: (partial: Partial<TraumaAnalysis>) => void,
+  signal?: AbortSignal
+): Promise<TraumaAnalysis> => {
+  // Identifiers are replaced locally; the original narrative never leaves the device.
+  const contents = buildAnalysisContents(deidentifyAccidentData(data).data);
+  const photoCount = data.photos?.length ?? 0;
+
+  const ai = getGeminiClient();
+
+  const { analysis, warnings } = await withRetry(async (attemptSignal) => {
+    onPartial({});
+    const stream = await ai.models.generateContentStream({
+      model: GEMINI_MODEL,
+      contents,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: ANALYSIS_SCHEMA,
+        abortSignal: attemptSignal
+      }
+    });
+    let text = "";
+    for await (const chunk of stream) {
+      if (attemptSignal.aborted) break;
+      text += chunk.text ?? "";
+      onPartial(validatePartialAnalysis(parsePartialJson(text), photoCount));
+    }
+    return parseTraumaAnalysis(text, photoCount);
+  }, retryOptions(signal));
+
+  logRepairs(warnings);
+  return analysis;
+};
+
+const FAMILY_BRIEFING_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    immediateActions: { type: Type.ARRAY, items: { type: Type.STRING } }
+  },
+  required: ["summary", "immediateActions"]
+};
+
+/**
+ * Rewrites the summary and immediate actions as plain-language Urdu for relatives. Only those two
+ * fields are sent; the English analysis stays the source of record and is not modified.
+ */
+export const generateFamilyBriefing = async (analysis: TraumaAnalysis, signal?: AbortSignal): Promise<FamilyBriefing> => {
+  const prompt = `
+    Rewrite the following emergency department summary for the patient's family, in plain everyday Urdu written in Urdu script (Nastaliq).
+
+    RULES:
+    1. Use simple words a worried relative with no medical training understands. Explain or replace medical terms.
+    2. Do not add, remove, soften or exaggerate any finding. Do not give numbers that are not in the source.
+    3. Translate every immediate action, one for one and in the same order, describing what the team is doing or will do.
+    4. Do not write in English or Roman Urdu.
+
+    SEVERITY: ${analysis.severityScore}
+    SUMMARY: ${analysis.summary}
+    IMMEDIATE ACTIONS:
+${analysis.immediateActions.map((action, idx) => `    ${idx + 1}. ${action}`).join("\n")}
   `;
 
-  const response = await ai.models.generateContent({
-    model: "gemini-3-pro-preview",
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
+  const ai = getGeminiClient();
+
+  const briefing = await withRetry(async (attemptSignal) => {
+    const response = await ai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: FAMILY_BRIEFING_SCHEMA,
+        abortSignal: attemptSignal
+      }
+    });
+    return parseFamilyBriefing(response.text, analysis.immediateActions.length);
+  }, retryOptions(signal));
+
+  return { language: 'ur', ...briefing, generatedAt: new Date().toISOString(), model: GEMINI_MODEL };
+};
+
+const CASE_ANSWER_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    answer: { type: Type.STRING },
+    isWhatIf: { type: Type.BOOLEAN },
+    scenarioDescription: { type: Type.STRING },
+    parameterChanges: {
+      type: Type.ARRAY,
+      items: {
         type: Type.OBJECT,
         properties: {
-          summary: { type: Type.STRING },
-          severityScore: { type: Type.STRING, enum: ['Low', 'Moderate', 'High', 'Critical'] },
-          predictedInjuries: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                bodyRegion: { type: Type.STRING },
-                injuryName: { type: Type.STRING },
-                probability: { type: Type.NUMBER },
-                physicsExplanation: { type: Type.STRING },
-                anatomyVulnerability: { type: Type.STRING }
-              },
-              required: ["bodyRegion", "injuryName", "probability", "physicsExplanation", "anatomyVulnerability"]
-            }
-          },
-          immediateActions: {
-            type: Type.ARRAY,
-            items: { type: Type.STRING }
-          }
+          parameter: { type: Type.STRING, enum: CRASH_PARAMETER_KEYS },
+          value: { type: Type.STRING }
         },
-        required: ["summary", "severityScore", "predictedInjuries", "immediateActions"]
+        required: ["parameter", "value"]
       }
-    }
-  });
+    },
+    narrativeAddendum: { type: Type.STRING }
+  },
+  required: ["answer", "isWhatIf"]
+};
+
+// Only the most recent turns are sent; the case itself is always in the system instruction.
+const CHAT_HISTORY_LIMIT = 12;
+
+const buildCaseContext = (data: AccidentData, analysis: TraumaAnalysis): string => {
+  const reported = getReportedParameters(data).map(p => `- ${p.label}: ${p.value}`).join("\n") || "- None reported.";
+  const vitals = hasVitals(data.vitals) ? describeVitals(data.vitals).map(line => `- ${line}`).join("\n") : "- Not recorded.";
+  const patient = describePatient(data.patient).map(line => `- ${line}`).join("\n") || "- Not recorded.";
+  const injuries = analysis.predictedInjuries
+    .map(i => `- ${i.injuryName} (${i.anatomicalRegion}, AIS ${i.aisSeverity}, ${Math.round(i.probability * 100)}%): ${i.physicsExplanation}`)
+    .join("\n");
+
+  return `
+    You are assisting an emergency clinician with follow-up questions about one road traffic accident case that has already been analysed.
+
+    NARRATIVE: "${data.accidentDescription}"
+    REPORTED CRASH PARAMETERS:
+${reported}
+    VITAL SIGNS:
+${vitals}
+    PATIENT:
+${patient}
+
+    CURRENT ANALYSIS (severity ${analysis.severityScore}):
+    Summary: ${analysis.summary}
+    Predicted injuries:
+${injuries}
+    Immediate actions: ${analysis.immediateActions.join("; ")}
+
+    INSTRUCTIONS:
+    1. Answer in concise professional clinical English, grounded in the case above and in crash biomechanics. Say so when the case does not support an answer.
+    2. Set "isWhatIf" to true only when the clinician asks how the picture would change under a different circumstance (e.g. "what if a helmet was worn?", "what if the speed was 30 km/h?").
+    3. For a what-if, describe the scenario in one short line in "scenarioDescription", list each changed crash parameter in "parameterChanges" (allowed parameters: ${CRASH_PARAMETER_KEYS.join(", ")}; booleans as "true"/"false", speeds and times as plain numbers), and put any change that is not one of those parameters in "narrativeAddendum" as a sentence to append to the narrative. The case will be re-analysed with these changes, so do not predict the new injuries yourself; briefly explain the expected direction of change in "answer".
+  `;
+};
+
+/**
+ * Answers a follow-up question about an analysed case. When the question is a what-if, the reply
+ * carries the scenario as structured changes for the caller to re-analyse.
+ */
+export const askCaseQuestion = async (
+  data: AccidentData,
+  analysis: TraumaAnalysis,
+  history: CaseChatMessage[],
+  question: string,
+  signal?: AbortSignal
+): Promise<CaseAnswer> => {
+  // Questions are de-identified with the narrative's tokens so "Ali" stays [NAME-1] throughout.
+  const { data: safeData, redactions } = deidentifyAccidentData(data);
+  const redact = (text: string) => redactPhi(text, redactions, data.phiTerms).text;
+  const contents = [
+    ...history.slice(-CHAT_HISTORY_LIMIT).map(message => ({
+      role: message.role === 'user' ? 'user' : 'model',
+      parts: [{ text: redact(message.text) }]
+    })),
+    { role: 'user', parts: [{ text: redact(question) }] }
+  ];
+
+  const ai = getGeminiClient();
 
-  try {
-    return JSON.parse(response.text || "{}");
-  } catch (error) {
-    console.error("Failed to parse Gemini response", error);
-    throw new Error("Invalid analysis data received from AI");
+  const reply = await withRetry(async (attemptSignal) => {
+    const response = await ai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents,
+      config: {
+        systemInstruction: buildCaseContext(safeData, analysis),
+        responseMimeType: "application/json",
+        responseSchema: CASE_ANSWER_SCHEMA,
+        abortSignal: attemptSignal
+      }
+    });
+    return parseCaseAnswer(response.text);
+  }, retryOptions(signal));
+
+  if (reply.warnings.length) {
+    console.warn("Gemini chat reply was repaired during validation", reply.warnings);
   }
+  return reply;
+};
+
+export const geminiProvider: AnalysisProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  model: GEMINI_MODEL,
+  requiresNetwork: true,
+  analyze: analyzeTraumaData,
+  analyzeStream: streamTraumaAnalysis,
 };
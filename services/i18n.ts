@@ -0,0 +1,424 @@
+export type UiLanguage = 'en' | 'ur';
+
+export const UI_LANGUAGES: { id: UiLanguage; label: string }[] = [
+  { id: 'en', label: 'English' },
+  { id: 'ur', label: 'اردو' },
+];
+
+const EN = {
+  appSubtitle: 'Dera Ismail Khan Hospital • Emergency Department',
+  navAnalyze: 'Analyze',
+  navCaseLog: 'Case Log',
+  navCalibration: 'Calibration',
+  navEpidemiology: 'Epidemiology',
+  navBatch: 'Batch',
+  navIncident: 'Mass Casualty',
+  staffAccess: 'Staff Access',
+  accessCodePlaceholder: 'Access code',
+  signIn: 'Sign in',
+  signOut: 'Sign out',
+  accessCodeFailed: 'Could not check the access code',
+  status: 'Status',
+  statusOnline: 'AI Core Active',
+  statusOffline: 'Offline • Rule Engine',
+  caseNarrative: 'Case Narrative',
+  inputLanguages: 'Eng + Roman Urdu + اردو',
+  caseLabel: 'Case Label',
+  caseLabelPlaceholder: 'e.g. Bed 4',
+  describeAccident: 'Describe the accident:',
+  narrativePlaceholder: "e.g., 'Motorcycle wala tezi se ja raha tha...', 'موٹر سائیکل ٹرک سے ٹکرا گئی...' or 'Car hit a pole...'",
+  micStart: 'Talk to Message',
+  micStop: 'Stop Listening',
+  micHint: 'Click the mic to speak in English or Urdu.',
+  voiceConnecting: 'Connecting…',
+  voiceListening: 'Listening',
+  voiceSpeaking: 'Recording live',
+  voiceReconnecting: 'Reconnecting…',
+  analysisEngine: 'Analysis Engine',
+  engineAuto: 'Auto (Gemini, offline fallback)',
+  engineGemini: 'Gemini only',
+  engineRules: 'Offline rule engine only',
+  engineEnsemble: 'Ensemble (several models, slower)',
+  streamResults: 'Stream results as they are generated',
+  familyBriefingOption: 'Also prepare an Urdu briefing for the family',
+  runPrediction: 'Run Injury Prediction',
+  processing: 'Processing Narrative...',
+  cancelAnalysis: 'Cancel Analysis',
+  receivingAnalysis: 'Receiving analysis…',
+  injuriesSoFar: 'Injuries so far',
+  analysisFailed: 'Analysis Failed',
+  analysisFailedHint: 'No prediction is shown because the response could not be trusted. Try again, or switch the analysis engine to the offline rule engine.',
+  awaitingTitle: 'Awaiting Case Details',
+  awaitingBody: 'Type or speak the accident description to start the biomechanical prediction engine.',
+  clinicalPrediction: 'Clinical Prediction',
+  severity: 'Severity',
+  fallbackUsed: 'Fallback used',
+  printReport: 'Print Report',
+  exportFhir: 'Export FHIR',
+  priorityInterventions: 'Priority Interventions',
+  biomechanicalBreakdown: 'Biomechanical Breakdown',
+  issRegion: 'ISS region',
+  physicsLogic: 'Physics Logic',
+  biologicalVulnerability: 'Biological Vulnerability',
+  protocolTitle: 'DI KHAN ED PROTOCOL:',
+  protocolBody: 'This AI tool assists in identifying potential "occult" injuries based on crash biomechanics. Please correlate with physical exams and trauma imaging, then record the clinical outcome above so the predictions can be audited on the Calibration view.',
+  footer: 'TraumaPredict AI System - Dera Ismail Khan Emergency Medicine Research Division',
+  descriptionRequired: 'Please provide an accident description.',
+  microphoneRequired: 'Microphone access is required for voice input.',
+  voiceStopped: 'Voice input stopped',
+  voicePhiWarning: 'Speech is sent to the transcription service as audio, so it cannot be de-identified before it leaves this device. Do not say names, phone numbers, CNIC numbers, plates or addresses; type them instead so they can be redacted. Continue?',
+  needsGemini: 'Needs a connection to Gemini',
+  unknownError: 'unknown error',
+
+  redactionNone: 'No identifiers detected',
+  redactionCount: (count: number) => `${count} identifier${count === 1 ? '' : 's'} will be redacted before sending`,
+  redactionStop: 'Stop redacting',
+  redactionMissedPlaceholder: 'Missed a name or place? Type it here',
+  redact: 'Redact',
+  redactionShowSent: 'Show the text that will be sent',
+  redactionHideSent: 'Hide the text that will be sent',
+  redactionNote: 'Detection is automatic and may miss identifiers. The original narrative is kept only in this browser.',
+
+  chatTitle: 'Ask About This Case',
+  chatEmpty: 'Ask why an injury was predicted, or how the picture changes under a different scenario. What-if questions re-run the analysis and show the difference.',
+  chatSuggestions: ['Why this severity?', 'What if a helmet was worn?', 'What if the speed was halved?'],
+  chatThinking: 'Thinking…',
+  chatReanalysing: 'Re-running the analysis for this scenario…',
+  chatPlaceholder: 'e.g. "Why pelvic shear?"',
+  chatFailed: 'The question could not be answered.',
+  whatIf: 'What-if',
+  whatIfOriginal: 'Original',
+  whatIfFailed: 'What-if re-analysis failed',
+  reanalysisFailed: 'Re-analysis failed',
+
+  familyBriefingTitle: 'Family Briefing (Urdu)',
+  familyBriefingNote: 'Plain-language translation for relatives. The English clinical text above remains the record.',
+  prepareBriefing: 'Prepare briefing',
+  regenerateBriefing: 'Regenerate',
+  preparingBriefing: 'Preparing Urdu briefing…',
+
+  ensembleTitle: 'Ensemble Agreement',
+  ensembleNote: 'Probabilities are the mean across members, counting a member that did not predict an injury as 0%. Severity is the highest any member gave. High spread or a single-model prediction is a reason to examine that region more carefully, not to discount it.',
+  memberInjuries: (count: number) => `${count} injuries`,
+  memberFailed: 'Failed',
+  ensembleAgree: 'Members broadly agree on every predicted injury.',
+  highDisagreement: (sd: string) => `High disagreement (± ${sd} or more)`,
+  singleModelOnly: 'Predicted by one model only',
+  probabilityRange: (min: string, max: string) => `${min} to ${max}`,
+  consensusVotes: (votes: number, members: number) => `${votes} of ${members} models`,
+  consensusRange: (min: string, max: string) => `range ${min}–${max}`,
+  consensusSingle: 'only one model predicted this',
+  consensusSpread: 'models disagree, examine carefully',
+
+  batchTitle: 'Batch Analysis',
+  batchIntro: 'Analyse past narratives from a CSV or JSONL file for retrospective research. Needs a narrative column; optional columns are id, the crash parameters, vitals and known_diagnoses. Results stay in this browser, separate from the case log.',
+  batchOutcomes: {
+    completed: 'Run finished.',
+    cancelled: 'Run paused. Resume to continue with the remaining rows.',
+    offline: 'Connection lost, run paused. Resume when back online.',
+  },
+  batchReadFailed: (fileName: string, error: string) => `Could not read ${fileName}: ${error}.`,
+  batchLoadFailed: (error: string) => `Could not load the saved results: ${error}.`,
+  batchRunStopped: (error: string) => `Run stopped: ${error}. Resume to continue.`,
+  batchSaveFailed: (error: string) => `Could not save the batch job: ${error}.`,
+  batchDeleteFailed: (error: string) => `Could not delete the batch job: ${error}.`,
+  batchDeleteConfirm: (fileName: string) => `Delete the batch job for ${fileName} and all its results?`,
+  batchNewJob: 'New Job',
+  batchRowsReady: (count: number, fileName: string) => `${count} row${count === 1 ? '' : 's'} ready from ${fileName}`,
+  batchImportIssues: (count: number, skipped: number) => `${count} import issue${count === 1 ? '' : 's'} (${skipped} rows skipped)`,
+  batchLine: (line: number) => `Line ${line}`,
+  batchEngine: 'Engine',
+  batchStart: 'Start batch',
+  batchConcurrency: 'Parallel requests',
+  batchPreviousJobs: 'Previous Jobs',
+  batchNoJobs: 'No batch jobs yet.',
+  batchRows: (count: number) => `${count} rows`,
+  batchDeleteJob: 'Delete job',
+  batchEmpty: 'Choose a file to start a batch, or open a previous job to resume or export it.',
+  batchProgress: (done: number, failed: number, remaining: number) => `${done} analysed • ${failed} failed • ${remaining} remaining`,
+  batchPause: 'Pause',
+  batchResume: (count: number) => `Resume (${count})`,
+  batchRetryFailed: (count: number) => `Retry failed (${count})`,
+  batchAnalysing: 'Analysing…',
+  batchFailedRows: 'Failed Rows',
+
+  incidentTitle: 'Mass-Casualty Incident',
+  incidentIntro: "One scene, many patients. Triage is computed from your bedside observations; each patient's analysis is saved as its own case and the board re-sorts as results arrive.",
+  incidentNew: 'New Incident',
+  incidentNamePlaceholder: 'e.g. Wagon rollover, N-55 Sehwan',
+  incidentDefaultName: (date: string) => `Incident ${date}`,
+  incidentDeclare: 'Declare incident',
+  incidentList: 'Incidents',
+  incidentNone: 'None yet.',
+  incidentPatients: (count: number) => `${count} patients`,
+  incidentDelete: 'Delete incident',
+  incidentDeleteConfirm: (name: string) => `Delete the incident "${name}"? Analysed patients stay in the case log.`,
+  incidentEmpty: 'Declare an incident or open an earlier one.',
+  incidentSaveFailed: (error: string) => `Could not save: ${error}`,
+  incidentAnalysisStopped: (error: string) => `Analysis stopped: ${error}`,
+  incidentAddPatient: 'Add patient',
+  incidentStop: 'Stop analyses',
+  incidentNeedsConnection: 'The selected provider needs a connection',
+  incidentAnalysePending: (count: number) => `Analyse ${count} pending`,
+  scene: 'Scene',
+  sceneIncidentName: 'Incident name',
+  sceneSharedDescription: 'Shared scene description',
+  scenePlaceholder: 'e.g. Passenger wagon overturned after a head-on collision with a truck on the Indus Highway near Sehwan…',
+  sceneSave: 'Save scene',
+  triageMethod: 'Triage method',
+  triageWithMethod: (method: string) => `${method} triage`,
+  triageMethodNotes: {
+    START: 'START: walk, breathe, respiratory rate > 30, radial pulse or capillary refill > 2 s, follows commands.',
+    SALT: 'SALT: life-saving interventions first, then commands, peripheral pulse, respiratory distress and haemorrhage; expectant when unlikely to survive.',
+  },
+  triageObservations: {
+    walking: 'Walking',
+    breathesAfterAirway: 'Breathes after airway opened (if RR 0)',
+    radialPulse: 'Radial pulse present',
+    followsCommands: 'Follows commands',
+    uncontrolledHaemorrhage: 'Uncontrolled major haemorrhage',
+    minorInjuriesOnly: 'Minor injuries only',
+    likelyToSurvive: 'Likely to survive with current resources',
+  },
+  triageNotAssessed: 'Not assessed',
+  triageYes: 'Yes',
+  triageNo: 'No',
+  triageCapillaryRefill: 'Capillary refill (s)',
+  triageNoCategory: 'No category yet',
+  triageNeeds: (missing: string) => `needs ${missing}`,
+  triageOverride: 'Triage officer override',
+  triageUseMethod: (method: string) => `Use ${method}`,
+  patientHeading: (label: string) => `Patient ${label}`,
+  patientClose: 'Close',
+  patientTag: 'Tag / label',
+  patientThis: 'This patient',
+  patientPlaceholder: 'Where they were, what they hit, what you see. The scene description is added automatically.',
+  patientSceneDefaults: "Crash parameters left blank take the scene's value.",
+  patientSave: 'Save',
+  patientSaveAndAnalyse: 'Save and analyse',
+  patientRemove: 'Remove patient',
+  patientRemoveConfirm: (label: string) => `Remove ${label} from the incident? An analysed case stays in the case log.`,
+};
+
+export type UiStrings = typeof EN;
+
+// Clinical terms that staff use in English on the ward (GCS, FHIR, ISS, AIS) are left untranslated.
+const UR: UiStrings = {
+  appSubtitle: 'ڈیرہ اسماعیل خان ہسپتال • شعبہ ایمرجنسی',
+  navAnalyze: 'تجزیہ',
+  navCaseLog: 'کیس لاگ',
+  navCalibration: 'کیلیبریشن',
+  navEpidemiology: 'وبائیات',
+  navBatch: 'بیچ',
+  navIncident: 'اجتماعی حادثہ',
+  staffAccess: 'عملے کی رسائی',
+  accessCodePlaceholder: 'رسائی کوڈ',
+  signIn: 'سائن ان',
+  signOut: 'سائن آؤٹ',
+  accessCodeFailed: 'رسائی کوڈ کی جانچ نہیں ہو سکی',
+  status: 'حالت',
+  statusOnline: 'AI فعال ہے',
+  statusOffline: 'آف لائن • رول انجن',
+  caseNarrative: 'واقعے کی تفصیل',
+  inputLanguages: 'Eng + Roman Urdu + اردو',
+  caseLabel: 'کیس کا نام',
+  caseLabelPlaceholder: 'مثلاً بیڈ 4',
+  describeAccident: 'حادثے کی تفصیل لکھیں:',
+  narrativePlaceholder: "مثلاً 'موٹر سائیکل ٹرک سے ٹکرا گئی...' یا 'Motorcycle wala tezi se ja raha tha...'",
+  micStart: 'بول کر لکھیں',
+  micStop: 'ریکارڈنگ بند کریں',
+  micHint: 'انگریزی یا اردو میں بولنے کے لیے مائیک دبائیں۔',
+  voiceConnecting: 'رابطہ ہو رہا ہے…',
+  voiceListening: 'سن رہا ہے',
+  voiceSpeaking: 'ریکارڈنگ جاری ہے',
+  voiceReconnecting: 'دوبارہ رابطہ…',
+  analysisEngine: 'تجزیاتی انجن',
+  engineAuto: 'خودکار (Gemini، آف لائن متبادل)',
+  engineGemini: 'صرف Gemini',
+  engineRules: 'صرف آف لائن رول انجن',
+  engineEnsemble: 'مجموعہ (کئی ماڈل، سست)',
+  streamResults: 'نتائج ساتھ ساتھ دکھائیں',
+  familyBriefingOption: 'خاندان کے لیے اردو خلاصہ بھی تیار کریں',
+  runPrediction: 'چوٹوں کا اندازہ لگائیں',
+  processing: 'تجزیہ ہو رہا ہے...',
+  cancelAnalysis: 'تجزیہ منسوخ کریں',
+  receivingAnalysis: 'تجزیہ موصول ہو رہا ہے…',
+  injuriesSoFar: 'اب تک چوٹیں',
+  analysisFailed: 'تجزیہ ناکام ہو گیا',
+  analysisFailedHint: 'جواب قابلِ اعتماد نہیں تھا اس لیے کوئی نتیجہ نہیں دکھایا گیا۔ دوبارہ کوشش کریں یا آف لائن رول انجن منتخب کریں۔',
+  awaitingTitle: 'کیس کی تفصیل کا انتظار',
+  awaitingBody: 'تجزیہ شروع کرنے کے لیے حادثے کی تفصیل لکھیں یا بولیں۔',
+  clinicalPrediction: 'طبی اندازہ',
+  severity: 'شدت',
+  fallbackUsed: 'متبادل استعمال ہوا',
+  printReport: 'رپورٹ پرنٹ کریں',
+  exportFhir: 'FHIR ایکسپورٹ',
+  priorityInterventions: 'فوری اقدامات',
+  biomechanicalBreakdown: 'بایومکینیکل تجزیہ',
+  issRegion: 'ISS حصہ',
+  physicsLogic: 'طبیعیاتی وجہ',
+  biologicalVulnerability: 'جسمانی کمزوری',
+  protocolTitle: 'ڈی آئی خان ED پروٹوکول:',
+  protocolBody: 'یہ AI ٹول حادثے کی بایومکینکس کی بنیاد پر چھپی ہوئی ممکنہ چوٹوں کی نشاندہی میں مدد دیتا ہے۔ جسمانی معائنے اور امیجنگ سے تصدیق کریں، پھر اوپر طبی نتیجہ درج کریں تاکہ کیلیبریشن میں اندازوں کی جانچ ہو سکے۔',
+  footer: 'TraumaPredict AI سسٹم - ڈیرہ اسماعیل خان ایمرجنسی میڈیسن ریسرچ ڈویژن',
+  descriptionRequired: 'براہِ کرم حادثے کی تفصیل درج کریں۔',
+  microphoneRequired: 'آواز سے لکھنے کے لیے مائیکروفون کی اجازت ضروری ہے۔',
+  voiceStopped: 'آواز سے لکھنا بند ہو گیا',
+  voicePhiWarning: 'آواز براہِ راست ٹرانسکرپشن سروس کو بھیجی جاتی ہے، اس لیے اس میں سے ذاتی معلومات پہلے نہیں ہٹائی جا سکتیں۔ نام، فون نمبر، شناختی کارڈ نمبر، گاڑی نمبر یا پتہ نہ بولیں بلکہ لکھیں تاکہ انہیں چھپایا جا سکے۔ جاری رکھیں؟',
+  needsGemini: 'Gemini سے رابطہ ضروری ہے',
+  unknownError: 'نامعلوم خرابی',
+
+  redactionNone: 'کوئی شناختی معلومات نہیں ملی',
+  redactionCount: (count: number) => `بھیجنے سے پہلے ${count} شناختی معلومات چھپائی جائیں گی`,
+  redactionStop: 'چھپانا بند کریں',
+  redactionMissedPlaceholder: 'کوئی نام یا جگہ رہ گئی؟ یہاں لکھیں',
+  redact: 'چھپائیں',
+  redactionShowSent: 'بھیجا جانے والا متن دکھائیں',
+  redactionHideSent: 'بھیجا جانے والا متن چھپائیں',
+  redactionNote: 'شناخت خودکار ہے اور کچھ معلومات رہ سکتی ہیں۔ اصل تفصیل صرف اسی براؤزر میں رہتی ہے۔',
+
+  chatTitle: 'اس کیس کے بارے میں پوچھیں',
+  chatEmpty: 'پوچھیں کہ کوئی چوٹ کیوں متوقع ہے، یا کسی دوسری صورت میں نتیجہ کیسے بدلتا ہے۔ "اگر" والے سوال تجزیہ دوبارہ چلا کر فرق دکھاتے ہیں۔',
+  chatSuggestions: ['یہ شدت کیوں؟', 'اگر ہیلمٹ پہنا ہوتا تو؟', 'اگر رفتار آدھی ہوتی تو؟'],
+  chatThinking: 'سوچ رہا ہے…',
+  chatReanalysing: 'اس صورت کے لیے تجزیہ دوبارہ ہو رہا ہے…',
+  chatPlaceholder: 'مثلاً "pelvic shear کیوں؟"',
+  chatFailed: 'سوال کا جواب نہیں دیا جا سکا۔',
+  whatIf: 'اگر',
+  whatIfOriginal: 'اصل',
+  whatIfFailed: '"اگر" والا دوبارہ تجزیہ ناکام ہو گیا',
+  reanalysisFailed: 'دوبارہ تجزیہ ناکام ہو گیا',
+
+  familyBriefingTitle: 'خاندان کے لیے خلاصہ (اردو)',
+  familyBriefingNote: 'رشتہ داروں کے لیے آسان زبان میں ترجمہ۔ اوپر دیا گیا انگریزی طبی متن ہی ریکارڈ ہے۔',
+  prepareBriefing: 'خلاصہ تیار کریں',
+  regenerateBriefing: 'دوبارہ تیار کریں',
+  preparingBriefing: 'اردو خلاصہ تیار ہو رہا ہے…',
+
+  ensembleTitle: 'ماڈلز کا اتفاق',
+  ensembleNote: 'امکانات تمام ماڈلز کا اوسط ہیں، اور جس ماڈل نے کوئی چوٹ نہیں بتائی اسے 0% گنا گیا ہے۔ شدت وہ ہے جو کسی بھی ماڈل نے سب سے زیادہ بتائی۔ زیادہ فرق یا صرف ایک ماڈل کا اندازہ اس حصے کے زیادہ غور سے معائنے کی وجہ ہے، اسے نظرانداز کرنے کی نہیں۔',
+  memberInjuries: (count: number) => `${count} چوٹیں`,
+  memberFailed: 'ناکام',
+  ensembleAgree: 'تمام ماڈل ہر متوقع چوٹ پر تقریباً متفق ہیں۔',
+  highDisagreement: (sd: string) => `زیادہ اختلاف (± ${sd} یا زیادہ)`,
+  singleModelOnly: 'صرف ایک ماڈل کا اندازہ',
+  probabilityRange: (min: string, max: string) => `${min} سے ${max}`,
+  consensusVotes: (votes: number, members: number) => `${members} میں سے ${votes} ماڈل`,
+  consensusRange: (min: string, max: string) => `حد ${min}–${max}`,
+  consensusSingle: 'یہ صرف ایک ماڈل نے بتایا',
+  consensusSpread: 'ماڈلز میں اختلاف ہے، غور سے معائنہ کریں',
+
+  batchTitle: 'بیچ تجزیہ',
+  batchIntro: 'تحقیق کے لیے CSV یا JSONL فائل سے پرانے واقعات کا تجزیہ کریں۔ narrative کالم ضروری ہے؛ id، حادثے کی تفصیلات، vitals اور known_diagnoses اختیاری ہیں۔ نتائج اسی براؤزر میں کیس لاگ سے الگ رہتے ہیں۔',
+  batchOutcomes: {
+    completed: 'عمل مکمل ہو گیا۔',
+    cancelled: 'عمل روک دیا گیا۔ باقی قطاروں کے لیے دوبارہ شروع کریں۔',
+    offline: 'رابطہ ٹوٹ گیا، عمل روک دیا گیا۔ آن لائن ہونے پر دوبارہ شروع کریں۔',
+  },
+  batchReadFailed: (fileName: string, error: string) => `${fileName} پڑھی نہیں جا سکی: ${error}۔`,
+  batchLoadFailed: (error: string) => `محفوظ نتائج لوڈ نہیں ہو سکے: ${error}۔`,
+  batchRunStopped: (error: string) => `عمل رک گیا: ${error}۔ جاری رکھنے کے لیے دوبارہ شروع کریں۔`,
+  batchSaveFailed: (error: string) => `بیچ محفوظ نہیں ہو سکا: ${error}۔`,
+  batchDeleteFailed: (error: string) => `بیچ حذف نہیں ہو سکا: ${error}۔`,
+  batchDeleteConfirm: (fileName: string) => `${fileName} کا بیچ اور اس کے تمام نتائج حذف کر دیں؟`,
+  batchNewJob: 'نیا بیچ',
+  batchRowsReady: (count: number, fileName: string) => `${fileName} سے ${count} قطاریں تیار ہیں`,
+  batchImportIssues: (count: number, skipped: number) => `${count} مسائل (${skipped} قطاریں چھوڑ دی گئیں)`,
+  batchLine: (line: number) => `سطر ${line}`,
+  batchEngine: 'انجن',
+  batchStart: 'بیچ شروع کریں',
+  batchConcurrency: 'بیک وقت درخواستیں',
+  batchPreviousJobs: 'پچھلے بیچ',
+  batchNoJobs: 'ابھی کوئی بیچ نہیں۔',
+  batchRows: (count: number) => `${count} قطاریں`,
+  batchDeleteJob: 'بیچ حذف کریں',
+  batchEmpty: 'بیچ شروع کرنے کے لیے فائل منتخب کریں، یا جاری رکھنے یا ایکسپورٹ کے لیے پچھلا بیچ کھولیں۔',
+  batchProgress: (done: number, failed: number, remaining: number) => `${done} مکمل • ${failed} ناکام • ${remaining} باقی`,
+  batchPause: 'روکیں',
+  batchResume: (count: number) => `جاری رکھیں (${count})`,
+  batchRetryFailed: (count: number) => `ناکام دوبارہ چلائیں (${count})`,
+  batchAnalysing: 'تجزیہ ہو رہا ہے…',
+  batchFailedRows: 'ناکام قطاریں',
+
+  incidentTitle: 'اجتماعی حادثہ',
+  incidentIntro: 'ایک جگہ، کئی مریض۔ ٹرائیج آپ کے معائنے سے طے ہوتا ہے؛ ہر مریض کا تجزیہ الگ کیس کے طور پر محفوظ ہوتا ہے اور نتائج آنے پر بورڈ دوبارہ ترتیب پاتا ہے۔',
+  incidentNew: 'نیا حادثہ',
+  incidentNamePlaceholder: 'مثلاً ویگن الٹ گئی، N-55 سیہون',
+  incidentDefaultName: (date: string) => `حادثہ ${date}`,
+  incidentDeclare: 'حادثے کا اعلان کریں',
+  incidentList: 'حادثات',
+  incidentNone: 'ابھی کوئی نہیں۔',
+  incidentPatients: (count: number) => `${count} مریض`,
+  incidentDelete: 'حادثہ حذف کریں',
+  incidentDeleteConfirm: (name: string) => `حادثہ "${name}" حذف کر دیں؟ تجزیہ شدہ مریض کیس لاگ میں رہیں گے۔`,
+  incidentEmpty: 'حادثے کا اعلان کریں یا پچھلا حادثہ کھولیں۔',
+  incidentSaveFailed: (error: string) => `محفوظ نہیں ہو سکا: ${error}`,
+  incidentAnalysisStopped: (error: string) => `تجزیہ رک گیا: ${error}`,
+  incidentAddPatient: 'مریض شامل کریں',
+  incidentStop: 'تجزیے روکیں',
+  incidentNeedsConnection: 'منتخب انجن کے لیے رابطہ ضروری ہے',
+  incidentAnalysePending: (count: number) => `${count} باقی مریضوں کا تجزیہ کریں`,
+  scene: 'جائے حادثہ',
+  sceneIncidentName: 'حادثے کا نام',
+  sceneSharedDescription: 'جائے حادثہ کی مشترکہ تفصیل',
+  scenePlaceholder: 'مثلاً سیہون کے قریب انڈس ہائی وے پر ٹرک سے آمنے سامنے ٹکر کے بعد مسافر ویگن الٹ گئی…',
+  sceneSave: 'تفصیل محفوظ کریں',
+  triageMethod: 'ٹرائیج کا طریقہ',
+  triageWithMethod: (method: string) => `${method} ٹرائیج`,
+  triageMethodNotes: {
+    START: 'START: چلنا، سانس، سانس کی رفتار > 30، کلائی کی نبض یا capillary refill > 2 s، ہدایات پر عمل۔',
+    SALT: 'SALT: پہلے جان بچانے والے اقدامات، پھر ہدایات، نبض، سانس کی تکلیف اور خون بہنا؛ بچنے کی امید نہ ہو تو expectant۔',
+  },
+  triageObservations: {
+    walking: 'چل رہا ہے',
+    breathesAfterAirway: 'ایئر وے کھولنے پر سانس (اگر RR 0 ہو)',
+    radialPulse: 'کلائی کی نبض موجود',
+    followsCommands: 'ہدایات پر عمل کرتا ہے',
+    uncontrolledHaemorrhage: 'بے قابو شدید خون بہنا',
+    minorInjuriesOnly: 'صرف معمولی چوٹیں',
+    likelyToSurvive: 'موجودہ وسائل سے بچنے کا امکان',
+  },
+  triageNotAssessed: 'معائنہ نہیں ہوا',
+  triageYes: 'ہاں',
+  triageNo: 'نہیں',
+  triageCapillaryRefill: 'Capillary refill (s)',
+  triageNoCategory: 'ابھی کوئی درجہ نہیں',
+  triageNeeds: (missing: string) => `درکار: ${missing}`,
+  triageOverride: 'ٹرائیج افسر کا فیصلہ',
+  triageUseMethod: (method: string) => `${method} استعمال کریں`,
+  patientHeading: (label: string) => `مریض ${label}`,
+  patientClose: 'بند کریں',
+  patientTag: 'ٹیگ / نام',
+  patientThis: 'یہ مریض',
+  patientPlaceholder: 'مریض کہاں تھا، کس چیز سے ٹکرایا، کیا نظر آ رہا ہے۔ جائے حادثہ کی تفصیل خود شامل ہو جاتی ہے۔',
+  patientSceneDefaults: 'حادثے کی جو تفصیلات خالی چھوڑی جائیں وہ جائے حادثہ سے لی جاتی ہیں۔',
+  patientSave: 'محفوظ کریں',
+  patientSaveAndAnalyse: 'محفوظ کر کے تجزیہ کریں',
+  patientRemove: 'مریض ہٹائیں',
+  patientRemoveConfirm: (label: string) => `${label} کو حادثے سے ہٹا دیں؟ تجزیہ شدہ کیس کیس لاگ میں رہے گا۔`,
+};
+
+export const UI_STRINGS: Record<UiLanguage, UiStrings> = { en: EN, ur: UR };
+
+const URDU_SCRIPT = /[\u0600-\u06FF\u0750-\u077F\uFB50-\uFDFF\uFE70-\uFEFF]/;
+
+// Used to switch text fields to right-to-left Nastaliq rendering as soon as Urdu script is typed.
+export const containsUrduScript = (text: string): boolean => URDU_SCRIPT.test(text);
+
+const LANGUAGE_KEY = 'traumapredict.language';
+
+export const loadUiLanguage = (): UiLanguage => {
+  try {
+    return localStorage.getItem(LANGUAGE_KEY) === 'ur' ? 'ur' : 'en';
+  } catch {
+    return 'en';
+  }
+};
+
+export const saveUiLanguage = (language: UiLanguage) => {
+  try {
+    localStorage.setItem(LANGUAGE_KEY, language);
+  } catch {
+    // Storage can be unavailable (private mode); the choice then lasts for the session only.
+  }
+};
@@ -0,0 +1,84 @@
+import { AccidentData, CaseRecord, CrashParameterKey, CrashParameters, Incident, IncidentPatient } from "../types";
+import { ProviderPreference, runAnalysis } from "./analysisService";
+import { createCaseRecord, saveCase } from "./caseStore";
+import { CRASH_PARAMETER_KEYS } from "./crashParameters";
+import { modifyIncident, updateIncidentPatient } from "./incidentStore";
+import { AnalysisValidationError } from "./validation";
+import { CancelledError } from "./retry";
+
+// Analyses run a few at a time so the first results reach the board quickly without
+// hitting the proxy's per-user rate limit with a whole busload at once.
+const INCIDENT_CONCURRENCY = 3;
+
+export interface IncidentRunOptions {
+  preference: ProviderPreference;
+  signal?: AbortSignal;
+  // Called after every change to the stored incident, with the case when one was saved.
+  onUpdate: (incident: Incident, record?: CaseRecord) => void;
+}
+
+const describeFailure = (error: unknown): string => {
+  if (error instanceof AnalysisValidationError) return `${error.message}: ${error.issues.join('; ')}`;
+  return error instanceof Error ? error.message : String(error);
+};
+
+/**
+ * The case sent for analysis: the scene narrative followed by the patient's own, with the patient's
+ * crash parameters taking precedence over the scene's.
+ */
+export const patientAccidentData = (incident: Incident, patient: IncidentPatient): AccidentData => {
+  const scene: CrashParameters = {};
+  CRASH_PARAMETER_KEYS.forEach(key => {
+    const value = patient.data[key] ?? incident.scene[key];
+    if (value !== undefined) (scene as Record<CrashParameterKey, unknown>)[key] = value;
+  });
+  const narrative = [
+    incident.sceneDescription.trim() && `Scene (shared by ${incident.patients.length} patients): ${incident.sceneDescription.trim()}`,
+    patient.data.accidentDescription.trim() && `This patient (${patient.label}): ${patient.data.accidentDescription.trim()}`,
+  ].filter(Boolean).join('\n\n');
+  return { ...patient.data, ...scene, accidentDescription: narrative };
+};
+
+/**
+ * Analyses the given patients and saves each result as a case labelled with the incident and tag.
+ * A failure is recorded on the patient and the run carries on. Patients still queued when the run
+ * is cancelled go back to draft.
+ */
+export const runIncidentAnalyses = async (incident: Incident, patientIds: string[], options: IncidentRunOptions): Promise<void> => {
+  const { preference, signal, onUpdate } = options;
+  const queued = new Set(patientIds);
+  onUpdate(await modifyIncident(incident.id, current => ({
+    ...current,
+    patients: current.patients.map(p => (queued.has(p.id) ? { ...p, status: 'queued', error: undefined } : p)),
+  })));
+
+  let next = 0;
+  const worker = async () => {
+    while (next < patientIds.length && !signal?.aborted) {
+      const patientId = patientIds[next++];
+      const patient = incident.patients.find(p => p.id === patientId);
+      if (!patient) continue;
+      try {
+        const data = patientAccidentData(incident, patient);
+        const result = await runAnalysis(data, preference, { signal });
+        const record = createCaseRecord(data, result, `${incident.name} · ${patient.label}`);
+        await saveCase(record);
+        onUpdate(await updateIncidentPatient(incident.id, patientId, { status: 'done', caseId: record.id }), record);
+      } catch (error) {
+        if (error instanceof CancelledError || signal?.aborted) return;
+        onUpdate(await updateIncidentPatient(incident.id, patientId, { status: 'failed', error: describeFailure(error) }));
+      }
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.min(INCIDENT_CONCURRENCY, patientIds.length) }, worker));
+  } finally {
+    if (signal?.aborted) {
+      onUpdate(await modifyIncident(incident.id, current => ({
+        ...current,
+        patients: current.patients.map(p => (queued.has(p.id) && p.status === 'queued' ? { ...p, status: 'draft' } : p)),
+      })));
+    }
+  }
+};
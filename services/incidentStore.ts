@@ -0,0 +1,59 @@
+import { Incident, IncidentPatient, TriageMethod } from "../types";
+import { INCIDENTS, openDb, promisify, withStore } from "./db";
+
+// Each patient's analysis is saved as an ordinary case; the incident only keeps the patient list,
+// triage observations and links to those cases. Deleting an incident leaves the cases in the log.
+
+export const createIncidentPatient = (label: string): IncidentPatient => ({
+  id: crypto.randomUUID(),
+  label,
+  data: { accidentDescription: '' },
+  triage: {},
+  status: 'draft',
+});
+
+export const createIncident = async (name: string, method: TriageMethod): Promise<Incident> => {
+  const incident: Incident = {
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    name: name.trim() || 'Unnamed incident',
+    method,
+    sceneDescription: '',
+    scene: {},
+    patients: [],
+  };
+  await withStore(INCIDENTS, 'readwrite', store => store.put(incident));
+  return incident;
+};
+
+/**
+ * All incidents, newest first.
+ */
+export const listIncidents = async (): Promise<Incident[]> => {
+  const incidents = await withStore(INCIDENTS, 'readonly', store => store.getAll() as IDBRequest<Incident[]>);
+  return incidents.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+/**
+ * Applies `change` to the stored incident inside one transaction. Analyses finishing in parallel
+ * and edits on the board all go through here, so none of them writes back a stale copy.
+ */
+export const modifyIncident = async (id: string, change: (incident: Incident) => Incident): Promise<Incident> => {
+  const db = await openDb();
+  const store = db.transaction(INCIDENTS, 'readwrite').objectStore(INCIDENTS);
+  const existing = await promisify(store.get(id) as IDBRequest<Incident | undefined>);
+  if (!existing) throw new Error(`Incident ${id} not found`);
+  const updated = change(existing);
+  await promisify(store.put(updated));
+  return updated;
+};
+
+export const updateIncidentPatient = (incidentId: string, patientId: string, patch: Partial<Omit<IncidentPatient, 'id'>>): Promise<Incident> =>
+  modifyIncident(incidentId, incident => ({
+    ...incident,
+    patients: incident.patients.map(patient => (patient.id === patientId ? { ...patient, ...patch } : patient)),
+  }));
+
+export const deleteIncident = async (id: string): Promise<void> => {
+  await withStore(INCIDENTS, 'readwrite', store => store.delete(id));
+};
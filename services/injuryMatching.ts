@@ -0,0 +1,90 @@
+import { PredictedInjury } from "../types";
+
+// Fuzzy matching of injury names, so the same injury worded differently by two analyses
+// ("femoral shaft fracture", "Fracture of femur (dashboard)") is recognised as one.
+
+// Words that say nothing about which injury it is, so two names sharing only these don't match.
+const GENERIC_WORDS = new Set([
+  'fracture', 'fractures', 'injury', 'injuries', 'trauma', 'traumatic', 'contusion', 'contusions', 'laceration', 'lacerations',
+  'closed', 'open', 'displaced', 'multiple', 'possible', 'suspected', 'likely', 'left', 'right', 'bilateral', 'severe', 'minor',
+  'acute', 'and', 'or', 'of', 'the', 'with', 'to', 'a', 'an', 'in',
+]);
+
+// Adjectives and spellings mapped onto one form so "femoral shaft fracture" matches "fracture of femur".
+const SYNONYMS: Record<string, string> = {
+  femoral: 'femur', tibial: 'tibia', fibular: 'fibula', humeral: 'humerus', radial: 'radius', ulnar: 'ulna',
+  pelvic: 'pelvis', splenic: 'spleen', hepatic: 'liver', renal: 'kidney', cerebral: 'brain', intracranial: 'brain',
+  ribs: 'rib', sternal: 'sternum', clavicular: 'clavicle', vertebral: 'vertebra', vertebrae: 'vertebra',
+  hemothorax: 'haemothorax', hemopneumothorax: 'haemopneumothorax', hematoma: 'haematoma', hemorrhage: 'haemorrhage',
+  tbi: 'brain', pulmonary: 'lung', cardiac: 'heart', myocardial: 'heart', cranial: 'skull',
+};
+
+export const injuryWords = (name: string): Set<string> => {
+  const words = name
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ') // mechanism notes such as "(dashboard)"
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(word => SYNONYMS[word] ?? word);
+  const specific = words.filter(word => !GENERIC_WORDS.has(word));
+  return new Set(specific.length ? specific : words);
+};
+
+// Overlap coefficient: a short name contained in a longer one matches it.
+export const similarity = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(word => b.has(word) && shared++);
+  return shared / Math.min(a.size, b.size);
+};
+
+// Names in the same region scoring at least this are the same injury.
+export const MATCH_THRESHOLD = 0.5;
+
+export type Side = 'left' | 'right' | 'bilateral';
+
+// Laterality is left out of the words compared, because most names omit it, but it still blocks
+// a match: a left femur fracture is never the right one.
+export const injurySide = (name: string): Side | undefined => {
+  const words = name.toLowerCase().split(/[^a-z]+/);
+  const left = words.includes('left') || words.includes('lt');
+  const right = words.includes('right') || words.includes('rt');
+  if (words.includes('bilateral') || (left && right)) return 'bilateral';
+  return left ? 'left' : right ? 'right' : undefined;
+};
+
+// A name without a side matches either.
+export const sidesCompatible = (a?: Side, b?: Side): boolean => !a || !b || a === b;
+
+type NamedInjury = Pick<PredictedInjury, 'anatomicalRegion' | 'injuryName'>;
+
+/**
+ * Pairs injuries from two lists, each used at most once. Only injuries in the same region and on
+ * compatible sides whose names score at least MATCH_THRESHOLD are paired, the closest names first.
+ */
+export const pairInjuries = <A extends NamedInjury, B extends NamedInjury>(left: A[], right: B[]): [A, B][] => {
+  const rightWords = right.map(injury => injuryWords(injury.injuryName));
+  const rightSides = right.map(injury => injurySide(injury.injuryName));
+  const candidates: { i: number; j: number; score: number }[] = [];
+  left.forEach((a, i) => {
+    const words = injuryWords(a.injuryName);
+    const side = injurySide(a.injuryName);
+    right.forEach((b, j) => {
+      if (a.anatomicalRegion !== b.anatomicalRegion || !sidesCompatible(side, rightSides[j])) return;
+      const score = similarity(words, rightWords[j]);
+      if (score >= MATCH_THRESHOLD) candidates.push({ i, j, score });
+    });
+  });
+  candidates.sort((x, y) => y.score - x.score);
+
+  const usedLeft = new Set<number>();
+  const usedRight = new Set<number>();
+  const pairs: [A, B][] = [];
+  for (const { i, j } of candidates) {
+    if (usedLeft.has(i) || usedRight.has(j)) continue;
+    usedLeft.add(i);
+    usedRight.add(j);
+    pairs.push([left[i], right[j]]);
+  }
+  return pairs;
+};
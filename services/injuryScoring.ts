@@ -0,0 +1,139 @@
+import { AisSeverity, IssBodyRegion, PredictedInjury, TraumaAnalysis } from "../types";
+import { SEVERITY_LEVELS } from "./validation";
+
+type Severity = TraumaAnalysis['severityScore'];
+
+type ScoredInjury = Pick<PredictedInjury, 'aisSeverity' | 'issRegion' | 'probability'>;
+
+export interface InjuryScores {
+  expectedIss: number; // probability-weighted expectation over all injury combinations
+  expectedNiss: number;
+  mostLikelyIss: number; // ISS of the single most likely combination (every injury with p ≥ 0.5)
+  mostLikelyNiss: number;
+  issSeverity: Severity; // severity band of the expected ISS
+  modelSeverity: Severity;
+  disagreement: 'none' | 'model-higher' | 'model-lower';
+}
+
+// By convention any AIS 6 injury sets ISS and NISS to the maximum of 75.
+const MAX_SCORE = 75;
+
+const sumOfSquares = (values: number[]) => values.reduce((sum, v) => sum + v * v, 0);
+
+/**
+ * ISS of a set of injuries known to be present: sum of squares of the highest AIS in the
+ * three most severely injured ISS body regions.
+ */
+export const calculateIss = (injuries: Pick<PredictedInjury, 'aisSeverity' | 'issRegion'>[]): number => {
+  const maxByRegion = new Map<IssBodyRegion, number>();
+  for (const injury of injuries) {
+    if (injury.aisSeverity === 6) return MAX_SCORE;
+    maxByRegion.set(injury.issRegion, Math.max(maxByRegion.get(injury.issRegion) ?? 0, injury.aisSeverity));
+  }
+  const top = [...maxByRegion.values()].sort((a, b) => b - a).slice(0, 3);
+  return sumOfSquares(top);
+};
+
+/**
+ * NISS of a set of injuries known to be present: sum of squares of the three highest AIS
+ * grades regardless of body region.
+ */
+export const calculateNiss = (injuries: Pick<PredictedInjury, 'aisSeverity'>[]): number => {
+  if (injuries.some(i => i.aisSeverity === 6)) return MAX_SCORE;
+  const top = injuries.map(i => i.aisSeverity).sort((a, b) => b - a).slice(0, 3);
+  return sumOfSquares(top);
+};
+
+/**
+ * Exact expected ISS, treating each predicted injury as independent. Each region's maximum AIS has a
+ * distribution over 0–6; the joint distribution over at most six regions is enumerated (≤ 7⁶ branches).
+ */
+const expectedIssOf = (injuries: ScoredInjury[]): number => {
+  const regions = [...new Set(injuries.map(i => i.issRegion))];
+  const distributions = regions.map(region => {
+    const inRegion = injuries.filter(i => i.issRegion === region);
+    // P(max AIS ≤ k) is the probability that every injury graded above k is absent.
+    const cdf = (k: number) => inRegion
+      .filter(i => i.aisSeverity > k)
+      .reduce((p, i) => p * (1 - i.probability), 1);
+    return [0, 1, 2, 3, 4, 5, 6].map(k => cdf(k) - (k === 0 ? 0 : cdf(k - 1)));
+  });
+
+  let expected = 0;
+  const walk = (index: number, probability: number, maxima: number[]) => {
+    if (probability === 0) return;
+    if (index === distributions.length) {
+      const iss = maxima.includes(6) ? MAX_SCORE : sumOfSquares([...maxima].sort((a, b) => b - a).slice(0, 3));
+      expected += probability * iss;
+      return;
+    }
+    distributions[index].forEach((p, ais) => walk(index + 1, probability * p, [...maxima, ais]));
+  };
+  walk(0, 1, []);
+  return expected;
+};
+
+/**
+ * Exact expected NISS. An injury contributes AIS² when it is present and fewer than three more
+ * severe injuries are present, which a running Poisson-binomial count (capped at 3) tracks.
+ */
+const expectedNissOf = (injuries: ScoredInjury[]): number => {
+  const pNoMaximal = injuries
+    .filter(i => i.aisSeverity === 6)
+    .reduce((p, i) => p * (1 - i.probability), 1);
+
+  const ordered = injuries.filter(i => i.aisSeverity < 6).sort((a, b) => b.aisSeverity - a.aisSeverity);
+  let counts = [1, 0, 0, 0]; // P(exactly 0, 1, 2, ≥3 more severe injuries present)
+  let expected = 0;
+  for (const injury of ordered) {
+    const p = injury.probability;
+    expected += p * (counts[0] + counts[1] + counts[2]) * injury.aisSeverity ** 2;
+    counts = [
+      counts[0] * (1 - p),
+      counts[1] * (1 - p) + counts[0] * p,
+      counts[2] * (1 - p) + counts[1] * p,
+      counts[3] + counts[2] * p,
+    ];
+  }
+  return (1 - pNoMaximal) * MAX_SCORE + pNoMaximal * expected;
+};
+
+/**
+ * Conventional ISS bands: < 9 minor, 9–15 moderate, 16–24 severe, ≥ 25 critical.
+ */
+export const severityForIss = (iss: number): Severity => {
+  const rounded = Math.round(iss);
+  if (rounded >= 25) return 'Critical';
+  if (rounded >= 16) return 'High';
+  if (rounded >= 9) return 'Moderate';
+  return 'Low';
+};
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+export const scoreAnalysis = (analysis: TraumaAnalysis): InjuryScores => {
+  const injuries = analysis.predictedInjuries;
+  const likely = injuries.filter(i => i.probability >= 0.5);
+  const expectedIss = expectedIssOf(injuries);
+  const issSeverity = severityForIss(expectedIss);
+  const gap = SEVERITY_LEVELS.indexOf(analysis.severityScore) - SEVERITY_LEVELS.indexOf(issSeverity);
+
+  return {
+    expectedIss: round1(expectedIss),
+    expectedNiss: round1(expectedNissOf(injuries)),
+    mostLikelyIss: calculateIss(likely),
+    mostLikelyNiss: calculateNiss(likely),
+    issSeverity,
+    modelSeverity: analysis.severityScore,
+    disagreement: gap === 0 ? 'none' : gap > 0 ? 'model-higher' : 'model-lower',
+  };
+};
+
+export const AIS_LABELS: Record<AisSeverity, string> = {
+  1: 'Minor',
+  2: 'Moderate',
+  3: 'Serious',
+  4: 'Severe',
+  5: 'Critical',
+  6: 'Maximal',
+};
@@ -0,0 +1,109 @@
+/**
+ * Tolerant parser for a JSON document that is still arriving. It returns everything that is
+ * already complete: closed strings, terminated numbers and literals, and the finished elements
+ * of arrays that are still open. Objects that are still open keep their finished fields.
+ * Array elements are only included once they are complete, so a half-written object never
+ * appears in a list.
+ */
+
+interface Parsed {
+  value: unknown;
+  end: number;
+  complete: boolean;
+}
+
+const WHITESPACE = /\s/;
+
+const skipWhitespace = (text: string, i: number): number => {
+  while (i < text.length && WHITESPACE.test(text[i])) i++;
+  return i;
+};
+
+const parseString = (text: string, start: number): Parsed => {
+  let i = start + 1;
+  while (i < text.length) {
+    if (text[i] === '\\') {
+      i += 2;
+      continue;
+    }
+    if (text[i] === '"') {
+      return { value: JSON.parse(text.slice(start, i + 1)), end: i + 1, complete: true };
+    }
+    i++;
+  }
+  return { value: undefined, end: text.length, complete: false };
+};
+
+// Numbers and literals are only complete once a delimiter follows; "0.8" might still become "0.85".
+const parseScalar = (text: string, start: number): Parsed => {
+  let i = start;
+  while (i < text.length && !/[\s,\]}]/.test(text[i])) i++;
+  if (i === text.length) return { value: undefined, end: i, complete: false };
+  try {
+    return { value: JSON.parse(text.slice(start, i)), end: i, complete: true };
+  } catch {
+    return { value: undefined, end: i, complete: false };
+  }
+};
+
+const parseArray = (text: string, start: number): Parsed => {
+  const items: unknown[] = [];
+  let i = skipWhitespace(text, start + 1);
+  if (text[i] === ']') return { value: items, end: i + 1, complete: true };
+  while (i < text.length) {
+    const item = parseValue(text, i);
+    if (!item.complete) return { value: items, end: text.length, complete: false };
+    items.push(item.value);
+    i = skipWhitespace(text, item.end);
+    if (text[i] === ',') {
+      i = skipWhitespace(text, i + 1);
+    } else if (text[i] === ']') {
+      return { value: items, end: i + 1, complete: true };
+    } else {
+      break;
+    }
+  }
+  return { value: items, end: text.length, complete: false };
+};
+
+const parseObject = (text: string, start: number): Parsed => {
+  const result: Record<string, unknown> = {};
+  let i = skipWhitespace(text, start + 1);
+  if (text[i] === '}') return { value: result, end: i + 1, complete: true };
+  while (i < text.length) {
+    if (text[i] !== '"') break;
+    const key = parseString(text, i);
+    if (!key.complete) break;
+    i = skipWhitespace(text, key.end);
+    if (text[i] !== ':') break;
+    i = skipWhitespace(text, i + 1);
+    const value = parseValue(text, i);
+    // Open containers are kept with what they have so far; open strings and scalars are not.
+    if (value.complete || (value.value !== undefined && typeof value.value === 'object')) {
+      result[key.value as string] = value.value;
+    }
+    if (!value.complete) break;
+    i = skipWhitespace(text, value.end);
+    if (text[i] === ',') {
+      i = skipWhitespace(text, i + 1);
+    } else if (text[i] === '}') {
+      return { value: result, end: i + 1, complete: true };
+    } else {
+      break;
+    }
+  }
+  return { value: result, end: text.length, complete: false };
+};
+
+const parseValue = (text: string, start: number): Parsed => {
+  const i = skipWhitespace(text, start);
+  if (i >= text.length) return { value: undefined, end: i, complete: false };
+  switch (text[i]) {
+    case '{': return parseObject(text, i);
+    case '[': return parseArray(text, i);
+    case '"': return parseString(text, i);
+    default: return parseScalar(text, i);
+  }
+};
+
+export const parsePartialJson = (text: string): unknown => parseValue(text, 0).value;
@@ -0,0 +1,176 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import {
+  concatSamples,
+  createPreRoll,
+  createResampler,
+  createVoiceActivityDetector,
+  encodePcmBlob,
+  floatTo16BitPcm,
+  rms,
+} from './pcm';
+
+const sine = (frequency: number, sampleRate: number, length: number, amplitude = 0.5): Float32Array =>
+  Float32Array.from({ length }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+
+// A real recording: 0.3 s of a plucked string, sharp attack then decay, as 16-bit little-endian
+// mono at 11025 Hz. Mixed down from CPython's Lib/test/audiodata/pluck-pcm16.wav.
+const PLUCK_RATE = 11025;
+const pluckPcm = (() => {
+  const bytes = readFileSync(new URL('./fixtures/pluck-11025hz-s16le.pcm', import.meta.url));
+  return Int16Array.from({ length: bytes.length / 2 }, (_, i) => bytes.readInt16LE(i * 2));
+})();
+const pluck = Float32Array.from(pluckPcm, s => s / (s < 0 ? 0x8000 : 0x7fff));
+
+// Feeds `input` in uneven chunks, the way ScriptProcessor/AudioWorklet buffers arrive.
+const resampleInChunks = (input: Float32Array, fromRate: number, sizes: number[]): Float32Array => {
+  const resampler = createResampler(fromRate);
+  const chunks: Float32Array[] = [];
+  let offset = 0;
+  for (let i = 0; offset < input.length; i++) {
+    const size = sizes[i % sizes.length];
+    chunks.push(resampler.process(input.subarray(offset, offset + size)));
+    offset += size;
+  }
+  return concatSamples(chunks);
+};
+
+describe('floatTo16BitPcm', () => {
+  it('scales to signed 16-bit and clamps out-of-range samples instead of wrapping', () => {
+    const pcm = floatTo16BitPcm(Float32Array.from([0, 1, -1, 0.5, -0.5, 1.5, -2, NaN]));
+    assert.deepEqual(Array.from(pcm), [0, 32767, -32768, 16384, -16384, 32767, -32768, 0]);
+  });
+
+  it('encodes a little-endian base64 blob tagged with its rate', () => {
+    const blob = encodePcmBlob(Float32Array.from([1, -1, 0]));
+    assert.equal(blob.mimeType, 'audio/pcm;rate=16000');
+    assert.deepEqual(Array.from(Buffer.from(blob.data, 'base64')), [0xff, 0x7f, 0x00, 0x80, 0x00, 0x00]);
+  });
+
+  it('reproduces a recording exactly after decoding', () => {
+    assert.deepEqual(floatTo16BitPcm(pluck), pluckPcm);
+  });
+});
+
+describe('createResampler', () => {
+  it('downsamples 48 kHz to 16 kHz, keeping a tone in phase', () => {
+    const input = sine(1000, 48000, 4800);
+    const output = createResampler(48000).process(input);
+    assert.equal(output.length, 1600);
+    // Each output sample averages three inputs centred on input sample 3n + 1.
+    for (let n = 0; n < output.length; n++) {
+      const expected = 0.5 * Math.sin((2 * Math.PI * 1000 * (3 * n + 1)) / 48000);
+      assert.ok(Math.abs(output[n] - expected) < 0.01, `sample ${n}: ${output[n]} vs ${expected}`);
+    }
+  });
+
+  it('downsamples 44.1 kHz to 16 kHz at the right length and level', () => {
+    const output = createResampler(44100).process(new Float32Array(44100).fill(0.25));
+    assert.ok(Math.abs(output.length - 16000) <= 1, `got ${output.length} samples`);
+    assert.ok(output.every(sample => Math.abs(sample - 0.25) < 1e-6));
+  });
+
+  it('upsamples a recording to 16 kHz at the right length and level, however it is chunked', () => {
+    const whole = createResampler(PLUCK_RATE).process(pluck);
+    // Interpolation holds back the last output sample or two until the next chunk arrives.
+    assert.ok(Math.abs(whole.length - (pluck.length * 16000) / PLUCK_RATE) <= 2, `got ${whole.length} samples`);
+    // Linear interpolation softens the partials near 5.5 kHz a little, but the level stays close.
+    assert.ok(Math.abs(rms(whole) / rms(pluck) - 1) < 0.2, `level ${rms(whole)} vs ${rms(pluck)}`);
+    const chunked = resampleInChunks(pluck, PLUCK_RATE, [441, 37, 1000, 3]);
+    assert.equal(chunked.length, whole.length);
+    assert.ok(chunked.every((sample, i) => Math.abs(sample - whole[i]) < 1e-6));
+  });
+
+  for (const rate of [48000, 44100]) {
+    it(`carries partial windows across chunk boundaries at ${rate / 1000} kHz`, () => {
+      const input = sine(440, rate, rate / 2);
+      const whole = createResampler(rate).process(input);
+      const chunked = resampleInChunks(input, rate, [4096, 333, 1, 1000, 7]);
+      assert.equal(chunked.length, whole.length);
+      for (let i = 0; i < whole.length; i++) {
+        assert.ok(Math.abs(chunked[i] - whole[i]) < 1e-6, `sample ${i}: ${chunked[i]} vs ${whole[i]}`);
+      }
+    });
+  }
+});
+
+describe('createVoiceActivityDetector', () => {
+  const FRAME_MS = 20;
+  const frame = (level: number) => new Float32Array(320).fill(level); // RMS of a constant frame is its level
+
+  it('ignores frames below the absolute floor', () => {
+    const vad = createVoiceActivityDetector();
+    for (let i = 0; i < 10; i++) assert.equal(vad.update(frame(0.009), FRAME_MS), false);
+  });
+
+  it('opens on speech above the noise floor and closes after the hangover', () => {
+    const vad = createVoiceActivityDetector();
+    assert.equal(vad.update(frame(0.002), FRAME_MS), false);
+    assert.equal(vad.update(frame(0.2), FRAME_MS), true);
+    // 400 ms hangover: twenty silent 20 ms frames still count as speaking, the next does not.
+    for (let i = 0; i < 20; i++) assert.equal(vad.update(frame(0.002), FRAME_MS), true, `silent frame ${i + 1}`);
+    assert.equal(vad.update(frame(0.002), FRAME_MS), false);
+  });
+
+  it('tunes out background noise that builds up while nobody speaks', () => {
+    // A fresh detector hears 0.1 as speech...
+    assert.equal(createVoiceActivityDetector().update(frame(0.1), FRAME_MS), true);
+    // ...but not once the floor has followed ward noise rising to that level.
+    const vad = createVoiceActivityDetector();
+    for (const level of [0.015, 0.04, 0.1]) {
+      for (let i = 0; i < 100; i++) assert.equal(vad.update(frame(level), FRAME_MS), false, `noise at ${level}`);
+    }
+    // Speech well above the noise still gets through.
+    assert.equal(vad.update(frame(0.4), FRAME_MS), true);
+  });
+});
+
+describe('voice activity on a recording', () => {
+  const FRAME = 320; // 20 ms at 16 kHz
+  const LEAD_IN = 15; // frames of quiet room before the pluck
+  const quiet = (frames: number) => sine(50, 16000, frames * FRAME, 0.003);
+  const recording = concatSamples([quiet(LEAD_IN), createResampler(PLUCK_RATE).process(pluck), quiet(40)]);
+  const frames = Array.from({ length: Math.floor(recording.length / FRAME) }, (_, i) => recording.subarray(i * FRAME, (i + 1) * FRAME));
+
+  it('opens on the attack, holds through the decay and closes after the hangover', () => {
+    const vad = createVoiceActivityDetector();
+    const speaking = frames.map(frame => vad.update(frame, 20));
+    assert.equal(speaking.indexOf(true), LEAD_IN);
+    const pluckFrames = Math.floor((pluck.length / PLUCK_RATE) * 50);
+    assert.ok(speaking.slice(LEAD_IN, LEAD_IN + pluckFrames).every(Boolean), 'dropped out during the decay');
+    assert.equal(speaking[speaking.length - 1], false);
+  });
+
+  it('sends the 200 ms before the detector opened along with the onset frame', () => {
+    // The capture loop: silent frames feed the pre-roll, the first speaking frame takes it.
+    const vad = createVoiceActivityDetector();
+    const preRoll = createPreRoll();
+    const sent: Float32Array[] = [];
+    let wasSpeaking = false;
+    for (const frame of frames) {
+      const speaking = vad.update(frame, 20);
+      if (!speaking) preRoll.push(frame);
+      else sent.push(wasSpeaking ? frame : concatSamples([preRoll.take(), frame]));
+      wasSpeaking = speaking;
+    }
+    const onset = LEAD_IN * FRAME;
+    assert.deepEqual(sent[0], recording.slice(onset - 3200, onset + FRAME));
+  });
+});
+
+describe('createPreRoll', () => {
+  it('keeps only the most recent window across uneven chunks and empties on take', () => {
+    const preRoll = createPreRoll(10, 1000); // 10 samples
+    const input = Float32Array.from({ length: 37 }, (_, i) => i);
+    for (const [start, end] of [[0, 4], [4, 5], [5, 17], [17, 30], [30, 37]]) preRoll.push(input.subarray(start, end));
+    assert.deepEqual(Array.from(preRoll.take()), [27, 28, 29, 30, 31, 32, 33, 34, 35, 36]);
+    assert.equal(preRoll.take().length, 0);
+  });
+
+  it('returns what it has when less than the window was heard', () => {
+    const preRoll = createPreRoll(10, 1000);
+    preRoll.push(Float32Array.from([1, 2, 3]));
+    assert.deepEqual(Array.from(preRoll.take()), [1, 2, 3]);
+  });
+});
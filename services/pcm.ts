@@ -0,0 +1,202 @@
+// Pure PCM helpers for voice capture. No Web Audio dependencies, so they run unchanged under Node
+// against recorded fixtures.
+
+export const TARGET_SAMPLE_RATE = 16000;
+
+export const clampSample = (sample: number): number =>
+  Number.isNaN(sample) ? 0 : Math.max(-1, Math.min(1, sample));
+
+/**
+ * Float samples in [-1, 1] to signed 16-bit. Samples are clamped first: an unclamped 1.0 would
+ * become 32768 and wrap to -32768, which is an audible click.
+ */
+export const floatTo16BitPcm = (samples: Float32Array): Int16Array => {
+  const out = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = clampSample(samples[i]);
+    out[i] = s < 0 ? Math.round(s * 0x8000) : Math.round(s * 0x7fff);
+  }
+  return out;
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.byteLength; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+/**
+ * Encodes samples as the base64 little-endian PCM blob the Live API expects.
+ */
+export const encodePcmBlob = (samples: Float32Array, sampleRate = TARGET_SAMPLE_RATE): { data: string; mimeType: string } => {
+  const pcm = floatTo16BitPcm(samples);
+  const bytes = new Uint8Array(pcm.length * 2);
+  const view = new DataView(bytes.buffer);
+  pcm.forEach((sample, i) => view.setInt16(i * 2, sample, true));
+  return { data: bytesToBase64(bytes), mimeType: `audio/pcm;rate=${sampleRate}` };
+};
+
+export interface Resampler {
+  process: (chunk: Float32Array) => Float32Array;
+  reset: () => void;
+}
+
+/**
+ * Streaming sample-rate converter. State is carried across chunks so that chunk boundaries don't
+ * introduce discontinuities. Downsampling averages every input sample that falls inside an output
+ * sample's window (a box low-pass filter) to limit aliasing; upsampling interpolates linearly.
+ */
+export const createResampler = (fromRate: number, toRate: number = TARGET_SAMPLE_RATE): Resampler => {
+  if (fromRate <= 0 || toRate <= 0) throw new RangeError(`Invalid sample rates ${fromRate} → ${toRate}`);
+  const ratio = fromRate / toRate; // input samples per output sample
+  let pending = new Float32Array(0);
+  let produced = 0; // output samples since the last reset
+  let consumed = 0; // input samples dropped from the front of `pending` since the last reset
+
+  // Read position of output sample n in `pending`. Derived from the running totals rather than
+  // accumulated, so rounding never drifts and the output doesn't depend on how input was chunked.
+  const at = (n: number) => n * ratio - consumed;
+
+  const process = (chunk: Float32Array): Float32Array => {
+    if (ratio === 1) return chunk.slice();
+    const buffer = new Float32Array(pending.length + chunk.length);
+    buffer.set(pending);
+    buffer.set(chunk, pending.length);
+
+    const out: number[] = [];
+    if (ratio > 1) {
+      while (at(produced + 1) <= buffer.length) {
+        const start = Math.floor(at(produced));
+        const end = Math.max(start + 1, Math.floor(at(produced + 1)));
+        let sum = 0;
+        for (let i = start; i < end; i++) sum += buffer[i];
+        out.push(sum / (end - start));
+        produced++;
+      }
+    } else {
+      while (at(produced) + 1 < buffer.length) {
+        const position = at(produced);
+        const i = Math.floor(position);
+        const frac = position - i;
+        out.push(buffer[i] + (buffer[i + 1] - buffer[i]) * frac);
+        produced++;
+      }
+    }
+
+    const drop = Math.floor(at(produced));
+    pending = buffer.slice(drop);
+    consumed += drop;
+    return Float32Array.from(out);
+  };
+
+  const reset = () => {
+    pending = new Float32Array(0);
+    produced = 0;
+    consumed = 0;
+  };
+
+  return { process, reset };
+};
+
+export const concatSamples = (chunks: Float32Array[]): Float32Array => {
+  const out = new Float32Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+};
+
+export interface PreRoll {
+  push: (samples: Float32Array) => void;
+  // Everything held, oldest first, at most the configured duration; empties the buffer.
+  take: () => Float32Array;
+}
+
+export const DEFAULT_PRE_ROLL_MS = 200;
+
+/**
+ * Holds the most recent stretch of audio heard while the VAD reports silence. The detector only
+ * opens on a frame that is already loud, so the quiet start of a first syllable arrives before it;
+ * sending this along with the onset frame keeps that syllable whole.
+ */
+export const createPreRoll = (durationMs = DEFAULT_PRE_ROLL_MS, sampleRate = TARGET_SAMPLE_RATE): PreRoll => {
+  const capacity = Math.round((durationMs / 1000) * sampleRate);
+  let chunks: Float32Array[] = [];
+  let held = 0;
+
+  const push = (samples: Float32Array) => {
+    chunks.push(samples);
+    held += samples.length;
+    // Whole chunks are dropped only while the rest still covers the window; `take` trims the excess.
+    while (chunks.length > 1 && held - chunks[0].length >= capacity) held -= chunks.shift()!.length;
+  };
+
+  const take = () => {
+    const all = concatSamples(chunks);
+    chunks = [];
+    held = 0;
+    return all.subarray(Math.max(0, all.length - capacity));
+  };
+
+  return { push, take };
+};
+
+export const rms = (samples: Float32Array): number => {
+  if (!samples.length) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / samples.length);
+};
+
+// Maps RMS to a 0–1 meter level on a -60…0 dBFS scale.
+export const meterLevel = (value: number): number => {
+  if (value <= 0) return 0;
+  const db = 20 * Math.log10(value);
+  return Math.max(0, Math.min(1, (db + 60) / 60));
+};
+
+export interface VadOptions {
+  minRms: number; // absolute floor; anything quieter is silence regardless of the noise estimate
+  noiseMultiplier: number; // speech must be this many times louder than the tracked noise floor
+  hangoverMs: number; // keep "speaking" this long after the last loud frame so word endings aren't clipped
+}
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = { minRms: 0.01, noiseMultiplier: 3, hangoverMs: 400 };
+
+export interface VoiceActivityDetector {
+  // Feed one frame; returns whether the speaker is currently talking.
+  update: (frame: Float32Array, frameMs: number) => boolean;
+  reset: () => void;
+}
+
+/**
+ * Energy-based VAD with an adaptive noise floor. The floor is learned from non-speech frames only,
+ * falling quickly and rising slowly, so constant ward noise (fans, monitors) is tuned out without
+ * speech ever raising the bar for itself.
+ */
+export const createVoiceActivityDetector = (options: VadOptions = DEFAULT_VAD_OPTIONS): VoiceActivityDetector => {
+  let noiseFloor = options.minRms;
+  let silentForMs = Infinity;
+
+  const update = (frame: Float32Array, frameMs: number): boolean => {
+    const level = rms(frame);
+    const loud = level > options.minRms && level > noiseFloor * options.noiseMultiplier;
+    if (!loud) {
+      const rate = level < noiseFloor ? 0.3 : 0.05;
+      noiseFloor = Math.max(options.minRms / 4, noiseFloor + (level - noiseFloor) * rate);
+    }
+    silentForMs = loud ? 0 : silentForMs + frameMs;
+    return silentForMs <= options.hangoverMs;
+  };
+
+  const reset = () => {
+    noiseFloor = options.minRms;
+    silentForMs = Infinity;
+  };
+
+  return { update, reset };
+};
@@ -0,0 +1,61 @@
+import { ScenePhoto } from "../types";
+
+// Each photo costs request size and model tokens; a handful covers the vehicles and the scene.
+export const MAX_PHOTOS = 6;
+
+// Longest edge after downscaling. Enough to see deformation and intrusion, far below camera resolution.
+const MAX_EDGE_PX = 1280;
+const JPEG_QUALITY = 0.8;
+
+const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ''));
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read the photo'));
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Downscales a photo and re-encodes it as JPEG through a canvas. Re-encoding keeps only the pixels,
+ * so EXIF metadata (GPS position, timestamps, device serials) is dropped before the photo is stored
+ * or sent. The camera orientation is applied first so the result is upright without it.
+ */
+export const preparePhoto = async (file: File): Promise<ScenePhoto> => {
+  if (!file.type.startsWith('image/')) {
+    throw new Error(`${file.name} is not an image`);
+  }
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new Error(`${file.name} could not be decoded; try saving it as JPEG or PNG`);
+  }
+
+  const scale = Math.min(1, MAX_EDGE_PX / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    throw new Error('Canvas is not available in this browser');
+  }
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+  if (!blob) throw new Error(`${file.name} could not be re-encoded`);
+
+  return {
+    id: crypto.randomUUID(),
+    fileName: file.name,
+    mimeType: 'image/jpeg',
+    data: await blobToBase64(blob),
+    width,
+    height,
+  };
+};
+
+export const photoDataUrl = (photo: ScenePhoto): string => `data:${photo.mimeType};base64,${photo.data}`;
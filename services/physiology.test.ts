@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { assessPhysiology, calculateRts, clampVital, describeVitals, hasVitals, sanitiseVitals } from './physiology';
+
+describe('sanitiseVitals', () => {
+  it('drops readings that could not have been measured and keeps the rest', () => {
+    assert.deepEqual(
+      sanitiseVitals({ systolicBp: -20, respiratoryRate: 400, heartRate: 110, spo2: 97, gcsEye: 5, gcsVerbal: 4.5, gcsMotor: 6 }),
+      { heartRate: 110, spo2: 97, gcsMotor: 6 }
+    );
+  });
+});
+
+describe('clampVital', () => {
+  it('pulls a reading to the nearest bound and says so', () => {
+    assert.deepEqual(clampVital('respiratoryRate', 400), { value: 80, clamped: true });
+    assert.deepEqual(clampVital('systolicBp', -20), { value: 0, clamped: true });
+    assert.deepEqual(clampVital('spo2', 94), { value: 94, clamped: false });
+  });
+});
+
+describe('derived scores', () => {
+  it('ignores impossible readings instead of scoring them', () => {
+    const vitals = { systolicBp: -20, respiratoryRate: 400, heartRate: 120, gcsEye: 4, gcsVerbal: 5, gcsMotor: 6 };
+    assert.equal(calculateRts(vitals), undefined);
+    const physiology = assessPhysiology(vitals);
+    assert.equal(physiology.shockIndex, undefined);
+    assert.equal(physiology.unstable, false);
+    assert.deepEqual(describeVitals(vitals), ['GCS 15 (E4 V5 M6, Mild)', 'Heart rate 120 /min']);
+  });
+
+  it('scores plausible readings as before', () => {
+    const physiology = assessPhysiology({ systolicBp: 80, respiratoryRate: 32, heartRate: 120, gcsEye: 2, gcsVerbal: 2, gcsMotor: 4 });
+    assert.equal(physiology.rts, 4.944);
+    assert.equal(physiology.shockIndex, 1.5);
+    assert.equal(physiology.unstable, true);
+  });
+
+  it('does not count a record holding only impossible readings as having vitals', () => {
+    assert.equal(hasVitals({ systolicBp: -20 }), false);
+  });
+});
@@ -0,0 +1,175 @@
+import { VitalSigns } from "../types";
+
+export type GcsCategory = 'Mild' | 'Moderate' | 'Severe';
+export type ShockIndexCategory = 'Normal' | 'Elevated' | 'Severe';
+
+export interface PhysiologyAssessment {
+  gcs?: number;
+  gcsCategory?: GcsCategory;
+  rts?: number; // Revised Trauma Score, 0–7.8408
+  shockIndex?: number;
+  shockIndexCategory?: ShockIndexCategory;
+  hypoxic?: boolean;
+  unstable: boolean; // any physiological red flag
+}
+
+export interface TrissResult {
+  probabilityOfSurvival: number;
+  iss: number;
+  ageAssumed: boolean; // true when age was unknown and the under-55 coefficient was used
+}
+
+export const GCS_RANGES = {
+  gcsEye: [1, 4],
+  gcsVerbal: [1, 5],
+  gcsMotor: [1, 6],
+} as const;
+
+// Bounds of a possible reading; anything outside is a typing or import error, not physiology.
+export const VITAL_RANGES = {
+  systolicBp: [0, 300],
+  heartRate: [0, 250],
+  respiratoryRate: [0, 80],
+  spo2: [0, 100],
+} as const;
+
+export type NumericVital = keyof typeof VITAL_RANGES;
+
+const inRange = (value: number | undefined, [min, max]: readonly [number, number]) =>
+  value !== undefined && Number.isInteger(value) && value >= min && value <= max;
+
+const isGcsKey = (key: keyof VitalSigns): key is keyof typeof GCS_RANGES => key in GCS_RANGES;
+
+export const isPlausibleVital = (key: keyof VitalSigns, value: number): boolean => {
+  if (isGcsKey(key)) return inRange(value, GCS_RANGES[key]);
+  const [min, max] = VITAL_RANGES[key];
+  return Number.isFinite(value) && value >= min && value <= max;
+};
+
+/**
+ * Pulls a typed reading into its range. `clamped` is set when the value had to move, so the form
+ * can say so rather than silently changing what was entered.
+ */
+export const clampVital = (key: NumericVital, value: number): { value: number; clamped: boolean } => {
+  const [min, max] = VITAL_RANGES[key];
+  const clamped = Math.min(Math.max(value, min), max);
+  return { value: clamped, clamped: clamped !== value };
+};
+
+/**
+ * Drops readings that could not have been measured, so saved cases and imports made before the
+ * form clamped its input cannot reach the scores, the decision rules or the prompt.
+ */
+export const sanitiseVitals = (v: VitalSigns): VitalSigns => {
+  const clean: VitalSigns = {};
+  for (const key of Object.keys(v) as (keyof VitalSigns)[]) {
+    const value = v[key];
+    if (value !== undefined && isPlausibleVital(key, value)) clean[key] = value;
+  }
+  return clean;
+};
+
+export const calculateGcs = (v: VitalSigns): number | undefined => {
+  if (!inRange(v.gcsEye, GCS_RANGES.gcsEye) || !inRange(v.gcsVerbal, GCS_RANGES.gcsVerbal) || !inRange(v.gcsMotor, GCS_RANGES.gcsMotor)) {
+    return undefined;
+  }
+  return v.gcsEye! + v.gcsVerbal! + v.gcsMotor!;
+};
+
+export const gcsCategory = (gcs: number): GcsCategory => {
+  if (gcs >= 13) return 'Mild';
+  if (gcs >= 9) return 'Moderate';
+  return 'Severe';
+};
+
+// RTS coded values (0–4) per Champion et al., 1989.
+const codeGcs = (gcs: number) => (gcs >= 13 ? 4 : gcs >= 9 ? 3 : gcs >= 6 ? 2 : gcs >= 4 ? 1 : 0);
+const codeSbp = (sbp: number) => (sbp > 89 ? 4 : sbp >= 76 ? 3 : sbp >= 50 ? 2 : sbp >= 1 ? 1 : 0);
+const codeRr = (rr: number) => (rr > 29 ? 3 : rr >= 10 ? 4 : rr >= 6 ? 2 : rr >= 1 ? 1 : 0);
+
+/**
+ * Revised Trauma Score. Needs GCS, systolic BP and respiratory rate; undefined otherwise.
+ */
+export const calculateRts = (raw: VitalSigns): number | undefined => {
+  const v = sanitiseVitals(raw);
+  const gcs = calculateGcs(v);
+  if (gcs === undefined || v.systolicBp === undefined || v.respiratoryRate === undefined) return undefined;
+  const rts = 0.9368 * codeGcs(gcs) + 0.7326 * codeSbp(v.systolicBp) + 0.2908 * codeRr(v.respiratoryRate);
+  return Math.round(rts * 1000) / 1000;
+};
+
+export const calculateShockIndex = (raw: VitalSigns): number | undefined => {
+  const v = sanitiseVitals(raw);
+  if (v.heartRate === undefined || !v.systolicBp) return undefined;
+  return Math.round((v.heartRate / v.systolicBp) * 100) / 100;
+};
+
+export const shockIndexCategory = (si: number): ShockIndexCategory => {
+  if (si < 0.9) return 'Normal';
+  if (si < 1.4) return 'Elevated';
+  return 'Severe';
+};
+
+export const hasVitals = (v?: VitalSigns): v is VitalSigns =>
+  !!v && Object.keys(sanitiseVitals(v)).length > 0;
+
+export const assessPhysiology = (raw: VitalSigns): PhysiologyAssessment => {
+  const v = sanitiseVitals(raw);
+  const gcs = calculateGcs(v);
+  const shockIndex = calculateShockIndex(v);
+  const hypoxic = v.spo2 === undefined ? undefined : v.spo2 < 92;
+  const unstable =
+    (gcs !== undefined && gcs <= 8)
+    || (v.systolicBp !== undefined && v.systolicBp < 90)
+    || (shockIndex !== undefined && shockIndex >= 1)
+    || (v.respiratoryRate !== undefined && (v.respiratoryRate < 10 || v.respiratoryRate > 29))
+    || hypoxic === true;
+
+  return {
+    gcs,
+    gcsCategory: gcs === undefined ? undefined : gcsCategory(gcs),
+    rts: calculateRts(v),
+    shockIndex,
+    shockIndexCategory: shockIndex === undefined ? undefined : shockIndexCategory(shockIndex),
+    hypoxic,
+    unstable,
+  };
+};
+
+// MTOS coefficients for blunt trauma (Champion et al., 1990 revision).
+const TRISS_BLUNT = { b0: -0.4499, rts: 0.8085, iss: -0.0835, age: -1.743 };
+
+/**
+ * TRISS probability of survival for blunt trauma. Age ≥ 55 scores an age index of 1;
+ * when age is unknown it is taken as under 55 and flagged on the result.
+ */
+export const calculateTriss = (rts: number, iss: number, ageYears?: number): TrissResult => {
+  const ageIndex = ageYears !== undefined && ageYears >= 55 ? 1 : 0;
+  const b = TRISS_BLUNT.b0 + TRISS_BLUNT.rts * rts + TRISS_BLUNT.iss * iss + TRISS_BLUNT.age * ageIndex;
+  return {
+    probabilityOfSurvival: Math.round((1 / (1 + Math.exp(-b))) * 1000) / 1000,
+    iss,
+    ageAssumed: ageYears === undefined,
+  };
+};
+
+/**
+ * One line per recorded vital sign plus the derived scores, for prompts and reports.
+ */
+export const describeVitals = (raw: VitalSigns): string[] => {
+  const v = sanitiseVitals(raw);
+  const a = assessPhysiology(v);
+  const lines: string[] = [];
+  if (a.gcs !== undefined) {
+    lines.push(`GCS ${a.gcs} (E${v.gcsEye} V${v.gcsVerbal} M${v.gcsMotor}, ${a.gcsCategory})`);
+  } else if (v.gcsEye !== undefined || v.gcsVerbal !== undefined || v.gcsMotor !== undefined) {
+    lines.push(`GCS incomplete (E${v.gcsEye ?? '?'} V${v.gcsVerbal ?? '?'} M${v.gcsMotor ?? '?'})`);
+  }
+  if (v.systolicBp !== undefined) lines.push(`Systolic BP ${v.systolicBp} mmHg`);
+  if (v.heartRate !== undefined) lines.push(`Heart rate ${v.heartRate} /min`);
+  if (v.respiratoryRate !== undefined) lines.push(`Respiratory rate ${v.respiratoryRate} /min`);
+  if (v.spo2 !== undefined) lines.push(`SpO2 ${v.spo2}%`);
+  if (a.rts !== undefined) lines.push(`Revised Trauma Score ${a.rts}`);
+  if (a.shockIndex !== undefined) lines.push(`Shock index ${a.shockIndex} (${a.shockIndexCategory})`);
+  return lines;
+};
@@ -0,0 +1,99 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { deidentifyAccidentData, redactPhi } from './redaction';
+
+const nameTokens = (text: string): string[] => [...new Set(text.match(/\[NAME-\d+\]/g) ?? [])];
+
+describe('redactPhi', () => {
+  it('redacts each part of a cued name when it later appears alone', () => {
+    const { text } = redactPhi("Patient named Ali Raza, 24, motorcycle vs car. Ali was riding pillion. Raza's brother called 1122.");
+    assert.doesNotMatch(text, /\bAli\b/);
+    assert.doesNotMatch(text, /\bRaza\b/);
+    assert.deepEqual(nameTokens(text), ['[NAME-1]']);
+    assert.match(text, /\[NAME-1\]'s brother/);
+  });
+
+  it('redacts the first name after an honorific cue', () => {
+    const { text } = redactPhi('Mr. Imran Khan, driver of the car, unrestrained. Imran hit the windscreen.');
+    assert.doesNotMatch(text, /Imran/);
+    assert.deepEqual(nameTokens(text), ['[NAME-1]']);
+  });
+
+  it('redacts a Roman Urdu cued name and its later bare first name', () => {
+    const { text } = redactPhi('Mareez ka naam Ahmed Ali hai, bike se gira. Ahmed ko sar par chot lagi.');
+    assert.doesNotMatch(text, /Ahmed/);
+    assert.deepEqual(nameTokens(text), ['[NAME-1]']);
+    assert.match(text, /\[NAME-1\] ko sar par chot lagi/);
+  });
+
+  it('does not take ordinary, negating or clinical words after a cue for a name', () => {
+    for (const text of [
+      'Mareez ka naam maloom nahi, helmet nahi pehna tha',
+      'Patient Unconscious at scene, GCS 8. Unconscious on arrival.',
+      'Name: Unknown Male, about 30. Unknown mechanism.',
+    ]) {
+      assert.deepEqual(redactPhi(text), { text, redactions: [] });
+    }
+  });
+
+  it('ends a cued name at the first word that cannot be part of it', () => {
+    const { text } = redactPhi('Patient Imran Khan brought by Rescue 1122. Khan was the driver.');
+    assert.equal(text, 'Patient [NAME-1] brought by Rescue 1122. [NAME-1] was the driver.');
+  });
+
+  it('redacts one word after the generic Patient cue only where it was found', () => {
+    const { text } = redactPhi('Patient Ambulatory at scene. Ambulatory since.');
+    assert.equal(text, 'Patient [NAME-1] at scene. Ambulatory since.');
+  });
+
+  it('redacts CNICs in Latin and Urdu digits', () => {
+    assert.equal(redactPhi('CNIC 12345-1234567-1, ۱۲۳۴۵-۱۲۳۴۵۶۷-۱').text, 'CNIC [CNIC-1], [CNIC-2]');
+  });
+
+  it('redacts mobile, international and landline numbers', () => {
+    assert.equal(
+      redactPhi('Call brother 0300-1234567 or +92 300 1234567 or home 0966-712345').text,
+      'Call brother [PHONE-1] or [PHONE-2] or home [PHONE-3]'
+    );
+  });
+
+  it('redacts cued and bare registration plates', () => {
+    assert.equal(redactPhi('Number plate LEA-1234. The other car was ABC-123.').text, 'Number plate [PLATE-1]. The other car was [PLATE-2].');
+  });
+
+  it('leaves clinical and vehicle-model abbreviations alone', () => {
+    const text = 'GCS 8, BP 120/80, HR 120, RR 28, SpO2 91%, ISS 25, AIS 3, CT head, Honda CD 70, 80 KMH, age 45, ED 2';
+    assert.deepEqual(redactPhi(text), { text, redactions: [] });
+  });
+
+  it('redacts addresses after house, street and residence cues', () => {
+    assert.equal(
+      redactPhi('House no. 12 street 4 Gulshan colony, r/o village Paharpur near the adda').text,
+      '[ADDRESS-1], r/o [ADDRESS-2] near the adda'
+    );
+    assert.equal(redactPhi('Resident of Mohallah Jogi Wala and was riding').text, 'Resident of [ADDRESS-1] and was riding');
+  });
+
+  it('redacts Urdu-script names and addresses', () => {
+    const { text } = redactPhi('نام احمد علی، موٹر سائیکل سوار۔ احمد کے سر پر چوٹ، ساکن ڈیرہ');
+    assert.doesNotMatch(text, /احمد|علی|ڈیرہ/);
+    assert.match(text, /نام \[NAME-1\]، موٹر سائیکل سوار۔ \[NAME-1\] کے سر پر چوٹ/);
+    assert.match(text, /ساکن \[ADDRESS-1\]/);
+  });
+});
+
+describe('deidentifyAccidentData', () => {
+  it('redacts the narrative and captions consistently, drops the PHI terms and caps the age', () => {
+    const { data, redactions } = deidentifyAccidentData({
+      accidentDescription: 'Patient named Ali Raza hit by a bus near Kotla Saidan',
+      phiTerms: ['Kotla Saidan'],
+      patient: { ageYears: 95 },
+      photos: [{ id: 'p1', fileName: 'bike.jpg', mimeType: 'image/jpeg', data: '', width: 1, height: 1, caption: "Ali's bike at Kotla Saidan" }],
+    });
+    assert.equal(data.accidentDescription, 'Patient named [NAME-1] hit by a bus near [PHI-1]');
+    assert.equal(data.photos?.[0].caption, "[NAME-1]'s bike at [PHI-1]");
+    assert.equal(data.phiTerms, undefined);
+    assert.equal(data.patient?.ageYears, 90);
+    assert.deepEqual(redactions.map(r => r.token).sort(), ['[NAME-1]', '[PHI-1]']);
+  });
+});
@@ -0,0 +1,235 @@
+import { AccidentData } from "../types";
+
+// Local de-identification of free text before it is sent anywhere. Detection is pattern based
+// (English, Roman Urdu and common Urdu-script cues), so it errs towards redacting too much.
+
+export type PhiCategory = 'name' | 'phone' | 'cnic' | 'plate' | 'address' | 'other';
+
+export const PHI_CATEGORY_LABELS: Record<PhiCategory, string> = {
+  name: 'Name',
+  phone: 'Phone number',
+  cnic: 'CNIC',
+  plate: 'Vehicle plate',
+  address: 'Address',
+  other: 'Marked by user',
+};
+
+export interface Redaction {
+  category: PhiCategory;
+  original: string;
+  token: string; // e.g. [NAME-1]; the same original always gets the same token
+  aliases?: string[]; // parts of a multi-word name, redacted with the same token when they appear alone
+  spotOnly?: boolean; // one word after the generic "Patient" cue: redacted there, not wherever the word recurs
+}
+
+export interface RedactionResult {
+  text: string;
+  redactions: Redaction[];
+}
+
+interface Detector {
+  category: PhiCategory;
+  pattern: RegExp; // global; when it has a `phi` named group only that group is redacted
+  weakCue?: boolean; // the cue often precedes ordinary words, so a one-word capture is not trusted elsewhere
+}
+
+const DIGIT = '[0-9\\u06F0-\\u06F9]';
+
+// A name is one to three capitalised words, optionally followed by a family or tribal name.
+const CAPITALISED_NAME = "[A-Z][a-z']+(?:\\s+[A-Z][a-z']+){0,2}";
+// Roman Urdu is often typed in lower case, so after an explicit "naam" cue any one to three words count.
+const ANY_NAME = "[A-Za-z']+(?:\\s+(?!hai\\b|he\\b|tha\\b|thi\\b|h\\b)[A-Za-z']+){0,2}";
+// Urdu letters only: the Arabic block also holds the Urdu comma and full stop (، ۔), which end a name.
+const URDU_WORD = '(?:(?![،؛؟۔])[\\u0600-\\u06FF])+';
+const URDU_WORDS = `${URDU_WORD}(?:\\s+(?!ہے|تھا|تھی)${URDU_WORD}){0,2}`;
+// Addresses run for up to five words, stopping at words that start the rest of the sentence.
+const ADDRESS_STOP = '(?:and|aur|par|pe|se|ke|ka|ki|kay|at|on|near|was|is|who|jo|wo|woh|jab|when|tha|thi|hai)\\b';
+const ADDRESS_TAIL = `[\\w#/-]+(?:[ ,]+(?!${ADDRESS_STOP})[\\w#/-]+){0,4}`;
+
+// Clinical and vehicle-model abbreviations that look like registration plates ("GCS 8", "BP 120", "CD 70").
+const NOT_PLATES = new Set(['BP', 'SBP', 'DBP', 'HR', 'RR', 'GCS', 'SPO', 'SPO2', 'ISS', 'NISS', 'AIS', 'RTS', 'CT', 'MRI', 'ICU', 'ED', 'OT', 'CD', 'KM', 'KMH', 'KMPH', 'MPH', 'MIN', 'AGE', 'NO', 'YO']);
+
+// Order matters: CNICs before phone numbers, explicit cues before bare patterns.
+const DETECTORS: Detector[] = [
+  { category: 'cnic', pattern: new RegExp(`(?<!${DIGIT})${DIGIT}{5}[- ]?${DIGIT}{7}[- ]?${DIGIT}(?!${DIGIT})`, 'g') },
+  { category: 'phone', pattern: new RegExp(`(?<![\\w+])(?:\\+?92[- ]?|0)3${DIGIT}{2}[- ]?${DIGIT}{7}(?!${DIGIT})`, 'g') },
+  { category: 'phone', pattern: new RegExp(`(?<![\\w+])(?:\\+?92[- ]?|0)${DIGIT}{2,3}[- ]?${DIGIT}{6,8}(?!${DIGIT})`, 'g') },
+  { category: 'phone', pattern: /(?<![\w+])\+\d[\d -]{8,14}\d(?!\d)/g },
+  {
+    category: 'plate',
+    pattern: /\b(?:number plate|reg(?:istration)?(?: no\.?| number)?|gari (?:ka )?number|gaadi (?:ka )?number)[\s:#-]*(?<phi>[A-Za-z]{1,4}[- ]?\d{1,2}[- ]?\d{1,4}|[A-Za-z]{1,4}[- ]?\d{2,4})\b/gi,
+  },
+  { category: 'plate', pattern: /\b(?<phi>[A-Z]{2,4}[- ](?:\d{2}[- ])?\d{3,4}|[A-Z]{2,4}\d{3,4})\b/g },
+  {
+    category: 'name',
+    pattern: new RegExp(`\\b(?:Mr|Mrs|Ms|Miss|Dr|Mst|Haji|Hafiz|Mian|Malik|Ch|Chaudhry|Sardar|Syed)\\.?\\s+(?<phi>${CAPITALISED_NAME})`, 'g'),
+  },
+  { category: 'name', pattern: new RegExp(`\\b[Pp]atient\\s+(?<phi>${CAPITALISED_NAME})`, 'g'), weakCue: true },
+  {
+    category: 'name',
+    pattern: new RegExp(`\\b(?:[Nn]ame(?:d| is|:)|[Cc]alled|[Ss]on of|[Dd]aughter of|[Ww]ife of|[Ss]/[Oo]|[Dd]/[Oo]|[Ww]/[Oo]|[Ww]alad|[Bb]int|[Zz]oja)\\s+(?<phi>${CAPITALISED_NAME})`, 'g'),
+  },
+  { category: 'name', pattern: new RegExp(`\\b(?:naam|nam)\\s*(?::|hai|he)?\\s+(?<phi>${ANY_NAME})`, 'gi') },
+  { category: 'name', pattern: new RegExp(`(?:نام|ولد|بنت|زوجہ)\\s*:?\\s*(?<phi>${URDU_WORDS})`, 'g') },
+  {
+    category: 'address',
+    pattern: new RegExp(`\\b(?:house|h)\\s*(?:no\\.?|number|#)\\s*${ADDRESS_TAIL}|\\b(?:street|st|gali|galli|lane)\\s*(?:no\\.?|number|#)\\s*${ADDRESS_TAIL}`, 'gi'),
+  },
+  {
+    category: 'address',
+    pattern: new RegExp(`\\b(?:resident of|r/o|address|addr|mohallah|mohalla|muhalla|village|gaon|goth|chak|basti|sector|colony)[\\s:]+(?<phi>${ADDRESS_TAIL})`, 'gi'),
+  },
+  { category: 'address', pattern: new RegExp(`(?:محلہ|گاؤں|مکان نمبر|گلی نمبر|پتہ|ساکن)\\s*:?\\s*(?<phi>${URDU_WORDS})`, 'g') },
+];
+
+const TOKEN_PREFIX: Record<PhiCategory, string> = {
+  name: 'NAME',
+  phone: 'PHONE',
+  cnic: 'CNIC',
+  plate: 'PLATE',
+  address: 'ADDRESS',
+  other: 'PHI',
+};
+
+const TOKEN_PATTERN = /\[(?:NAME|PHONE|CNIC|PLATE|ADDRESS|PHI)-\d+\]/;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Literal match that doesn't fire inside a longer word ("Ali" in "Alina"), in any script.
+const literalPattern = (text: string) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(text)}(?![\\p{L}\\p{N}])`, 'giu');
+
+// Ordinary, negating and clinical words that follow a name cue ("naam maloom nahi", "Patient
+// Unconscious", "Name: Unknown Male"). A captured name ends at the first of these; one that starts
+// with one is not a name. Compared in lower case.
+const NOT_NAME_WORDS = new Set([
+  'nahi', 'nahin', 'nai', 'na', 'maloom', 'malum', 'pata', 'hai', 'he', 'tha', 'thi', 'ko', 'ka', 'ki', 'ke', 'se', 'par', 'aur', 'bhi', 'koi',
+  'unknown', 'unidentified', 'not', 'none', 'nil', 'no', 'is', 'was', 'has', 'had', 'the', 'a', 'an', 'and', 'or', 'who', 'with', 'from',
+  'at', 'on', 'in', 'by', 'of', 'to',
+  'male', 'female', 'man', 'woman', 'boy', 'girl', 'child', 'baby', 'infant', 'adult', 'elderly', 'old', 'young', 'aged', 'age', 'years',
+  'unconscious', 'conscious', 'alert', 'drowsy', 'confused', 'stable', 'unstable', 'critical', 'intubated', 'vomiting', 'bleeding',
+  'brought', 'admitted', 'arrived', 'presented', 'presents', 'sustained', 'involved', 'fell', 'hit', 'struck', 'complains',
+  'driver', 'rider', 'passenger', 'pillion', 'pedestrian', 'cyclist',
+  'معلوم', 'نامعلوم', 'نہیں', 'پتہ', 'ہے', 'تھا', 'تھی',
+]);
+
+// Words a captured name may contain that say nothing about who the person is, plus the token
+// labels, so an alias never matches inside a token.
+const NAME_STOPWORDS = new Set([
+  ...NOT_NAME_WORDS,
+  'his', 'her', 'son', 'wife', 'daughter', 'wala', 'wali', 'walay', 'sahib', 'sahab',
+  'name', 'phone', 'cnic', 'plate', 'address', 'phi',
+]);
+
+// The captured words up to the first one that cannot be part of a name; empty when there are none.
+const trimName = (captured: string): string => {
+  const words = captured.split(/\s+/);
+  const end = words.findIndex(word => NOT_NAME_WORDS.has(word.toLowerCase()));
+  return (end === -1 ? words : words.slice(0, end)).join(' ');
+};
+
+// The parts of a multi-word name that are specific enough to identify the person on their own.
+const nameAliases = (name: string): string[] => {
+  const parts = name.split(/\s+/);
+  if (parts.length < 2) return [];
+  return parts.filter(part => (part.match(/\p{L}/gu)?.length ?? 0) >= 3 && !NAME_STOPWORDS.has(part.toLowerCase()));
+};
+
+const isFalsePlate = (match: string): boolean => {
+  const letters = match.match(/^[A-Za-z]+/)?.[0].toUpperCase();
+  return !!letters && NOT_PLATES.has(letters);
+};
+
+/**
+ * Replaces detected identifiers, and any `customTerms` the user marked, with numbered tokens.
+ * Pass the redactions from an earlier call (e.g. the narrative) to keep tokens consistent
+ * across several texts from the same case.
+ */
+export const redactPhi = (text: string, known: Redaction[] = [], customTerms: string[] = []): RedactionResult => {
+  const redactions = [...known];
+  const found: Redaction[] = [];
+  let result = text;
+
+  const tokenFor = (category: PhiCategory, original: string, spotOnly = false): string => {
+    const key = original.trim().toLowerCase();
+    const existing = redactions.find(r => r.category === category && r.original.toLowerCase() === key);
+    if (existing) {
+      if (!found.includes(existing)) found.push(existing);
+      // Seen again with a specific cue ("named Imran"), so later bare mentions are redacted after all.
+      if (existing.spotOnly && !spotOnly) delete existing.spotOnly;
+      return existing.token;
+    }
+    const count = redactions.filter(r => r.category === category).length + 1;
+    const redaction: Redaction = { category, original: original.trim(), token: `[${TOKEN_PREFIX[category]}-${count}]` };
+    const aliases = category === 'name' ? nameAliases(redaction.original) : [];
+    if (aliases.length) redaction.aliases = aliases;
+    if (spotOnly) redaction.spotOnly = true;
+    redactions.push(redaction);
+    found.push(redaction);
+    return redaction.token;
+  };
+
+  for (const term of customTerms.map(t => t.trim()).filter(Boolean)) {
+    result = result.replace(literalPattern(term), match => tokenFor('other', match));
+  }
+
+  for (const { category, pattern, weakCue } of DETECTORS) {
+    result = result.replace(pattern, (...args) => {
+      const match: string = args[0];
+      const groups = args[args.length - 1] as Record<string, string | undefined> | undefined;
+      const captured = typeof groups === 'object' && groups?.phi ? groups.phi : match;
+      const target = category === 'name' ? trimName(captured) : captured;
+      if (!target || TOKEN_PATTERN.test(target)) return match;
+      if (category === 'plate' && isFalsePlate(target)) return match;
+      const index = match.lastIndexOf(captured);
+      const token = tokenFor(category, target, weakCue && !/\s/.test(target));
+      return match.slice(0, index) + match.slice(index).replace(target, token);
+    });
+  }
+
+  // Once an identifier has been seen with a cue ("named Ali Raza"), later mentions without the cue
+  // are redacted too: the full string, then for names each part on its own ("Ali", "Raza's").
+  const redactBare = (redaction: Redaction): boolean => {
+    let replaced = false;
+    for (const term of [redaction.original, ...(redaction.aliases ?? [])]) {
+      result = result.replace(literalPattern(term), () => {
+        replaced = true;
+        return redaction.token;
+      });
+    }
+    return replaced;
+  };
+  for (const redaction of [...found]) {
+    if (redaction.category === 'phone' || redaction.category === 'cnic' || redaction.spotOnly) continue;
+    redactBare(redaction);
+  }
+  for (const redaction of known) {
+    if (!found.includes(redaction) && !redaction.spotOnly && redactBare(redaction)) found.push(redaction);
+  }
+
+  return { text: result, redactions: found };
+};
+
+const MAX_SHARED_AGE = 89;
+
+/**
+ * The case as it may leave the device: the narrative and photo captions de-identified, the
+ * user's PHI terms removed and ages over 89 capped, everything else unchanged (structured
+ * parameters and vitals carry no identifiers; photo pixels cannot be redacted here).
+ */
+export const deidentifyAccidentData = (data: AccidentData): { data: AccidentData; redactions: Redaction[] } => {
+  const { phiTerms, ...rest } = data;
+  const { text, redactions } = redactPhi(data.accidentDescription, [], phiTerms);
+  const photos = data.photos?.map(photo => {
+    if (!photo.caption) return photo;
+    // Earlier redactions are passed on so the same name gets the same token everywhere.
+    const caption = redactPhi(photo.caption, redactions, phiTerms);
+    redactions.push(...caption.redactions.filter(r => !redactions.includes(r)));
+    return { ...photo, caption: caption.text };
+  });
+  // Ages over 89 identify people in small populations, so they are sent as 90.
+  const patient = data.patient?.ageYears !== undefined && data.patient.ageYears > MAX_SHARED_AGE
+    ? { ...data.patient, ageYears: MAX_SHARED_AGE + 1 }
+    : data.patient;
+  return { data: { ...rest, accidentDescription: text, ...(photos ? { photos } : {}), ...(patient ? { patient } : {}) }, redactions };
+};
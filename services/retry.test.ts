@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CancelledError, RequestRejectedError, withRetry } from './retry';
+
+// Shaped like the SDK's ApiError: an Error with a numeric HTTP status.
+const httpError = (status: number) => Object.assign(new Error(`got status: ${status}`), { status });
+
+const OPTIONS = { attempts: 3, baseDelayMs: 1, timeoutMs: 1000 };
+
+describe('withRetry', () => {
+  it('retries server errors and 408 until an attempt succeeds', async () => {
+    const failures = [httpError(503), httpError(408)];
+    let calls = 0;
+    const result = await withRetry(async () => {
+      calls++;
+      const failure = failures.shift();
+      if (failure) throw failure;
+      return 'ok';
+    }, OPTIONS);
+    assert.equal(result, 'ok');
+    assert.equal(calls, 3);
+  });
+
+  for (const status of [400, 401, 403]) {
+    it(`gives up on the first ${status}`, async () => {
+      let calls = 0;
+      const failed = withRetry(async () => {
+        calls++;
+        throw httpError(status);
+      }, OPTIONS);
+      await assert.rejects(failed, (error: unknown) => error instanceof RequestRejectedError && error.status === status);
+      assert.equal(calls, 1);
+    });
+  }
+
+  it('stops waiting out the backoff as soon as it is cancelled', async () => {
+    const controller = new AbortController();
+    const started = Date.now();
+    const failed = withRetry(async () => {
+      setTimeout(() => controller.abort(), 10);
+      throw httpError(503);
+    }, { ...OPTIONS, baseDelayMs: 60_000, signal: controller.signal });
+    await assert.rejects(failed, CancelledError);
+    assert.ok(Date.now() - started < 1000);
+  });
+
+  it("gives up at once on the proxy's own rate limit", async () => {
+    let calls = 0;
+    const body = JSON.stringify({ error: { code: 429, details: [{ reason: 'STAFF_RATE_LIMIT', metadata: { retryAfterSeconds: '12' } }] } });
+    const failed = withRetry(async () => {
+      calls++;
+      throw Object.assign(new Error(body), { status: 429 });
+    }, OPTIONS);
+    await assert.rejects(failed, (error: unknown) =>
+      error instanceof RequestRejectedError && error.rejection === 'staff-limit' && /Wait 12s/.test(error.message)
+    );
+    assert.equal(calls, 1);
+  });
+
+  it('retries an upstream quota 429 and names the quota once attempts run out', async () => {
+    let calls = 0;
+    const failed = withRetry(async () => {
+      calls++;
+      throw httpError(429);
+    }, OPTIONS);
+    await assert.rejects(failed, (error: unknown) => error instanceof RequestRejectedError && error.rejection === 'quota' && error.status === 429);
+    assert.equal(calls, 3);
+  });
+});
@@ -0,0 +1,141 @@
+export class TimeoutError extends Error {
+  constructor(ms: number) {
+    super(`Request timed out after ${Math.round(ms / 1000)}s`);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class CancelledError extends Error {
+  constructor() {
+    super('Analysis cancelled');
+    this.name = 'CancelledError';
+  }
+}
+
+// Set by the proxy (server/proxy.ts) on its own per-person limit. Any other 429 is the upstream
+// Gemini quota, passed through unchanged, which usually clears within seconds.
+const STAFF_RATE_LIMIT_REASON = 'STAFF_RATE_LIMIT';
+
+export type Rejection = number | 'staff-limit' | 'quota'; // an HTTP status, or which kind of 429
+
+const rejectionMessage = (rejection: Rejection, retryAfterSeconds?: number): string => {
+  switch (rejection) {
+    case 401: return 'The proxy did not accept your staff access code. Check the code and sign in again.';
+    case 403: return 'The proxy refused this request: the model is not on its allowlist or access is denied.';
+    case 'staff-limit': return `You have reached your request limit. Wait ${retryAfterSeconds ? `${retryAfterSeconds}s` : 'a minute'} before trying again.`;
+    case 'quota': return 'The Gemini API quota is used up for now. Try again in a few minutes, or switch to the offline rule engine.';
+    default: return `The request was rejected with status ${rejection}.`;
+  }
+};
+
+/** The request was refused with a 4xx status that a retry will not change (bad access code, rate limit, ...). */
+export class RequestRejectedError extends Error {
+  readonly status: number;
+
+  constructor(readonly rejection: Rejection, retryAfterSeconds?: number) {
+    super(rejectionMessage(rejection, retryAfterSeconds));
+    this.name = 'RequestRejectedError';
+    this.status = rejection === 'staff-limit' || rejection === 'quota' ? 429 : rejection;
+  }
+}
+
+// The Gemini SDK surfaces HTTP failures as ApiError with a numeric `status` and the response
+// body, JSON-encoded, as its message.
+const httpStatus = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+const staffLimitRetryAfter = (error: unknown): number | undefined => {
+  const message = error instanceof Error ? error.message : '';
+  if (!message.includes(STAFF_RATE_LIMIT_REASON)) return undefined;
+  return Number(message.match(/"retryAfterSeconds":"(\d+)"/)?.[1] ?? 60);
+};
+
+// Client errors are final, except 408 (request timeout) and an upstream quota 429, which are worth
+// another attempt. Returns the rejection for final errors.
+const finalRejection = (error: unknown): RequestRejectedError | undefined => {
+  const status = httpStatus(error);
+  if (status === undefined || status < 400 || status >= 500 || status === 408) return undefined;
+  if (status !== 429) return new RequestRejectedError(status);
+  const retryAfter = staffLimitRetryAfter(error);
+  return retryAfter === undefined ? undefined : new RequestRejectedError('staff-limit', retryAfter);
+};
+
+export interface RetryOptions {
+  attempts: number;
+  baseDelayMs: number; // doubled after every failed attempt
+  timeoutMs: number; // per attempt
+  signal?: AbortSignal; // cancels the current attempt and stops further retries
+  onRetry?: (attempt: number, error: unknown) => void;
+}
+
+// Waits out the backoff, but rejects with CancelledError as soon as `signal` aborts.
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new CancelledError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Races `task` against a timeout and an optional cancellation signal. The task receives an
+ * AbortSignal that fires on either, so the underlying request is abandoned too.
+ */
+export const withTimeout = async <T>(task: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> => {
+  if (signal?.aborted) throw new CancelledError();
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort: (() => void) | undefined;
+
+  const guard = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new TimeoutError(timeoutMs));
+    }, timeoutMs);
+    onAbort = () => {
+      controller.abort();
+      reject(new CancelledError());
+    };
+    signal?.addEventListener('abort', onAbort);
+  });
+
+  try {
+    return await Promise.race([task(controller.signal), guard]);
+  } finally {
+    clearTimeout(timer);
+    if (onAbort) signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+/**
+ * Runs `task` with a per-attempt timeout, retrying with exponential backoff.
+ * Cancellation and 4xx responses are never retried, except 408 and an upstream quota 429.
+ */
+export const withRetry = async <T>(task: (signal: AbortSignal) => Promise<T>, options: RetryOptions): Promise<T> => {
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= options.attempts; attempt++) {
+    try {
+      return await withTimeout(task, options.timeoutMs, options.signal);
+    } catch (error) {
+      if (error instanceof CancelledError) throw error;
+      const rejection = finalRejection(error);
+      if (rejection) throw rejection;
+      lastError = error;
+      if (attempt < options.attempts) {
+        options.onRetry?.(attempt, error);
+        await sleep(options.baseDelayMs * 2 ** (attempt - 1), options.signal);
+      }
+    }
+  }
+
+  throw httpStatus(lastError) === 429 ? new RequestRejectedError('quota') : lastError;
+};
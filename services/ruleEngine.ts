@@ -0,0 +1,539 @@
+import {
+  AccidentData,
+  AnalysisProvider,
+  CollisionPartner,
+  ImpactType,
+  InferredParameter,
+  PatientPosition,
+  PredictedInjury,
+  TraumaAnalysis,
+  VehicleType,
+} from "../types";
+import { issRegionFor, normaliseRegion } from "./anatomy";
+import { assessPhysiology, hasVitals } from "./physiology";
+import { SEVERITY_LEVELS } from "./validation";
+
+export const RULE_ENGINE_VERSION = "rta-rules-v1";
+
+/**
+ * Crash mechanism as seen by the rules: structured intake values first, narrative keywords second.
+ */
+interface Mechanism {
+  patientVehicle?: VehicleType;
+  collisionPartner?: CollisionPartner;
+  impactType?: ImpactType;
+  patientPosition?: PatientPosition;
+  estimatedSpeedKmh?: number;
+  helmetUsed?: boolean;
+  seatbeltUsed?: boolean;
+  ejected?: boolean;
+}
+
+interface RuleInjury extends Omit<PredictedInjury, 'anatomicalRegion' | 'issRegion'> {
+  lifeThreatening?: boolean;
+}
+
+interface MechanismRule {
+  id: string;
+  description: string;
+  matches: (m: Mechanism) => boolean;
+  injuries: RuleInjury[];
+  actions: string[];
+}
+
+// Narrative keywords in English, Roman Urdu and Urdu script. The first matching entry wins.
+// Urdu-script alternatives sit outside the \b groups: \b only recognises Latin word characters,
+// so short words that are also common substrings get explicit lookarounds instead (بس also means
+// "just", so it only counts when followed by a postposition).
+const VEHICLE_KEYWORDS: [VehicleType, RegExp][] = [
+  ['Motorcycle', /\b(motor ?cycle|motorbike|bike|moter ?saikal|cd ?70|honda 125)\b|موٹر ?سائیکل|بائیک/i],
+  ['Rickshaw', /\b(rickshaw|riksha|chingchi|qingqi)\b|رکشہ|رکشا|چنگچی/i],
+  ['Bus/Wagon', /\b(bus|wagon|coaster|hiace|van)\b|(?<!\p{L})بس (?=سے|نے|کے|کی|میں|والے)|ویگن|کوسٹر/iu],
+  ['Truck', /\b(truck|dumper|trala|trailer|mazda|container)\b|ٹرک|ڈمپر|ٹرالا|ٹرالر|مزدا/i],
+  ['Tractor/Trolley', /\b(tractor|trolley|trali)\b|ٹریکٹر|ٹرالی/i],
+  ['Bicycle', /\b(bicycle|cycle|saikal)\b|سائیکل/i],
+  ['Car', /\b(car|gari|gaari|gaadi|jeep|suzuki|taxi)\b|گاڑی|(?<!\p{L})کار(?!\p{L})|جیپ|ٹیکسی/iu],
+];
+
+const POSITION_KEYWORDS: [PatientPosition, RegExp][] = [
+  ['Pedestrian', /\b(pedestrian|paidal|walking|road cross(ing)?|sarak par chal)|پیدل|سڑک پار/i],
+  ['Pillion', /\b(pillion|peeche baitha|peechay baitha|peeche bethi|behind the rider)\b|پیچھے بیٹھ/i],
+  ['Front Passenger', /\b(front (seat )?passenger|aage wali seat)\b|اگلی سیٹ|آگے والی سیٹ/i],
+  ['Rear Passenger', /\b(rear (seat )?passenger|back ?seat|pichli seat)\b|پچھلی سیٹ/i],
+  ['Driver/Rider', /\b(driver|rider|chala raha|chala rahi|driving)\b|ڈرائیور|چلا رہا|چلا رہی/i],
+];
+
+const IMPACT_KEYWORDS: [ImpactType, RegExp][] = [
+  ['Run-over', /\b(run over|ran over|kuchal|neeche aa gaya|under the (wheel|truck|bus))|کچل|نیچے آ گیا/i],
+  ['Rollover', /\b(roll(ed)? ?over|ulat gay[ia]|ult gay[ia]|palat gay[ia])|الٹ گئ|پلٹ گئ/i],
+  ['Side (T-bone)', /\b(side impact|t-?bone|bagal se|side se|side par)|سائیڈ سے|بغل سے/i],
+  ['Rear', /\b(rear[- ]end(ed)?|from behind|peeche se)|پیچھے سے/i],
+  ['Frontal', /\b(head[- ]on|frontal|samne se|saamne se|aamne saamne|takra gay[ia])|آمنے سامنے|سامنے سے|ٹکرا گئ|ٹکر/i],
+  ['Fall from Vehicle', /\b(fell|fall|gir gay[ia]|gira|phisal|slipped|skid)|گر گئ|گر گیا|پھسل/i],
+];
+
+const PARTNER_KEYWORDS: [CollisionPartner, RegExp][] = [
+  ['Fixed Object', /\b(pole|khamba|wall|deewar|tree|darakht|divider|barrier)\b|کھمبا|کھمبے|دیوار|درخت/i],
+  ...VEHICLE_KEYWORDS.filter(([v]) => v !== 'Bicycle'),
+];
+
+const findKeyword = <T>(text: string, table: [T, RegExp][]): { value: T; match: string } | null => {
+  for (const [value, pattern] of table) {
+    const match = text.match(pattern);
+    if (match) return { value, match: match[0] };
+  }
+  return null;
+};
+
+// Urdu text often uses Extended Arabic-Indic digits (۸۰); the speed pattern only knows ASCII.
+const normaliseDigits = (text: string): string =>
+  text.replace(/[\u06F0-\u06F9\u0660-\u0669]/g, d => String(d.charCodeAt(0) & 0xf));
+
+const inferMechanism = (data: AccidentData): { mechanism: Mechanism; inferred: InferredParameter[] } => {
+  const text = normaliseDigits(data.accidentDescription);
+  const inferred: InferredParameter[] = [];
+  const mechanism: Mechanism = {
+    patientVehicle: data.patientVehicle,
+    collisionPartner: data.collisionPartner,
+    impactType: data.impactType,
+    patientPosition: data.patientPosition,
+    estimatedSpeedKmh: data.estimatedSpeedKmh,
+    helmetUsed: data.helmetUsed,
+    seatbeltUsed: data.seatbeltUsed,
+    ejected: data.ejected,
+  };
+
+  if (!mechanism.patientPosition) {
+    const hit = findKeyword(text, POSITION_KEYWORDS);
+    if (hit) {
+      mechanism.patientPosition = hit.value;
+      inferred.push({ parameter: 'patientPosition', value: hit.value, rationale: `Keyword "${hit.match}" in narrative` });
+    }
+  }
+
+  if (!mechanism.patientVehicle && mechanism.patientPosition !== 'Pedestrian') {
+    const hit = findKeyword(text, VEHICLE_KEYWORDS);
+    if (hit) {
+      mechanism.patientVehicle = hit.value;
+      inferred.push({ parameter: 'patientVehicle', value: hit.value, rationale: `Keyword "${hit.match}" in narrative` });
+    }
+  }
+
+  if (!mechanism.collisionPartner) {
+    // The patient's own vehicle is usually named first; look for a different one after it.
+    const hit = findKeyword(text, PARTNER_KEYWORDS.filter(([v]) => v !== mechanism.patientVehicle));
+    if (hit) {
+      mechanism.collisionPartner = hit.value;
+      inferred.push({ parameter: 'collisionPartner', value: hit.value, rationale: `Keyword "${hit.match}" in narrative` });
+    }
+  }
+
+  if (!mechanism.impactType) {
+    const hit = findKeyword(text, IMPACT_KEYWORDS);
+    if (hit) {
+      mechanism.impactType = hit.value;
+      inferred.push({ parameter: 'impactType', value: hit.value, rationale: `Keyword "${hit.match}" in narrative` });
+    }
+  }
+
+  if (mechanism.estimatedSpeedKmh === undefined) {
+    const match = text.match(/(\d{2,3})\s*(km\/?h|kmph|ki raftar|ki speed|کلومیٹر|کی رفتار)/i);
+    if (match) {
+      mechanism.estimatedSpeedKmh = Number(match[1]);
+      inferred.push({ parameter: 'estimatedSpeedKmh', value: `${match[1]} km/h`, rationale: `"${match[0]}" in narrative` });
+    }
+  }
+
+  if (mechanism.helmetUsed === undefined) {
+    if (/\b(without (a )?helmet|no helmet|helmet nahi|bina helmet|unhelmeted)|ہیلمٹ نہیں|بغیر ہیلمٹ/i.test(text)) {
+      mechanism.helmetUsed = false;
+      inferred.push({ parameter: 'helmetUsed', value: 'Not worn', rationale: 'Narrative states no helmet' });
+    } else if (/\b(wearing (a )?helmet|helmet (pehna|pehen|was worn|on))|ہیلمٹ پہن/i.test(text)) {
+      mechanism.helmetUsed = true;
+      inferred.push({ parameter: 'helmetUsed', value: 'Worn', rationale: 'Narrative states helmet worn' });
+    }
+  }
+
+  if (mechanism.seatbeltUsed === undefined) {
+    if (/\b(without (a )?seat ?belt|no seat ?belt|unrestrained|belt nahi)|بیلٹ نہیں/i.test(text)) {
+      mechanism.seatbeltUsed = false;
+      inferred.push({ parameter: 'seatbeltUsed', value: 'Not worn', rationale: 'Narrative states no seatbelt' });
+    } else if (/\b(seat ?belt (on|worn|laga)|restrained|wearing (a )?seat ?belt)/i.test(text)) {
+      mechanism.seatbeltUsed = true;
+      inferred.push({ parameter: 'seatbeltUsed', value: 'Worn', rationale: 'Narrative states seatbelt worn' });
+    }
+  }
+
+  if (mechanism.ejected === undefined && /\b(thrown|ejected|hawa mein|door ja gira|uchal)|ہوا میں|اچھل|دور جا گرا/i.test(text)) {
+    mechanism.ejected = true;
+    inferred.push({ parameter: 'ejected', value: 'Yes', rationale: 'Narrative describes the patient being thrown' });
+  }
+
+  return { mechanism, inferred };
+};
+
+const isRider = (m: Mechanism) =>
+  m.patientVehicle === 'Motorcycle' && m.patientPosition !== 'Pedestrian';
+const isCarOccupant = (m: Mechanism) =>
+  (m.patientVehicle === 'Car' || m.patientVehicle === 'Bus/Wagon' || m.patientVehicle === 'Rickshaw' || m.patientVehicle === 'Truck')
+  && m.patientPosition !== 'Pedestrian';
+const isLargeVehicle = (p?: CollisionPartner) =>
+  p === 'Truck' || p === 'Bus/Wagon' || p === 'Tractor/Trolley';
+
+const RULES: MechanismRule[] = [
+  {
+    id: 'motorcycle-side-impact',
+    description: 'Motorcycle rider struck side-on by a car or heavier vehicle',
+    matches: m => isRider(m) && m.impactType === 'Side (T-bone)',
+    injuries: [
+      {
+        bodyRegion: 'Pelvis', injuryName: 'Lateral compression pelvic fracture', probability: 0.6, aisSeverity: 3, lifeThreatening: true,
+        physicsExplanation: 'Lateral impact load is delivered directly to the iliac wing while the rider\'s inertia resists sideways acceleration.',
+        anatomyVulnerability: 'The pelvic ring fails in lateral compression; disruption of the posterior venous plexus causes major haemorrhage.',
+      },
+      {
+        bodyRegion: 'Lower Limb', injuryName: 'Femoral shaft fracture', probability: 0.55, aisSeverity: 3,
+        physicsExplanation: 'The bumper height of a car matches the rider\'s thigh, concentrating impact force as a three-point bending load.',
+        anatomyVulnerability: 'The femoral diaphysis fractures under bending; closed fractures can sequester 1–1.5 L of blood.',
+      },
+      {
+        bodyRegion: 'Head', injuryName: 'Traumatic brain injury (contusion / subdural haematoma)', probability: 0.45, aisSeverity: 4, lifeThreatening: true,
+        physicsExplanation: 'Secondary impact of the head against the bonnet or road after the rider is thrown laterally.',
+        anatomyVulnerability: 'Rapid deceleration of the skull with brain lag produces coup-contrecoup contusions and bridging-vein tears.',
+      },
+    ],
+    actions: ['Apply pelvic binder at the level of the greater trochanters', 'Splint femur with traction splint and assess distal pulses'],
+  },
+  {
+    id: 'motorcycle-frontal',
+    description: 'Motorcycle rider in a frontal collision',
+    matches: m => isRider(m) && (m.impactType === 'Frontal' || m.collisionPartner === 'Fixed Object'),
+    injuries: [
+      {
+        bodyRegion: 'Head', injuryName: 'Traumatic brain injury', probability: 0.5, aisSeverity: 4, lifeThreatening: true,
+        physicsExplanation: 'The rider continues forward at pre-impact speed (Newton\'s first law) and strikes the opposing vehicle or ground head first.',
+        anatomyVulnerability: 'The brain decelerates after the skull, causing diffuse axonal shear and contusions.',
+      },
+      {
+        bodyRegion: 'Pelvis', injuryName: 'Open-book pelvic injury (fuel tank)', probability: 0.35, aisSeverity: 4, lifeThreatening: true,
+        physicsExplanation: 'Forward sliding drives the pubic symphysis into the fuel tank, forcing the hemipelvises apart.',
+        anatomyVulnerability: 'Anteroposterior compression widens the symphysis and tears the sacroiliac ligaments and venous plexus.',
+      },
+      {
+        bodyRegion: 'Lower Limb', injuryName: 'Femoral fracture (handlebar)', probability: 0.4, aisSeverity: 3,
+        physicsExplanation: 'The thighs strike the handlebars as the rider pitches forward.',
+        anatomyVulnerability: 'Direct bending load on the femoral shaft.',
+      },
+      {
+        bodyRegion: 'Upper Limb', injuryName: 'Clavicle fracture', probability: 0.35, aisSeverity: 2,
+        physicsExplanation: 'Impact on the outstretched arm or shoulder transmits axial load to the clavicle.',
+        anatomyVulnerability: 'The mid-third of the clavicle is the weakest point of the shoulder girdle.',
+      },
+    ],
+    actions: ['Full primary survey with C-spine protection', 'Pelvic X-ray in resuscitation bay'],
+  },
+  {
+    id: 'motorcycle-fall',
+    description: 'Motorcycle rider or pillion falling or skidding',
+    matches: m => m.patientVehicle === 'Motorcycle' && (m.impactType === 'Fall from Vehicle' || m.collisionPartner === 'None (Skid/Fall)'),
+    injuries: [
+      {
+        bodyRegion: 'Upper Limb', injuryName: 'Distal radius fracture (FOOSH)', probability: 0.4, aisSeverity: 2,
+        physicsExplanation: 'The outstretched hand absorbs the body\'s kinetic energy on landing.',
+        anatomyVulnerability: 'Metaphyseal bone of the distal radius fails in compression and dorsal angulation.',
+      },
+      {
+        bodyRegion: 'Skin/Soft Tissue', injuryName: 'Road-rash abrasion and degloving', probability: 0.6, aisSeverity: 2,
+        physicsExplanation: 'Sliding friction against the road surface converts kinetic energy into shear on the skin.',
+        anatomyVulnerability: 'Shear separates skin and subcutaneous tissue from deep fascia.',
+      },
+      {
+        bodyRegion: 'Head', injuryName: 'Scalp laceration / skull fracture', probability: 0.3, aisSeverity: 2, lifeThreatening: true,
+        physicsExplanation: 'The head strikes the road after a fall from seat height with forward velocity.',
+        anatomyVulnerability: 'The temporoparietal skull is thin; underlying middle meningeal artery is at risk.',
+      },
+    ],
+    actions: ['Wound irrigation and tetanus prophylaxis', 'Neurovascular check of injured limbs'],
+  },
+  {
+    id: 'pedestrian-car',
+    description: 'Pedestrian struck by a car',
+    matches: m => m.patientPosition === 'Pedestrian' && !isLargeVehicle(m.collisionPartner) && m.impactType !== 'Run-over',
+    injuries: [
+      {
+        bodyRegion: 'Lower Limb', injuryName: 'Tibial plateau / tibial shaft fracture (bumper)', probability: 0.6, aisSeverity: 2,
+        physicsExplanation: 'The bumper delivers the primary impact below the pedestrian\'s centre of mass.',
+        anatomyVulnerability: 'The proximal tibia is at bumper height and fails in valgus or bending.',
+      },
+      {
+        bodyRegion: 'Chest', injuryName: 'Rib fractures / pulmonary contusion (bonnet)', probability: 0.35, aisSeverity: 3, lifeThreatening: true,
+        physicsExplanation: 'The torso rotates onto the bonnet as the legs are swept away (Waddell\'s triad).',
+        anatomyVulnerability: 'Ribs fracture under direct compression, bruising the underlying lung.',
+      },
+      {
+        bodyRegion: 'Head', injuryName: 'Traumatic brain injury (windscreen / ground)', probability: 0.5, aisSeverity: 4, lifeThreatening: true,
+        physicsExplanation: 'The head strikes the windscreen and then the ground in a secondary impact.',
+        anatomyVulnerability: 'Acceleration-deceleration causes contusions and subdural bleeding.',
+      },
+    ],
+    actions: ['Assess for Waddell\'s triad: leg, torso and head', 'CT head if any loss of consciousness'],
+  },
+  {
+    id: 'pedestrian-heavy-vehicle',
+    description: 'Pedestrian struck or run over by a heavy vehicle',
+    matches: m => m.patientPosition === 'Pedestrian' && (isLargeVehicle(m.collisionPartner) || m.impactType === 'Run-over'),
+    injuries: [
+      {
+        bodyRegion: 'Pelvis', injuryName: 'Pelvic crush injury', probability: 0.55, aisSeverity: 5, lifeThreatening: true,
+        physicsExplanation: 'Wheel load (several tonnes) compresses the pelvis against the road.',
+        anatomyVulnerability: 'Pelvic ring disruption with massive retroperitoneal haemorrhage.',
+      },
+      {
+        bodyRegion: 'Abdomen', injuryName: 'Solid organ injury (liver / spleen)', probability: 0.45, aisSeverity: 3, lifeThreatening: true,
+        physicsExplanation: 'High-energy compression of the abdomen between vehicle and ground.',
+        anatomyVulnerability: 'The liver and spleen are friable, encapsulated organs that burst under compression.',
+      },
+      {
+        bodyRegion: 'Chest', injuryName: 'Flail chest / haemothorax', probability: 0.4, aisSeverity: 4, lifeThreatening: true,
+        physicsExplanation: 'Front-end impact from a high bumper lands on the thorax.',
+        anatomyVulnerability: 'Segmental rib fractures with intercostal vessel and lung injury.',
+      },
+    ],
+    actions: ['Activate massive transfusion protocol if haemodynamically unstable', 'Pelvic binder and eFAST'],
+  },
+  {
+    id: 'occupant-frontal-unrestrained',
+    description: 'Unrestrained vehicle occupant in a frontal collision',
+    matches: m => isCarOccupant(m) && m.impactType === 'Frontal' && m.seatbeltUsed !== true,
+    injuries: [
+      {
+        bodyRegion: 'Head', injuryName: 'Traumatic brain injury (windscreen)', probability: 0.5, aisSeverity: 4, lifeThreatening: true,
+        physicsExplanation: 'Without restraint the occupant keeps moving at vehicle speed and strikes the windscreen.',
+        anatomyVulnerability: 'Frontal contusions and diffuse axonal injury from abrupt deceleration.',
+      },
+      {
+        bodyRegion: 'Chest', injuryName: 'Rib fractures / myocardial contusion (steering wheel)', probability: 0.4, aisSeverity: 3, lifeThreatening: true,
+        physicsExplanation: 'The chest strikes the steering wheel; force is concentrated over a small area.',
+        anatomyVulnerability: 'The anterior chest wall transmits force to the right ventricle behind the sternum.',
+      },
+      {
+        bodyRegion: 'Lower Limb', injuryName: 'Posterior hip dislocation (dashboard)', probability: 0.35, aisSeverity: 2,
+        physicsExplanation: 'The flexed knee strikes the dashboard, driving the femur backwards along its axis.',
+        anatomyVulnerability: 'With the hip flexed and adducted, the femoral head is pushed out of the acetabulum.',
+      },
+    ],
+    actions: ['ECG and troponin for suspected myocardial contusion', 'Examine knee-femur-hip chain'],
+  },
+  {
+    id: 'occupant-frontal-restrained',
+    description: 'Restrained vehicle occupant in a frontal collision',
+    matches: m => isCarOccupant(m) && m.impactType === 'Frontal' && m.seatbeltUsed === true,
+    injuries: [
+      {
+        bodyRegion: 'Chest', injuryName: 'Sternal fracture / seatbelt contusion', probability: 0.35, aisSeverity: 2,
+        physicsExplanation: 'The shoulder belt concentrates deceleration force across the sternum and clavicle.',
+        anatomyVulnerability: 'The sternum sits directly beneath the diagonal belt path.',
+      },
+      {
+        bodyRegion: 'Abdomen', injuryName: 'Hollow viscus / mesenteric injury (seatbelt sign)', probability: 0.25, aisSeverity: 3, lifeThreatening: true,
+        physicsExplanation: 'The lap belt compresses bowel against the spine as the torso flexes forward.',
+        anatomyVulnerability: 'Mobile bowel loops and mesentery tear against the fixed vertebral column.',
+      },
+      {
+        bodyRegion: 'Spine', injuryName: 'Flexion-distraction (Chance) fracture', probability: 0.15, aisSeverity: 3,
+        physicsExplanation: 'The lap belt acts as a fulcrum for forward flexion of the upper body.',
+        anatomyVulnerability: 'Thoracolumbar junction fails in tension posteriorly.',
+      },
+    ],
+    actions: ['Look for seatbelt sign and serial abdominal examination'],
+  },
+  {
+    id: 'occupant-side-impact',
+    description: 'Vehicle occupant in a side impact',
+    matches: m => isCarOccupant(m) && m.impactType === 'Side (T-bone)',
+    injuries: [
+      {
+        bodyRegion: 'Chest', injuryName: 'Lateral rib fractures with pneumothorax', probability: 0.45, aisSeverity: 3, lifeThreatening: true,
+        physicsExplanation: 'Door intrusion loads the lateral chest wall with little crush space to absorb energy.',
+        anatomyVulnerability: 'Lateral ribs fracture and puncture the pleura.',
+      },
+      {
+        bodyRegion: 'Abdomen', injuryName: 'Splenic or hepatic laceration', probability: 0.35, aisSeverity: 3, lifeThreatening: true,
+        physicsExplanation: 'The lower ribs are driven inward against the solid organs on the struck side.',
+        anatomyVulnerability: 'The spleen (left) and liver (right) sit under the lower rib cage.',
+      },
+      {
+        bodyRegion: 'Pelvis', injuryName: 'Acetabular / lateral compression pelvic fracture', probability: 0.4, aisSeverity: 3, lifeThreatening: true,
+        physicsExplanation: 'The door panel drives the greater trochanter medially.',
+        anatomyVulnerability: 'The femoral head is forced into the acetabulum.',
+      },
+    ],
+    actions: ['eFAST for haemoperitoneum and pneumothorax'],
+  },
+  {
+    id: 'occupant-rear-impact',
+    description: 'Vehicle occupant in a rear-end collision',
+    matches: m => isCarOccupant(m) && m.impactType === 'Rear',
+    injuries: [
+      {
+        bodyRegion: 'Neck', injuryName: 'Cervical hyperextension (whiplash) injury', probability: 0.55, aisSeverity: 1,
+        physicsExplanation: 'The torso is pushed forward by the seat while the head lags behind.',
+        anatomyVulnerability: 'The cervical spine is forced into hyperextension and then flexion.',
+      },
+    ],
+    actions: ['Apply Canadian C-spine rule before clearing the neck'],
+  },
+  {
+    id: 'rollover',
+    description: 'Vehicle rollover',
+    matches: m => m.impactType === 'Rollover',
+    injuries: [
+      {
+        bodyRegion: 'Neck', injuryName: 'Cervical spine fracture (roof crush)', probability: 0.35, aisSeverity: 3, lifeThreatening: true,
+        physicsExplanation: 'The roof deforms onto the occupant, loading the head and neck axially.',
+        anatomyVulnerability: 'Axial loading of the cervical spine causes burst or compression fractures.',
+      },
+      {
+        bodyRegion: 'Head', injuryName: 'Traumatic brain injury', probability: 0.4, aisSeverity: 4, lifeThreatening: true,
+        physicsExplanation: 'Repeated multidirectional impacts against the interior.',
+        anatomyVulnerability: 'Rotational acceleration causes diffuse axonal injury.',
+      },
+    ],
+    actions: ['Full spinal motion restriction until cleared'],
+  },
+  {
+    id: 'ejection',
+    description: 'Patient ejected or thrown from the vehicle',
+    matches: m => m.ejected === true,
+    injuries: [
+      {
+        bodyRegion: 'Spine', injuryName: 'Thoracolumbar spine fracture', probability: 0.3, aisSeverity: 3, lifeThreatening: true,
+        physicsExplanation: 'Uncontrolled landing after ejection concentrates energy on the spine.',
+        anatomyVulnerability: 'The thoracolumbar junction is the transition between rigid and mobile segments.',
+      },
+      {
+        bodyRegion: 'Chest', injuryName: 'Blunt thoracic aortic injury', probability: 0.1, aisSeverity: 5, lifeThreatening: true,
+        physicsExplanation: 'Sudden deceleration on landing produces shear at the aortic isthmus.',
+        anatomyVulnerability: 'The aorta is tethered at the ligamentum arteriosum.',
+      },
+    ],
+    actions: ['Treat as major trauma: trauma team activation', 'CT pan-scan when stable'],
+  },
+];
+
+// Catch-all used when the narrative gives too little to match a specific mechanism.
+const GENERIC_RULE: MechanismRule = {
+  id: 'generic-blunt-trauma',
+  description: 'Unspecified blunt road traffic trauma',
+  matches: () => true,
+  injuries: [
+    {
+      bodyRegion: 'Head', injuryName: 'Minor head injury', probability: 0.3, aisSeverity: 2,
+      physicsExplanation: 'Mechanism not specified; head impact is the commonest injury in road traffic trauma.',
+      anatomyVulnerability: 'The head is the most exposed body region in any fall or collision.',
+    },
+    {
+      bodyRegion: 'Lower Limb', injuryName: 'Lower limb fracture', probability: 0.25, aisSeverity: 2,
+      physicsExplanation: 'Limbs are the first point of contact in most collisions.',
+      anatomyVulnerability: 'Long bones fail under bending load.',
+    },
+    {
+      bodyRegion: 'Chest', injuryName: 'Chest wall contusion / rib fracture', probability: 0.2, aisSeverity: 1,
+      physicsExplanation: 'Blunt impact to the torso.',
+      anatomyVulnerability: 'The chest wall absorbs direct impacts.',
+    },
+  ],
+  actions: ['Full primary and secondary survey to define the mechanism'],
+};
+
+// Kinetic energy scales with v², so probabilities are scaled by a coarse speed band rather than linearly.
+const speedFactor = (speed?: number): number => {
+  if (speed === undefined) return 1;
+  if (speed < 30) return 0.7;
+  if (speed <= 60) return 1;
+  if (speed <= 90) return 1.2;
+  return 1.35;
+};
+
+const helmetFactor = (injury: RuleInjury, m: Mechanism): number => {
+  if (injury.bodyRegion !== 'Head' || m.patientVehicle !== 'Motorcycle') return 1;
+  if (m.helmetUsed === true) return 0.6;
+  if (m.helmetUsed === false) return 1.25;
+  return 1;
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const deriveSeverity = (injuries: RuleInjury[], m: Mechanism): TraumaAnalysis['severityScore'] => {
+  const maxLethal = Math.max(0, ...injuries.filter(i => i.lifeThreatening).map(i => i.probability));
+  const maxAny = Math.max(0, ...injuries.map(i => i.probability));
+  if (maxLethal >= 0.6 || (m.ejected && maxLethal >= 0.3)) return 'Critical';
+  if (maxLethal >= 0.35 || maxAny >= 0.7) return 'High';
+  if (maxAny >= 0.4) return 'Moderate';
+  return 'Low';
+};
+
+// Physiological instability raises the mechanism-based severity to at least High, never lowers it.
+const applyPhysiology = (severity: TraumaAnalysis['severityScore'], unstable: boolean): TraumaAnalysis['severityScore'] =>
+  unstable && SEVERITY_LEVELS.indexOf(severity) < SEVERITY_LEVELS.indexOf('High') ? 'High' : severity;
+
+const describeMechanism = (m: Mechanism): string => {
+  const parts: string[] = [];
+  if (m.patientPosition) parts.push(m.patientPosition.toLowerCase());
+  if (m.patientVehicle) parts.push(`on/in ${m.patientVehicle.toLowerCase()}`);
+  if (m.impactType) parts.push(`${m.impactType.toLowerCase()} mechanism`);
+  if (m.collisionPartner) parts.push(`with ${m.collisionPartner.toLowerCase()}`);
+  if (m.estimatedSpeedKmh !== undefined) parts.push(`at ~${m.estimatedSpeedKmh} km/h`);
+  return parts.length ? parts.join(' ') : 'unspecified mechanism';
+};
+
+/**
+ * Deterministic, offline analysis from mechanism-to-injury rules. Same input always gives the same output.
+ */
+export const analyzeWithRules = async (data: AccidentData): Promise<TraumaAnalysis> => {
+  const { mechanism, inferred } = inferMechanism(data);
+  const matched = RULES.filter(rule => rule.matches(mechanism));
+  const rules = matched.length ? matched : [GENERIC_RULE];
+
+  const byName = new Map<string, RuleInjury>();
+  for (const rule of rules) {
+    for (const injury of rule.injuries) {
+      const probability = round2(Math.min(0.95, injury.probability * speedFactor(mechanism.estimatedSpeedKmh) * helmetFactor(injury, mechanism)));
+      const existing = byName.get(injury.injuryName);
+      if (!existing || existing.probability < probability) {
+        byName.set(injury.injuryName, { ...injury, probability });
+      }
+    }
+  }
+  const injuries = [...byName.values()].sort((a, b) => b.probability - a.probability);
+
+  const physiology = hasVitals(data.vitals) ? assessPhysiology(data.vitals) : null;
+  const actions = ['ATLS primary survey (ABCDE) with C-spine protection'];
+  if (physiology?.unstable) {
+    actions.unshift('Physiologically unstable: activate trauma team and start haemorrhage control');
+  }
+  for (const rule of rules) {
+    for (const action of rule.actions) {
+      if (!actions.includes(action)) actions.push(action);
+    }
+  }
+
+  return {
+    summary: `Rule-based estimate for ${describeMechanism(mechanism)}. Matched mechanism rules: ${rules.map(r => r.description).join('; ')}.`,
+    severityScore: applyPhysiology(deriveSeverity(injuries, mechanism), physiology?.unstable ?? false),
+    predictedInjuries: injuries.map(({ lifeThreatening, ...injury }) => {
+      const anatomicalRegion = normaliseRegion(injury.bodyRegion, injury.injuryName);
+      return { ...injury, anatomicalRegion, issRegion: issRegionFor(anatomicalRegion, injury.injuryName) };
+    }),
+    immediateActions: actions,
+    inferredParameters: inferred,
+  };
+};
+
+export const ruleEngineProvider: AnalysisProvider = {
+  id: 'rule-engine',
+  label: 'Offline Rule Engine',
+  model: RULE_ENGINE_VERSION,
+  requiresNetwork: false,
+  analyze: analyzeWithRules,
+};
@@ -0,0 +1,38 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AccidentData, TraumaAnalysis } from '../types';
+import { applyPopulationRules } from './specialPopulations';
+import { analysis, injury } from './testing';
+
+const headInjury = (injuryName: string, probability: number) => injury(injuryName, 'Head', probability);
+
+const ON_WARFARIN: AccidentData = { accidentDescription: 'Fell from a motorcycle and hit the head', patient: { ageYears: 50, anticoagulation: 'Warfarin' } };
+
+const names = (result: TraumaAnalysis) => result.predictedInjuries.map(i => [i.injuryName, i.probability, i.populationRule]);
+
+describe('anticoagulated head rule', () => {
+  for (const name of ['Acute SDH', 'Cerebral contusion', 'Traumatic subarachnoid haemorrhage', 'Extradural haematoma']) {
+    it(`raises an existing "${name}" instead of adding a second bleed`, () => {
+      const result = applyPopulationRules(analysis([headInjury(name, 0.1)]), ON_WARFARIN);
+      assert.deepEqual(names(result), [[name, 0.25, 'anticoag-head']]);
+    });
+  }
+
+  it('raises the likeliest of several bleeds and leaves a likelier one alone', () => {
+    const result = applyPopulationRules(analysis([headInjury('SDH', 0.1), headInjury('Cerebral contusion', 0.2)]), ON_WARFARIN);
+    assert.deepEqual(names(result), [['SDH', 0.1, undefined], ['Cerebral contusion', 0.25, 'anticoag-head']]);
+
+    const likely = applyPopulationRules(analysis([headInjury('Intracerebral haemorrhage', 0.6)]), ON_WARFARIN);
+    assert.deepEqual(names(likely), [['Intracerebral haemorrhage', 0.6, undefined]]);
+  });
+
+  it('adds the bleed when the head injuries are only extracranial', () => {
+    const result = applyPopulationRules(analysis([headInjury('Scalp haematoma', 0.7)]), ON_WARFARIN);
+    assert.deepEqual(names(result), [
+      ['Scalp haematoma', 0.7, undefined],
+      ['Intracranial haemorrhage (anticoagulated)', 0.25, 'anticoag-head'],
+    ]);
+    // Idempotent: a second pass neither duplicates nor changes it.
+    assert.deepEqual(names(applyPopulationRules(result, ON_WARFARIN)), names(result));
+  });
+});
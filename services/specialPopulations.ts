@@ -0,0 +1,291 @@
+import {
+  AccidentData,
+  Anticoagulation,
+  Comorbidity,
+  PatientProfile,
+  PatientSex,
+  PopulationWarning,
+  PredictedInjury,
+  SpecialPopulation,
+  TraumaAnalysis,
+} from "../types";
+import { issRegionFor, normaliseRegion } from "./anatomy";
+
+// Deterministic special-population rules. They are given to the model as instructions and, whatever
+// the provider, applied again to its answer, so every finding a rule adds is traceable to that rule.
+
+export const PATIENT_SEXES: PatientSex[] = ['Male', 'Female'];
+
+export const ANTICOAGULATION_OPTIONS: Anticoagulation[] = [
+  'None', 'Warfarin', 'DOAC', 'Heparin/LMWH', 'Antiplatelet (not aspirin alone)', 'Aspirin only',
+];
+
+export const COMORBIDITIES: Comorbidity[] = [
+  'Osteoporosis', 'Bleeding disorder', 'Chronic liver disease', 'Chronic kidney disease', 'Heart failure', 'COPD', 'Diabetes', 'Dementia',
+];
+
+// Agents that change head-injury imaging and haemorrhage management. Aspirin alone does not.
+const BLEEDING_RISK_AGENTS: Anticoagulation[] = ['Warfarin', 'DOAC', 'Heparin/LMWH', 'Antiplatelet (not aspirin alone)'];
+
+const BLEEDING_RISK_CONDITIONS: Comorbidity[] = ['Bleeding disorder', 'Chronic liver disease'];
+
+export const PAEDIATRIC_AGE = 16;
+export const GERIATRIC_AGE = 65;
+
+// The uterus is an abdominal organ from about 20 weeks; unknown gestation is treated as past it.
+const ABDOMINAL_UTERUS_WEEKS = 20;
+
+// The recorded drugs and conditions that impair clotting; empty when there are none.
+export const bleedingRisks = (patient: PatientProfile = {}): string[] => [
+  ...(patient.anticoagulation && BLEEDING_RISK_AGENTS.includes(patient.anticoagulation) ? [patient.anticoagulation] : []),
+  ...(patient.comorbidities ?? []).filter(c => BLEEDING_RISK_CONDITIONS.includes(c)),
+];
+
+const hasBleedingRisk = (patient: PatientProfile) => bleedingRisks(patient).length > 0;
+
+interface PopulationInjury extends Omit<PredictedInjury, 'anatomicalRegion' | 'issRegion' | 'populationRule'> {
+  matches: RegExp; // the same injury as another provider might word it
+  excludes?: RegExp; // names `matches` would catch that are a different injury
+}
+
+export interface PopulationRule {
+  id: string;
+  population: SpecialPopulation;
+  title: string;
+  detail: string; // shown to the clinician and given to the model
+  reference: string;
+  applies: (patient: PatientProfile) => boolean;
+  injuries: PopulationInjury[]; // added, or raised to this probability, when the rule applies
+  actions: string[];
+}
+
+const isChild = (p: PatientProfile) => p.ageYears !== undefined && p.ageYears < PAEDIATRIC_AGE;
+const isOlder = (p: PatientProfile) => p.ageYears !== undefined && p.ageYears >= GERIATRIC_AGE;
+
+export const POPULATION_RULES: PopulationRule[] = [
+  {
+    id: 'paed-chest-wall',
+    population: 'Paediatric',
+    title: 'Pliable paediatric chest wall',
+    detail: 'A child\'s ribs bend rather than break, so lung contusion is common without rib fractures and a rib fracture means high energy. Vital signs stay normal until late in shock.',
+    reference: 'ATLS 10th ed., paediatric trauma',
+    applies: isChild,
+    injuries: [
+      {
+        bodyRegion: 'Chest', injuryName: 'Pulmonary contusion without rib fracture', probability: 0.3, aisSeverity: 3,
+        matches: /(pulmonary|lung) contusion/i,
+        physicsExplanation: 'Impact energy passes through the compliant chest wall to the lung instead of being absorbed by fracturing ribs.',
+        anatomyVulnerability: 'Cartilaginous, elastic ribs deform inwards and bruise the underlying lung parenchyma.',
+      },
+    ],
+    actions: ['Use age-specific vital sign ranges and weight-based (length tape) dosing'],
+  },
+  {
+    id: 'paed-abdomen',
+    population: 'Paediatric',
+    title: 'Exposed paediatric abdominal organs',
+    detail: 'The liver and spleen are larger and less covered by the rib cage, and a child restrained by an adult lap belt is at risk of bowel and lumbar flexion-distraction injury.',
+    reference: 'ATLS 10th ed., paediatric trauma',
+    applies: isChild,
+    injuries: [
+      {
+        bodyRegion: 'Abdomen', injuryName: 'Solid organ injury (liver / spleen)', probability: 0.25, aisSeverity: 3,
+        matches: /liver|spleen|splenic|hepatic|solid organ/i,
+        physicsExplanation: 'Direct abdominal load reaches the solid organs with little rib or muscle protection.',
+        anatomyVulnerability: 'Proportionally large liver and spleen project below the costal margin.',
+      },
+    ],
+    actions: ['Serial abdominal examination; stable children with solid organ injury are usually managed non-operatively'],
+  },
+  {
+    id: 'paed-infant-head',
+    population: 'Paediatric',
+    title: 'Infant head (under 2 years)',
+    detail: 'A large head on a weak neck and a thin skull raise the risk of skull fracture and intracranial injury; a non-frontal scalp haematoma is a PECARN predictor. Consider non-accidental injury if the mechanism does not explain the findings.',
+    reference: 'PECARN (Kuppermann et al., Lancet 2009)',
+    applies: p => p.ageYears !== undefined && p.ageYears < 2,
+    injuries: [
+      {
+        bodyRegion: 'Head', injuryName: 'Skull fracture with intracranial injury', probability: 0.25, aisSeverity: 3,
+        matches: /skull|intracranial|brain|subdural|extradural|epidural/i,
+        physicsExplanation: 'The head carries a large share of body mass, so it leads and takes the impact in falls and collisions.',
+        anatomyVulnerability: 'The thin, incompletely ossified skull deforms into the brain and fractures at lower energy.',
+      },
+    ],
+    actions: ['Apply the PECARN under-2 rule before deciding on CT head'],
+  },
+  {
+    id: 'geri-fragility',
+    population: 'Geriatric',
+    title: 'Osteoporotic bone',
+    detail: 'Osteoporotic bone breaks at lower energy, so low-speed crashes and falls still fracture ribs, hips and vertebrae. Each additional rib fracture raises the risk of pneumonia and death.',
+    reference: 'EAST guideline, geriatric trauma',
+    applies: p => isOlder(p) || (p.comorbidities ?? []).includes('Osteoporosis'),
+    injuries: [
+      {
+        bodyRegion: 'Chest', injuryName: 'Multiple rib fractures (osteoporotic)', probability: 0.4, aisSeverity: 3,
+        matches: /\brib/i,
+        physicsExplanation: 'Forces that a younger chest wall absorbs elastically exceed the failure load of thinned cortical bone.',
+        anatomyVulnerability: 'Reduced bone density and a stiffer, less compliant rib cage fracture at several levels.',
+      },
+    ],
+    actions: ['Early analgesia and incentive spirometry for rib fractures; consider a regional block'],
+  },
+  {
+    id: 'geri-cervical',
+    population: 'Geriatric',
+    title: 'Older cervical spine',
+    detail: 'Older adults fracture the upper cervical spine (odontoid, C2) from low falls, and a degenerate canal gives central cord injury after hyperextension with normal X-rays.',
+    reference: 'Canadian C-Spine Rule (Stiell et al., JAMA 2001)',
+    applies: isOlder,
+    injuries: [
+      {
+        bodyRegion: 'Neck', injuryName: 'Odontoid (C2) fracture', probability: 0.2, aisSeverity: 3,
+        matches: /odontoid|\bdens\b|\bc2\b|cervical (spine )?fracture/i,
+        physicsExplanation: 'Hyperextension or a direct blow to the face loads the upper cervical spine.',
+        anatomyVulnerability: 'The osteoporotic dens is the weak point of a spine stiffened by degeneration below it.',
+      },
+    ],
+    actions: ['CT cervical spine rather than plain films'],
+  },
+  {
+    id: 'geri-masked-shock',
+    population: 'Geriatric',
+    title: 'Masked shock in older adults',
+    detail: 'Heart rate and blood pressure underestimate blood loss: a systolic below 110 mmHg may already be shock. Ask what happened before the crash, since syncope, arrhythmia or stroke may have caused it.',
+    reference: 'ATLS 10th ed., geriatric trauma',
+    applies: isOlder,
+    injuries: [],
+    actions: ['Treat systolic BP < 110 mmHg as hypotension; check lactate or base deficit', 'ECG and glucose to look for a medical cause of the crash'],
+  },
+  {
+    id: 'med-beta-blocker',
+    population: 'Medication',
+    title: 'Beta blocker',
+    detail: 'Beta blockers blunt the tachycardic response to haemorrhage, so a normal heart rate does not exclude shock.',
+    reference: 'ATLS 10th ed., shock',
+    applies: p => p.betaBlocker === true,
+    injuries: [],
+    actions: ['Do not rely on heart rate to grade shock; check lactate or base deficit'],
+  },
+  {
+    id: 'preg-physiology',
+    population: 'Pregnancy',
+    title: 'Pregnancy physiology',
+    detail: 'Blood volume rises by up to 50%, so the mother may lose 30–35% before her vital signs change and foetal distress can be the first sign. From 20 weeks the supine uterus compresses the vena cava.',
+    reference: 'RCOG / ACOG guidance on trauma in pregnancy',
+    applies: p => p.pregnant === true,
+    injuries: [],
+    actions: ['Manual left uterine displacement or left lateral tilt from 20 weeks', 'Check Rh status; give anti-D if Rh-negative'],
+  },
+  {
+    id: 'preg-abruption',
+    population: 'Pregnancy',
+    title: 'Placental abruption',
+    detail: 'Shear between the rigid placenta and the elastic uterine wall causes abruption after impacts that leave the mother looking well, and a lap belt across the bump loads the uterus directly.',
+    reference: 'RCOG / ACOG guidance on trauma in pregnancy',
+    applies: p => p.pregnant === true && (p.gestationWeeks === undefined || p.gestationWeeks >= ABDOMINAL_UTERUS_WEEKS),
+    injuries: [
+      {
+        bodyRegion: 'Abdomen', injuryName: 'Placental abruption', probability: 0.2, aisSeverity: 4,
+        matches: /abruption|placent/i,
+        physicsExplanation: 'Deceleration deforms the elastic myometrium while the inelastic placenta cannot follow, shearing it off the wall.',
+        anatomyVulnerability: 'The placental bed is highly vascular; concealed bleeding threatens both foetus and mother.',
+      },
+    ],
+    actions: ['Continuous foetal monitoring (CTG) for at least 4 hours and obstetric review'],
+  },
+  {
+    id: 'anticoag-head',
+    population: 'Anticoagulated',
+    title: 'Anticoagulated or bleeding risk',
+    detail: 'Intracranial bleeding is more likely after any head impact, including minor ones, and may be delayed; bleeding elsewhere is harder to control.',
+    reference: 'NICE NG232, head injury (2023)',
+    applies: hasBleedingRisk,
+    injuries: [
+      {
+        bodyRegion: 'Head', injuryName: 'Intracranial haemorrhage (anticoagulated)', probability: 0.25, aisSeverity: 4,
+        // Any intracranial bleed, however the provider names or abbreviates it, but not a scalp haematoma.
+        matches: /intracranial|intracerebral|intraparenchymal|intraventricular|subdural|extradural|epidural|subarachnoid|ha?emorrhage|ha?ematoma|bleed|contusion|brain|cerebral|\b(?:ICH|SDH|EDH|SAH|IVH|TBI)\b/i,
+        excludes: /scalp|subgaleal|cephal(?:o|ic) ?ha?ematoma|periorbital/i,
+        physicsExplanation: 'Even low-energy head acceleration tears small vessels; impaired clotting lets a minor bleed expand.',
+        anatomyVulnerability: 'Bridging veins stretched by age or atrophy bleed into the subdural space without the normal clot to stop them.',
+      },
+    ],
+    actions: ['CT head within 8 hours of any head injury, even with GCS 15', 'Check INR / coagulation and prepare reversal for the agent taken'],
+  },
+];
+
+export const applicablePopulationRules = (patient: PatientProfile = {}): PopulationRule[] =>
+  POPULATION_RULES.filter(rule => rule.applies(patient));
+
+/**
+ * One line per recorded patient detail, for prompts and reports.
+ */
+export const describePatient = (patient: PatientProfile = {}): string[] => {
+  const lines: string[] = [];
+  if (patient.ageYears !== undefined) lines.push(`Age: ${patient.ageYears} years`);
+  if (patient.sex) lines.push(`Sex: ${patient.sex}`);
+  if (patient.pregnant) lines.push(`Pregnant${patient.gestationWeeks !== undefined ? `, ${patient.gestationWeeks} weeks` : ', gestation unknown'}`);
+  if (patient.anticoagulation) lines.push(`Anticoagulation: ${patient.anticoagulation}`);
+  if (patient.betaBlocker !== undefined) lines.push(`Beta blocker: ${patient.betaBlocker ? 'Yes' : 'No'}`);
+  if (patient.comorbidities?.length) lines.push(`Comorbidities: ${patient.comorbidities.join(', ')}`);
+  return lines;
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Applies the special-population rules to an analysis from any provider. Each rule's injuries are
+ * added, or an existing prediction of the same injury raised to the rule's probability, and tagged
+ * with the rule id; each rule adds a warning and its actions. Tags naming a rule that does not apply
+ * are dropped. Idempotent, so a stored analysis can be passed through again.
+ */
+export const applyPopulationRules = (analysis: TraumaAnalysis, data: AccidentData): TraumaAnalysis => {
+  const rules = applicablePopulationRules(data.patient);
+  const ruleIds = new Set(rules.map(rule => rule.id));
+  const injuries = analysis.predictedInjuries.map(({ populationRule, ...injury }): PredictedInjury =>
+    populationRule && ruleIds.has(populationRule) ? { ...injury, populationRule } : injury
+  );
+  if (rules.length === 0) {
+    const { populationWarnings, ...rest } = analysis;
+    return { ...rest, predictedInjuries: injuries };
+  }
+
+  const actions = [...analysis.immediateActions];
+  for (const rule of rules) {
+    for (const added of rule.injuries) {
+      const { matches, excludes, ...injury } = added;
+      const anatomicalRegion = normaliseRegion(injury.bodyRegion, injury.injuryName);
+      // When the provider lists the injury more than once (SDH and contusion, say), the likeliest is raised.
+      let idx = -1;
+      injuries.forEach((i, j) => {
+        if (i.anatomicalRegion !== anatomicalRegion || !matches.test(i.injuryName) || excludes?.test(i.injuryName)) return;
+        if (idx === -1 || i.probability > injuries[idx].probability) idx = j;
+      });
+      if (idx === -1) {
+        injuries.push({ ...injury, anatomicalRegion, issRegion: issRegionFor(anatomicalRegion, injury.injuryName), populationRule: rule.id });
+      } else if (injuries[idx].probability < injury.probability) {
+        injuries[idx] = { ...injuries[idx], probability: round2(injury.probability), populationRule: rule.id };
+      }
+    }
+    for (const action of rule.actions) {
+      if (!actions.includes(action)) actions.push(action);
+    }
+  }
+
+  const populationWarnings: PopulationWarning[] = rules.map(rule => ({
+    ruleId: rule.id,
+    population: rule.population,
+    title: rule.title,
+    detail: rule.detail,
+    reference: rule.reference,
+  }));
+
+  return {
+    ...analysis,
+    predictedInjuries: injuries,
+    immediateActions: actions,
+    populationWarnings,
+  };
+};
@@ -0,0 +1,30 @@
+import { PredictedInjury, TraumaAnalysis } from "../types";
+import { issRegionFor } from "./anatomy";
+
+// Builders for the unit tests. Fields a test does not care about get neutral values.
+
+export const injury = (
+  injuryName: string,
+  anatomicalRegion: PredictedInjury['anatomicalRegion'],
+  probability: number,
+  overrides: Partial<PredictedInjury> = {}
+): PredictedInjury => ({
+  bodyRegion: anatomicalRegion,
+  anatomicalRegion,
+  injuryName,
+  probability,
+  aisSeverity: 3,
+  issRegion: issRegionFor(anatomicalRegion, injuryName),
+  physicsExplanation: '',
+  anatomyVulnerability: '',
+  ...overrides,
+});
+
+export const analysis = (predictedInjuries: PredictedInjury[], overrides: Partial<TraumaAnalysis> = {}): TraumaAnalysis => ({
+  summary: '',
+  predictedInjuries,
+  severityScore: 'High',
+  immediateActions: [],
+  inferredParameters: [],
+  ...overrides,
+});
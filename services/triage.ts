@@ -0,0 +1,129 @@
+import { TraumaAnalysis, TriageCategory, TriageMethod, TriageObservations, VitalSigns } from "../types";
+import { sanitiseVitals } from "./physiology";
+
+// Field triage for mass-casualty incidents. Deterministic, from bedside observations and vital
+// signs only; the predicted injuries are used to order patients within a category, never to triage.
+
+export interface TriageAssessment {
+  category?: TriageCategory; // undefined until enough has been observed
+  reasons: string[];
+  missing: string[]; // observations still needed to reach a category
+}
+
+export const TRIAGE_CATEGORIES: TriageCategory[] = ['Immediate', 'Delayed', 'Minimal', 'Expectant', 'Dead'];
+
+export const TRIAGE_COLOURS: Record<TriageCategory, string> = {
+  Immediate: 'Red',
+  Delayed: 'Yellow',
+  Minimal: 'Green',
+  Expectant: 'Grey',
+  Dead: 'Black',
+};
+
+const followsCommands = (obs: TriageObservations, vitals: VitalSigns): boolean | undefined =>
+  obs.followsCommands ?? (vitals.gcsMotor !== undefined ? vitals.gcsMotor === 6 : undefined);
+
+// A palpable radial pulse, or failing that a capillary refill of two seconds or less.
+const perfused = (obs: TriageObservations): boolean | undefined => {
+  if (obs.radialPulse === false || (obs.capillaryRefillSec ?? 0) > 2) return false;
+  if (obs.radialPulse === true || obs.capillaryRefillSec !== undefined) return true;
+  return undefined;
+};
+
+const apnoeic = (obs: TriageObservations, vitals: VitalSigns): TriageAssessment | null => {
+  if (vitals.respiratoryRate !== 0) return null;
+  if (obs.breathesAfterAirway === false) return { category: 'Dead', reasons: ['Not breathing after the airway was opened'], missing: [] };
+  if (obs.breathesAfterAirway === true) return { category: 'Immediate', reasons: ['Breathing only after the airway was opened'], missing: [] };
+  return { reasons: ['Not breathing'], missing: ['Breathing after opening the airway'] };
+};
+
+/**
+ * START (Simple Triage and Rapid Treatment). Walking patients are Minimal. A patient who is not yet
+ * known to be walking can still be triaged Immediate or Dead, but not Delayed.
+ */
+const startTriage = (obs: TriageObservations, vitals: VitalSigns): TriageAssessment => {
+  if (obs.walking) return { category: 'Minimal', reasons: ['Walking wounded'], missing: [] };
+  const apnoea = apnoeic(obs, vitals);
+  if (apnoea) return apnoea;
+
+  const reasons: string[] = [];
+  const missing: string[] = [];
+  const rr = vitals.respiratoryRate;
+  if (rr === undefined) missing.push('Respiratory rate');
+  else if (rr > 30) reasons.push(`Respiratory rate ${rr} > 30`);
+
+  const perfusion = perfused(obs);
+  if (perfusion === undefined) missing.push('Radial pulse or capillary refill');
+  else if (!perfusion) reasons.push(obs.radialPulse === false ? 'No radial pulse' : `Capillary refill ${obs.capillaryRefillSec} s > 2 s`);
+
+  const commands = followsCommands(obs, vitals);
+  if (commands === undefined) missing.push('Follows simple commands');
+  else if (!commands) reasons.push('Does not follow simple commands');
+
+  if (reasons.length) return { category: 'Immediate', reasons, missing: [] };
+  if (obs.walking === undefined) missing.unshift('Able to walk');
+  if (missing.length) return { reasons: [], missing };
+  return { category: 'Delayed', reasons: ['Not walking; breathing, perfusion and mental status within START limits'], missing: [] };
+};
+
+/**
+ * SALT (Sort, Assess, Lifesaving interventions, Treatment/Transport). A patient failing any of the
+ * four individual checks is Immediate unless judged unlikely to survive with current resources;
+ * until that judgement is recorded they are treated as likely to survive.
+ */
+const saltTriage = (obs: TriageObservations, vitals: VitalSigns): TriageAssessment => {
+  const apnoea = apnoeic(obs, vitals);
+  if (apnoea) return apnoea;
+
+  const checks: [string, boolean | undefined, string][] = [
+    ['Obeys commands or makes purposeful movements', followsCommands(obs, vitals), 'Does not obey commands'],
+    ['Peripheral pulse', perfused(obs), 'No peripheral pulse'],
+    ['Not in respiratory distress', vitals.respiratoryRate !== undefined ? vitals.respiratoryRate <= 30 : undefined, `Respiratory distress (RR ${vitals.respiratoryRate})`],
+    ['Major haemorrhage controlled', obs.uncontrolledHaemorrhage === undefined ? undefined : !obs.uncontrolledHaemorrhage, 'Uncontrolled major haemorrhage'],
+  ];
+  const failed = checks.filter(([, passed]) => passed === false).map(([, , failure]) => failure);
+  const missing = checks.filter(([, passed]) => passed === undefined).map(([label]) => label);
+
+  if (failed.length) {
+    if (obs.likelyToSurvive === false) {
+      return { category: 'Expectant', reasons: [...failed, 'Judged unlikely to survive with current resources'], missing: [] };
+    }
+    const assumed = obs.likelyToSurvive === undefined ? ['Survivability not yet judged; treated as likely to survive'] : [];
+    return { category: 'Immediate', reasons: [...failed, ...assumed], missing: [] };
+  }
+  if (missing.length) return { reasons: [], missing };
+  if (obs.minorInjuriesOnly === undefined) return { reasons: [], missing: ['Minor injuries only'] };
+  return obs.minorInjuriesOnly
+    ? { category: 'Minimal', reasons: ['Passes all SALT checks with minor injuries only'], missing: [] }
+    : { category: 'Delayed', reasons: ['Passes all SALT checks but has more than minor injuries'], missing: [] };
+};
+
+export const assessTriage = (method: TriageMethod, obs: TriageObservations, vitals: VitalSigns = {}): TriageAssessment =>
+  method === 'SALT' ? saltTriage(obs, sanitiseVitals(vitals)) : startTriage(obs, sanitiseVitals(vitals));
+
+// Untriaged patients sit just below Immediate: they may well be Immediate and need assessing next.
+const CATEGORY_RANK: Record<TriageCategory | 'Untriaged', number> = {
+  Immediate: 0,
+  Untriaged: 1,
+  Delayed: 2,
+  Minimal: 3,
+  Expectant: 4,
+  Dead: 5,
+};
+
+const SEVERITY_RANK: Record<TraumaAnalysis['severityScore'], number> = { Critical: 0, High: 1, Moderate: 2, Low: 3 };
+
+export interface BoardEntry {
+  category?: TriageCategory;
+  severity?: TraumaAnalysis['severityScore'];
+  expectedIss?: number;
+}
+
+/**
+ * Board order: triage category first, then predicted severity and expected ISS, with patients
+ * still awaiting analysis after the analysed ones in their category.
+ */
+export const compareBoardEntries = (a: BoardEntry, b: BoardEntry): number =>
+  CATEGORY_RANK[a.category ?? 'Untriaged'] - CATEGORY_RANK[b.category ?? 'Untriaged'] ||
+  (a.severity ? SEVERITY_RANK[a.severity] : 4) - (b.severity ? SEVERITY_RANK[b.severity] : 4) ||
+  (b.expectedIss ?? -1) - (a.expectedIss ?? -1);
@@ -0,0 +1,44 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateTraumaAnalysis } from './validation';
+
+const response = (...probabilities: unknown[]) => ({
+  summary: 'Rider thrown over the handlebars.',
+  severityScore: 'High',
+  immediateActions: ['Primary survey'],
+  predictedInjuries: probabilities.map((probability, index) => ({
+    bodyRegion: 'Head',
+    injuryName: `Injury ${index + 1}`,
+    probability,
+    aisSeverity: 3,
+  })),
+});
+
+const probabilities = (raw: unknown) => validateTraumaAnalysis(raw).analysis.predictedInjuries.map(injury => injury.probability);
+
+describe('validateTraumaAnalysis probabilities', () => {
+  it('keeps probabilities already on the 0–1 scale', () => {
+    const { analysis, warnings } = validateTraumaAnalysis(response(0.85, 0.4, 1));
+    assert.deepEqual(analysis.predictedInjuries.map(injury => injury.probability), [0.85, 0.4, 1]);
+    assert.deepEqual(warnings, []);
+  });
+
+  it('clamps a slight overshoot to 1 instead of reading it as a percentage', () => {
+    const { analysis, warnings } = validateTraumaAnalysis(response(0.85, 1.2));
+    assert.deepEqual(analysis.predictedInjuries.map(injury => injury.probability), [0.85, 1]);
+    assert.deepEqual(warnings, ['predictedInjuries[1].probability 1.2 normalised to 1']);
+  });
+
+  it('reads values clearly on the percent scale as percentages', () => {
+    assert.deepEqual(probabilities(response(0.85, 40)), [0.85, 0.4]);
+    assert.deepEqual(probabilities(response('85%', '0.3')), [0.85, 0.3]);
+  });
+
+  it('reads small values as percentages when every probability in the answer is above 1', () => {
+    assert.deepEqual(probabilities(response(1.2, 60, 5)), [0.012, 0.6, 0.05]);
+  });
+
+  it('drops probabilities above 100 or below 0', () => {
+    assert.deepEqual(probabilities(response(0.5, 150, -0.1)), [0.5]);
+  });
+});
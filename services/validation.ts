@@ -0,0 +1,352 @@
+import { AisSeverity, CrashParameterKey, CrashParameters, InferredParameter, PhotoFinding, PredictedInjury, TraumaAnalysis, WhatIfScenario } from "../types";
+import { CRASH_PARAMETER_KEYS, parseCrashParameter } from "./crashParameters";
+import { isAnatomicalRegion, isIssBodyRegion, issRegionFor, normaliseRegion } from "./anatomy";
+
+export const SEVERITY_LEVELS: TraumaAnalysis['severityScore'][] = ['Low', 'Moderate', 'High', 'Critical'];
+
+/**
+ * Raised when a model response cannot be repaired into a usable `TraumaAnalysis`.
+ * `issues` lists each rejected field so the UI can show what was wrong.
+ */
+export class AnalysisValidationError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(message);
+    this.name = 'AnalysisValidationError';
+    this.issues = issues;
+  }
+}
+
+export interface ValidationOutcome {
+  analysis: TraumaAnalysis;
+  warnings: string[]; // fields that were repaired rather than rejected
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const nonEmptyString = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+// Above this a bare number can only be a percentage; between 1 and this it is read as a slight overshoot.
+const PERCENT_THRESHOLD = 1.5;
+
+const bareNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string' || value.includes('%')) return null;
+  const parsed = parseFloat(value);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+/**
+ * True when every probability in the list is a bare number above 1, i.e. the model answered in percent.
+ */
+const usesPercentScale = (injuries: unknown[]): boolean => {
+  const values = injuries.map(item => (isRecord(item) ? bareNumber(item.probability) : null));
+  return values.length > 0 && values.every(n => n !== null && n > 1);
+};
+
+/**
+ * Normalises a probability to 0–1. "85%" strings are accepted. A bare number in (1, 100] is a
+ * percentage when it exceeds `PERCENT_THRESHOLD` or `percentScale` says the whole answer is in
+ * percent; otherwise it is clamped to 1. Anything else is rejected.
+ */
+const normaliseProbability = (value: unknown, percentScale: boolean): { value: number; repaired: boolean } | null => {
+  let n = value;
+  let repaired = false;
+  if (typeof n === 'string') {
+    const parsed = parseFloat(n.replace('%', ''));
+    if (Number.isNaN(parsed)) return null;
+    n = n.includes('%') ? parsed / 100 : parsed;
+    repaired = true;
+  }
+  if (typeof n !== 'number' || !Number.isFinite(n) || n < 0) return null;
+  if (n > 1) {
+    if (n > 100) return null;
+    return { value: percentScale || n > PERCENT_THRESHOLD ? n / 100 : 1, repaired: true };
+  }
+  return { value: n, repaired };
+};
+
+/**
+ * AIS must be an integer 1–6; near-integers ("3", 3.0) are accepted.
+ */
+const normaliseAis = (value: unknown): AisSeverity | null => {
+  const n = typeof value === 'string' ? Number(value) : value;
+  if (typeof n !== 'number' || !Number.isInteger(n) || n < 1 || n > 6) return null;
+  return n as AisSeverity;
+};
+
+const normaliseSeverity = (value: unknown): TraumaAnalysis['severityScore'] | null => {
+  if (typeof value !== 'string') return null;
+  return SEVERITY_LEVELS.find(level => level.toLowerCase() === value.trim().toLowerCase()) ?? null;
+};
+
+// Photo references must name one of the photos actually sent (1-based).
+const isPhotoNumber = (value: unknown, photoCount: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= photoCount;
+
+const validateInjury = (
+  raw: unknown,
+  index: number,
+  issues: string[],
+  warnings: string[],
+  photoCount = 0,
+  percentScale = false
+): PredictedInjury | null => {
+  const label = `predictedInjuries[${index}]`;
+  if (!isRecord(raw)) {
+    issues.push(`${label} is not an object`);
+    return null;
+  }
+  const bodyRegion = nonEmptyString(raw.bodyRegion);
+  const injuryName = nonEmptyString(raw.injuryName);
+  const probability = normaliseProbability(raw.probability, percentScale);
+  const aisSeverity = normaliseAis(raw.aisSeverity);
+  if (!bodyRegion) issues.push(`${label}.bodyRegion is missing`);
+  if (!injuryName) issues.push(`${label}.injuryName is missing`);
+  if (!probability) issues.push(`${label}.probability ${JSON.stringify(raw.probability)} is not a probability`);
+  if (!aisSeverity) issues.push(`${label}.aisSeverity ${JSON.stringify(raw.aisSeverity)} is not an AIS grade 1–6`);
+  if (!bodyRegion || !injuryName || !probability || !aisSeverity) return null;
+  if (probability.repaired) {
+    warnings.push(`${label}.probability ${JSON.stringify(raw.probability)} normalised to ${probability.value}`);
+  }
+  if (raw.anatomicalRegion !== undefined && !isAnatomicalRegion(raw.anatomicalRegion)) {
+    warnings.push(`${label}.anatomicalRegion ${JSON.stringify(raw.anatomicalRegion)} replaced by normalised region`);
+  }
+  const anatomicalRegion = isAnatomicalRegion(raw.anatomicalRegion) ? raw.anatomicalRegion : normaliseRegion(bodyRegion, injuryName);
+  if (raw.issRegion !== undefined && !isIssBodyRegion(raw.issRegion)) {
+    warnings.push(`${label}.issRegion ${JSON.stringify(raw.issRegion)} replaced by region derived from ${anatomicalRegion}`);
+  }
+  const sourcePhotos = Array.isArray(raw.sourcePhotos) ? raw.sourcePhotos.filter(n => isPhotoNumber(n, photoCount)) : [];
+  if (Array.isArray(raw.sourcePhotos) && sourcePhotos.length !== raw.sourcePhotos.length) {
+    warnings.push(`${label}.sourcePhotos ${JSON.stringify(raw.sourcePhotos)} referred to photos that were not sent`);
+  }
+  return {
+    bodyRegion,
+    anatomicalRegion,
+    injuryName,
+    probability: probability.value,
+    aisSeverity,
+    issRegion: isIssBodyRegion(raw.issRegion) ? raw.issRegion : issRegionFor(anatomicalRegion, `${bodyRegion} ${injuryName}`),
+    physicsExplanation: nonEmptyString(raw.physicsExplanation) ?? 'Not provided.',
+    anatomyVulnerability: nonEmptyString(raw.anatomyVulnerability) ?? 'Not provided.',
+    ...(sourcePhotos.length ? { sourcePhotos: [...new Set(sourcePhotos)].sort((a, b) => a - b) } : {}),
+    // Checked against the rules that apply to the patient by applyPopulationRules.
+    ...(nonEmptyString(raw.populationRule) ? { populationRule: nonEmptyString(raw.populationRule)! } : {}),
+  };
+};
+
+const validateInferred = (raw: unknown, warnings: string[]): InferredParameter[] => {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    warnings.push('inferredParameters is not an array and was ignored');
+    return [];
+  }
+  return raw.flatMap((item, index): InferredParameter[] => {
+    if (!isRecord(item) || !CRASH_PARAMETER_KEYS.includes(item.parameter as CrashParameterKey) || !nonEmptyString(item.value)) {
+      warnings.push(`inferredParameters[${index}] dropped`);
+      return [];
+    }
+    return [{
+      parameter: item.parameter as CrashParameterKey,
+      value: nonEmptyString(item.value)!,
+      rationale: nonEmptyString(item.rationale) ?? '',
+    }];
+  });
+};
+
+const validatePhotoFindings = (raw: unknown, photoCount: number, warnings: string[]): PhotoFinding[] => {
+  if (raw === undefined || photoCount === 0) return [];
+  if (!Array.isArray(raw)) {
+    warnings.push('photoFindings is not an array and was ignored');
+    return [];
+  }
+  return raw.flatMap((item, index): PhotoFinding[] => {
+    if (!isRecord(item) || !isPhotoNumber(item.photo, photoCount) || !nonEmptyString(item.finding)) {
+      warnings.push(`photoFindings[${index}] dropped`);
+      return [];
+    }
+    return [{ photo: item.photo, finding: nonEmptyString(item.finding)!, implication: nonEmptyString(item.implication) ?? '' }];
+  });
+};
+
+/**
+ * Checks an untrusted model response against the `TraumaAnalysis` contract. Repairable fields are
+ * normalised and reported as warnings; invalid injuries are dropped. Throws `AnalysisValidationError`
+ * when the core of the analysis (summary, severity, injury list, actions) is unusable.
+ */
+export const validateTraumaAnalysis = (raw: unknown, photoCount = 0): ValidationOutcome => {
+  const issues: string[] = [];
+  const warnings: string[] = [];
+
+  if (!isRecord(raw)) {
+    throw new AnalysisValidationError('Analysis response is not a JSON object');
+  }
+
+  const summary = nonEmptyString(raw.summary);
+  if (!summary) issues.push('summary is missing');
+
+  const severityScore = normaliseSeverity(raw.severityScore);
+  if (!severityScore) {
+    issues.push(`severityScore ${JSON.stringify(raw.severityScore)} is not one of ${SEVERITY_LEVELS.join(', ')}`);
+  } else if (severityScore !== raw.severityScore) {
+    warnings.push(`severityScore ${JSON.stringify(raw.severityScore)} normalised to ${severityScore}`);
+  }
+
+  let predictedInjuries: PredictedInjury[] = [];
+  if (!Array.isArray(raw.predictedInjuries)) {
+    issues.push('predictedInjuries is not an array');
+  } else {
+    const injuryIssues: string[] = [];
+    const percentScale = usesPercentScale(raw.predictedInjuries);
+    predictedInjuries = raw.predictedInjuries
+      .map((item, index) => validateInjury(item, index, injuryIssues, warnings, photoCount, percentScale))
+      .filter((item): item is PredictedInjury => item !== null);
+    // A partially bad list is repaired by dropping entries; an entirely bad one is rejected.
+    if (raw.predictedInjuries.length > 0 && predictedInjuries.length === 0) {
+      issues.push(...injuryIssues);
+    } else {
+      warnings.push(...injuryIssues.map(issue => `${issue} (entry dropped)`));
+    }
+  }
+
+  let immediateActions: string[] = [];
+  if (!Array.isArray(raw.immediateActions)) {
+    issues.push('immediateActions is not an array');
+  } else {
+    immediateActions = raw.immediateActions.map(nonEmptyString).filter((a): a is string => a !== null);
+    if (immediateActions.length !== raw.immediateActions.length) {
+      warnings.push('immediateActions contained empty or non-text entries that were dropped');
+    }
+  }
+
+  if (issues.length) {
+    throw new AnalysisValidationError(`Analysis response failed validation (${issues.length} issue${issues.length > 1 ? 's' : ''})`, issues);
+  }
+
+  return {
+    analysis: {
+      summary: summary!,
+      severityScore: severityScore!,
+      predictedInjuries,
+      immediateActions,
+      inferredParameters: validateInferred(raw.inferredParameters, warnings),
+      ...(photoCount > 0 ? { photoFindings: validatePhotoFindings(raw.photoFindings, photoCount, warnings) } : {}),
+    },
+    warnings,
+  };
+};
+
+// Empty text is rejected rather than treated as `{}`.
+const parseJsonText = (text: string | undefined): unknown => {
+  if (!text || !text.trim()) {
+    throw new AnalysisValidationError('Model returned an empty response');
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new AnalysisValidationError('Model response is not valid JSON');
+  }
+};
+
+/**
+ * Parses raw model text and validates it. `photoCount` is how many photos were sent with the prompt.
+ */
+export const parseTraumaAnalysis = (text: string | undefined, photoCount = 0): ValidationOutcome =>
+  validateTraumaAnalysis(parseJsonText(text), photoCount);
+
+/**
+ * Validates a family briefing response. Every string must be present: a briefing with a missing
+ * action would silently tell the family less than the clinical record says.
+ */
+export const parseFamilyBriefing = (text: string | undefined, expectedActions: number): { summary: string; immediateActions: string[] } => {
+  const raw = parseJsonText(text);
+  const issues: string[] = [];
+  if (!isRecord(raw)) throw new AnalysisValidationError('Response is not a JSON object');
+  const summary = nonEmptyString(raw.summary);
+  if (!summary) issues.push('summary is missing');
+  const actions = Array.isArray(raw.immediateActions) ? raw.immediateActions.map(nonEmptyString) : [];
+  if (actions.length !== expectedActions || actions.some(a => a === null)) {
+    issues.push(`immediateActions has ${actions.filter(Boolean).length} usable entries, expected ${expectedActions}`);
+  }
+  if (issues.length) throw new AnalysisValidationError('Family briefing failed validation', issues);
+  return { summary: summary as string, immediateActions: actions as string[] };
+};
+
+export interface CaseAnswer {
+  answer: string;
+  whatIf?: WhatIfScenario;
+  warnings: string[];
+}
+
+/**
+ * Validates a follow-up chat reply. Parameter changes that don't fit their parameter are dropped
+ * with a warning; a what-if with no usable change at all is downgraded to a plain answer.
+ */
+export const parseCaseAnswer = (text: string | undefined): CaseAnswer => {
+  const raw = parseJsonText(text);
+  if (!isRecord(raw)) throw new AnalysisValidationError('Response is not a JSON object');
+  const answer = nonEmptyString(raw.answer);
+  if (!answer) throw new AnalysisValidationError('Chat reply failed validation', ['answer is missing']);
+
+  const warnings: string[] = [];
+  if (raw.isWhatIf !== true) return { answer, warnings };
+
+  const overrides: CrashParameters = {};
+  const changes = Array.isArray(raw.parameterChanges) ? raw.parameterChanges : [];
+  changes.forEach((change, idx) => {
+    if (!isRecord(change) || !CRASH_PARAMETER_KEYS.includes(change.parameter as CrashParameterKey)) {
+      warnings.push(`parameterChanges[${idx}] names an unknown parameter`);
+      return;
+    }
+    const key = change.parameter as CrashParameterKey;
+    const value = parseCrashParameter(key, String(change.value ?? ''));
+    if (value === undefined) {
+      warnings.push(`parameterChanges[${idx}] value ${JSON.stringify(change.value)} is not valid for ${key}`);
+      return;
+    }
+    (overrides as Record<CrashParameterKey, unknown>)[key] = value;
+  });
+  const narrativeAddendum = nonEmptyString(raw.narrativeAddendum) ?? undefined;
+
+  if (!Object.keys(overrides).length && !narrativeAddendum) {
+    warnings.push('what-if reply has no usable change; treated as a plain answer');
+    return { answer, warnings };
+  }
+  return {
+    answer,
+    whatIf: { description: nonEmptyString(raw.scenarioDescription) ?? answer, overrides, narrativeAddendum },
+    warnings,
+  };
+};
+
+/**
+ * Best-effort view of an analysis that is still streaming in. Only fields that already pass
+ * validation are included; nothing is reported, since missing fields may simply not have arrived.
+ */
+export const validatePartialAnalysis = (raw: unknown, photoCount = 0): Partial<TraumaAnalysis> => {
+  if (!isRecord(raw)) return {};
+  const partial: Partial<TraumaAnalysis> = {};
+  const ignored: string[] = [];
+
+  const summary = nonEmptyString(raw.summary);
+  if (summary) partial.summary = summary;
+
+  const severityScore = normaliseSeverity(raw.severityScore);
+  if (severityScore) partial.severityScore = severityScore;
+
+  if (Array.isArray(raw.immediateActions)) {
+    partial.immediateActions = raw.immediateActions.map(nonEmptyString).filter((a): a is string => a !== null);
+  }
+
+  if (Array.isArray(raw.predictedInjuries)) {
+    const percentScale = usesPercentScale(raw.predictedInjuries);
+    partial.predictedInjuries = raw.predictedInjuries
+      .map((item, index) => validateInjury(item, index, ignored, ignored, photoCount, percentScale))
+      .filter((item): item is PredictedInjury => item !== null);
+  }
+
+  return partial;
+};
@@ -0,0 +1,215 @@
+import { LiveServerMessage, Modality, Session } from "@google/genai";
+import {
+  TARGET_SAMPLE_RATE,
+  concatSamples,
+  createPreRoll,
+  createResampler,
+  createVoiceActivityDetector,
+  encodePcmBlob,
+  meterLevel,
+  rms,
+} from "./pcm";
+import { getGeminiClient } from "./geminiClient";
+
+export const LIVE_TRANSCRIPTION_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+export type VoiceCaptureStatus = 'connecting' | 'listening' | 'speaking' | 'reconnecting' | 'stopped';
+
+export interface VoiceCaptureCallbacks {
+  onTranscript: (text: string) => void;
+  onStatus: (status: VoiceCaptureStatus) => void;
+  onLevel: (level: number) => void; // 0–1, for the input meter
+  onError: (error: Error) => void; // fatal; capture has already been torn down
+}
+
+export interface VoiceCapture {
+  stop: () => void;
+}
+
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY_MS = 500;
+
+// Runs on the audio rendering thread. Render quanta are only 128 frames, so they are batched
+// into ~40 ms chunks before being posted to the main thread.
+const RECORDER_WORKLET = `
+class RecorderProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.buffer = new Float32Array(Math.round(sampleRate * 0.04));
+    this.length = 0;
+  }
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) {
+      for (let i = 0; i < channel.length; i++) {
+        this.buffer[this.length++] = channel[i];
+        if (this.length === this.buffer.length) {
+          this.port.postMessage(this.buffer.slice());
+          this.length = 0;
+        }
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('recorder-processor', RecorderProcessor);
+`;
+
+const SYSTEM_INSTRUCTION = 'You are a silent transcriber for a medical trauma app. Just transcribe what the user says exactly. Do not respond verbally.';
+
+/**
+ * Starts microphone capture and live transcription. Audio is captured at the device's native rate
+ * by an AudioWorklet, resampled to 16 kHz, and only sent while the voice-activity detector hears
+ * speech, together with a short pre-roll from just before it opened. If the live session drops, it is reopened with backoff while the microphone stays open.
+ */
+export const startVoiceCapture = async (callbacks: VoiceCaptureCallbacks): Promise<VoiceCapture> => {
+  const ai = getGeminiClient();
+  callbacks.onStatus('connecting');
+
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true },
+  });
+  const context = new AudioContext();
+  const workletUrl = URL.createObjectURL(new Blob([RECORDER_WORKLET], { type: 'application/javascript' }));
+
+  let session: Session | null = null;
+  let stopped = false;
+  let speaking = false;
+  let reconnectAttempts = 0;
+  let connection = 0; // id of the newest connection attempt; events from older ones are ignored
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let source: MediaStreamAudioSourceNode | null = null;
+  let recorder: AudioWorkletNode | null = null;
+
+  const resampler = createResampler(context.sampleRate, TARGET_SAMPLE_RATE);
+  const vad = createVoiceActivityDetector();
+  const preRoll = createPreRoll();
+
+  const teardown = () => {
+    stopped = true;
+    clearTimeout(reconnectTimer);
+    const open = session;
+    session = null;
+    try {
+      open?.close();
+    } catch (error) {
+      console.warn('Failed to close live session', error);
+    }
+    if (recorder) {
+      recorder.port.onmessage = null;
+      recorder.disconnect();
+    }
+    source?.disconnect();
+    stream.getTracks().forEach(track => track.stop());
+    context.close().catch(() => undefined);
+    URL.revokeObjectURL(workletUrl);
+    callbacks.onLevel(0);
+  };
+
+  const fail = (error: Error) => {
+    if (stopped) return;
+    teardown();
+    callbacks.onStatus('stopped');
+    callbacks.onError(error);
+  };
+
+  const scheduleReconnect = (attempt: number) => {
+    if (stopped || attempt !== connection) return;
+    connection++;
+    session = null;
+    if (reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+      fail(new Error('Voice transcription connection lost'));
+      return;
+    }
+    const delay = RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttempts;
+    reconnectAttempts++;
+    callbacks.onStatus('reconnecting');
+    reconnectTimer = setTimeout(connect, delay);
+  };
+
+  async function connect() {
+    const attempt = ++connection;
+    try {
+      const opened = await ai.live.connect({
+        model: LIVE_TRANSCRIPTION_MODEL,
+        callbacks: {
+          onopen: () => {
+            reconnectAttempts = 0;
+          },
+          onmessage: (message: LiveServerMessage) => {
+            const text = message.serverContent?.inputTranscription?.text;
+            if (text) callbacks.onTranscript(text);
+          },
+          onerror: (event) => {
+            console.error('Live API error:', event);
+          },
+          onclose: () => {
+            // A close we didn't ask for is a dropout.
+            scheduleReconnect(attempt);
+          },
+        },
+        config: {
+          responseModalities: [Modality.AUDIO],
+          inputAudioTranscription: {},
+          systemInstruction: SYSTEM_INSTRUCTION,
+        },
+      });
+      if (stopped || attempt !== connection) {
+        opened.close();
+        return;
+      }
+      session = opened;
+      callbacks.onStatus(speaking ? 'speaking' : 'listening');
+    } catch (error) {
+      console.error('Live API connection failed:', error);
+      scheduleReconnect(attempt);
+    }
+  }
+
+  const handleChunk = (chunk: Float32Array) => {
+    if (stopped) return;
+    const frameMs = (chunk.length / context.sampleRate) * 1000;
+    callbacks.onLevel(meterLevel(rms(chunk)));
+
+    const wasSpeaking = speaking;
+    speaking = vad.update(chunk, frameMs);
+    const samples = resampler.process(chunk);
+    if (!speaking) preRoll.push(samples);
+    if (!session) return;
+
+    if (speaking !== wasSpeaking) callbacks.onStatus(speaking ? 'speaking' : 'listening');
+    if (speaking) {
+      // The onset frame goes out with the audio just before it, so the first syllable isn't clipped.
+      const audio = wasSpeaking ? samples : concatSamples([preRoll.take(), samples]);
+      session.sendRealtimeInput({ audio: encodePcmBlob(audio) });
+    } else if (wasSpeaking) {
+      // Lets the server finalise the transcript of the utterance that just ended.
+      session.sendRealtimeInput({ audioStreamEnd: true });
+    }
+  };
+
+  try {
+    await context.audioWorklet.addModule(workletUrl);
+    source = context.createMediaStreamSource(stream);
+    recorder = new AudioWorkletNode(context, 'recorder-processor', { numberOfInputs: 1, numberOfOutputs: 0 });
+    recorder.port.onmessage = (event: MessageEvent<Float32Array>) => handleChunk(event.data);
+    source.connect(recorder);
+    // The track itself can end (device unplugged, permission revoked); that is not recoverable here.
+    stream.getAudioTracks().forEach(track => {
+      track.onended = () => fail(new Error('Microphone disconnected'));
+    });
+  } catch (error) {
+    teardown();
+    throw error;
+  }
+
+  await connect();
+
+  return {
+    stop: () => {
+      if (stopped) return;
+      teardown();
+      callbacks.onStatus('stopped');
+    },
+  };
+};
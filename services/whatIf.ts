@@ -0,0 +1,28 @@
+import { AccidentData, AnalysisProviderId, WhatIfResult, WhatIfScenario } from "../types";
+import { runAnalysis } from "./analysisService";
+
+/**
+ * Builds the hypothetical case: structured overrides replace the reported values, and any
+ * free-text change is appended to the narrative so the analysis sees it as a stated fact.
+ */
+export const applyWhatIf = (data: AccidentData, scenario: WhatIfScenario): AccidentData => ({
+  ...data,
+  ...scenario.overrides,
+  accidentDescription: scenario.narrativeAddendum
+    ? `${data.accidentDescription}\n\nHYPOTHETICAL CHANGE: ${scenario.narrativeAddendum}`
+    : data.accidentDescription,
+});
+
+/**
+ * Re-analyses a what-if on the provider that produced the original analysis, so the diff
+ * reflects the scenario rather than a difference between models.
+ */
+export const runWhatIf = async (
+  data: AccidentData,
+  scenario: WhatIfScenario,
+  providerId: AnalysisProviderId,
+  signal?: AbortSignal
+): Promise<WhatIfResult> => {
+  const result = await runAnalysis(applyWhatIf(data, scenario), providerId, { signal });
+  return { scenario, analysis: result.analysis, source: result.source };
+};
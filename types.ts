@@ -1,14 +1,156 @@
+export type VehicleType = 'Motorcycle' | 'Car' | 'Rickshaw' | 'Bus/Wagon' | 'Truck' | 'Tractor/Trolley' | 'Bicycle';
 
-export interface AccidentData {
+export type CollisionPartner = VehicleType | 'Pedestrian' | 'Fixed Object' | 'None (Skid/Fall)';
+
+export type ImpactType = 'Frontal' | 'Side (T-bone)' | 'Rear' | 'Rollover' | 'Run-over' | 'Fall from Vehicle';
+
+export type PatientPosition = 'Driver/Rider' | 'Front Passenger' | 'Rear Passenger' | 'Pillion' | 'Pedestrian' | 'Cyclist';
+
+// Structured crash parameters. All optional: the narrative stays the primary input.
+export interface CrashParameters {
+  patientVehicle?: VehicleType;
+  collisionPartner?: CollisionPartner;
+  impactType?: ImpactType;
+  patientPosition?: PatientPosition;
+  estimatedSpeedKmh?: number;
+  helmetUsed?: boolean;
+  seatbeltUsed?: boolean;
+  ejected?: boolean;
+  minutesSinceImpact?: number;
+}
+
+export type CrashParameterKey = keyof CrashParameters;
+
+export interface VitalSigns {
+  gcsEye?: number; // 1–4
+  gcsVerbal?: number; // 1–5
+  gcsMotor?: number; // 1–6
+  systolicBp?: number; // mmHg
+  respiratoryRate?: number; // breaths/min
+  heartRate?: number; // beats/min
+  spo2?: number; // %
+}
+
+export type PatientSex = 'Male' | 'Female';
+
+export type Anticoagulation = 'None' | 'Warfarin' | 'DOAC' | 'Heparin/LMWH' | 'Antiplatelet (not aspirin alone)' | 'Aspirin only';
+
+export type Comorbidity =
+  | 'Osteoporosis'
+  | 'Bleeding disorder'
+  | 'Chronic liver disease'
+  | 'Chronic kidney disease'
+  | 'Heart failure'
+  | 'COPD'
+  | 'Diabetes'
+  | 'Dementia';
+
+// Who the patient is, as far as it changes the injury pattern or its risks. All optional.
+export interface PatientProfile {
+  ageYears?: number;
+  sex?: PatientSex;
+  pregnant?: boolean;
+  gestationWeeks?: number;
+  anticoagulation?: Anticoagulation;
+  betaBlocker?: boolean; // blunts the tachycardic response to blood loss
+  comorbidities?: Comorbidity[];
+}
+
+// A scene or vehicle photo, already downscaled and re-encoded in the browser, so it carries no EXIF or location.
+export interface ScenePhoto {
+  id: string;
+  fileName: string;
+  mimeType: 'image/jpeg';
+  data: string; // base64, no data: prefix
+  width: number;
+  height: number;
+  caption?: string; // what the photo shows, e.g. "patient's motorcycle, front fork"
+}
+
+export interface AccidentData extends CrashParameters {
   accidentDescription: string;
+  vitals?: VitalSigns;
+  patient?: PatientProfile;
+  phiTerms?: string[]; // extra identifying text marked by the user; redacted, never sent
+  photos?: ScenePhoto[]; // numbered from 1 in this order in prompts and findings
+}
+
+export interface InferredParameter {
+  parameter: CrashParameterKey;
+  value: string;
+  rationale: string;
 }
 
+export type AnatomicalRegion =
+  | 'Head'
+  | 'Face'
+  | 'Neck'
+  | 'Spine'
+  | 'Chest'
+  | 'Abdomen'
+  | 'Pelvis'
+  | 'Upper Limb'
+  | 'Lower Limb'
+  | 'Skin/Soft Tissue'
+  | 'Unspecified';
+
+export type AisSeverity = 1 | 2 | 3 | 4 | 5 | 6; // Abbreviated Injury Scale: minor … maximal (unsurvivable)
+
+// The six body regions used by the Injury Severity Score.
+export type IssBodyRegion = 'Head/Neck' | 'Face' | 'Chest' | 'Abdomen' | 'Extremities' | 'External';
+
 export interface PredictedInjury {
-  bodyRegion: string;
+  bodyRegion: string; // as named by the provider
+  anatomicalRegion: AnatomicalRegion; // normalised for the body map and per-region statistics
   injuryName: string;
   probability: number; // 0 to 1
+  aisSeverity: AisSeverity;
+  issRegion: IssBodyRegion;
   physicsExplanation: string;
   anatomyVulnerability: string;
+  sourcePhotos?: number[]; // 1-based numbers of the photos that support this injury
+  populationRule?: string; // id of the special-population rule that added or raised this injury
+  consensus?: InjuryConsensus; // ensemble analyses only
+}
+
+// How the members of an ensemble agreed on one injury. A member that did not predict the
+// injury counts as probability 0, so disagreement shows up as spread.
+export interface InjuryConsensus {
+  mean: number;
+  sd: number;
+  min: number;
+  max: number;
+  votes: number; // members that predicted it
+  members: number; // members that returned an analysis
+  probabilities: Record<string, number>; // by ensemble member id, only for members that predicted it
+}
+
+export interface EnsembleMemberSummary {
+  id: string;
+  label: string;
+  model: string;
+  status: 'done' | 'failed';
+  severityScore?: TraumaAnalysis['severityScore'];
+  injuryCount?: number;
+  error?: string;
+}
+
+export type SpecialPopulation = 'Paediatric' | 'Geriatric' | 'Pregnancy' | 'Anticoagulated' | 'Medication';
+
+// A special-population rule that applied to the case, with what it means for this patient.
+export interface PopulationWarning {
+  ruleId: string;
+  population: SpecialPopulation;
+  title: string;
+  detail: string;
+  reference: string;
+}
+
+// Something visible in a scene photo and what it implies about the forces involved.
+export interface PhotoFinding {
+  photo: number; // 1-based, in the order the photos were attached
+  finding: string;
+  implication: string;
 }
 
 export interface TraumaAnalysis {
@@ -16,4 +158,162 @@ export interface TraumaAnalysis {
   predictedInjuries: PredictedInjury[];
   severityScore: 'Low' | 'Moderate' | 'High' | 'Critical';
   immediateActions: string[];
+  inferredParameters: InferredParameter[]; // crash parameters not reported but inferred from the narrative
+  photoFindings?: PhotoFinding[]; // only when photos were sent
+  populationWarnings?: PopulationWarning[]; // only when a special-population rule applied
+  ensemble?: EnsembleMemberSummary[]; // set when several models were combined
+}
+
+export type AnalysisProviderId = 'gemini' | 'rule-engine' | 'ensemble';
+
+export interface AnalysisProvider {
+  id: AnalysisProviderId;
+  label: string;
+  model: string;
+  requiresNetwork: boolean;
+  analyze: (data: AccidentData, signal?: AbortSignal) => Promise<TraumaAnalysis>;
+  // Providers that can stream report the validated fields received so far through onPartial.
+  analyzeStream?: (data: AccidentData, onPartial: (partial: Partial<TraumaAnalysis>) => void, signal?: AbortSignal) => Promise<TraumaAnalysis>;
+}
+
+export interface AnalysisSource {
+  providerId: AnalysisProviderId;
+  providerLabel: string;
+  model: string;
+  fallbackReason?: string; // set when a preferred provider failed and this one stood in
+}
+
+export interface AnalysisResult {
+  analysis: TraumaAnalysis;
+  source: AnalysisSource;
+}
+
+export type InjuryOutcomeStatus = 'confirmed' | 'ruled-out' | 'not-assessed';
+
+export interface MissedInjury {
+  injuryName: string;
+  anatomicalRegion: AnatomicalRegion;
+}
+
+// Clinical work-up result recorded against a case's predictions.
+export interface CaseOutcome {
+  recordedAt: string;
+  injuryStatus: Record<string, InjuryOutcomeStatus>; // keyed by injuryKey() of each predicted injury
+  missedInjuries: MissedInjury[]; // confirmed injuries the analysis did not predict
+}
+
+// Plain-language Urdu rendering of the summary and actions for briefing relatives.
+// The English analysis remains the clinical record; this is never fed back into it.
+export interface FamilyBriefing {
+  language: 'ur';
+  summary: string;
+  immediateActions: string[];
+  generatedAt: string;
+  model: string;
+}
+
+// A hypothetical change to the case proposed in the follow-up chat ("what if a helmet was worn?").
+export interface WhatIfScenario {
+  description: string;
+  overrides: CrashParameters; // parameters replaced in the revised case
+  narrativeAddendum?: string; // appended to the narrative for changes that are not a structured parameter
+}
+
+export interface WhatIfResult {
+  scenario: WhatIfScenario;
+  analysis: TraumaAnalysis;
+  source: AnalysisSource;
+}
+
+export interface CaseChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  createdAt: string;
+  whatIf?: WhatIfResult; // assistant replies that triggered a re-analysis
+  whatIfError?: string;
+}
+
+export interface CaseRecord {
+  id: string;
+  createdAt: string; // ISO timestamp of the analysis
+  label?: string; // free-text bed or patient reference, e.g. "Bed 4"
+  data: AccidentData;
+  analysis: TraumaAnalysis;
+  source: AnalysisSource;
+  outcome?: CaseOutcome;
+  familyBriefing?: FamilyBriefing;
+  chat?: CaseChatMessage[];
+}
+
+// Retrospective batch analysis of registry narratives imported from CSV or JSONL.
+export interface BatchRow {
+  rowId: string; // the file's id column, otherwise the line number
+  line: number; // where the row starts in the imported file
+  data: AccidentData;
+  knownDiagnoses: string[]; // carried through to the export for comparison; never sent
+}
+
+export interface BatchImportIssue {
+  line: number;
+  message: string;
+  skipped: boolean; // true when the row could not be imported at all
+}
+
+export interface BatchJob {
+  id: string;
+  createdAt: string;
+  fileName: string;
+  providerId: AnalysisProviderId; // one provider for the whole job, so results are comparable
+  rows: BatchRow[];
+  issues: BatchImportIssue[];
+}
+
+export interface BatchRowResult {
+  jobId: string;
+  rowId: string;
+  status: 'done' | 'failed';
+  completedAt: string;
+  analysis?: TraumaAnalysis;
+  source?: AnalysisSource;
+  error?: string;
+}
+
+// Mass-casualty incidents: one scene, several patients, each analysed as its own case.
+export type TriageMethod = 'START' | 'SALT';
+
+// START and SALT share the colour categories. START has no separate expectant group.
+export type TriageCategory = 'Immediate' | 'Delayed' | 'Minimal' | 'Expectant' | 'Dead';
+
+// Bedside triage observations that the vital signs don't cover. Unset means not yet assessed.
+export interface TriageObservations {
+  walking?: boolean;
+  breathesAfterAirway?: boolean; // only asked of patients with a respiratory rate of 0
+  radialPulse?: boolean;
+  capillaryRefillSec?: number;
+  followsCommands?: boolean; // falls back to GCS motor 6 when unset
+  uncontrolledHaemorrhage?: boolean; // SALT
+  minorInjuriesOnly?: boolean; // SALT
+  likelyToSurvive?: boolean; // SALT: given the resources currently available
+}
+
+export interface IncidentPatient {
+  id: string;
+  label: string; // triage tag or bed, e.g. "P3"
+  data: AccidentData; // this patient's details; blank crash parameters take the scene's value
+  triage: TriageObservations;
+  triageOverride?: TriageCategory; // set by the triage officer, replaces the computed category
+  status: 'draft' | 'queued' | 'done' | 'failed';
+  caseId?: string; // the saved case holding the full analysis
+  error?: string;
+}
+
+export interface Incident {
+  id: string;
+  createdAt: string;
+  name: string;
+  method: TriageMethod;
+  sceneDescription: string;
+  scene: CrashParameters; // shared mechanism, e.g. the bus and what it hit
+  patients: IncidentPatient[];
 }